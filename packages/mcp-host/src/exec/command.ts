@@ -0,0 +1,121 @@
+/**
+ * Commands executed inside the tool container.
+ *
+ * Tools build commands as argv arrays that are handed to `docker exec`
+ * unchanged, so user-supplied values (test patterns, file names) always reach
+ * the program as discrete arguments and are never interpreted by a shell.
+ * When shell features are genuinely needed, the script must be a constant
+ * chosen by the tool, values are passed as positional parameters (`$1`, ...)
+ * and every run is audited.
+ */
+export type Command = ArgvCommand | ShellCommand;
+
+export interface ArgvCommand {
+  kind: 'argv';
+  argv: string[];
+}
+
+export interface ShellCommand {
+  kind: 'shell';
+  script: string;
+  // Positional parameters available to the script as $1, $2, ...
+  args: string[];
+  // Why a shell is required, recorded in the audit log
+  reason: string;
+}
+
+export class CommandValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandValidationError';
+  }
+}
+
+// Program names are looked up on PATH or given as paths, never as shell words
+const PROGRAM_PATTERN = /^[A-Za-z0-9_./+-]+$/;
+
+function assertSafeArgument(value: string, description: string): void {
+  if (typeof value !== 'string') {
+    throw new CommandValidationError(`${description} must be a string`);
+  }
+  if (value.includes('\0')) {
+    throw new CommandValidationError(`${description} must not contain NUL bytes`);
+  }
+}
+
+/**
+ * Creates an argv command. The first element is the program to run.
+ */
+export function argv(program: string, ...args: string[]): ArgvCommand {
+  if (!PROGRAM_PATTERN.test(program)) {
+    throw new CommandValidationError(`Invalid program name: ${JSON.stringify(program)}`);
+  }
+  args.forEach((arg, index) => assertSafeArgument(arg, `Argument ${index + 1} of ${program}`));
+  return { kind: 'argv', argv: [program, ...args] };
+}
+
+/**
+ * Creates an explicit shell command. `script` must be a constant owned by the
+ * calling tool; anything user-controlled belongs in `args`.
+ */
+export function shellScript(script: string, reason: string, args: string[] = []): ShellCommand {
+  if (!reason.trim()) {
+    throw new CommandValidationError('Shell commands must state why a shell is required');
+  }
+  args.forEach((arg, index) => assertSafeArgument(arg, `Shell argument $${index + 1}`));
+  return { kind: 'shell', script, args, reason };
+}
+
+/**
+ * Validates a user-supplied value that is passed to a program as a positional
+ * argument. Values starting with `-` are rejected so they cannot be read as
+ * options by the receiving program (e.g. `--config=/tmp/evil.js`).
+ */
+export function userArgument(value: string, description: string): string {
+  assertSafeArgument(value, description);
+  if (value.startsWith('-')) {
+    throw new CommandValidationError(`${description} must not start with "-": ${JSON.stringify(value)}`);
+  }
+  if (/[\r\n]/.test(value)) {
+    throw new CommandValidationError(`${description} must be a single line`);
+  }
+  return value;
+}
+
+/**
+ * Escapes `$` for values assigned to make variables on the command line,
+ * where `$(shell ...)` would otherwise be expanded when the variable is used.
+ */
+export function makeVariableValue(value: string): string {
+  return value.replace(/\$/g, '$$$$');
+}
+
+/**
+ * The argv that runs the command inside the container.
+ */
+export function toExecArgv(command: Command): string[] {
+  if (command.kind === 'argv') {
+    return [...command.argv];
+  }
+  // $0 is set to a fixed name so positional parameters start at $1
+  return ['bash', '-c', command.script, 'roo-shell', ...command.args];
+}
+
+function quoteForDisplay(value: string): string {
+  return /^[A-Za-z0-9_./:=@%+,-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Human readable rendering of a command for logs. Never executed.
+ */
+export function describeCommand(command: Command): string {
+  if (command.kind === 'argv') {
+    return command.argv.map(quoteForDisplay).join(' ');
+  }
+  const args = command.args.length > 0 ? ` -- ${command.args.map(quoteForDisplay).join(' ')}` : '';
+  return `bash -c ${quoteForDisplay(command.script)}${args}`;
+}
+
+export function describeCommands(commands: Command[]): string {
+  return commands.map(describeCommand).join(' && ');
+}
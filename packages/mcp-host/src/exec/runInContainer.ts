@@ -1,45 +1,239 @@
 import { spawn } from 'child_process';
+import { randomBytes } from 'crypto';
 import { LogStream } from '../util/logStream';
+import { Command, describeCommand, toExecArgv } from './command';
+import { getRuntime } from './runtime';
+import { CONTAINER_WORK_ROOT } from '../fs/sandbox';
 
-// Sanitize input to prevent command injection
-function sanitizeCommand(command: string): string {
-  // Escape special characters that could be used for command injection
-  return command.replace(/["`$\\]/g, '\\$&');
+export type ExecStatus = 'completed' | 'cancelled' | 'timed_out';
+
+export interface ExecOptions {
+  // Aborts the command, e.g. when the MCP client cancels the tool call
+  signal?: AbortSignal;
+  // Kills the command once it has been running for this long
+  timeoutMs?: number;
+  // Extra environment variables for the command
+  env?: Record<string, string>;
+  // Working directory inside the container (default: /work)
+  workDir?: string;
+}
+
+export interface ExecResult {
+  success: boolean;
+  exitCode: number | null;
+  // Combined stdout and stderr, as streamed to onLog
+  log: string;
+  // stdout alone, for tools that parse command output
+  stdout: string;
+  status: ExecStatus;
+}
+
+// Grace period between SIGTERM and SIGKILL when stopping a command
+const KILL_GRACE_MS = 5000;
+
+// Every process started by an exec inherits ROO_EXEC_ID, so the whole process
+// tree inside the container can be found through /proc even after daemonising.
+const KILL_SCRIPT = [
+  'for p in /proc/[0-9]*; do',
+  '  if tr "\\000" "\\n" < "$p/environ" 2>/dev/null | grep -qx "ROO_EXEC_ID=$2"; then',
+  '    kill "-$1" "${p#/proc/}" 2>/dev/null',
+  '  fi',
+  'done',
+].join('\n');
+
+// Docker names start with an alphanumeric, which also keeps them from reading as options
+const CONTAINER_NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_-]*$/;
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function killInContainer(containerName: string, execId: string, signal: 'TERM' | 'KILL'): Promise<void> {
+  return new Promise((resolve) => {
+    const killer = spawn(getRuntime().binary, ['exec', containerName, 'sh', '-c', KILL_SCRIPT, 'roo-kill', signal, execId]);
+    killer.on('close', () => resolve());
+    killer.on('error', () => resolve());
+  });
+}
+
+/**
+ * Builds the `docker exec` argument list for a command, which `podman exec`
+ * accepts as well. The command's argv is
+ * appended verbatim, no shell is involved unless the command is a
+ * {@link ShellCommand}.
+ */
+export function buildDockerExecArgs(
+  containerName: string,
+  command: Command,
+  execId: string,
+  options: Pick<ExecOptions, 'env' | 'workDir'> = {}
+): string[] {
+  if (!CONTAINER_NAME_PATTERN.test(containerName)) {
+    throw new Error(`Invalid container name: ${containerName}`);
+  }
+  const envArgs: string[] = [];
+  for (const [name, value] of Object.entries(options.env ?? {})) {
+    if (!ENV_NAME_PATTERN.test(name) || name === 'ROO_EXEC_ID') {
+      throw new Error(`Invalid environment variable name: ${name}`);
+    }
+    envArgs.push('-e', `${name}=${value}`);
+  }
+  return [
+    'exec', '-i',
+    ...envArgs,
+    '-e', `ROO_EXEC_ID=${execId}`,
+    '-w', options.workDir ?? CONTAINER_WORK_ROOT,
+    containerName,
+    ...toExecArgv(command),
+  ];
+}
+
+// Shell use is rare and deliberate, so every occurrence leaves a trace on stderr
+function auditShellUse(containerName: string, command: Command, onLog: (log: string) => void): void {
+  if (command.kind !== 'shell') {
+    return;
+  }
+  const record = {
+    event: 'shell-exec',
+    container: containerName,
+    reason: command.reason,
+    script: command.script,
+    args: command.args,
+    timestamp: new Date().toISOString(),
+  };
+  console.error(`[audit] ${JSON.stringify(record)}`);
+  onLog(`Running shell script in ${containerName} (${command.reason})`);
+}
+
+/**
+ * Remaining time until a deadline, for tools that run several commands
+ * under a single `timeoutMs` budget.
+ */
+export function remainingTimeout(deadline: number | undefined): number | undefined {
+  return deadline === undefined ? undefined : Math.max(0, deadline - Date.now());
 }
 
 export async function runInContainer(
   containerName: string,
-  command: string,
-  onLog: (log: string) => void
-): Promise<{ success: boolean; exitCode: number | null; log: string }> {
+  command: Command,
+  onLog: (log: string) => void,
+  options: ExecOptions = {}
+): Promise<ExecResult> {
   const logStream = new LogStream(onLog);
-  
-  // Validate container name to prevent injection
-  if (!/^[a-zA-Z0-9_-]+$/.test(containerName)) {
-    const errorMsg = `Invalid container name: ${containerName}`;
+  const { signal, timeoutMs } = options;
+  const execId = randomBytes(8).toString('hex');
+
+  let args: string[];
+  try {
+    args = buildDockerExecArgs(containerName, command, execId, options);
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    onLog(errorMsg);
+    return { success: false, exitCode: 1, log: errorMsg, stdout: '', status: 'completed' };
+  }
+
+  if (signal?.aborted) {
+    const errorMsg = 'Command cancelled before it started.';
+    onLog(errorMsg);
+    return { success: false, exitCode: null, log: errorMsg, stdout: '', status: 'cancelled' };
+  }
+
+  if (timeoutMs !== undefined && timeoutMs <= 0) {
+    const errorMsg = 'Command timed out before it started.';
     onLog(errorMsg);
-    return { success: false, exitCode: 1, log: errorMsg };
+    return { success: false, exitCode: null, log: errorMsg, stdout: '', status: 'timed_out' };
   }
 
-  // Sanitize the command to prevent command injection
-  const sanitizedCommand = sanitizeCommand(command);
-  
-  // Use argument array instead of shell string to prevent injection
-  const args = ['exec', '-i', containerName, 'bash', '-lc', sanitizedCommand];
+  auditShellUse(containerName, command, onLog);
 
   return new Promise((resolve) => {
-    const child = spawn('docker', args, { cwd: '/work' });
+    // /work only exists inside the container; the client runs wherever mcp-host does
+    const child = spawn(getRuntime().binary, args);
+    let status: ExecStatus = 'completed';
+    let timer: NodeJS.Timeout | undefined;
+    let forceKillTimer: NodeJS.Timeout | undefined;
+    const stdoutChunks: Buffer[] = [];
+
+    const stop = (reason: Exclude<ExecStatus, 'completed'>, message: string) => {
+      if (status !== 'completed') {
+        return;
+      }
+      status = reason;
+      logStream.write(`\n${message}\n`);
+
+      // Killing the local docker/podman client does not stop the command inside the
+      // container, so signal the process tree there first.
+      killInContainer(containerName, execId, 'TERM');
+      forceKillTimer = setTimeout(() => {
+        killInContainer(containerName, execId, 'KILL');
+        child.kill('SIGKILL');
+      }, KILL_GRACE_MS);
+    };
+
+    const onAbort = () => stop('cancelled', 'Command cancelled by client request.');
+    signal?.addEventListener('abort', onAbort, { once: true });
 
-    child.stdout.pipe(logStream);
-    child.stderr.pipe(logStream);
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => stop('timed_out', `Command timed out after ${timeoutMs}ms.`), timeoutMs);
+    }
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      clearTimeout(forceKillTimer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    child.stdout.on('data', (chunk: Buffer) => stdoutChunks.push(chunk));
+    child.stdout.pipe(logStream, { end: false });
+    child.stderr.pipe(logStream, { end: false });
 
     child.on('close', (code) => {
-      resolve({ success: code === 0, exitCode: code, log: logStream.log });
+      cleanup();
+      if (status !== 'completed') {
+        // Sweep up anything in the tree that ignored SIGTERM
+        killInContainer(containerName, execId, 'KILL');
+      }
+      resolve({
+        success: status === 'completed' && code === 0,
+        exitCode: code,
+        log: logStream.log,
+        stdout: Buffer.concat(stdoutChunks).toString('utf8'),
+        status,
+      });
     });
 
     child.on('error', (err) => {
+      cleanup();
       onLog(`Failed to start subprocess: ${err.message}`);
-      resolve({ success: false, exitCode: 1, log: logStream.log + err.message });
+      resolve({ success: false, exitCode: 1, log: logStream.log + err.message, stdout: '', status });
     });
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Runs commands one after another, stopping at the first failure. The
+ * optional timeout applies to the sequence as a whole.
+ */
+export async function runSequence(
+  containerName: string,
+  commands: Command[],
+  onLog: (log: string) => void,
+  options: ExecOptions = {}
+): Promise<ExecResult> {
+  const deadline = options.timeoutMs === undefined ? undefined : Date.now() + options.timeoutMs;
+  let log = '';
+  let stdout = '';
+  let result: ExecResult = { success: true, exitCode: 0, log: '', stdout: '', status: 'completed' };
+
+  for (const command of commands) {
+    onLog(`$ ${describeCommand(command)}\n`);
+    result = await runInContainer(containerName, command, onLog, {
+      ...options,
+      timeoutMs: remainingTimeout(deadline),
+    });
+    log += result.log;
+    stdout += result.stdout;
+    if (!result.success) {
+      break;
+    }
+  }
+
+  return { ...result, log, stdout };
+}
@@ -0,0 +1,100 @@
+import { spawn } from 'child_process';
+import { LogStream } from '../util/logStream';
+import { ArgvCommand } from './command';
+import { ExecResult, ExecStatus } from './runInContainer';
+
+export interface HostExecOptions {
+  // Directory on the host the command runs in
+  cwd: string;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Extra environment variables on top of mcp-host's own
+  env?: Record<string, string>;
+}
+
+// Grace period between SIGTERM and SIGKILL when stopping a command
+const KILL_GRACE_MS = 5000;
+
+/**
+ * Runs a command on the host rather than in the tool container, for the few
+ * tools that need host paths (git follows a worktree's .git file to the main
+ * checkout, which is not mounted). Only argv commands are accepted: nothing
+ * reaches a host shell. Results match runInContainer's.
+ */
+export async function runOnHost(
+  command: ArgvCommand,
+  onLog: (log: string) => void,
+  options: HostExecOptions
+): Promise<ExecResult> {
+  const logStream = new LogStream(onLog);
+  const { signal, timeoutMs } = options;
+
+  if (signal?.aborted) {
+    const errorMsg = 'Command cancelled before it started.';
+    onLog(errorMsg);
+    return { success: false, exitCode: null, log: errorMsg, stdout: '', status: 'cancelled' };
+  }
+
+  if (timeoutMs !== undefined && timeoutMs <= 0) {
+    const errorMsg = 'Command timed out before it started.';
+    onLog(errorMsg);
+    return { success: false, exitCode: null, log: errorMsg, stdout: '', status: 'timed_out' };
+  }
+
+  return new Promise((resolve) => {
+    const [program, ...args] = command.argv;
+    const child = spawn(program, args, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.env },
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+    let status: ExecStatus = 'completed';
+    let timer: NodeJS.Timeout | undefined;
+    let forceKillTimer: NodeJS.Timeout | undefined;
+    const stdoutChunks: Buffer[] = [];
+
+    const stop = (reason: Exclude<ExecStatus, 'completed'>, message: string) => {
+      if (status !== 'completed') {
+        return;
+      }
+      status = reason;
+      logStream.write(`\n${message}\n`);
+      child.kill('SIGTERM');
+      forceKillTimer = setTimeout(() => child.kill('SIGKILL'), KILL_GRACE_MS);
+    };
+
+    const onAbort = () => stop('cancelled', 'Command cancelled by client request.');
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => stop('timed_out', `Command timed out after ${timeoutMs}ms.`), timeoutMs);
+    }
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      clearTimeout(forceKillTimer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    child.stdout.on('data', (chunk: Buffer) => stdoutChunks.push(chunk));
+    child.stdout.pipe(logStream, { end: false });
+    child.stderr.pipe(logStream, { end: false });
+
+    child.on('close', (code) => {
+      cleanup();
+      resolve({
+        success: status === 'completed' && code === 0,
+        exitCode: code,
+        log: logStream.log,
+        stdout: Buffer.concat(stdoutChunks).toString('utf8'),
+        status,
+      });
+    });
+
+    child.on('error', (err) => {
+      cleanup();
+      onLog(`Failed to start subprocess: ${err.message}`);
+      resolve({ success: false, exitCode: 1, log: logStream.log + err.message, stdout: '', status });
+    });
+  });
+}
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type ContainerRuntimeName = 'docker' | 'podman';
+
+/**
+ * CLI used to exec into tool containers. Podman's `exec` accepts the same
+ * flags as Docker's, so runtimes differ only in the binary.
+ */
+export interface ContainerRuntime {
+  name: ContainerRuntimeName;
+  binary: string;
+}
+
+export const RUNTIMES: Record<ContainerRuntimeName, ContainerRuntime> = {
+  docker: { name: 'docker', binary: 'docker' },
+  podman: { name: 'podman', binary: 'podman' },
+};
+
+/**
+ * Looks up an executable on PATH, returning its full path.
+ */
+export function findExecutable(binary: string, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const extensions = process.platform === 'win32' ? (env.PATHEXT ?? '.EXE;.CMD').split(';') : [''];
+  for (const dir of (env.PATH ?? '').split(path.delimiter)) {
+    if (!dir) {
+      continue;
+    }
+    for (const extension of extensions) {
+      const candidate = path.join(dir, binary + extension.toLowerCase());
+      try {
+        fs.accessSync(candidate, fs.constants.X_OK);
+        return candidate;
+      } catch {
+        // Not here
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Picks the runtime from ROO_CONTAINER_RUNTIME (set by the extension to the
+ * engine it detected) or, when unset or `auto`, the first of docker and
+ * podman found on PATH. Falls back to docker so the failure names a binary.
+ */
+export function detectRuntime(
+  env: NodeJS.ProcessEnv = process.env,
+  find: (binary: string) => string | undefined = (binary) => findExecutable(binary, env)
+): ContainerRuntime {
+  const requested = env.ROO_CONTAINER_RUNTIME;
+  if (requested && requested !== 'auto') {
+    if (requested !== 'docker' && requested !== 'podman') {
+      throw new Error(`Unknown container runtime "${requested}", expected "docker", "podman" or "auto"`);
+    }
+    return RUNTIMES[requested];
+  }
+  return [RUNTIMES.docker, RUNTIMES.podman].find(runtime => find(runtime.binary)) ?? RUNTIMES.docker;
+}
+
+let runtime: ContainerRuntime | undefined;
+
+/**
+ * The runtime for this process, detected once on first use.
+ */
+export function getRuntime(): ContainerRuntime {
+  if (!runtime) {
+    runtime = detectRuntime();
+  }
+  return runtime;
+}
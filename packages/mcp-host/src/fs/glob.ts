@@ -0,0 +1,70 @@
+/**
+ * Converts a glob to a regular expression matched against sandbox-relative
+ * paths with forward slashes. Supports `*`, `**`, `?`, `[...]` and `{a,b}`.
+ * Patterns without a `/` match the file name in any directory, so `*.ts`
+ * behaves like `**\/*.ts`.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.includes('/') ? glob.replace(/^\.\//, '') : `**/${glob}`;
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    switch (char) {
+      case '*':
+        if (pattern[i + 1] === '*') {
+          const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+          const atSegmentEnd = i + 2 === pattern.length || pattern[i + 2] === '/';
+          if (atSegmentStart && atSegmentEnd) {
+            // `**/` matches zero or more directories
+            source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += pattern[i + 2] === '/' ? 2 : 1;
+            break;
+          }
+          i++;
+        }
+        source += '[^/]*';
+        break;
+      case '?':
+        source += '[^/]';
+        break;
+      case '[': {
+        const end = pattern.indexOf(']', i + 1);
+        if (end === -1) {
+          source += '\\[';
+          break;
+        }
+        let set = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+        if (set.startsWith('!')) {
+          set = `^${set.slice(1)}`;
+        }
+        source += `[${set}]`;
+        i = end;
+        break;
+      }
+      case '{':
+        braceDepth++;
+        source += '(?:';
+        break;
+      case '}':
+        if (braceDepth > 0) {
+          braceDepth--;
+          source += ')';
+        } else {
+          source += '\\}';
+        }
+        break;
+      case ',':
+        source += braceDepth > 0 ? '|' : ',';
+        break;
+      default:
+        source += char.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  if (braceDepth > 0) {
+    throw new Error(`Unbalanced braces in glob: ${glob}`);
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,90 @@
+import { Worker } from 'worker_threads';
+import { SandboxError } from './sandbox';
+
+// Matching of one file's lines may take this long before the search is stopped
+export const DEFAULT_MATCH_TIMEOUT_MS = 5000;
+
+// Plain JavaScript, evaluated in the worker: replies to each batch of lines
+// with the index of the first match in every line, or -1
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const regex = new RegExp(workerData.pattern, workerData.flags);
+parentPort.on('message', (lines) => {
+  parentPort.postMessage(lines.map((line) => {
+    const match = regex.exec(line);
+    return match ? match.index : -1;
+  }));
+});
+`;
+
+/**
+ * Matches lines against a caller's regular expression in a worker thread. A
+ * pattern that backtracks catastrophically only blocks the worker, which is
+ * terminated once a batch runs out of time or the signal aborts, instead of
+ * the event loop every session shares.
+ */
+export class LineMatcher {
+  private readonly worker: Worker;
+  // Settles the batch in flight when the worker fails or exits
+  private failPending: ((error: Error) => void) | undefined;
+  private exited = false;
+
+  constructor(
+    private readonly pattern: string,
+    flags: string,
+    private readonly timeoutMs: number = DEFAULT_MATCH_TIMEOUT_MS,
+    private readonly signal?: AbortSignal
+  ) {
+    this.worker = new Worker(WORKER_SOURCE, { eval: true, workerData: { pattern, flags } });
+    this.worker.on('error', (error) => this.failPending?.(error));
+    this.worker.on('exit', () => {
+      this.exited = true;
+      this.failPending?.(new Error('Search worker exited'));
+    });
+  }
+
+  /**
+   * @returns The 0-based column of the first match in each line, or -1.
+   * @throws SandboxError when matching takes longer than the timeout.
+   */
+  public match(lines: string[]): Promise<number[]> {
+    if (this.exited) {
+      return Promise.reject(new Error('Search worker exited'));
+    }
+    return new Promise<number[]>((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        this.signal?.removeEventListener('abort', onAbort);
+        this.worker.off('message', onMessage);
+        this.failPending = undefined;
+      };
+      const fail = (error: Error) => {
+        settle();
+        void this.worker.terminate();
+        reject(error);
+      };
+      const onMessage = (columns: number[]) => {
+        settle();
+        resolve(columns);
+      };
+      const onAbort = () => fail(new SandboxError('Search cancelled'));
+      const timer = setTimeout(
+        () => fail(new SandboxError(`Regular expression took longer than ${this.timeoutMs}ms to match; simplify it: ${this.pattern}`)),
+        this.timeoutMs
+      );
+
+      this.failPending = fail;
+      this.worker.on('message', onMessage);
+      this.signal?.addEventListener('abort', onAbort);
+      if (this.signal?.aborted) {
+        onAbort();
+        return;
+      }
+      this.worker.postMessage(lines);
+    });
+  }
+
+  public async close(): Promise<void> {
+    await this.worker.terminate();
+  }
+}
@@ -0,0 +1,239 @@
+export class PatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatchError';
+  }
+}
+
+export interface PatchHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  // Hunk body lines including their ' ', '-' or '+' prefix
+  lines: string[];
+  // Set by "\ No newline at end of file" markers
+  oldNoNewline: boolean;
+  newNoNewline: boolean;
+}
+
+export interface FilePatch {
+  // Undefined for /dev/null, i.e. a created or deleted file
+  oldPath?: string;
+  newPath?: string;
+  hunks: PatchHunk[];
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function parsePath(header: string): string | undefined {
+  // Strip optional timestamps separated by a tab, and quotes used by git for unusual names
+  let value = header.split('\t')[0].trim();
+  if (value.startsWith('"') && value.endsWith('"')) {
+    value = JSON.parse(value);
+  }
+  if (value === '/dev/null') {
+    return undefined;
+  }
+  return value.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parses a unified diff as produced by `diff -u` or `git diff`. Extended git
+ * headers (`diff --git`, `index`, modes) are tolerated and ignored.
+ */
+export function parseUnifiedDiff(text: string): FilePatch[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const files: FilePatch[] = [];
+  let current: FilePatch | undefined;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.startsWith('GIT binary patch') || line.startsWith('Binary files ')) {
+      throw new PatchError('Binary patches are not supported');
+    }
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      current = {
+        oldPath: parsePath(line.slice(4)),
+        newPath: parsePath(lines[i + 1].slice(4)),
+        hunks: [],
+      };
+      files.push(current);
+      i += 2;
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      if (!current) {
+        throw new PatchError(`Hunk without file header at line ${i + 1}`);
+      }
+      const hunk: PatchHunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: [],
+        oldNoNewline: false,
+        newNoNewline: false,
+      };
+      i = readHunkBody(lines, i + 1, hunk);
+      current.hunks.push(hunk);
+      continue;
+    }
+
+    i++;
+  }
+
+  if (files.length === 0) {
+    throw new PatchError('No file headers (---/+++) found in patch');
+  }
+  for (const file of files) {
+    if (file.oldPath === undefined && file.newPath === undefined) {
+      throw new PatchError('Patch has a file with neither an old nor a new path');
+    }
+    if (file.hunks.length === 0 && file.oldPath === file.newPath) {
+      throw new PatchError(`Patch for ${file.newPath} has no hunks`);
+    }
+  }
+  return files;
+}
+
+function readHunkBody(lines: string[], start: number, hunk: PatchHunk): number {
+  let oldSeen = 0;
+  let newSeen = 0;
+  let i = start;
+
+  while (i < lines.length && (oldSeen < hunk.oldLines || newSeen < hunk.newLines)) {
+    // Some editors strip the single space of empty context lines
+    const line = lines[i] === '' ? ' ' : lines[i];
+    const prefix = line[0];
+    if (prefix === ' ') {
+      oldSeen++;
+      newSeen++;
+    } else if (prefix === '-') {
+      oldSeen++;
+    } else if (prefix === '+') {
+      newSeen++;
+    } else if (prefix === '\\') {
+      markNoNewline(hunk);
+      i++;
+      continue;
+    } else {
+      break;
+    }
+    hunk.lines.push(line);
+    i++;
+  }
+
+  if (oldSeen !== hunk.oldLines || newSeen !== hunk.newLines) {
+    throw new PatchError(
+      `Hunk @@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@ ` +
+      `has ${oldSeen} old and ${newSeen} new lines`
+    );
+  }
+
+  if (lines[i]?.startsWith('\\')) {
+    markNoNewline(hunk);
+    i++;
+  }
+  return i;
+}
+
+function markNoNewline(hunk: PatchHunk): void {
+  const previous = hunk.lines[hunk.lines.length - 1];
+  if (previous === undefined) {
+    return;
+  }
+  if (previous[0] !== '+') {
+    hunk.oldNoNewline = true;
+  }
+  if (previous[0] !== '-') {
+    hunk.newNoNewline = true;
+  }
+}
+
+function splitLines(content: string): { lines: string[]; trailingNewline: boolean } {
+  if (content === '') {
+    return { lines: [], trailingNewline: true };
+  }
+  const lines = content.split('\n');
+  const trailingNewline = lines[lines.length - 1] === '';
+  if (trailingNewline) {
+    lines.pop();
+  }
+  return { lines, trailingNewline };
+}
+
+function matchesAt(lines: string[], expected: string[], position: number): boolean {
+  if (position < 0 || position + expected.length > lines.length) {
+    return false;
+  }
+  return expected.every((line, index) => lines[position + index] === line);
+}
+
+/**
+ * Applies the hunks of one file to its content. Hunks may have moved
+ * relative to their headers; the nearest exact match of their context is
+ * used. `original` is undefined for files the patch creates.
+ */
+export function applyFilePatch(original: string | undefined, file: FilePatch): string {
+  const { lines, trailingNewline } = splitLines(original ?? '');
+  let endsWithNewline = trailingNewline;
+  let offset = 0;
+  let minPosition = 0;
+
+  for (const hunk of file.hunks) {
+    const oldLines = hunk.lines.filter((line) => line[0] !== '+').map((line) => line.slice(1));
+    const newLines = hunk.lines.filter((line) => line[0] !== '-').map((line) => line.slice(1));
+
+    // A hunk without old lines inserts after line oldStart
+    const expected = (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + offset;
+    let position = -1;
+    for (let distance = 0; position === -1 && distance <= lines.length; distance++) {
+      for (const candidate of [expected - distance, expected + distance]) {
+        if (candidate >= minPosition && matchesAt(lines, oldLines, candidate)) {
+          position = candidate;
+          break;
+        }
+      }
+    }
+    if (position === -1) {
+      throw new PatchError(
+        `Hunk @@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@ ` +
+        `does not apply to ${file.oldPath ?? file.newPath}`
+      );
+    }
+
+    const touchesEnd = position + oldLines.length === lines.length;
+    lines.splice(position, oldLines.length, ...newLines);
+    if (touchesEnd) {
+      endsWithNewline = !hunk.newNoNewline;
+    }
+    offset += newLines.length - oldLines.length;
+    minPosition = position + newLines.length;
+  }
+
+  if (lines.length === 0) {
+    return '';
+  }
+  return lines.join('\n') + (endsWithNewline ? '\n' : '');
+}
+
+export function countChanges(file: FilePatch): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+  for (const hunk of file.hunks) {
+    for (const line of hunk.lines) {
+      if (line[0] === '+') {
+        additions++;
+      } else if (line[0] === '-') {
+        deletions++;
+      }
+    }
+  }
+  return { additions, deletions };
+}
@@ -0,0 +1,133 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// Mount point of the project worktree inside the tool container
+export const CONTAINER_WORK_ROOT = '/work';
+
+export const MAX_READ_BYTES = 1024 * 1024;
+export const MAX_WRITE_BYTES = 1024 * 1024;
+export const MAX_PATCH_BYTES = 1024 * 1024;
+export const MAX_LIST_ENTRIES = 2000;
+export const MAX_SEARCH_RESULTS = 500;
+// Files larger than this are skipped by fs.search
+export const MAX_SEARCH_FILE_BYTES = 512 * 1024;
+
+// Directories skipped by recursive listing and search unless named explicitly
+export const DEFAULT_IGNORED_DIRS = ['.git', 'node_modules'];
+
+// Files the agent may read but never modify through the file tools
+export const PROTECTED_PATHS = ['.roo/policy.json', '.roo/containers.json', '.roo/tool-image.json'];
+
+export class SandboxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SandboxError';
+  }
+}
+
+export interface SandboxPath {
+  // Absolute path on disk
+  absolute: string;
+  // Path relative to the sandbox root, '.' for the root itself
+  relative: string;
+}
+
+/**
+ * The project worktree on the filesystem mcp-host runs on, the only
+ * directory file tools may touch. mcp-host runs on the host and only execs
+ * into the container, so the launcher passes the host path of the worktree
+ * mounted at /work as ROO_WORK_ROOT.
+ */
+export function getWorkRoot(env: NodeJS.ProcessEnv = process.env): string {
+  return path.resolve(env.ROO_WORK_ROOT || CONTAINER_WORK_ROOT);
+}
+
+function isInside(root: string, candidate: string): boolean {
+  const relative = path.relative(root, candidate);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+async function realpathOrUndefined(target: string): Promise<string | undefined> {
+  try {
+    return await fs.realpath(target);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Resolves a user-supplied path against the sandbox root and rejects
+ * anything that escapes it, either lexically (`../`, absolute paths) or
+ * through symlinks. The path does not need to exist; for new files the
+ * nearest existing ancestor is checked instead.
+ */
+export async function resolveSandboxPath(requested: string, root: string = getWorkRoot()): Promise<SandboxPath> {
+  if (typeof requested !== 'string' || requested.length === 0) {
+    throw new SandboxError('Path must be a non-empty string');
+  }
+  if (requested.includes('\0')) {
+    throw new SandboxError('Path must not contain NUL bytes');
+  }
+
+  const absolute = path.resolve(root, requested);
+  if (!isInside(root, absolute)) {
+    throw new SandboxError(`Path is outside ${root}: ${requested}`);
+  }
+
+  const realRoot = (await realpathOrUndefined(root)) ?? root;
+  let existing = absolute;
+  let real = await realpathOrUndefined(existing);
+  while (real === undefined && existing !== root) {
+    existing = path.dirname(existing);
+    real = await realpathOrUndefined(existing);
+  }
+  if (real !== undefined && !isInside(realRoot, real)) {
+    throw new SandboxError(`Path resolves outside ${root} through a symlink: ${requested}`);
+  }
+
+  return { absolute, relative: path.relative(root, absolute) || '.' };
+}
+
+/**
+ * Rejects writes to files that govern the agent itself, such as the exec policy.
+ */
+export function assertWritable(target: SandboxPath): void {
+  const relative = toResultPath(target.relative);
+  if (PROTECTED_PATHS.includes(relative)) {
+    throw new SandboxError(`${relative} is protected and cannot be modified by file tools`);
+  }
+}
+
+/**
+ * Heuristic used by read and search: text files do not contain NUL bytes.
+ */
+export function isBinary(buffer: Buffer): boolean {
+  return buffer.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Writes through a temporary file in the same directory so readers never see
+ * a partially written file.
+ */
+export async function writeFileAtomic(absolute: string, content: string | Buffer): Promise<void> {
+  const temp = path.join(path.dirname(absolute), `.${path.basename(absolute)}.roo-${process.pid}-${Date.now()}.tmp`);
+  try {
+    await fs.writeFile(temp, content);
+    await fs.rename(temp, absolute);
+  } catch (error) {
+    await fs.rm(temp, { force: true });
+    throw error;
+  }
+}
+
+// Sandbox-relative paths always use forward slashes in results
+export function toResultPath(relative: string): string {
+  return relative.split(path.sep).join('/');
+}
+
+/**
+ * The same location as seen from inside the container, for commands run there.
+ */
+export function toContainerPath(target: SandboxPath): string {
+  return path.posix.join(CONTAINER_WORK_ROOT, toResultPath(target.relative));
+}
@@ -0,0 +1,239 @@
+import * as path from 'path';
+import { ArgvCommand, argv, userArgument } from '../exec/command';
+import { ExecResult } from '../exec/runInContainer';
+import { runOnHost } from '../exec/runOnHost';
+import { getWorkRoot, resolveSandboxPath, toResultPath } from '../fs/sandbox';
+import { ToolContext } from '../tools/toolContext';
+
+export class GitError extends Error {
+  constructor(message: string, public readonly log?: string) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+// Output of git.diff and git.log beyond this many bytes is cut off
+export const MAX_GIT_OUTPUT_BYTES = 512 * 1024;
+
+/**
+ * The track worktree as git sees it on the host. A worktree's .git is a file
+ * pointing into the main checkout's .git directory, which only resolves on
+ * the host, so git runs there rather than in the container.
+ */
+export interface GitWorktree {
+  // Host path of the worktree mounted at /work
+  workTree: string;
+  // The worktree's git directory as set up by the launcher. The container can
+  // rewrite the .git file, so when this is known that file is not consulted.
+  gitDir?: string;
+}
+
+/**
+ * Reads the worktree from ROO_WORK_ROOT and ROO_GIT_DIR, set by the launcher.
+ */
+export function getGitWorktree(env: NodeJS.ProcessEnv = process.env): GitWorktree {
+  return {
+    workTree: getWorkRoot(env),
+    gitDir: env.ROO_GIT_DIR ? path.resolve(env.ROO_GIT_DIR) : undefined,
+  };
+}
+
+/**
+ * Builds a git command for the worktree. Hooks and fsmonitor are disabled
+ * because they would run programs on the host that the track's content or
+ * configuration chose; paths are printed verbatim instead of C-quoted.
+ */
+export function git(worktree: GitWorktree, ...args: string[]): ArgvCommand {
+  const location = worktree.gitDir ? [`--git-dir=${worktree.gitDir}`, `--work-tree=${worktree.workTree}`] : [];
+  return argv(
+    'git',
+    ...location,
+    '-c', 'core.hooksPath=/dev/null',
+    '-c', 'core.fsmonitor=false',
+    '-c', 'core.quotepath=off',
+    ...args
+  );
+}
+
+export async function runGit(
+  worktree: GitWorktree,
+  args: string[],
+  context: ToolContext,
+  description: string = `git ${args[0]}`
+): Promise<ExecResult> {
+  const result = await runOnHost(git(worktree, ...args), context.onLog, {
+    cwd: worktree.workTree,
+    signal: context.signal,
+    // Never wait for credentials on a terminal nobody is watching
+    env: { GIT_TERMINAL_PROMPT: '0' },
+  });
+  if (result.status !== 'completed') {
+    throw new GitError(`${description} was ${result.status === 'cancelled' ? 'cancelled' : 'timed out'}`, result.log);
+  }
+  if (!result.success) {
+    throw new GitError(`${description} failed with exit code ${result.exitCode}: ${result.log.trim()}`, result.log);
+  }
+  return result;
+}
+
+/**
+ * Validates user-supplied paths for use after `--` in a git command.
+ */
+export async function pathspecs(worktree: GitWorktree, paths: string[] | undefined): Promise<string[]> {
+  const resolved: string[] = [];
+  for (const requested of paths ?? []) {
+    const target = await resolveSandboxPath(requested, worktree.workTree);
+    resolved.push(toResultPath(target.relative));
+  }
+  return resolved;
+}
+
+/**
+ * Validates a user-supplied revision such as `HEAD~3`, `main..feature` or a hash.
+ */
+export function revision(value: string, description: string): string {
+  userArgument(value, description);
+  if (!/^[A-Za-z0-9._/~^@{}:-]+$/.test(value)) {
+    throw new GitError(`${description} is not a valid revision: ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+export function truncateOutput(output: string): { text: string; truncated: boolean } {
+  if (Buffer.byteLength(output, 'utf8') <= MAX_GIT_OUTPUT_BYTES) {
+    return { text: output, truncated: false };
+  }
+  return { text: Buffer.from(output, 'utf8').subarray(0, MAX_GIT_OUTPUT_BYTES).toString('utf8'), truncated: true };
+}
+
+export interface GitFileStatus {
+  path: string;
+  // Previous path for renames and copies
+  origPath?: string;
+  // Porcelain status letters, '.' when unchanged
+  index: string;
+  worktree: string;
+  staged: boolean;
+  unstaged: boolean;
+  untracked: boolean;
+  conflicted: boolean;
+}
+
+export interface GitStatusSummary {
+  branch?: string;
+  upstream?: string;
+  ahead: number;
+  behind: number;
+  files: GitFileStatus[];
+}
+
+function fileStatus(xy: string, filePath: string, origPath?: string): GitFileStatus {
+  const [index, worktree] = xy;
+  return {
+    path: filePath,
+    ...(origPath ? { origPath } : {}),
+    index,
+    worktree,
+    staged: index !== '.' && index !== '?',
+    unstaged: worktree !== '.' && worktree !== '?',
+    untracked: xy === '??',
+    conflicted: false,
+  };
+}
+
+/**
+ * Parses `git status --porcelain=v2 --branch -z`.
+ */
+export function parseStatus(output: string): GitStatusSummary {
+  const summary: GitStatusSummary = { ahead: 0, behind: 0, files: [] };
+  const records = output.split('\0');
+
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    if (record.startsWith('# branch.head ')) {
+      const head = record.slice('# branch.head '.length);
+      summary.branch = head === '(detached)' ? undefined : head;
+    } else if (record.startsWith('# branch.upstream ')) {
+      summary.upstream = record.slice('# branch.upstream '.length);
+    } else if (record.startsWith('# branch.ab ')) {
+      const [ahead, behind] = record.slice('# branch.ab '.length).split(' ');
+      summary.ahead = Math.abs(Number(ahead));
+      summary.behind = Math.abs(Number(behind));
+    } else if (record.startsWith('1 ')) {
+      // 1 XY sub mH mI mW hH hI path
+      const fields = record.split(' ');
+      summary.files.push(fileStatus(fields[1], fields.slice(8).join(' ')));
+    } else if (record.startsWith('2 ')) {
+      // 2 XY sub mH mI mW hH hI Xscore path, followed by the original path
+      const fields = record.split(' ');
+      summary.files.push(fileStatus(fields[1], fields.slice(9).join(' '), records[++i]));
+    } else if (record.startsWith('u ')) {
+      // u XY sub m1 m2 m3 mW h1 h2 h3 path
+      const fields = record.split(' ');
+      summary.files.push({ ...fileStatus(fields[1], fields.slice(10).join(' ')), conflicted: true });
+    } else if (record.startsWith('? ')) {
+      summary.files.push(fileStatus('??', record.slice(2)));
+    }
+  }
+
+  return summary;
+}
+
+export interface GitNumstat {
+  path: string;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+/**
+ * Parses `git diff --numstat -z`.
+ */
+export function parseNumstat(output: string): GitNumstat[] {
+  const records = output.split('\0');
+  const files: GitNumstat[] = [];
+
+  for (let i = 0; i < records.length; i++) {
+    const match = /^(-|\d+)\t(-|\d+)\t(.*)$/s.exec(records[i]);
+    if (!match) {
+      continue;
+    }
+    // Renames leave the path empty and list the old and new path as the next records
+    let filePath = match[3];
+    if (filePath === '') {
+      i += 2;
+      filePath = records[i];
+    }
+    files.push({
+      path: filePath,
+      additions: match[1] === '-' ? 0 : Number(match[1]),
+      deletions: match[2] === '-' ? 0 : Number(match[2]),
+      binary: match[1] === '-',
+    });
+  }
+
+  return files;
+}
+
+export interface GitCommitInfo {
+  hash: string;
+  author: string;
+  email: string;
+  date: string;
+  subject: string;
+  body: string;
+}
+
+// Unit and record separators keep commit messages from breaking the format
+export const LOG_FORMAT = '--format=%H%x1f%an%x1f%ae%x1f%aI%x1f%s%x1f%b%x1e';
+
+export function parseLog(output: string): GitCommitInfo[] {
+  return output
+    .split('\x1e')
+    .map((record) => record.replace(/^\n/, ''))
+    .filter((record) => record.length > 0)
+    .map((record) => {
+      const [hash, author, email, date, subject, body = ''] = record.split('\x1f');
+      return { hash, author, email, date, subject, body: body.trim() };
+    });
+}
@@ -1,197 +1,90 @@
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
-import { buildProject } from './tools/buildProject';
-import { testRun } from './tools/testRun';
-import { lintFix } from './tools/lintFix';
+import { SERVER_INFO, createServer } from './server';
+import { startHttpTransport } from './transport/http';
 
-import { BuildProjectInputs, BuildProjectOutput } from './tools/buildProject';
-import { TestRunInputs, TestRunOutput } from './tools/testRun';
-import { LintFixOutput } from './tools/lintFix';
+type TransportMode = 'stdio' | 'http';
 
-// Initialize MCP server
-const server = new Server(
-  {
-    name: 'roo-mcp-host',
-    version: '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+export interface StartupOptions {
+  transport: TransportMode;
+  port: number;
+  host?: string;
+}
 
-// Helper function to get container name with validation
-function getContainerName(): string {
-  const containerName = process.env.CONTAINER_NAME || 'roo-container';
-  
-  // Validate container name format
-  if (!/^[a-zA-Z0-9_-]+$/.test(containerName)) {
-    throw new Error(`Invalid container name: ${containerName}`);
+const DEFAULT_PORT = 8000;
+
+function parseTransport(value: string): TransportMode {
+  if (value !== 'stdio' && value !== 'http') {
+    throw new Error(`Unknown transport "${value}", expected "stdio" or "http"`);
   }
-  
-  return containerName;
+  return value;
 }
 
-// Register build project tool
-server.setRequestHandler(
-  CallToolRequestSchema,
-  async (request) => {
-    const { name, arguments: args } = request.params;
+function parsePort(value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+    throw new Error(`Invalid port: ${value}`);
+  }
+  return port;
+}
 
-    try {
-      const containerName = getContainerName();
-      
-      switch (name) {
-        case 'build.project': {
-          const inputs: BuildProjectInputs = args || {};
-          const onLog = (log: string) => {
-            server.sendLoggingMessage({
-              level: 'info',
-              data: log,
-            });
-          };
-          
-          onLog(`Starting build process in container: ${containerName}`);
-          const result = await buildProject(containerName, inputs, onLog);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: result.log,
-              },
-            ],
-            isError: !result.success,
-          };
-        }
-        
-        case 'test.run': {
-          const inputs: TestRunInputs = args || {};
-          const onLog = (log: string) => {
-            server.sendLoggingMessage({
-              level: 'info',
-              data: log,
-            });
-          };
-          
-          onLog(`Starting test execution in container: ${containerName}`);
-          const result = await testRun(containerName, inputs, onLog);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: result.log,
-              },
-            ],
-            isError: !result.success,
-          };
-        }
-        
-        case 'lint.fix': {
-          const onLog = (log: string) => {
-            server.sendLoggingMessage({
-              level: 'info',
-              data: log,
-            });
-          };
-          
-          onLog(`Starting lint fix in container: ${containerName}`);
-          const result = await lintFix(containerName, onLog);
-          return {
-            content: [
-              {
-                type: 'text',
-                text: result.log,
-              },
-            ],
-            isError: !result.success,
-          };
-        }
-        
-        default:
-          throw new Error(`Unknown tool: ${name}`);
-      }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      await server.sendLoggingMessage({
-        level: 'error',
-        data: errorMessage,
-      });
-      
-      return {
-        content: [
-          {
-            type: 'text',
-            text: errorMessage,
-          },
-        ],
-        isError: true,
-      };
+/**
+ * Reads the startup options. Command line flags (`--transport=http`,
+ * `--http`, `--port=8123`, `--host=0.0.0.0`) win over the MCP_TRANSPORT,
+ * PORT and MCP_HOST environment variables. Setting PORT alone selects HTTP,
+ * which is how the extension's launcher starts the server.
+ */
+export function parseStartupOptions(argv: string[], env: NodeJS.ProcessEnv): StartupOptions {
+  const flags = new Map<string, string>();
+  for (const arg of argv) {
+    const match = /^--([a-z-]+)(?:=(.*))?$/.exec(arg);
+    if (match) {
+      flags.set(match[1], match[2] ?? 'true');
     }
   }
-);
 
-// List available tools
-server.setRequestHandler(
-  ListToolsRequestSchema,
-  async () => {
+  const portValue = flags.get('port') ?? env.PORT;
+  let transport: TransportMode = portValue ? 'http' : 'stdio';
+  if (flags.has('http')) {
+    transport = 'http';
+  } else if (flags.has('stdio')) {
+    transport = 'stdio';
+  } else if (flags.has('transport')) {
+    transport = parseTransport(flags.get('transport')!);
+  } else if (env.MCP_TRANSPORT) {
+    transport = parseTransport(env.MCP_TRANSPORT);
+  }
+
   return {
-    tools: [
-      {
-        name: 'build.project',
-        description: 'Builds the project using the detected package manager.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            install: {
-              type: 'boolean',
-              description: 'Whether to run install command before building (default: true)',
-              default: true,
-            },
-            target: {
-              type: 'string',
-              enum: ['dev', 'prod'],
-              description: 'Build target (default: "dev")',
-              default: 'dev',
-            },
-          },
-          required: [],
-        },
-      },
-      {
-        name: 'test.run',
-        description: 'Runs tests using the detected package manager.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            pattern: {
-              type: 'string',
-              description: 'Optional test pattern to run specific tests.',
-            },
-          },
-          required: [],
-        },
-      },
-      {
-        name: 'lint.fix',
-        description: 'Runs lint fix using the detected package manager.',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-          required: [],
-        },
-      },
-    ],
+    transport,
+    port: portValue ? parsePort(portValue) : DEFAULT_PORT,
+    host: flags.get('host') ?? env.MCP_HOST,
   };
-});
+}
 
 // Start the MCP server with error handling
 async function main() {
   try {
+    const options = parseStartupOptions(process.argv.slice(2), process.env);
+
+    if (options.transport === 'http') {
+      const httpServer = await startHttpTransport({
+        port: options.port,
+        host: options.host,
+        createServer,
+        serverInfo: SERVER_INFO,
+      });
+      const shutdown = () => {
+        httpServer.close(() => process.exit(0));
+        // Open SSE streams would otherwise keep the server alive
+        httpServer.closeAllConnections();
+      };
+      process.on('SIGTERM', shutdown);
+      process.on('SIGINT', shutdown);
+      console.error(`MCP host server listening on http://${options.host ?? '127.0.0.1'}:${options.port}/mcp`);
+      return;
+    }
+
+    const server = createServer();
     const transport = new StdioServerTransport();
     await server.connect(transport);
     console.error('MCP host server started successfully');
@@ -201,4 +94,7 @@ async function main() {
   }
 }
 
-main();
\ No newline at end of file
+// Imported by the tests for parseStartupOptions without starting a server
+if (require.main === module) {
+  main();
+}
@@ -0,0 +1,216 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getWorkRoot } from '../fs/sandbox';
+
+/**
+ * Policy controlling which commands `exec.run` may start in the container.
+ *
+ * Command patterns are whitespace separated tokens matched against the argv
+ * one argument at a time: `*` and `?` match within a single argument but not
+ * across `/`, and a `**` token matches any number of arguments. `tsc **`
+ * allows every tsc invocation, `npx prisma generate` exactly that command and
+ * `node scripts/*.js` only scripts directly inside `scripts/`.
+ *
+ * ```json
+ * {
+ *   "commands": { "allow": ["tsc **", "npx prisma generate"], "deny": ["** --unsafe-perm"] },
+ *   "env": { "passthrough": ["NODE_ENV"], "allow": ["DEBUG", "PRISMA_*"] },
+ *   "maxRuntimeMs": 600000
+ * }
+ * ```
+ */
+export interface ExecPolicy {
+  commands: {
+    allow: string[];
+    deny: string[];
+  };
+  env: {
+    // Host variables copied into the container when set
+    passthrough: string[];
+    // Variables the caller may set through the `env` input
+    allow: string[];
+  };
+  maxRuntimeMs: number;
+}
+
+export class PolicyViolationError extends Error {
+  constructor(message: string, public readonly rule?: string) {
+    super(`Policy violation: ${message}`);
+    this.name = 'PolicyViolationError';
+  }
+}
+
+export const DEFAULT_MAX_RUNTIME_MS = 10 * 60 * 1000;
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+// Set by runInContainer itself, see KILL_SCRIPT
+const RESERVED_ENV = ['ROO_EXEC_ID'];
+
+/**
+ * Location of the policy file. The extension's launcher points this at the
+ * main checkout, out of reach of the track's commands; the worktree's copy
+ * is only used by servers started by hand.
+ */
+export function policyPath(): string {
+  return process.env.ROO_POLICY_FILE || path.join(getWorkRoot(), '.roo', 'policy.json');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function section(value: unknown, field: string): Record<string, unknown> {
+  if (value === undefined) {
+    return {};
+  }
+  if (!isObject(value)) {
+    throw new Error(`Invalid policy: ${field} must be an object`);
+  }
+  return value;
+}
+
+function stringArray(value: unknown, field: string): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new Error(`Invalid policy: ${field} must be an array of strings`);
+  }
+  return value;
+}
+
+export function parsePolicy(content: string, source: string): ExecPolicy {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid policy ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isObject(raw)) {
+    throw new Error(`Invalid policy ${source}: expected an object`);
+  }
+  const commands = section(raw.commands, 'commands');
+  const env = section(raw.env, 'env');
+
+  const maxRuntimeMs = raw.maxRuntimeMs ?? DEFAULT_MAX_RUNTIME_MS;
+  if (typeof maxRuntimeMs !== 'number' || !(maxRuntimeMs > 0)) {
+    throw new Error(`Invalid policy ${source}: maxRuntimeMs must be a positive number`);
+  }
+
+  return {
+    commands: {
+      allow: stringArray(commands.allow, 'commands.allow'),
+      deny: stringArray(commands.deny, 'commands.deny'),
+    },
+    env: {
+      passthrough: stringArray(env.passthrough, 'env.passthrough'),
+      allow: stringArray(env.allow, 'env.allow'),
+    },
+    maxRuntimeMs,
+  };
+}
+
+/**
+ * Loads the policy on every call so edits take effect without a restart.
+ * A missing policy file disables `exec.run`.
+ */
+export async function loadPolicy(file: string = policyPath()): Promise<ExecPolicy> {
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    throw new PolicyViolationError(`no command policy found at ${file}, exec.run is disabled`);
+  }
+  return parsePolicy(content, file);
+}
+
+function wildcardToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') {
+        return '[^/]*';
+      }
+      if (char === '?') {
+        return '[^/]';
+      }
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+function matchTokens(tokens: string[], args: string[]): boolean {
+  if (tokens.length === 0) {
+    return args.length === 0;
+  }
+  const [token, ...rest] = tokens;
+  if (token === '**') {
+    for (let skip = 0; skip <= args.length; skip++) {
+      if (matchTokens(rest, args.slice(skip))) {
+        return true;
+      }
+    }
+    return false;
+  }
+  return args.length > 0 && wildcardToRegExp(token).test(args[0]) && matchTokens(rest, args.slice(1));
+}
+
+export function matchesCommandPattern(pattern: string, command: string[]): boolean {
+  return matchTokens(pattern.trim().split(/\s+/), command);
+}
+
+/**
+ * Throws unless the command is allowed. Deny patterns win over allow patterns.
+ */
+export function checkCommand(policy: ExecPolicy, command: string[]): void {
+  const display = command.join(' ');
+  const denied = policy.commands.deny.find((pattern) => matchesCommandPattern(pattern, command));
+  if (denied) {
+    throw new PolicyViolationError(`"${display}" matches deny pattern "${denied}"`, denied);
+  }
+  if (!policy.commands.allow.some((pattern) => matchesCommandPattern(pattern, command))) {
+    throw new PolicyViolationError(`"${display}" does not match any allow pattern`);
+  }
+}
+
+/**
+ * Builds the container environment: passthrough variables from the host
+ * plus caller-supplied variables the policy allows.
+ */
+export function resolveEnv(
+  policy: ExecPolicy,
+  requested: Record<string, string> = {},
+  hostEnv: NodeJS.ProcessEnv = process.env
+): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(hostEnv)) {
+    const passthrough = policy.env.passthrough.some((pattern) => wildcardToRegExp(pattern).test(name));
+    if (passthrough && value !== undefined && ENV_NAME_PATTERN.test(name) && !RESERVED_ENV.includes(name)) {
+      env[name] = value;
+    }
+  }
+
+  for (const [name, value] of Object.entries(requested)) {
+    if (!ENV_NAME_PATTERN.test(name) || RESERVED_ENV.includes(name)) {
+      throw new PolicyViolationError(`invalid environment variable name "${name}"`);
+    }
+    if (!policy.env.allow.some((pattern) => wildcardToRegExp(pattern).test(name))) {
+      throw new PolicyViolationError(`environment variable "${name}" is not allowed`);
+    }
+    if (typeof value !== 'string' || value.includes('\0')) {
+      throw new PolicyViolationError(`environment variable "${name}" must be a string without NUL bytes`);
+    }
+    env[name] = value;
+  }
+
+  return env;
+}
+
+/**
+ * Effective timeout: the caller's, capped at the policy's maximum runtime.
+ */
+export function effectiveTimeout(policy: ExecPolicy, requestedMs?: number): number {
+  return requestedMs === undefined ? policy.maxRuntimeMs : Math.min(requestedMs, policy.maxRuntimeMs);
+}
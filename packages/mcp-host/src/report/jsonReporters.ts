@@ -0,0 +1,170 @@
+import {
+  TestReport,
+  TestCaseResult,
+  TestCaseStatus,
+  TestSuiteResult,
+  buildReport,
+  locationFromStack,
+} from './testReport';
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseObject(content: string): JsonObject | undefined {
+  try {
+    const json: unknown = JSON.parse(content);
+    return isObject(json) ? json : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function stringField(value: JsonObject, key: string): string | undefined {
+  const field = value[key];
+  return typeof field === 'string' ? field : undefined;
+}
+
+function numberField(value: JsonObject, key: string): number | undefined {
+  const field = value[key];
+  return typeof field === 'number' ? field : undefined;
+}
+
+function objectsField(value: JsonObject, key: string): JsonObject[] {
+  const field = value[key];
+  return Array.isArray(field) ? field.filter(isObject) : [];
+}
+
+function stringsField(value: JsonObject, key: string): string[] {
+  const field = value[key];
+  return Array.isArray(field) ? field.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function stripAnsi(value: string): string {
+  return value.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+function toStatus(status: string | undefined): TestCaseStatus {
+  switch (status) {
+    case 'passed':
+      return 'passed';
+    case 'failed':
+      return 'failed';
+    default:
+      return 'skipped';
+  }
+}
+
+/**
+ * Parses the output of `jest --json` (also emitted by vitest's json reporter).
+ */
+export function parseJestJson(content: string, source: string): TestReport | undefined {
+  const json = parseObject(content);
+  if (!json || !Array.isArray(json.testResults)) {
+    return undefined;
+  }
+
+  const suites = objectsField(json, 'testResults').map((fileResult): TestSuiteResult => {
+    const file = stringField(fileResult, 'name');
+
+    const cases = objectsField(fileResult, 'assertionResults').map((assertion): TestCaseResult => {
+      const title = stringField(assertion, 'title') ?? '';
+      const testCase: TestCaseResult = {
+        name: title,
+        fullName: stringField(assertion, 'fullName') || [...stringsField(assertion, 'ancestorTitles'), title].join(' '),
+        status: toStatus(stringField(assertion, 'status')),
+        durationMs: numberField(assertion, 'duration'),
+      };
+
+      const failureMessages = stringsField(assertion, 'failureMessages').map(stripAnsi);
+      if (testCase.status === 'failed' && failureMessages.length > 0) {
+        const [message, ...stack] = failureMessages[0].split('\n');
+        testCase.failureMessage = message;
+        testCase.stackTrace = [message, ...stack].join('\n');
+      }
+
+      const location = assertion.location;
+      const line = isObject(location) ? numberField(location, 'line') : undefined;
+      if (isObject(location) && line !== undefined && file) {
+        testCase.location = { file, line, column: numberField(location, 'column') };
+      } else {
+        testCase.location = locationFromStack(testCase.stackTrace) ?? (file ? { file } : undefined);
+      }
+
+      return testCase;
+    });
+
+    // Suites that fail to load report a message but no assertions
+    const failure = stringField(fileResult, 'message');
+    if (cases.length === 0 && fileResult.status === 'failed' && failure) {
+      const message = stripAnsi(failure);
+      cases.push({
+        name: 'Test suite failed to run',
+        fullName: `${file ?? ''} Test suite failed to run`.trim(),
+        status: 'failed',
+        failureMessage: message.split('\n').find((line) => line.trim() !== '')?.trim() ?? message,
+        stackTrace: message,
+        location: locationFromStack(message) ?? (file ? { file } : undefined),
+      });
+    }
+
+    const startTime = numberField(fileResult, 'startTime');
+    const endTime = numberField(fileResult, 'endTime');
+    const durationMs = startTime !== undefined && endTime !== undefined ? endTime - startTime : undefined;
+
+    return { name: file ?? '(unknown)', file, durationMs, cases };
+  });
+
+  return buildReport('jest', source, suites);
+}
+
+/**
+ * Parses the output of mocha's built-in `json` reporter.
+ */
+export function parseMochaJson(content: string, source: string): TestReport | undefined {
+  const json = parseObject(content);
+  if (!json || !isObject(json.stats) || !Array.isArray(json.tests)) {
+    return undefined;
+  }
+
+  const fullTitles = (key: string) => new Set(objectsField(json, key).map((test) => stringField(test, 'fullTitle')));
+  const failed = fullTitles('failures');
+  const pending = fullTitles('pending');
+  const suitesByFile = new Map<string, TestSuiteResult>();
+
+  for (const test of objectsField(json, 'tests')) {
+    const file = stringField(test, 'file');
+    const key = file ?? '(root)';
+    if (!suitesByFile.has(key)) {
+      suitesByFile.set(key, { name: key, file, cases: [] });
+    }
+
+    const title = stringField(test, 'title') ?? '';
+    const fullTitle = stringField(test, 'fullTitle');
+    const err = isObject(test.err) && Object.keys(test.err).length > 0 ? test.err : undefined;
+    const status: TestCaseStatus = failed.has(fullTitle) || err
+      ? 'failed'
+      : pending.has(fullTitle) || test.pending
+        ? 'skipped'
+        : 'passed';
+
+    const testCase: TestCaseResult = {
+      name: title,
+      fullName: fullTitle || title,
+      status,
+      durationMs: numberField(test, 'duration'),
+    };
+
+    if (status === 'failed' && err) {
+      testCase.failureMessage = stringField(err, 'message');
+      testCase.stackTrace = stringField(err, 'stack');
+    }
+    testCase.location = locationFromStack(testCase.stackTrace) ?? (file ? { file } : undefined);
+
+    suitesByFile.get(key)!.cases.push(testCase);
+  }
+
+  return buildReport('mocha', source, Array.from(suitesByFile.values()), numberField(json.stats, 'duration'));
+}
@@ -0,0 +1,160 @@
+import {
+  TestReport,
+  TestCaseResult,
+  TestSuiteResult,
+  buildReport,
+  locationFromStack,
+} from './testReport';
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+// Code points beyond Unicode are left as written rather than thrown on
+function fromCodePoint(codePoint: number, entity: string): string {
+  return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+    if (code.startsWith('#x')) {
+      return fromCodePoint(parseInt(code.slice(2), 16), entity);
+    }
+    if (code.startsWith('#')) {
+      return fromCodePoint(parseInt(code.slice(1), 10), entity);
+    }
+    return ENTITIES[code] ?? entity;
+  });
+}
+
+/**
+ * Minimal XML reader covering what JUnit reporters emit:
+ * elements, attributes, text, CDATA, comments and processing instructions.
+ */
+function parseXml(content: string): XmlElement | undefined {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  const tokenPattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)/g;
+  const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(content)) !== null) {
+    const current = stack[stack.length - 1];
+    const [, cdata, closingName, openingName, rawAttributes, selfClosing, text] = match;
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (closingName !== undefined) {
+      if (stack.length > 1 && current.name === closingName) {
+        stack.pop();
+      }
+    } else if (openingName !== undefined) {
+      const attributes: Record<string, string> = {};
+      let attributeMatch: RegExpExecArray | null;
+      while ((attributeMatch = attributePattern.exec(rawAttributes || '')) !== null) {
+        attributes[attributeMatch[1]] = decodeEntities(attributeMatch[2] ?? attributeMatch[3] ?? '');
+      }
+      const element: XmlElement = { name: openingName, attributes, children: [], text: '' };
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text);
+    }
+  }
+
+  return root.children[0];
+}
+
+function parseSeconds(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const seconds = parseFloat(value.replace(/,/g, ''));
+  return Number.isNaN(seconds) ? undefined : Math.round(seconds * 1000);
+}
+
+function toTestCase(element: XmlElement, suiteName: string): TestCaseResult {
+  const name = element.attributes.name || '(unnamed)';
+  const className = element.attributes.classname;
+  const failure = element.children.find((child) => child.name === 'failure' || child.name === 'error');
+  const skipped = element.children.some((child) => child.name === 'skipped');
+
+  const testCase: TestCaseResult = {
+    name,
+    fullName: [className || suiteName, name].filter(Boolean).join(' '),
+    status: failure ? 'failed' : skipped ? 'skipped' : 'passed',
+    durationMs: parseSeconds(element.attributes.time),
+  };
+
+  if (failure) {
+    const stackTrace = failure.text.trim();
+    testCase.failureMessage = failure.attributes.message || stackTrace.split('\n')[0] || failure.attributes.type;
+    if (stackTrace) {
+      testCase.stackTrace = stackTrace;
+    }
+  }
+
+  if (element.attributes.file) {
+    testCase.location = {
+      file: element.attributes.file,
+      line: element.attributes.line ? parseInt(element.attributes.line, 10) : undefined,
+    };
+  } else {
+    testCase.location = locationFromStack(testCase.stackTrace);
+  }
+
+  return testCase;
+}
+
+function collectSuites(element: XmlElement, suites: TestSuiteResult[]): void {
+  if (element.name === 'testsuite') {
+    const name = element.attributes.name || '(root)';
+    const cases = element.children
+      .filter((child) => child.name === 'testcase')
+      .map((child) => toTestCase(child, name));
+    if (cases.length > 0) {
+      suites.push({
+        name,
+        file: element.attributes.file,
+        durationMs: parseSeconds(element.attributes.time),
+        cases,
+      });
+    }
+  }
+
+  for (const child of element.children) {
+    if (child.name === 'testsuite' || child.name === 'testsuites') {
+      collectSuites(child, suites);
+    }
+  }
+}
+
+/**
+ * Parses JUnit XML as produced by jest-junit, mocha-junit-reporter, pytest,
+ * go-junit-report and similar tools.
+ */
+export function parseJUnitXml(content: string, source: string): TestReport | undefined {
+  const root = parseXml(content);
+  if (!root || (root.name !== 'testsuites' && root.name !== 'testsuite')) {
+    return undefined;
+  }
+
+  const suites: TestSuiteResult[] = [];
+  collectSuites(root, suites);
+
+  const durationMs = root.name === 'testsuites' ? parseSeconds(root.attributes.time) : undefined;
+  return buildReport('junit', source, suites, durationMs);
+}
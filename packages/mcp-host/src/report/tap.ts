@@ -0,0 +1,158 @@
+import {
+  TestReport,
+  TestCaseResult,
+  TestSuiteResult,
+  buildReport,
+  locationFromStack,
+} from './testReport';
+
+interface TapPoint {
+  indent: number;
+  testCase: TestCaseResult;
+  children: TapPoint[];
+}
+
+const TEST_POINT_PATTERN = /^(\s*)(not ok|ok)\b\s*(\d+)?\s*(?:-\s*)?([^#]*?)\s*(?:#\s*(SKIP|TODO)\b.*)?$/i;
+
+/**
+ * Reads the flat `key: value` lines of a TAP YAML diagnostic block.
+ * Block scalars (`key: |-`) are collected until indentation drops back.
+ */
+function parseDiagnostics(lines: string[]): Record<string, string> {
+  const diagnostics: Record<string, string> = {};
+  let blockKey: string | undefined;
+  let blockIndent = 0;
+
+  for (const line of lines) {
+    const indent = line.length - line.trimStart().length;
+    if (blockKey && (indent > blockIndent || line.trim() === '')) {
+      diagnostics[blockKey] += (diagnostics[blockKey] ? '\n' : '') + line.trim();
+      continue;
+    }
+    blockKey = undefined;
+
+    const match = line.match(/^\s*([\w-]+):\s*(.*)$/);
+    if (!match) {
+      continue;
+    }
+    const [, key, value] = match;
+    if (/^[|>][-+]?$/.test(value)) {
+      blockKey = key;
+      blockIndent = indent;
+      diagnostics[key] = '';
+    } else {
+      diagnostics[key] = value.replace(/^(['"])(.*)\1$/, '$2');
+    }
+  }
+
+  return diagnostics;
+}
+
+function applyDiagnostics(testCase: TestCaseResult, diagnostics: Record<string, string>): void {
+  const duration = parseFloat(diagnostics.duration_ms);
+  if (!Number.isNaN(duration)) {
+    testCase.durationMs = Math.round(duration);
+  }
+
+  if (testCase.status === 'failed') {
+    testCase.failureMessage = diagnostics.message || diagnostics.error || testCase.failureMessage;
+    if (diagnostics.stack) {
+      testCase.stackTrace = diagnostics.stack;
+    }
+  }
+
+  if (diagnostics.location) {
+    testCase.location = locationFromStack(diagnostics.location);
+  } else if (diagnostics.at) {
+    testCase.location = locationFromStack(diagnostics.at);
+  } else {
+    testCase.location = locationFromStack(testCase.stackTrace);
+  }
+}
+
+/**
+ * Parses TAP 13/14 output, including node:test style indented subtests.
+ * Test points that contain subtests become suites; top-level leaves are
+ * grouped into a synthetic root suite.
+ */
+export function parseTap(content: string, source: string): TestReport | undefined {
+  const lines = content.split('\n');
+  const roots: TapPoint[] = [];
+  const pending: TapPoint[] = [];
+  let last: TapPoint | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].replace(/\r$/, '');
+
+    // YAML diagnostics belong to the test point right before them
+    if (last && line.trim() === '---') {
+      const block: string[] = [];
+      while (++i < lines.length && lines[i].trim() !== '...') {
+        block.push(lines[i]);
+      }
+      applyDiagnostics(last.testCase, parseDiagnostics(block));
+      continue;
+    }
+
+    const match = line.match(TEST_POINT_PATTERN);
+    if (!match) {
+      continue;
+    }
+
+    const [, whitespace, result, , description, directive] = match;
+    const name = description.trim() || '(unnamed)';
+    const point: TapPoint = {
+      indent: whitespace.length,
+      testCase: {
+        name,
+        fullName: name,
+        status: directive ? 'skipped' : result.toLowerCase() === 'ok' ? 'passed' : 'failed',
+      },
+      children: [],
+    };
+    if (point.testCase.status === 'failed') {
+      point.testCase.failureMessage = name;
+    }
+
+    // Subtests are printed (deeper indented) before their parent test point
+    while (pending.length > 0 && pending[pending.length - 1].indent > point.indent) {
+      point.children.unshift(pending.pop()!);
+    }
+    pending.push(point);
+    last = point;
+  }
+  roots.push(...pending);
+
+  if (roots.length === 0) {
+    return undefined;
+  }
+
+  const suites: TestSuiteResult[] = [];
+  const rootCases: TestCaseResult[] = [];
+
+  const flatten = (point: TapPoint, prefix: string[]): TestCaseResult[] => {
+    if (point.children.length === 0) {
+      point.testCase.fullName = [...prefix, point.testCase.name].join(' ');
+      return [point.testCase];
+    }
+    return point.children.flatMap((child) => flatten(child, [...prefix, point.testCase.name]));
+  };
+
+  for (const point of roots) {
+    if (point.children.length === 0) {
+      rootCases.push(point.testCase);
+    } else {
+      suites.push({
+        name: point.testCase.name,
+        durationMs: point.testCase.durationMs,
+        cases: flatten(point, []),
+      });
+    }
+  }
+
+  if (rootCases.length > 0) {
+    suites.unshift({ name: '(root)', cases: rootCases });
+  }
+
+  return buildReport('tap', source, suites);
+}
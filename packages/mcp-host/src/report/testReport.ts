@@ -0,0 +1,281 @@
+import { parseJUnitXml } from './junit';
+import { parseTap } from './tap';
+import { parseJestJson, parseMochaJson } from './jsonReporters';
+
+export type TestReportFormat = 'junit' | 'tap' | 'jest' | 'mocha';
+
+export type TestCaseStatus = 'passed' | 'failed' | 'skipped';
+
+export interface TestLocation {
+  file: string;
+  line?: number;
+  column?: number;
+}
+
+export interface TestCaseResult {
+  name: string;
+  fullName: string;
+  status: TestCaseStatus;
+  durationMs?: number;
+  failureMessage?: string;
+  stackTrace?: string;
+  location?: TestLocation;
+}
+
+export interface TestSuiteResult {
+  name: string;
+  file?: string;
+  durationMs?: number;
+  cases: TestCaseResult[];
+}
+
+export interface TestReportSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  durationMs?: number;
+}
+
+export interface TestReport {
+  format: TestReportFormat;
+  // Either 'log' when parsed from the command output, or the report file path
+  source: string;
+  summary: TestReportSummary;
+  suites: TestSuiteResult[];
+}
+
+// Stack frames pointing into these locations never identify the failing test
+const IGNORED_FRAME_PATTERN = /(node_modules|node:internal|\(internal\/)/;
+const STACK_FRAME_PATTERN = /((?:[A-Za-z]:)?[^\s()'"]*?\.[cm]?[jt]sx?):(\d+)(?::(\d+))?/;
+
+/**
+ * Extracts the first user-code file:line location from a stack trace.
+ */
+export function locationFromStack(stack: string | undefined): TestLocation | undefined {
+  if (!stack) {
+    return undefined;
+  }
+
+  for (const line of stack.split('\n')) {
+    if (IGNORED_FRAME_PATTERN.test(line)) {
+      continue;
+    }
+    const match = line.match(STACK_FRAME_PATTERN);
+    if (match) {
+      return {
+        file: match[1].replace(/^file:\/\//, ''),
+        line: parseInt(match[2], 10),
+        column: match[3] ? parseInt(match[3], 10) : undefined,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Builds a report from parsed suites, computing the summary counts.
+ */
+export function buildReport(
+  format: TestReportFormat,
+  source: string,
+  suites: TestSuiteResult[],
+  durationMs?: number
+): TestReport {
+  const cases = suites.flatMap((suite) => suite.cases);
+  const summary: TestReportSummary = {
+    total: cases.length,
+    passed: cases.filter((c) => c.status === 'passed').length,
+    failed: cases.filter((c) => c.status === 'failed').length,
+    skipped: cases.filter((c) => c.status === 'skipped').length,
+  };
+
+  const totalDuration = durationMs ?? suites.reduce<number | undefined>(
+    (sum, suite) => (suite.durationMs === undefined ? sum : (sum ?? 0) + suite.durationMs),
+    undefined
+  );
+  if (totalDuration !== undefined) {
+    summary.durationMs = totalDuration;
+  }
+
+  return { format, source, summary, suites };
+}
+
+/**
+ * Guesses the report format from its content.
+ */
+export function detectReportFormat(content: string): TestReportFormat | undefined {
+  const trimmed = content.trim();
+
+  if (trimmed.startsWith('<')) {
+    return /<testsuites?[\s>]/.test(trimmed) ? 'junit' : undefined;
+  }
+
+  if (trimmed.startsWith('{')) {
+    try {
+      const json = JSON.parse(trimmed);
+      if (Array.isArray(json.testResults)) {
+        return 'jest';
+      }
+      if (json.stats && Array.isArray(json.tests)) {
+        return 'mocha';
+      }
+    } catch {
+      return undefined;
+    }
+    return undefined;
+  }
+
+  if (/^\s*(TAP version \d+|\d+\.\.\d+|(not )?ok\b)/m.test(trimmed)) {
+    return 'tap';
+  }
+
+  return undefined;
+}
+
+/**
+ * Parses a report of the given (or detected) format.
+ * Returns undefined when the content is not a recognised report.
+ */
+export function parseTestReport(
+  content: string,
+  source: string,
+  format?: TestReportFormat
+): TestReport | undefined {
+  const resolvedFormat = format ?? detectReportFormat(content);
+
+  switch (resolvedFormat) {
+    case 'junit':
+      return parseJUnitXml(content, source);
+    case 'tap':
+      return parseTap(content, source);
+    case 'jest':
+      return parseJestJson(content, source);
+    case 'mocha':
+      return parseMochaJson(content, source);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Looks for a structured report embedded in raw command output.
+ * Test runners that print JSON reporters to stdout are usually surrounded by
+ * package manager noise, so each line opening a JSON object is tried in turn.
+ */
+export function parseTestReportFromLog(
+  log: string,
+  format?: TestReportFormat
+): TestReport | undefined {
+  if (!format || format === 'jest' || format === 'mocha') {
+    const lines = log.split('\n');
+    const end = log.lastIndexOf('}');
+    let offset = 0;
+    for (const line of lines) {
+      if (line.startsWith('{') && end > offset) {
+        const candidate = log.slice(offset, end + 1);
+        const report = parseJsonCandidate(candidate, format);
+        if (report) {
+          return report;
+        }
+      }
+      offset += line.length + 1;
+    }
+  }
+
+  if (!format || format === 'junit') {
+    const xmlStart = log.search(/<\?xml|<testsuites?[\s>]/);
+    const xmlEnd = Math.max(log.lastIndexOf('</testsuites>'), log.lastIndexOf('</testsuite>'));
+    if (xmlStart !== -1 && xmlEnd > xmlStart) {
+      const closing = log.slice(xmlEnd).startsWith('</testsuites>') ? '</testsuites>' : '</testsuite>';
+      const report = parseJUnitXml(log.slice(xmlStart, xmlEnd + closing.length), 'log');
+      if (report) {
+        return report;
+      }
+    }
+  }
+
+  if (!format || format === 'tap') {
+    if (detectReportFormat(log) === 'tap') {
+      return parseTap(log, 'log');
+    }
+  }
+
+  return undefined;
+}
+
+function parseJsonCandidate(candidate: string, format?: TestReportFormat): TestReport | undefined {
+  try {
+    JSON.parse(candidate);
+  } catch {
+    return undefined;
+  }
+
+  const detected = format ?? detectReportFormat(candidate);
+  if (detected === 'jest') {
+    return parseJestJson(candidate, 'log');
+  }
+  if (detected === 'mocha') {
+    return parseMochaJson(candidate, 'log');
+  }
+  return undefined;
+}
+
+const testCaseJsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    fullName: { type: 'string' },
+    status: { type: 'string', enum: ['passed', 'failed', 'skipped'] },
+    durationMs: { type: 'number' },
+    failureMessage: { type: 'string' },
+    stackTrace: { type: 'string' },
+    location: {
+      type: 'object',
+      properties: {
+        file: { type: 'string' },
+        line: { type: 'number' },
+        column: { type: 'number' },
+      },
+      required: ['file'],
+    },
+  },
+  required: ['name', 'fullName', 'status'],
+};
+
+/**
+ * JSON schema of {@link TestReport}, advertised as part of tool output schemas.
+ */
+export const testReportJsonSchema = {
+  type: 'object',
+  properties: {
+    format: { type: 'string', enum: ['junit', 'tap', 'jest', 'mocha'] },
+    source: { type: 'string', description: '"log" or the path of the parsed report file' },
+    summary: {
+      type: 'object',
+      properties: {
+        total: { type: 'number' },
+        passed: { type: 'number' },
+        failed: { type: 'number' },
+        skipped: { type: 'number' },
+        durationMs: { type: 'number' },
+      },
+      required: ['total', 'passed', 'failed', 'skipped'],
+    },
+    suites: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          file: { type: 'string' },
+          durationMs: { type: 'number' },
+          cases: { type: 'array', items: testCaseJsonSchema },
+        },
+        required: ['name', 'cases'],
+      },
+    },
+  },
+  required: ['format', 'source', 'summary', 'suites'],
+};
@@ -0,0 +1,875 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  CallToolRequest,
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ServerNotification,
+  ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js';
+import { buildProject } from './tools/buildProject';
+import { testRun } from './tools/testRun';
+import { lintFix } from './tools/lintFix';
+
+import { BuildProjectInputs, BuildProjectOutput } from './tools/buildProject';
+import { TestRunInputs, TestRunOutput } from './tools/testRun';
+import { LintFixInputs, LintFixOutput } from './tools/lintFix';
+import { FsReadInputs, fsRead } from './tools/fsRead';
+import { FsWriteInputs, fsWrite } from './tools/fsWrite';
+import { FsApplyPatchInputs, fsApplyPatch } from './tools/fsApplyPatch';
+import { FsListInputs, fsList } from './tools/fsList';
+import { FsSearchInputs, fsSearch } from './tools/fsSearch';
+import { GitStatusInputs, gitStatus } from './tools/gitStatus';
+import { GitDiffInputs, gitDiff } from './tools/gitDiff';
+import { GitLogInputs, MAX_LOG_COUNT, gitLog } from './tools/gitLog';
+import { GitCommitInputs, gitCommit } from './tools/gitCommit';
+import { GitStashInputs, gitStash } from './tools/gitStash';
+import { getGitWorktree } from './git/git';
+import { ExecRunInputs, execRun } from './tools/execRun';
+import { ToolContext } from './tools/toolContext';
+import { testReportJsonSchema } from './report/testReport';
+import { listToolchainIds, toolchainJsonSchema } from './toolchain/detect';
+import { ProgressReporter } from './util/progress';
+import { ExecStatus } from './exec/runInContainer';
+import {
+  DEFAULT_IGNORED_DIRS,
+  MAX_LIST_ENTRIES,
+  MAX_READ_BYTES,
+  MAX_SEARCH_RESULTS,
+  MAX_WRITE_BYTES,
+} from './fs/sandbox';
+
+export const SERVER_INFO = {
+  name: 'roo-mcp-host',
+  version: '1.0.0',
+};
+
+// Helper function to get container name with validation
+function getContainerName(): string {
+  const containerName = process.env.CONTAINER_NAME || 'roo-container';
+  
+  // Validate container name format
+  if (!/^[a-zA-Z0-9_-]+$/.test(containerName)) {
+    throw new Error(`Invalid container name: ${containerName}`);
+  }
+  
+  return containerName;
+}
+
+let callCounter = 0;
+
+// Creates the progress reporter correlating logs and progress with one tool call
+function createProgressReporter(
+  tool: string,
+  phases: string[],
+  request: CallToolRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): ProgressReporter {
+  return new ProgressReporter({
+    tool,
+    callId: `call-${++callCounter}`,
+    progressToken: request.params._meta?.progressToken,
+    phases,
+    sendNotification: extra.sendNotification,
+  });
+}
+
+// Prepended to the partial log when a command did not run to completion
+function statusContent(status: ExecStatus): { type: 'text'; text: string }[] {
+  switch (status) {
+    case 'cancelled':
+      return [{ type: 'text', text: 'Tool call cancelled. Partial log follows.' }];
+    case 'timed_out':
+      return [{ type: 'text', text: 'Tool call timed out. Partial log follows.' }];
+    default:
+      return [];
+  }
+}
+
+// File tool results are returned both as JSON text and as structured content
+function structuredResult<T extends object>(result: T, text: string = JSON.stringify(result, null, 2)) {
+  return {
+    content: [
+      {
+        type: 'text' as const,
+        text,
+      },
+    ],
+    structuredContent: { ...result } as Record<string, unknown>,
+  };
+}
+
+// Runs a short single-phase tool with call-correlated logging
+async function runReportedTool<T extends object>(
+  name: string,
+  request: CallToolRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  run: (context: ToolContext) => Promise<T>,
+  text?: (result: T) => string
+) {
+  const reporter = createProgressReporter(name, [name], request, extra);
+  reporter.phase(name);
+  try {
+    const result = await run({ onLog: (log) => reporter.log(log), progress: reporter, signal: extra.signal });
+    await reporter.complete(true);
+    return { ...structuredResult(result, text?.(result)), _meta: { callId: reporter.callId } };
+  } catch (error) {
+    await reporter.complete(false);
+    throw error;
+  }
+}
+
+const toolchainInputSchema = {
+  type: 'string',
+  enum: listToolchainIds(),
+  description: 'Optional toolchain id that overrides detection from the project marker files.',
+};
+
+const timeoutInputSchema = {
+  type: 'number',
+  minimum: 1,
+  description: 'Optional time limit in milliseconds. The command is killed and a "timed_out" status returned when exceeded.',
+};
+
+const commandOutputSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    exitCode: { type: ['number', 'null'] },
+    status: {
+      type: 'string',
+      enum: ['completed', 'cancelled', 'timed_out'],
+      description: 'Whether the command ran to completion, was cancelled by the client, or hit timeoutMs',
+    },
+    toolchain: toolchainJsonSchema,
+  },
+  required: ['success', 'exitCode', 'status', 'toolchain'],
+};
+
+/**
+ * Creates an MCP server with every tool registered. A server serves a single
+ * transport connection, so the HTTP transport creates one per session.
+ */
+export function createServer(): Server {
+  const server = new Server(SERVER_INFO, {
+    capabilities: {
+      tools: {},
+      // Required to stream tool output as notifications/message
+      logging: {},
+    },
+  });
+
+  // Register build project tool
+  server.setRequestHandler(
+    CallToolRequestSchema,
+    async (request, extra) => {
+      const { name, arguments: args } = request.params;
+
+      try {
+        const containerName = getContainerName();
+      
+        switch (name) {
+          case 'build.project': {
+            const inputs: BuildProjectInputs = args || {};
+            const reporter = createProgressReporter(
+              name,
+              inputs.install === false ? ['build'] : ['install', 'build'],
+              request,
+              extra
+            );
+            const onLog = (log: string) => reporter.log(log);
+          
+            onLog(`Starting build process in container: ${containerName}`);
+            let success = false;
+            try {
+              const result = await buildProject(containerName, inputs, {
+                onLog,
+                progress: reporter,
+                signal: extra.signal,
+              });
+              success = result.success;
+              return {
+                content: [
+                  ...statusContent(result.status),
+                  {
+                    type: 'text',
+                    text: result.log,
+                  },
+                ],
+                structuredContent: {
+                  success: result.success,
+                  exitCode: result.exitCode,
+                  status: result.status,
+                  toolchain: result.toolchain,
+                },
+                isError: !result.success,
+                _meta: { callId: reporter.callId },
+              };
+            } finally {
+              await reporter.complete(success);
+            }
+          }
+        
+          case 'test.run': {
+            const inputs: TestRunInputs = args || {};
+            const reporter = createProgressReporter(name, ['test', 'report'], request, extra);
+            const onLog = (log: string) => reporter.log(log);
+          
+            onLog(`Starting test execution in container: ${containerName}`);
+            let success = false;
+            try {
+              const result = await testRun(containerName, inputs, {
+                onLog,
+                progress: reporter,
+                signal: extra.signal,
+              });
+              success = result.success;
+              return {
+                content: [
+                  ...statusContent(result.status),
+                  {
+                    type: 'text',
+                    text: result.log,
+                  },
+                ],
+                structuredContent: {
+                  success: result.success,
+                  exitCode: result.exitCode,
+                  status: result.status,
+                  toolchain: result.toolchain,
+                  ...(result.report ? { report: result.report } : {}),
+                },
+                isError: !result.success,
+                _meta: { callId: reporter.callId },
+              };
+            } finally {
+              await reporter.complete(success);
+            }
+          }
+        
+          case 'lint.fix': {
+            const inputs: LintFixInputs = args || {};
+            const reporter = createProgressReporter(name, ['lint'], request, extra);
+            const onLog = (log: string) => reporter.log(log);
+          
+            onLog(`Starting lint fix in container: ${containerName}`);
+            let success = false;
+            try {
+              const result = await lintFix(containerName, inputs, {
+                onLog,
+                progress: reporter,
+                signal: extra.signal,
+              });
+              success = result.success;
+              return {
+                content: [
+                  ...statusContent(result.status),
+                  {
+                    type: 'text',
+                    text: result.log,
+                  },
+                ],
+                structuredContent: {
+                  success: result.success,
+                  exitCode: result.exitCode,
+                  status: result.status,
+                  toolchain: result.toolchain,
+                },
+                isError: !result.success,
+                _meta: { callId: reporter.callId },
+              };
+            } finally {
+              await reporter.complete(success);
+            }
+          }
+        
+          case 'exec.run': {
+            const inputs = args as unknown as ExecRunInputs;
+            const reporter = createProgressReporter(name, ['exec'], request, extra);
+            const onLog = (log: string) => reporter.log(log);
+
+            let success = false;
+            try {
+              const result = await execRun(containerName, inputs, {
+                onLog,
+                progress: reporter,
+                signal: extra.signal,
+              });
+              success = result.success;
+              return {
+                content: [
+                  ...statusContent(result.status),
+                  {
+                    type: 'text',
+                    text: result.log,
+                  },
+                ],
+                structuredContent: {
+                  success: result.success,
+                  exitCode: result.exitCode,
+                  status: result.status,
+                  command: result.command,
+                  cwd: result.cwd,
+                  timeoutMs: result.timeoutMs,
+                },
+                isError: !result.success,
+                _meta: { callId: reporter.callId },
+              };
+            } finally {
+              await reporter.complete(success);
+            }
+          }
+
+          case 'fs.read': {
+            const result = await fsRead(args as unknown as FsReadInputs);
+            return structuredResult(result, result.content);
+          }
+
+          case 'fs.write': {
+            return structuredResult(await fsWrite(args as unknown as FsWriteInputs));
+          }
+
+          case 'fs.applyPatch': {
+            return structuredResult(await fsApplyPatch(args as unknown as FsApplyPatchInputs));
+          }
+
+          case 'fs.list': {
+            return structuredResult(await fsList((args || {}) as FsListInputs));
+          }
+
+          case 'fs.search': {
+            return structuredResult(await fsSearch((args || {}) as FsSearchInputs, { signal: extra.signal }));
+          }
+        
+          case 'git.status': {
+            return runReportedTool(name, request, extra, (context) =>
+              gitStatus(getGitWorktree(), (args || {}) as GitStatusInputs, context)
+            );
+          }
+
+          case 'git.diff': {
+            return runReportedTool(
+              name,
+              request,
+              extra,
+              (context) => gitDiff(getGitWorktree(), (args || {}) as GitDiffInputs, context),
+              (result) => result.diff || 'No changes.'
+            );
+          }
+
+          case 'git.log': {
+            return runReportedTool(name, request, extra, (context) =>
+              gitLog(getGitWorktree(), (args || {}) as GitLogInputs, context)
+            );
+          }
+
+          case 'git.commit': {
+            return runReportedTool(name, request, extra, (context) =>
+              gitCommit(getGitWorktree(), args as unknown as GitCommitInputs, context)
+            );
+          }
+
+          case 'git.stash': {
+            return runReportedTool(name, request, extra, (context) =>
+              gitStash(getGitWorktree(), args as unknown as GitStashInputs, context)
+            );
+          }
+        
+          default:
+            throw new Error(`Unknown tool: ${name}`);
+        }
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        await server.sendLoggingMessage({
+          level: 'error',
+          data: errorMessage,
+        });
+      
+        return {
+          content: [
+            {
+              type: 'text',
+              text: errorMessage,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+  );
+
+  // List available tools
+  server.setRequestHandler(
+    ListToolsRequestSchema,
+    async () => {
+    return {
+      tools: [
+        {
+          name: 'build.project',
+          description: 'Builds the project using the detected toolchain (npm, pnpm, yarn, bun, poetry, pip, go, cargo or make).',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              install: {
+                type: 'boolean',
+                description: 'Whether to run install command before building (default: true)',
+                default: true,
+              },
+              target: {
+                type: 'string',
+                enum: ['dev', 'prod'],
+                description: 'Build target (default: "dev")',
+                default: 'dev',
+              },
+              toolchain: toolchainInputSchema,
+              timeoutMs: timeoutInputSchema,
+            },
+            required: [],
+          },
+          outputSchema: commandOutputSchema,
+        },
+        {
+          name: 'test.run',
+          description: 'Runs tests using the detected toolchain and returns a structured report (suites, cases, failures) when JUnit XML, TAP, Jest JSON or Mocha JSON output is found.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              pattern: {
+                type: 'string',
+                description: 'Optional test pattern to run specific tests.',
+              },
+              reportFormat: {
+                type: 'string',
+                enum: ['auto', 'junit', 'tap', 'jest', 'mocha'],
+                description: 'Format of the structured test report to parse (default: "auto")',
+                default: 'auto',
+              },
+              reportPath: {
+                type: 'string',
+                description: 'Optional report file path relative to /work. When omitted, common report locations and the test output are searched.',
+              },
+              toolchain: toolchainInputSchema,
+              timeoutMs: timeoutInputSchema,
+            },
+            required: [],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              ...commandOutputSchema.properties,
+              report: testReportJsonSchema,
+            },
+            required: commandOutputSchema.required,
+          },
+        },
+        {
+          name: 'lint.fix',
+          description: 'Runs lint fix using the detected toolchain.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              toolchain: toolchainInputSchema,
+              timeoutMs: timeoutInputSchema,
+            },
+            required: [],
+          },
+          outputSchema: commandOutputSchema,
+        },
+        {
+          name: 'exec.run',
+          description: 'Runs a command in the container, e.g. "tsc --noEmit" or "npx prisma generate". Only commands allowed by the exec policy (.roo/policy.json) can run; anything else fails with a policy violation.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              command: {
+                type: 'array',
+                items: { type: 'string' },
+                minItems: 1,
+                description: 'Program and arguments, e.g. ["npx", "prisma", "generate"]. No shell is involved.',
+              },
+              cwd: { type: 'string', description: 'Working directory relative to /work (default: ".")' },
+              env: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Environment variables to set; names must be allowed by the policy',
+              },
+              timeoutMs: {
+                ...timeoutInputSchema,
+                description: 'Optional time limit in milliseconds, capped at the policy maxRuntimeMs.',
+              },
+            },
+            required: ['command'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              success: commandOutputSchema.properties.success,
+              exitCode: commandOutputSchema.properties.exitCode,
+              status: commandOutputSchema.properties.status,
+              command: { type: 'string' },
+              cwd: { type: 'string' },
+              timeoutMs: { type: 'number', description: 'Time limit that was applied' },
+            },
+            required: ['success', 'exitCode', 'status', 'command', 'cwd', 'timeoutMs'],
+          },
+        },
+        {
+          name: 'fs.read',
+          description: 'Reads a text file from the workspace mounted at /work, optionally limited to a line range.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: { type: 'string', description: 'File path relative to /work' },
+              startLine: { type: 'number', minimum: 1, description: 'First line to return (1-based, inclusive)' },
+              endLine: { type: 'number', minimum: 1, description: 'Last line to return (1-based, inclusive)' },
+            },
+            required: ['path'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              path: { type: 'string' },
+              content: { type: 'string' },
+              size: { type: 'number' },
+              startLine: { type: 'number' },
+              endLine: { type: 'number' },
+              totalLines: { type: 'number' },
+              truncated: { type: 'boolean', description: `True when the file exceeded ${MAX_READ_BYTES} bytes` },
+            },
+            required: ['path', 'content', 'size', 'startLine', 'endLine', 'totalLines', 'truncated'],
+          },
+        },
+        {
+          name: 'fs.write',
+          description: `Writes a text file in the workspace mounted at /work (at most ${MAX_WRITE_BYTES} bytes).`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: { type: 'string', description: 'File path relative to /work' },
+              content: { type: 'string', description: 'Complete new file content' },
+              createDirectories: {
+                type: 'boolean',
+                description: 'Create missing parent directories (default: true)',
+                default: true,
+              },
+              overwrite: {
+                type: 'boolean',
+                description: 'Replace the file if it already exists (default: true)',
+                default: true,
+              },
+            },
+            required: ['path', 'content'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              path: { type: 'string' },
+              bytesWritten: { type: 'number' },
+              created: { type: 'boolean' },
+            },
+            required: ['path', 'bytesWritten', 'created'],
+          },
+        },
+        {
+          name: 'fs.applyPatch',
+          description: 'Applies a unified diff (diff -u or git diff format) to files under /work. The patch is applied completely or not at all.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              patch: { type: 'string', description: 'Unified diff with ---/+++ file headers and @@ hunks' },
+              dryRun: {
+                type: 'boolean',
+                description: 'Only check that the patch applies (default: false)',
+                default: false,
+              },
+            },
+            required: ['patch'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              applied: { type: 'boolean' },
+              files: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    path: { type: 'string' },
+                    oldPath: { type: 'string' },
+                    status: { type: 'string', enum: ['modified', 'created', 'deleted', 'renamed'] },
+                    hunks: { type: 'number' },
+                    additions: { type: 'number' },
+                    deletions: { type: 'number' },
+                  },
+                  required: ['path', 'status', 'hunks', 'additions', 'deletions'],
+                },
+              },
+            },
+            required: ['applied', 'files'],
+          },
+        },
+        {
+          name: 'fs.list',
+          description: `Lists a directory under /work. Recursive listings skip ${DEFAULT_IGNORED_DIRS.join(' and ')} and stop after ${MAX_LIST_ENTRIES} entries.`,
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: { type: 'string', description: 'Directory relative to /work (default: ".")', default: '.' },
+              recursive: { type: 'boolean', description: 'List subdirectories too (default: false)', default: false },
+              maxDepth: { type: 'number', minimum: 1, description: 'Maximum depth for recursive listings' },
+              includeHidden: {
+                type: 'boolean',
+                description: 'Include entries starting with "." (default: false)',
+                default: false,
+              },
+            },
+            required: [],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              path: { type: 'string' },
+              entries: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    path: { type: 'string' },
+                    type: { type: 'string', enum: ['file', 'directory', 'symlink', 'other'] },
+                    size: { type: 'number' },
+                  },
+                  required: ['path', 'type'],
+                },
+              },
+              truncated: { type: 'boolean' },
+            },
+            required: ['path', 'entries', 'truncated'],
+          },
+        },
+        {
+          name: 'fs.search',
+          description: 'Searches files under /work by regular expression and/or glob. Without a pattern, returns the files matching the glob.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              pattern: { type: 'string', description: 'Regular expression matched against each line' },
+              glob: { type: 'string', description: 'Glob matched against paths relative to "path", e.g. "**/*.ts"' },
+              path: { type: 'string', description: 'Directory to search relative to /work (default: ".")', default: '.' },
+              caseSensitive: { type: 'boolean', description: 'Case sensitive matching (default: true)', default: true },
+              maxResults: {
+                type: 'number',
+                minimum: 1,
+                maximum: MAX_SEARCH_RESULTS,
+                description: `Maximum number of matches (default: ${MAX_SEARCH_RESULTS})`,
+              },
+            },
+            required: [],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              matches: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    path: { type: 'string' },
+                    line: { type: 'number' },
+                    column: { type: 'number' },
+                    text: { type: 'string' },
+                  },
+                  required: ['path'],
+                },
+              },
+              filesSearched: { type: 'number' },
+              truncated: { type: 'boolean' },
+            },
+            required: ['matches', 'filesSearched', 'truncated'],
+          },
+        },
+        {
+          name: 'git.status',
+          description: 'Shows the branch and changed files of the track worktree mounted at /work.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              untracked: { type: 'boolean', description: 'Include untracked files (default: true)', default: true },
+            },
+            required: [],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              branch: { type: 'string' },
+              upstream: { type: 'string' },
+              ahead: { type: 'number' },
+              behind: { type: 'number' },
+              clean: { type: 'boolean' },
+              files: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    path: { type: 'string' },
+                    origPath: { type: 'string' },
+                    index: { type: 'string', description: 'Index status letter, "." when unchanged' },
+                    worktree: { type: 'string', description: 'Worktree status letter, "." when unchanged' },
+                    staged: { type: 'boolean' },
+                    unstaged: { type: 'boolean' },
+                    untracked: { type: 'boolean' },
+                    conflicted: { type: 'boolean' },
+                  },
+                  required: ['path', 'index', 'worktree', 'staged', 'unstaged', 'untracked', 'conflicted'],
+                },
+              },
+            },
+            required: ['ahead', 'behind', 'clean', 'files'],
+          },
+        },
+        {
+          name: 'git.diff',
+          description: 'Shows unstaged or staged changes in the track worktree, optionally against a base revision and limited to paths.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              staged: { type: 'boolean', description: 'Show staged instead of unstaged changes (default: false)', default: false },
+              base: { type: 'string', description: 'Revision to compare against, e.g. "HEAD~1" or "main"' },
+              paths: { type: 'array', items: { type: 'string' }, description: 'Limit the diff to these paths relative to /work' },
+              contextLines: { type: 'number', minimum: 0, description: 'Lines of context around each change (default: 3)' },
+            },
+            required: [],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              diff: { type: 'string' },
+              files: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    path: { type: 'string' },
+                    additions: { type: 'number' },
+                    deletions: { type: 'number' },
+                    binary: { type: 'boolean' },
+                  },
+                  required: ['path', 'additions', 'deletions', 'binary'],
+                },
+              },
+              truncated: { type: 'boolean' },
+            },
+            required: ['diff', 'files', 'truncated'],
+          },
+        },
+        {
+          name: 'git.log',
+          description: 'Lists commits of the track worktree.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              maxCount: {
+                type: 'number',
+                minimum: 1,
+                maximum: MAX_LOG_COUNT,
+                description: 'Maximum number of commits (default: 20)',
+                default: 20,
+              },
+              ref: { type: 'string', description: 'Revision or range to list, e.g. "main..HEAD" (default: HEAD)' },
+              paths: { type: 'array', items: { type: 'string' }, description: 'Only commits touching these paths' },
+            },
+            required: [],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              commits: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    hash: { type: 'string' },
+                    author: { type: 'string' },
+                    email: { type: 'string' },
+                    date: { type: 'string' },
+                    subject: { type: 'string' },
+                    body: { type: 'string' },
+                  },
+                  required: ['hash', 'author', 'email', 'date', 'subject', 'body'],
+                },
+              },
+            },
+            required: ['commits'],
+          },
+        },
+        {
+          name: 'git.commit',
+          description: 'Commits changes in the track worktree. With "files", only those paths are staged and committed.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              message: { type: 'string', description: 'Commit message' },
+              files: { type: 'array', items: { type: 'string' }, description: 'Paths relative to /work to commit' },
+              all: { type: 'boolean', description: 'Stage and commit all changes including untracked files (default: false)', default: false },
+            },
+            required: ['message'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              hash: { type: 'string' },
+              subject: { type: 'string' },
+              files: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    status: { type: 'string' },
+                    path: { type: 'string' },
+                  },
+                  required: ['status', 'path'],
+                },
+              },
+            },
+            required: ['hash', 'subject', 'files'],
+          },
+        },
+        {
+          name: 'git.stash',
+          description: 'Stashes or restores uncommitted changes in the track worktree.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              action: { type: 'string', enum: ['push', 'pop', 'apply', 'drop', 'list'] },
+              message: { type: 'string', description: 'Message for "push"' },
+              index: { type: 'number', minimum: 0, description: 'Stash entry for pop, apply and drop (default: 0)' },
+              includeUntracked: { type: 'boolean', description: 'Also stash untracked files on "push" (default: false)', default: false },
+            },
+            required: ['action'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              action: { type: 'string' },
+              stashes: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    index: { type: 'number' },
+                    ref: { type: 'string' },
+                    message: { type: 'string' },
+                  },
+                  required: ['index', 'ref', 'message'],
+                },
+              },
+              log: { type: 'string' },
+            },
+            required: ['action', 'stashes', 'log'],
+          },
+        },
+      ],
+    };
+  });
+
+  return server;
+}
@@ -0,0 +1,119 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BUILTIN_TOOLCHAINS, Toolchain } from './toolchains';
+import { getWorkRoot } from '../fs/sandbox';
+
+export interface DetectedToolchain {
+  toolchain: Toolchain;
+  // Marker file that selected the toolchain, undefined when it was forced or defaulted
+  marker?: string;
+  reason: 'detected' | 'forced' | 'default';
+}
+
+export interface ToolchainInfo {
+  id: string;
+  name: string;
+  marker?: string;
+  reason: DetectedToolchain['reason'];
+}
+
+const DEFAULT_TOOLCHAIN_ID = 'npm';
+
+const registry: Toolchain[] = [...BUILTIN_TOOLCHAINS];
+
+/**
+ * Registers an additional toolchain. Custom toolchains take precedence over
+ * the built-in ones so they can override detection for a marker file.
+ */
+export function registerToolchain(toolchain: Toolchain): void {
+  const existing = registry.findIndex((t) => t.id === toolchain.id);
+  if (existing !== -1) {
+    registry.splice(existing, 1);
+  }
+  registry.unshift(toolchain);
+}
+
+export function getToolchain(id: string): Toolchain | undefined {
+  return registry.find((t) => t.id === id);
+}
+
+export function listToolchainIds(): string[] {
+  return registry.map((t) => t.id);
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Detects the toolchain of the project in `workDir` from its marker files.
+ * @param workDir The project root: the host worktree mounted at /work.
+ * @param forcedId Optional toolchain id that bypasses detection.
+ */
+export async function detectToolchain(
+  workDir: string = getWorkRoot(),
+  forcedId?: string
+): Promise<DetectedToolchain> {
+  if (forcedId) {
+    const forced = getToolchain(forcedId);
+    if (!forced) {
+      throw new Error(`Unknown toolchain: ${forcedId}. Known toolchains: ${listToolchainIds().join(', ')}`);
+    }
+    return { toolchain: forced, reason: 'forced' };
+  }
+
+  for (const toolchain of registry) {
+    for (const marker of toolchain.markers) {
+      if (!(await exists(path.join(workDir, marker)))) {
+        continue;
+      }
+      if (!toolchain.matches || (await toolchain.matches(workDir, marker))) {
+        return { toolchain, marker, reason: 'detected' };
+      }
+    }
+  }
+
+  return { toolchain: getToolchain(DEFAULT_TOOLCHAIN_ID)!, reason: 'default' };
+}
+
+/**
+ * Serialisable summary of a detection result, reported in tool results.
+ */
+export function describeToolchain(detected: DetectedToolchain): ToolchainInfo {
+  return {
+    id: detected.toolchain.id,
+    name: detected.toolchain.name,
+    marker: detected.marker,
+    reason: detected.reason,
+  };
+}
+
+/**
+ * Human readable explanation of why a toolchain was chosen, for tool logs.
+ */
+export function formatToolchainChoice(detected: DetectedToolchain): string {
+  switch (detected.reason) {
+    case 'forced':
+      return `Using toolchain ${detected.toolchain.name} (forced)`;
+    case 'detected':
+      return `Detected toolchain ${detected.toolchain.name} from ${detected.marker}`;
+    default:
+      return `No toolchain marker found. Assuming ${detected.toolchain.name}.`;
+  }
+}
+
+export const toolchainJsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    marker: { type: 'string' },
+    reason: { type: 'string', enum: ['detected', 'forced', 'default'] },
+  },
+  required: ['id', 'name', 'reason'],
+};
@@ -0,0 +1,152 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Command, argv, makeVariableValue, shellScript, userArgument } from '../exec/command';
+
+export type BuildTarget = 'dev' | 'prod';
+
+export interface ToolchainCommands {
+  install?: Command[];
+  build: (target: BuildTarget) => Command[];
+  // `pattern` is user input and must only ever be passed as a discrete argument
+  test: (pattern?: string) => Command[];
+  lintFix: Command[];
+}
+
+export interface Toolchain {
+  id: string;
+  name: string;
+  // Files whose presence in the project root selects this toolchain
+  markers: string[];
+  // Optional extra check once a marker was found, e.g. to tell yarn berry from classic
+  matches?: (workDir: string, marker: string) => Promise<boolean>;
+  commands: ToolchainCommands;
+}
+
+async function fileContains(filePath: string, pattern: RegExp): Promise<boolean> {
+  try {
+    const content = await fs.readFile(filePath, 'utf8');
+    return pattern.test(content);
+  } catch (error) {
+    return false;
+  }
+}
+
+function testPattern(pattern: string): string {
+  return userArgument(pattern, 'Test pattern');
+}
+
+function packageScripts(runner: string): ToolchainCommands {
+  // npm needs `--` before arguments meant for the script; pnpm, yarn and bun
+  // pass everything after the script name through, a literal `--` included
+  const scriptArgs = (...args: string[]) => (runner === 'npm' ? ['--', ...args] : args);
+  return {
+    install: [argv(runner, 'install')],
+    build: (target) => [argv(runner, 'run', `build:${target}`)],
+    test: (pattern) => [pattern ? argv(runner, 'run', 'test', ...scriptArgs(testPattern(pattern))) : argv(runner, 'run', 'test')],
+    lintFix: [argv(runner, 'run', 'lint', ...scriptArgs('--fix'))],
+  };
+}
+
+/**
+ * Built-in toolchains, in detection order. Lockfiles come before manifests so
+ * that a project with both `package.json` and `yarn.lock` is detected as yarn.
+ */
+export const BUILTIN_TOOLCHAINS: Toolchain[] = [
+  {
+    id: 'pnpm',
+    name: 'pnpm',
+    markers: ['pnpm-lock.yaml'],
+    commands: packageScripts('pnpm'),
+  },
+  {
+    id: 'yarn-berry',
+    name: 'Yarn (berry)',
+    markers: ['.yarnrc.yml', 'yarn.lock'],
+    matches: async (workDir, marker) =>
+      marker === '.yarnrc.yml' || fileContains(path.join(workDir, marker), /^__metadata:/m),
+    commands: packageScripts('yarn'),
+  },
+  {
+    id: 'yarn',
+    name: 'Yarn (classic)',
+    markers: ['yarn.lock'],
+    commands: packageScripts('yarn'),
+  },
+  {
+    id: 'bun',
+    name: 'Bun',
+    markers: ['bun.lockb', 'bun.lock'],
+    commands: packageScripts('bun'),
+  },
+  {
+    id: 'npm',
+    name: 'npm',
+    markers: ['package-lock.json', 'package.json'],
+    commands: packageScripts('npm'),
+  },
+  {
+    id: 'poetry',
+    name: 'Poetry',
+    markers: ['poetry.lock', 'pyproject.toml'],
+    matches: async (workDir, marker) =>
+      marker === 'poetry.lock' || fileContains(path.join(workDir, marker), /^\[tool\.poetry\]/m),
+    commands: {
+      install: [argv('poetry', 'install')],
+      build: () => [argv('poetry', 'build')],
+      test: (pattern) => [pattern ? argv('poetry', 'run', 'pytest', '-k', testPattern(pattern)) : argv('poetry', 'run', 'pytest')],
+      lintFix: [argv('poetry', 'run', 'ruff', 'check', '--fix', '.')],
+    },
+  },
+  {
+    id: 'python',
+    name: 'Python (pip)',
+    markers: ['pyproject.toml', 'requirements.txt', 'setup.py'],
+    commands: {
+      install: [
+        shellScript(
+          'if [ -f requirements.txt ]; then exec pip install -r requirements.txt; else exec pip install -e .; fi',
+          'select pip install source from the files present'
+        ),
+      ],
+      build: () => [argv('python', '-m', 'build')],
+      test: (pattern) => [pattern ? argv('python', '-m', 'pytest', '-k', testPattern(pattern)) : argv('python', '-m', 'pytest')],
+      lintFix: [argv('ruff', 'check', '--fix', '.')],
+    },
+  },
+  {
+    id: 'go',
+    name: 'Go',
+    markers: ['go.mod'],
+    commands: {
+      install: [argv('go', 'mod', 'download')],
+      build: () => [argv('go', 'build', './...')],
+      test: (pattern) => [pattern ? argv('go', 'test', './...', '-run', testPattern(pattern)) : argv('go', 'test', './...')],
+      lintFix: [argv('go', 'fmt', './...'), argv('go', 'vet', './...')],
+    },
+  },
+  {
+    id: 'cargo',
+    name: 'Rust (cargo)',
+    markers: ['Cargo.toml'],
+    commands: {
+      install: [argv('cargo', 'fetch')],
+      build: (target) => [target === 'prod' ? argv('cargo', 'build', '--release') : argv('cargo', 'build')],
+      test: (pattern) => [pattern ? argv('cargo', 'test', '--', testPattern(pattern)) : argv('cargo', 'test')],
+      lintFix: [argv('cargo', 'clippy', '--fix', '--allow-dirty', '--allow-staged'), argv('cargo', 'fmt')],
+    },
+  },
+  {
+    id: 'make',
+    name: 'Make',
+    markers: ['Makefile', 'makefile', 'GNUmakefile'],
+    commands: {
+      build: (target) => [argv('make', target === 'prod' ? 'build-prod' : 'build')],
+      test: (pattern) => [
+        pattern
+          ? argv('make', 'test', `TEST_PATTERN=${makeVariableValue(testPattern(pattern))}`)
+          : argv('make', 'test'),
+      ],
+      lintFix: [argv('make', 'lint-fix')],
+    },
+  },
+];
@@ -1,53 +1,77 @@
-import { runInContainer } from '../exec/runInContainer';
-import * as fs from 'fs/promises';
+import { describeCommands } from '../exec/command';
+import { ExecStatus, remainingTimeout, runSequence } from '../exec/runInContainer';
+import {
+  ToolchainInfo,
+  describeToolchain,
+  detectToolchain,
+  formatToolchainChoice,
+} from '../toolchain/detect';
+import { getWorkRoot } from '../fs/sandbox';
+import { ToolContext } from './toolContext';
 
 export interface BuildProjectInputs {
   install?: boolean;
   target?: 'dev' | 'prod';
+  toolchain?: string;
+  timeoutMs?: number;
 }
 
 export interface BuildProjectOutput {
   success: boolean;
   exitCode: number | null;
   log: string;
+  status: ExecStatus;
+  toolchain: ToolchainInfo;
 }
 
 export async function buildProject(
   containerName: string,
   inputs: BuildProjectInputs,
-  onLog: (log: string) => void
+  context: ToolContext
 ): Promise<BuildProjectOutput> {
-  const { install = true, target = 'dev' } = inputs;
-
-  let packageManager = 'npm'; // Default to npm
-
-  try {
-    await fs.access('/work/pnpm-lock.yaml');
-    packageManager = 'pnpm';
-  } catch (error) {
-    // pnpm-lock.yaml not found, fallback to npm
-    try {
-      await fs.access('/work/package-lock.json');
-      packageManager = 'npm';
-    } catch (error) {
-      onLog('Neither pnpm-lock.yaml nor package-lock.json found. Assuming npm.');
-    }
-  }
+  const { install = true, target = 'dev', timeoutMs } = inputs;
+  const { onLog, progress, signal } = context;
+  // Install and build share a single time budget
+  const deadline = timeoutMs === undefined ? undefined : Date.now() + timeoutMs;
+
+  const detected = await detectToolchain(getWorkRoot(), inputs.toolchain);
+  onLog(formatToolchainChoice(detected));
+  const { commands } = detected.toolchain;
 
-  let installCommand = '';
-  if (install) {
-    installCommand = packageManager === 'pnpm' ? 'pnpm install && ' : 'npm install && ';
+  let installLog = '';
+  if (install && commands.install) {
+    progress?.phase('install');
+    onLog(`Executing install command: ${describeCommands(commands.install)} in container ${containerName}`);
+    const installResult = await runSequence(containerName, commands.install, onLog, {
+      signal,
+      timeoutMs: remainingTimeout(deadline),
+    });
+    if (!installResult.success) {
+      return {
+        success: false,
+        exitCode: installResult.exitCode,
+        log: installResult.log,
+        status: installResult.status,
+        toolchain: describeToolchain(detected),
+      };
+    }
+    installLog = installResult.log;
   }
 
-  const buildCommand = packageManager === 'pnpm' ? `pnpm run build:${target}` : `npm run build:${target}`;
-  const fullCommand = `${installCommand}${buildCommand}`;
+  const buildCommand = commands.build(target);
 
-  onLog(`Executing build command: ${fullCommand} in container ${containerName}`);
-  const result = await runInContainer(containerName, fullCommand, onLog);
+  progress?.phase('build');
+  onLog(`Executing build command: ${describeCommands(buildCommand)} in container ${containerName}`);
+  const result = await runSequence(containerName, buildCommand, onLog, {
+    signal,
+    timeoutMs: remainingTimeout(deadline),
+  });
 
   return {
     success: result.success,
     exitCode: result.exitCode,
-    log: result.log,
+    log: installLog + result.log,
+    status: result.status,
+    toolchain: describeToolchain(detected),
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,70 @@
+import { CommandValidationError, argv, describeCommand } from '../exec/command';
+import { ExecStatus, runInContainer } from '../exec/runInContainer';
+import { resolveSandboxPath, toContainerPath, toResultPath } from '../fs/sandbox';
+import { checkCommand, effectiveTimeout, loadPolicy, resolveEnv } from '../policy/policy';
+import { ToolContext } from './toolContext';
+
+export interface ExecRunInputs {
+  // Program and arguments, e.g. ["npx", "prisma", "generate"]; no shell is involved
+  command: string[];
+  // Working directory relative to /work (default: ".")
+  cwd?: string;
+  env?: Record<string, string>;
+  timeoutMs?: number;
+}
+
+export interface ExecRunOutput {
+  success: boolean;
+  exitCode: number | null;
+  log: string;
+  status: ExecStatus;
+  command: string;
+  cwd: string;
+  timeoutMs: number;
+}
+
+/**
+ * Runs an arbitrary command in the container after checking it against the
+ * exec policy. Every check happens before anything is started.
+ */
+export async function execRun(
+  containerName: string,
+  inputs: ExecRunInputs,
+  context: ToolContext
+): Promise<ExecRunOutput> {
+  const { onLog, progress, signal } = context;
+  if (!Array.isArray(inputs.command) || inputs.command.length === 0) {
+    throw new CommandValidationError('command must be a non-empty array of strings');
+  }
+  if (inputs.command.some((arg) => typeof arg !== 'string')) {
+    throw new CommandValidationError('command must only contain strings');
+  }
+
+  const policy = await loadPolicy();
+  checkCommand(policy, inputs.command);
+  const env = resolveEnv(policy, inputs.env);
+  const timeoutMs = effectiveTimeout(policy, inputs.timeoutMs);
+  const cwd = await resolveSandboxPath(inputs.cwd ?? '.');
+
+  const [program, ...args] = inputs.command;
+  const command = argv(program, ...args);
+
+  progress?.phase('exec');
+  onLog(`Executing ${describeCommand(command)} in container ${containerName} (timeout ${timeoutMs}ms)`);
+  const result = await runInContainer(containerName, command, onLog, {
+    signal,
+    timeoutMs,
+    env,
+    workDir: toContainerPath(cwd),
+  });
+
+  return {
+    success: result.success,
+    exitCode: result.exitCode,
+    log: result.log,
+    status: result.status,
+    command: describeCommand(command),
+    cwd: toResultPath(cwd.relative),
+    timeoutMs,
+  };
+}
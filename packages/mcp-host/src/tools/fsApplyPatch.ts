@@ -0,0 +1,152 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { FilePatch, PatchError, applyFilePatch, countChanges, parseUnifiedDiff } from '../fs/patch';
+import {
+  MAX_PATCH_BYTES,
+  MAX_WRITE_BYTES,
+  SandboxPath,
+  getWorkRoot,
+  assertWritable,
+  isBinary,
+  resolveSandboxPath,
+  toResultPath,
+  writeFileAtomic,
+} from '../fs/sandbox';
+
+export interface FsApplyPatchInputs {
+  patch: string;
+  // Validate the patch without writing anything
+  dryRun?: boolean;
+}
+
+export type PatchedFileStatus = 'modified' | 'created' | 'deleted' | 'renamed';
+
+export interface PatchedFile {
+  path: string;
+  oldPath?: string;
+  status: PatchedFileStatus;
+  hunks: number;
+  additions: number;
+  deletions: number;
+}
+
+export interface FsApplyPatchOutput {
+  applied: boolean;
+  files: PatchedFile[];
+}
+
+interface PlannedChange {
+  source?: SandboxPath;
+  target?: SandboxPath;
+  content?: string;
+  summary: PatchedFile;
+}
+
+async function readExisting(target: SandboxPath, displayPath: string): Promise<string> {
+  let buffer: Buffer;
+  try {
+    buffer = await fs.readFile(target.absolute);
+  } catch (error) {
+    throw new PatchError(`File to patch does not exist: ${displayPath}`);
+  }
+  if (isBinary(buffer)) {
+    throw new PatchError(`Cannot patch binary file: ${displayPath}`);
+  }
+  return buffer.toString('utf8');
+}
+
+async function exists(target: SandboxPath): Promise<boolean> {
+  try {
+    await fs.lstat(target.absolute);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+async function planChange(file: FilePatch, workDir: string): Promise<PlannedChange> {
+  const source = file.oldPath === undefined ? undefined : await resolveSandboxPath(file.oldPath, workDir);
+  const target = file.newPath === undefined ? undefined : await resolveSandboxPath(file.newPath, workDir);
+  const displayPath = (file.newPath ?? file.oldPath)!;
+  for (const touched of [source, target]) {
+    if (touched) {
+      assertWritable(touched);
+    }
+  }
+
+  const original = source ? await readExisting(source, file.oldPath!) : undefined;
+  if (!source && target && (await exists(target))) {
+    throw new PatchError(`Patch creates a file that already exists: ${file.newPath}`);
+  }
+  if (source && target && source.absolute !== target.absolute && (await exists(target))) {
+    throw new PatchError(`Patch renames ${file.oldPath} to a file that already exists: ${file.newPath}`);
+  }
+
+  const content = applyFilePatch(original, file);
+  if (!target && content !== '') {
+    throw new PatchError(`Patch deletes ${file.oldPath} but leaves content behind`);
+  }
+  if (Buffer.byteLength(content, 'utf8') > MAX_WRITE_BYTES) {
+    throw new PatchError(`Patched ${displayPath} exceeds ${MAX_WRITE_BYTES} bytes`);
+  }
+
+  let status: PatchedFileStatus = 'modified';
+  if (!source) {
+    status = 'created';
+  } else if (!target) {
+    status = 'deleted';
+  } else if (source.absolute !== target.absolute) {
+    status = 'renamed';
+  }
+
+  return {
+    source,
+    target,
+    content: target ? content : undefined,
+    summary: {
+      path: toResultPath((target ?? source)!.relative),
+      ...(status === 'renamed' ? { oldPath: toResultPath(source!.relative) } : {}),
+      status,
+      hunks: file.hunks.length,
+      ...countChanges(file),
+    },
+  };
+}
+
+/**
+ * Applies a unified diff to files under the workspace. Every hunk of every
+ * file is checked before anything is written, so a patch either applies
+ * completely or not at all.
+ */
+export async function fsApplyPatch(
+  inputs: FsApplyPatchInputs,
+  workDir: string = getWorkRoot()
+): Promise<FsApplyPatchOutput> {
+  const { patch, dryRun = false } = inputs;
+  if (typeof patch !== 'string' || patch.length === 0) {
+    throw new PatchError('patch must be a non-empty string');
+  }
+  if (Buffer.byteLength(patch, 'utf8') > MAX_PATCH_BYTES) {
+    throw new PatchError(`patch exceeds ${MAX_PATCH_BYTES} bytes`);
+  }
+
+  const planned: PlannedChange[] = [];
+  for (const file of parseUnifiedDiff(patch)) {
+    planned.push(await planChange(file, workDir));
+  }
+
+  if (!dryRun) {
+    for (const change of planned) {
+      if (change.target && change.content !== undefined) {
+        await fs.mkdir(path.dirname(change.target.absolute), { recursive: true });
+        await writeFileAtomic(change.target.absolute, change.content);
+      }
+      const removed = change.summary.status === 'deleted' || change.summary.status === 'renamed';
+      if (removed && change.source) {
+        await fs.rm(change.source.absolute);
+      }
+    }
+  }
+
+  return { applied: !dryRun, files: planned.map((change) => change.summary) };
+}
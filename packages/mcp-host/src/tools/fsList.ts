@@ -0,0 +1,90 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  DEFAULT_IGNORED_DIRS,
+  MAX_LIST_ENTRIES,
+  SandboxError,
+  getWorkRoot,
+  resolveSandboxPath,
+  toResultPath,
+} from '../fs/sandbox';
+
+export interface FsListInputs {
+  path?: string;
+  recursive?: boolean;
+  // Only used when recursive, 1 lists direct children only
+  maxDepth?: number;
+  includeHidden?: boolean;
+}
+
+export type FsEntryType = 'file' | 'directory' | 'symlink' | 'other';
+
+export interface FsEntry {
+  path: string;
+  type: FsEntryType;
+  size?: number;
+}
+
+export interface FsListOutput {
+  path: string;
+  entries: FsEntry[];
+  // True when MAX_LIST_ENTRIES was reached
+  truncated: boolean;
+}
+
+function entryType(entry: { isFile(): boolean; isDirectory(): boolean; isSymbolicLink(): boolean }): FsEntryType {
+  if (entry.isSymbolicLink()) {
+    return 'symlink';
+  }
+  if (entry.isDirectory()) {
+    return 'directory';
+  }
+  return entry.isFile() ? 'file' : 'other';
+}
+
+export async function fsList(inputs: FsListInputs, workDir: string = getWorkRoot()): Promise<FsListOutput> {
+  const { recursive = false, includeHidden = false } = inputs;
+  const maxDepth = recursive ? inputs.maxDepth ?? Infinity : 1;
+  const base = await resolveSandboxPath(inputs.path ?? '.', workDir);
+
+  const stats = await fs.stat(base.absolute);
+  if (!stats.isDirectory()) {
+    throw new SandboxError(`Not a directory: ${inputs.path}`);
+  }
+
+  const entries: FsEntry[] = [];
+  let truncated = false;
+
+  // Breadth-first so a truncated listing still shows the top levels
+  const queue: { dir: string; depth: number }[] = [{ dir: base.absolute, depth: 1 }];
+  while (queue.length > 0 && !truncated) {
+    const { dir, depth } = queue.shift()!;
+    const children = await fs.readdir(dir, { withFileTypes: true });
+    children.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const child of children) {
+      if (!includeHidden && child.name.startsWith('.')) {
+        continue;
+      }
+      if (entries.length >= MAX_LIST_ENTRIES) {
+        truncated = true;
+        break;
+      }
+
+      const absolute = path.join(dir, child.name);
+      const type = entryType(child);
+      const entry: FsEntry = { path: toResultPath(path.relative(workDir, absolute)), type };
+      if (type === 'file') {
+        entry.size = (await fs.stat(absolute)).size;
+      }
+      entries.push(entry);
+
+      // Symlinks are listed but never followed
+      if (type === 'directory' && depth < maxDepth && !DEFAULT_IGNORED_DIRS.includes(child.name)) {
+        queue.push({ dir: absolute, depth: depth + 1 });
+      }
+    }
+  }
+
+  return { path: toResultPath(base.relative), entries, truncated };
+}
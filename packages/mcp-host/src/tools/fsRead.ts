@@ -0,0 +1,75 @@
+import * as fs from 'fs/promises';
+import {
+  MAX_READ_BYTES,
+  SandboxError,
+  getWorkRoot,
+  isBinary,
+  resolveSandboxPath,
+  toResultPath,
+} from '../fs/sandbox';
+
+export interface FsReadInputs {
+  path: string;
+  // 1-based, inclusive line range
+  startLine?: number;
+  endLine?: number;
+}
+
+export interface FsReadOutput {
+  path: string;
+  content: string;
+  size: number;
+  startLine: number;
+  endLine: number;
+  totalLines: number;
+  // True when the file exceeded the read limit and only its beginning was read
+  truncated: boolean;
+}
+
+export async function fsRead(inputs: FsReadInputs, workDir: string = getWorkRoot()): Promise<FsReadOutput> {
+  const target = await resolveSandboxPath(inputs.path, workDir);
+
+  const stats = await fs.stat(target.absolute);
+  if (!stats.isFile()) {
+    throw new SandboxError(`Not a file: ${inputs.path}`);
+  }
+
+  const handle = await fs.open(target.absolute, 'r');
+  let buffer: Buffer;
+  try {
+    buffer = Buffer.alloc(Math.min(stats.size, MAX_READ_BYTES));
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    buffer = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  if (isBinary(buffer)) {
+    throw new SandboxError(`Refusing to read binary file: ${inputs.path}`);
+  }
+
+  const truncated = stats.size > MAX_READ_BYTES;
+  const lines = buffer.toString('utf8').split('\n');
+  if (lines.length > 1 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  const startLine = Math.max(1, inputs.startLine ?? 1);
+  const endLine = Math.min(lines.length, inputs.endLine ?? lines.length);
+  if (startLine > lines.length && lines.length > 0) {
+    throw new SandboxError(`startLine ${startLine} is past the end of ${inputs.path} (${lines.length} lines)`);
+  }
+
+  const selected = lines.slice(startLine - 1, endLine);
+  const wholeFile = startLine === 1 && endLine === lines.length;
+
+  return {
+    path: toResultPath(target.relative),
+    content: wholeFile ? buffer.toString('utf8') : selected.join('\n'),
+    size: stats.size,
+    startLine,
+    endLine: Math.max(startLine - 1, endLine),
+    totalLines: lines.length,
+    truncated,
+  };
+}
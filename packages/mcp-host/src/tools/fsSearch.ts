@@ -0,0 +1,145 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { globToRegExp } from '../fs/glob';
+import { DEFAULT_MATCH_TIMEOUT_MS, LineMatcher } from '../fs/lineMatcher';
+import {
+  DEFAULT_IGNORED_DIRS,
+  MAX_SEARCH_FILE_BYTES,
+  MAX_SEARCH_RESULTS,
+  SandboxError,
+  getWorkRoot,
+  isBinary,
+  resolveSandboxPath,
+  toResultPath,
+} from '../fs/sandbox';
+import { ToolContext } from './toolContext';
+
+export interface FsSearchInputs {
+  // Regular expression matched against each line; when omitted only file names are matched
+  pattern?: string;
+  // Glob matched against paths relative to `path`, e.g. "**/*.ts"
+  glob?: string;
+  path?: string;
+  caseSensitive?: boolean;
+  maxResults?: number;
+}
+
+export interface FsSearchMatch {
+  path: string;
+  // 1-based, absent for file name matches
+  line?: number;
+  column?: number;
+  text?: string;
+}
+
+export interface FsSearchOutput {
+  matches: FsSearchMatch[];
+  filesSearched: number;
+  // True when maxResults was reached
+  truncated: boolean;
+}
+
+// Long lines are cut before matching to bound regex cost
+const MAX_LINE_LENGTH = 2000;
+
+function compilePattern(pattern: string, caseSensitive: boolean): RegExp {
+  try {
+    return new RegExp(pattern, caseSensitive ? '' : 'i');
+  } catch (error) {
+    throw new SandboxError(`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Searches the worktree. Lines are matched in a worker, see LineMatcher, and
+ * the search fails if one file's lines take longer than `matchTimeoutMs`.
+ */
+export async function fsSearch(
+  inputs: FsSearchInputs,
+  context: Pick<ToolContext, 'signal'> = {},
+  workDir: string = getWorkRoot(),
+  matchTimeoutMs: number = DEFAULT_MATCH_TIMEOUT_MS
+): Promise<FsSearchOutput> {
+  const { pattern, glob, caseSensitive = true } = inputs;
+  if (!pattern && !glob) {
+    throw new SandboxError('Either pattern or glob is required');
+  }
+  const maxResults = Math.min(Math.max(1, inputs.maxResults ?? MAX_SEARCH_RESULTS), MAX_SEARCH_RESULTS);
+  // Compiled here too, so that invalid patterns are reported as such
+  const regex = pattern ? compilePattern(pattern, caseSensitive) : undefined;
+  const pathFilter = glob ? globToRegExp(glob) : undefined;
+  const base = await resolveSandboxPath(inputs.path ?? '.', workDir);
+
+  const matches: FsSearchMatch[] = [];
+  let filesSearched = 0;
+  let truncated = false;
+
+  const visit = async (dir: string): Promise<void> => {
+    const children = await fs.readdir(dir, { withFileTypes: true });
+    children.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const child of children) {
+      if (truncated || context.signal?.aborted) {
+        return;
+      }
+      const absolute = path.join(dir, child.name);
+      // Symlinks are never followed so the search cannot leave the sandbox
+      if (child.isDirectory()) {
+        if (!DEFAULT_IGNORED_DIRS.includes(child.name)) {
+          await visit(absolute);
+        }
+        continue;
+      }
+      if (!child.isFile()) {
+        continue;
+      }
+
+      const resultPath = toResultPath(path.relative(workDir, absolute));
+      if (pathFilter && !pathFilter.test(toResultPath(path.relative(base.absolute, absolute)))) {
+        continue;
+      }
+      if (!regex) {
+        filesSearched++;
+        matches.push({ path: resultPath });
+        truncated = matches.length >= maxResults;
+        continue;
+      }
+
+      const stats = await fs.stat(absolute);
+      if (stats.size > MAX_SEARCH_FILE_BYTES) {
+        continue;
+      }
+      const buffer = await fs.readFile(absolute);
+      if (isBinary(buffer)) {
+        continue;
+      }
+      filesSearched++;
+
+      const lines = buffer.toString('utf8').split('\n').map((line) => line.slice(0, MAX_LINE_LENGTH));
+      const columns = await matcher!.match(lines);
+      for (let i = 0; i < lines.length; i++) {
+        if (columns[i] < 0) {
+          continue;
+        }
+        matches.push({ path: resultPath, line: i + 1, column: columns[i] + 1, text: lines[i] });
+        if (matches.length >= maxResults) {
+          truncated = true;
+          return;
+        }
+      }
+    }
+  };
+
+  const stats = await fs.stat(base.absolute);
+  if (!stats.isDirectory()) {
+    throw new SandboxError(`Not a directory: ${inputs.path}`);
+  }
+  const matcher = regex ? new LineMatcher(regex.source, regex.flags, matchTimeoutMs, context.signal) : undefined;
+  try {
+    await visit(base.absolute);
+  } finally {
+    await matcher?.close();
+  }
+
+  return { matches, filesSearched, truncated };
+}
@@ -0,0 +1,68 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  MAX_WRITE_BYTES,
+  SandboxError,
+  getWorkRoot,
+  assertWritable,
+  resolveSandboxPath,
+  toResultPath,
+  writeFileAtomic,
+} from '../fs/sandbox';
+
+export interface FsWriteInputs {
+  path: string;
+  content: string;
+  // Create missing parent directories (default: true)
+  createDirectories?: boolean;
+  // Replace an existing file (default: true)
+  overwrite?: boolean;
+}
+
+export interface FsWriteOutput {
+  path: string;
+  bytesWritten: number;
+  created: boolean;
+}
+
+export async function fsWrite(inputs: FsWriteInputs, workDir: string = getWorkRoot()): Promise<FsWriteOutput> {
+  const { content, createDirectories = true, overwrite = true } = inputs;
+  if (typeof content !== 'string') {
+    throw new SandboxError('content must be a string');
+  }
+  const bytes = Buffer.byteLength(content, 'utf8');
+  if (bytes > MAX_WRITE_BYTES) {
+    throw new SandboxError(`content is ${bytes} bytes, the limit is ${MAX_WRITE_BYTES}`);
+  }
+
+  const target = await resolveSandboxPath(inputs.path, workDir);
+  if (target.relative === '.') {
+    throw new SandboxError('Cannot write to the workspace root');
+  }
+  assertWritable(target);
+
+  let created = true;
+  try {
+    const stats = await fs.lstat(target.absolute);
+    if (!stats.isFile()) {
+      throw new SandboxError(`Not a regular file: ${inputs.path}`);
+    }
+    if (!overwrite) {
+      throw new SandboxError(`File already exists: ${inputs.path}`);
+    }
+    created = false;
+  } catch (error) {
+    if (error instanceof SandboxError) {
+      throw error;
+    }
+  }
+
+  if (createDirectories) {
+    await fs.mkdir(path.dirname(target.absolute), { recursive: true });
+    // mkdir may have followed a symlinked parent created in the meantime
+    await resolveSandboxPath(inputs.path, workDir);
+  }
+  await writeFileAtomic(target.absolute, content);
+
+  return { path: toResultPath(target.relative), bytesWritten: bytes, created };
+}
@@ -0,0 +1,80 @@
+import { GitError, GitWorktree, pathspecs, runGit } from '../git/git';
+import { ToolContext } from './toolContext';
+
+export interface GitCommitInputs {
+  message: string;
+  // Commit only these paths, staging them first (new files included)
+  files?: string[];
+  // Stage all changes, including untracked files, before committing
+  all?: boolean;
+}
+
+export interface GitCommitOutput {
+  hash: string;
+  subject: string;
+  files: { status: string; path: string }[];
+}
+
+// Used when the worktree has no identity configured, as is usual in a fresh container
+const FALLBACK_IDENTITY = ['-c', 'user.name=Roo Master', '-c', 'user.email=roo-master@localhost'];
+
+async function identityArgs(worktree: GitWorktree, context: ToolContext): Promise<string[]> {
+  try {
+    await runGit(worktree, ['config', 'user.email'], { ...context, onLog: () => undefined });
+    return [];
+  } catch (error) {
+    return FALLBACK_IDENTITY;
+  }
+}
+
+export async function gitCommit(
+  worktree: GitWorktree,
+  inputs: GitCommitInputs,
+  context: ToolContext
+): Promise<GitCommitOutput> {
+  const { message, all = false } = inputs;
+  if (typeof message !== 'string' || !message.trim()) {
+    throw new GitError('A non-empty commit message is required');
+  }
+  if (message.includes('\0')) {
+    throw new GitError('Commit message must not contain NUL bytes');
+  }
+  if (all && inputs.files?.length) {
+    throw new GitError('Use either "all" or "files", not both');
+  }
+
+  const files = await pathspecs(worktree, inputs.files);
+  if (files.length > 0) {
+    await runGit(worktree, ['add', '--all', '--', ...files], context);
+  } else if (all) {
+    await runGit(worktree, ['add', '--all'], context);
+  }
+
+  // With paths, `git commit` records only those paths and leaves other staged changes alone
+  const identity = await identityArgs(worktree, context);
+  await runGit(
+    worktree,
+    [...identity, 'commit', `--message=${message}`, ...(files.length > 0 ? ['--', ...files] : [])],
+    context,
+    'git commit'
+  );
+
+  const hash = (await runGit(worktree, ['rev-parse', 'HEAD'], context)).stdout.trim();
+  const show = await runGit(
+    worktree,
+    ['show', '--name-status', '--format=%s', '-z', 'HEAD'],
+    { ...context, onLog: () => undefined },
+    'git show'
+  );
+  const [subject, ...records] = show.stdout.split(/\n|\0/).filter((record) => record.length > 0);
+
+  const changed: { status: string; path: string }[] = [];
+  for (let i = 0; i < records.length; i++) {
+    const status = records[i];
+    // Renames and copies are followed by the old and the new path
+    const path = /^[RC]/.test(status) ? records[(i += 2)] : records[++i];
+    changed.push({ status: status[0], path });
+  }
+
+  return { hash, subject, files: changed };
+}
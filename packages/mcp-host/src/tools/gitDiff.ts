@@ -0,0 +1,44 @@
+import { GitNumstat, GitWorktree, parseNumstat, pathspecs, revision, runGit, truncateOutput } from '../git/git';
+import { ToolContext } from './toolContext';
+
+export interface GitDiffInputs {
+  // Diff the index against HEAD instead of the worktree against the index
+  staged?: boolean;
+  // Compare against this revision instead, e.g. "HEAD~1" or "main"
+  base?: string;
+  paths?: string[];
+  contextLines?: number;
+}
+
+export interface GitDiffOutput {
+  diff: string;
+  files: GitNumstat[];
+  // True when the diff exceeded the output limit
+  truncated: boolean;
+}
+
+export async function gitDiff(
+  worktree: GitWorktree,
+  inputs: GitDiffInputs,
+  context: ToolContext
+): Promise<GitDiffOutput> {
+  const { staged = false, contextLines } = inputs;
+  const args: string[] = [];
+  if (staged) {
+    args.push('--cached');
+  }
+  if (contextLines !== undefined) {
+    args.push(`--unified=${Math.max(0, Math.floor(contextLines))}`);
+  }
+  if (inputs.base) {
+    args.push(revision(inputs.base, 'base'));
+  }
+  args.push('--', ...(await pathspecs(worktree, inputs.paths)));
+
+  const numstat = await runGit(worktree, ['diff', '--numstat', '-z', ...args], context, 'git diff');
+  // Patch text is not streamed to the log, it is returned as the result
+  const patch = await runGit(worktree, ['diff', '--no-color', ...args], { ...context, onLog: () => undefined }, 'git diff');
+  const { text, truncated } = truncateOutput(patch.stdout);
+
+  return { diff: text, files: parseNumstat(numstat.stdout), truncated };
+}
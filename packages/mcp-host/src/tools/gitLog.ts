@@ -0,0 +1,31 @@
+import { GitCommitInfo, GitWorktree, LOG_FORMAT, parseLog, pathspecs, revision, runGit } from '../git/git';
+import { ToolContext } from './toolContext';
+
+export interface GitLogInputs {
+  maxCount?: number;
+  // Revision or range to list, e.g. "main..HEAD" (default: HEAD)
+  ref?: string;
+  paths?: string[];
+}
+
+export interface GitLogOutput {
+  commits: GitCommitInfo[];
+}
+
+export const MAX_LOG_COUNT = 200;
+
+export async function gitLog(
+  worktree: GitWorktree,
+  inputs: GitLogInputs,
+  context: ToolContext
+): Promise<GitLogOutput> {
+  const maxCount = Math.min(Math.max(1, inputs.maxCount ?? 20), MAX_LOG_COUNT);
+  const args = ['log', `--max-count=${maxCount}`, LOG_FORMAT];
+  if (inputs.ref) {
+    args.push(revision(inputs.ref, 'ref'));
+  }
+  args.push('--', ...(await pathspecs(worktree, inputs.paths)));
+
+  const result = await runGit(worktree, args, { ...context, onLog: () => undefined });
+  return { commits: parseLog(result.stdout) };
+}
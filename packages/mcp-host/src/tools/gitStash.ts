@@ -0,0 +1,79 @@
+import { GitError, GitWorktree, runGit } from '../git/git';
+import { ToolContext } from './toolContext';
+
+export type GitStashAction = 'push' | 'pop' | 'apply' | 'drop' | 'list';
+
+export interface GitStashInputs {
+  action: GitStashAction;
+  message?: string;
+  // Stash entry for pop, apply and drop (default: 0, the latest)
+  index?: number;
+  includeUntracked?: boolean;
+}
+
+export interface GitStashEntry {
+  index: number;
+  ref: string;
+  message: string;
+}
+
+export interface GitStashOutput {
+  action: GitStashAction;
+  // Stash entries after the action ran
+  stashes: GitStashEntry[];
+  log: string;
+}
+
+function parseStashList(output: string): GitStashEntry[] {
+  return output
+    .split('\n')
+    .filter((line) => line.length > 0)
+    .map((line, index) => {
+      const [ref, message = ''] = line.split('\x1f');
+      return { index, ref, message };
+    });
+}
+
+export async function gitStash(
+  worktree: GitWorktree,
+  inputs: GitStashInputs,
+  context: ToolContext
+): Promise<GitStashOutput> {
+  const { action, message, index = 0, includeUntracked = false } = inputs;
+  if (!Number.isInteger(index) || index < 0) {
+    throw new GitError(`Invalid stash index: ${index}`);
+  }
+  const entry = `stash@{${index}}`;
+
+  let log = '';
+  switch (action) {
+    case 'push': {
+      const args = ['stash', 'push'];
+      if (includeUntracked) {
+        args.push('--include-untracked');
+      }
+      if (message) {
+        args.push(`--message=${message}`);
+      }
+      log = (await runGit(worktree, args, context, 'git stash push')).log;
+      break;
+    }
+    case 'pop':
+    case 'apply':
+    case 'drop':
+      log = (await runGit(worktree, ['stash', action, entry], context, `git stash ${action}`)).log;
+      break;
+    case 'list':
+      break;
+    default:
+      throw new GitError(`Unknown stash action: ${action}`);
+  }
+
+  const list = await runGit(
+    worktree,
+    ['stash', 'list', '--format=%gd%x1f%gs'],
+    { ...context, onLog: () => undefined },
+    'git stash list'
+  );
+  return { action, stashes: parseStashList(list.stdout), log };
+}
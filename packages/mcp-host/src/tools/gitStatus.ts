@@ -0,0 +1,26 @@
+import { GitStatusSummary, GitWorktree, parseStatus, runGit } from '../git/git';
+import { ToolContext } from './toolContext';
+
+export interface GitStatusInputs {
+  // Include untracked files (default: true)
+  untracked?: boolean;
+}
+
+export interface GitStatusOutput extends GitStatusSummary {
+  clean: boolean;
+}
+
+export async function gitStatus(
+  worktree: GitWorktree,
+  inputs: GitStatusInputs,
+  context: ToolContext
+): Promise<GitStatusOutput> {
+  const { untracked = true } = inputs;
+  const result = await runGit(
+    worktree,
+    ['status', '--porcelain=v2', '--branch', '-z', untracked ? '--untracked-files=all' : '--untracked-files=no'],
+    context
+  );
+  const summary = parseStatus(result.stdout);
+  return { ...summary, clean: summary.files.length === 0 };
+}
@@ -1,39 +1,51 @@
-import { runInContainer } from '../exec/runInContainer';
-import * as fs from 'fs/promises';
+import { describeCommands } from '../exec/command';
+import { ExecStatus, runSequence } from '../exec/runInContainer';
+import {
+  ToolchainInfo,
+  describeToolchain,
+  detectToolchain,
+  formatToolchainChoice,
+} from '../toolchain/detect';
+import { getWorkRoot } from '../fs/sandbox';
+import { ToolContext } from './toolContext';
+
+export interface LintFixInputs {
+  toolchain?: string;
+  timeoutMs?: number;
+}
 
 export interface LintFixOutput {
   success: boolean;
   exitCode: number | null;
   log: string;
+  status: ExecStatus;
+  toolchain: ToolchainInfo;
 }
 
 export async function lintFix(
   containerName: string,
-  onLog: (log: string) => void
+  inputs: LintFixInputs,
+  context: ToolContext
 ): Promise<LintFixOutput> {
-  let packageManager = 'npm'; // Default to npm
+  const { onLog, progress, signal } = context;
 
-  try {
-    await fs.access('/work/pnpm-lock.yaml');
-    packageManager = 'pnpm';
-  } catch (error) {
-    // pnpm-lock.yaml not found, fallback to npm
-    try {
-      await fs.access('/work/package-lock.json');
-      packageManager = 'npm';
-    } catch (error) {
-      onLog('Neither pnpm-lock.yaml nor package-lock.json found. Assuming npm.');
-    }
-  }
+  const detected = await detectToolchain(getWorkRoot(), inputs.toolchain);
+  onLog(formatToolchainChoice(detected));
 
-  const lintCommand = packageManager === 'pnpm' ? 'pnpm lint --fix' : 'npm run lint -- --fix';
+  const lintCommand = detected.toolchain.commands.lintFix;
 
-  onLog(`Executing lint fix command: ${lintCommand} in container ${containerName}`);
-  const result = await runInContainer(containerName, lintCommand, onLog);
+  progress?.phase('lint');
+  onLog(`Executing lint fix command: ${describeCommands(lintCommand)} in container ${containerName}`);
+  const result = await runSequence(containerName, lintCommand, onLog, {
+    signal,
+    timeoutMs: inputs.timeoutMs,
+  });
 
   return {
     success: result.success,
     exitCode: result.exitCode,
     log: result.log,
+    status: result.status,
+    toolchain: describeToolchain(detected),
   };
-}
\ No newline at end of file
+}
@@ -1,51 +1,155 @@
-import { runInContainer } from '../exec/runInContainer';
+import { describeCommands } from '../exec/command';
+import { ExecStatus, runSequence } from '../exec/runInContainer';
 import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  TestReport,
+  TestReportFormat,
+  parseTestReport,
+  parseTestReportFromLog,
+} from '../report/testReport';
+import {
+  ToolchainInfo,
+  describeToolchain,
+  detectToolchain,
+  formatToolchainChoice,
+} from '../toolchain/detect';
+import { CONTAINER_WORK_ROOT, getWorkRoot, resolveSandboxPath } from '../fs/sandbox';
+import { ToolContext } from './toolContext';
 
 export interface TestRunInputs {
   pattern?: string;
+  reportFormat?: TestReportFormat | 'auto';
+  reportPath?: string;
+  toolchain?: string;
+  timeoutMs?: number;
 }
 
 export interface TestRunOutput {
   success: boolean;
   exitCode: number | null;
   log: string;
+  status: ExecStatus;
+  report?: TestReport;
+  toolchain: ToolchainInfo;
 }
 
-export async function testRun(
-  containerName: string,
-  inputs: TestRunInputs,
-  onLog: (log: string) => void
-): Promise<TestRunOutput> {
-  const { pattern } = inputs;
+// Report files commonly written by test runners, relative to the worktree
+const DEFAULT_REPORT_PATHS = [
+  'junit.xml',
+  'test-results.xml',
+  'test-results/junit.xml',
+  'test-results/results.xml',
+  'reports/junit.xml',
+  'jest-results.json',
+  'test-results.json',
+  'test-results/results.json',
+];
 
-  let packageManager = 'npm'; // Default to npm
+/**
+ * Maps a report path the test command writes to, as the container sees it or
+ * relative to /work, to the worktree.
+ * @throws When the path is outside /work.
+ */
+export function reportPathInWorktree(reportPath: string): string {
+  const relative = path.isAbsolute(reportPath) ? path.posix.relative(CONTAINER_WORK_ROOT, reportPath) : reportPath;
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new Error(`Report path must be inside ${CONTAINER_WORK_ROOT}: ${reportPath}`);
+  }
+  return relative || '.';
+}
 
+/**
+ * Reads a report the test run wrote. Anything unreadable, including a path
+ * outside the worktree, is no report rather than an error, so that the run's
+ * own result is never lost.
+ */
+export async function readReportFile(
+  reportPath: string,
+  since: number,
+  format?: TestReportFormat,
+  workDir: string = getWorkRoot()
+): Promise<TestReport | undefined> {
   try {
-    await fs.access('/work/pnpm-lock.yaml');
-    packageManager = 'pnpm';
+    const relative = reportPathInWorktree(reportPath);
+    const resolved = (await resolveSandboxPath(relative, workDir)).absolute;
+    const stats = await fs.stat(resolved);
+    // Ignore stale reports left over from a previous run
+    if (stats.mtimeMs < since) {
+      return undefined;
+    }
+    const content = await fs.readFile(resolved, 'utf8');
+    return parseTestReport(content, path.posix.join(CONTAINER_WORK_ROOT, relative), format);
   } catch (error) {
-    // pnpm-lock.yaml not found, fallback to npm
-    try {
-      await fs.access('/work/package-lock.json');
-      packageManager = 'npm';
-    } catch (error) {
-      onLog('Neither pnpm-lock.yaml nor package-lock.json found. Assuming npm.');
+    return undefined;
+  }
+}
+
+async function collectReport(
+  inputs: TestRunInputs,
+  log: string,
+  startedAt: number,
+  onLog: (log: string) => void
+): Promise<TestReport | undefined> {
+  const format = inputs.reportFormat === 'auto' ? undefined : inputs.reportFormat;
+
+  if (inputs.reportPath) {
+    const report = await readReportFile(inputs.reportPath, startedAt, format);
+    if (!report) {
+      onLog(`No test report could be read from ${inputs.reportPath}`);
     }
+    return report;
   }
 
-  let testCommand = '';
-  if (packageManager === 'pnpm') {
-    testCommand = pattern ? `pnpm test ${pattern}` : 'pnpm test';
-  } else {
-    testCommand = pattern ? `npm test ${pattern}` : 'npm test';
+  for (const candidate of DEFAULT_REPORT_PATHS) {
+    const report = await readReportFile(candidate, startedAt, format);
+    if (report) {
+      return report;
+    }
   }
 
-  onLog(`Executing test command: ${testCommand} in container ${containerName}`);
-  const result = await runInContainer(containerName, testCommand, onLog);
+  return parseTestReportFromLog(log, format);
+}
+
+export async function testRun(
+  containerName: string,
+  inputs: TestRunInputs,
+  context: ToolContext
+): Promise<TestRunOutput> {
+  const { pattern, timeoutMs } = inputs;
+  const { onLog, progress, signal } = context;
+
+  const detected = await detectToolchain(getWorkRoot(), inputs.toolchain);
+  onLog(formatToolchainChoice(detected));
+
+  const testCommand = detected.toolchain.commands.test(pattern);
+  // Refused before the tests run rather than after
+  if (inputs.reportPath) {
+    reportPathInWorktree(inputs.reportPath);
+  }
+
+  // Filesystem timestamps can be coarser than Date.now()
+  const startedAt = Date.now() - 1000;
+
+  progress?.phase('test');
+  onLog(`Executing test command: ${describeCommands(testCommand)} in container ${containerName}`);
+  const result = await runSequence(containerName, testCommand, onLog, { signal, timeoutMs });
+
+  progress?.phase('report');
+  const report = await collectReport(inputs, result.log, startedAt, onLog);
+  if (report) {
+    onLog(
+      `Parsed ${report.format} test report: ${report.summary.passed} passed, ` +
+      `${report.summary.failed} failed, ${report.summary.skipped} skipped`
+    );
+  }
 
   return {
     success: result.success,
     exitCode: result.exitCode,
     log: result.log,
+    status: result.status,
+    report,
+    toolchain: describeToolchain(detected),
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,11 @@
+import { ToolProgress } from '../util/progress';
+
+/**
+ * Per-call facilities handed to every tool implementation.
+ */
+export interface ToolContext {
+  onLog: (log: string) => void;
+  progress?: ToolProgress;
+  // Aborted when the client cancels the tool call
+  signal?: AbortSignal;
+}
@@ -0,0 +1,206 @@
+import { randomUUID } from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface HttpTransportOptions {
+  port: number;
+  // Interface to bind, loopback unless explicitly opened up
+  host?: string;
+  createServer: () => Server;
+  serverInfo: { name: string; version: string };
+}
+
+// Request bodies above this size are rejected before parsing
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
+
+/**
+ * Resolves the request target against a fixed base; the Host header only has
+ * to be well-formed, the DNS rebinding check decides whether it is allowed.
+ * @returns Undefined for a malformed target or Host header.
+ */
+function parseRequestUrl(req: http.IncomingMessage): URL | undefined {
+  try {
+    if (req.headers.host !== undefined) {
+      new URL(`http://${req.headers.host}`);
+    }
+    return new URL(req.url ?? '/', 'http://localhost');
+  } catch {
+    return undefined;
+  }
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * Serves MCP over HTTP:
+ * - `/mcp`: Streamable HTTP transport, one session per initialize request
+ * - `/sse` and `/messages`: the older HTTP+SSE transport for clients that lack Streamable HTTP
+ * - `/health`: liveness probe used by the extension's launcher
+ */
+export function startHttpTransport(options: HttpTransportOptions): Promise<http.Server> {
+  const { port, host = '127.0.0.1', serverInfo } = options;
+  const sessions = new Map<string, Session>();
+  const startedAt = Date.now();
+
+  // Rejects requests whose Host header does not name this server (DNS rebinding).
+  // Filled in once listening, when the port is known even if 0 was asked for.
+  const allowedHosts: string[] = [];
+  const transportOptions = { allowedHosts, enableDnsRebindingProtection: true };
+
+  const closeSession = (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (session) {
+      sessions.delete(sessionId);
+      session.server.close().catch(() => undefined);
+    }
+  };
+
+  const handleMcp = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req);
+      if (existing) {
+        if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+          sendJsonRpcError(res, 400, 'Session belongs to a different transport');
+          return;
+        }
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId !== undefined || !isInitializeRequest(body)) {
+        sendJsonRpcError(res, sessionId !== undefined ? 404 : 400, sessionId !== undefined ? 'Unknown session' : 'Missing session id');
+        return;
+      }
+
+      const server = options.createServer();
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        ...transportOptions,
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, { transport, server });
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          closeSession(transport.sessionId);
+        }
+      };
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+      if (!transport.sessionId) {
+        // Initialization was rejected, e.g. by the Host header check
+        await server.close();
+      }
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!existing || !(existing.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, existing ? 400 : 404, existing ? 'Session belongs to a different transport' : 'Unknown session');
+        return;
+      }
+      await existing.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+  };
+
+  const handleSse = async (res: http.ServerResponse) => {
+    const server = options.createServer();
+    const transport = new SSEServerTransport('/messages', res, transportOptions);
+    sessions.set(transport.sessionId, { transport, server });
+    transport.onclose = () => closeSession(transport.sessionId);
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+    const session = sessions.get(url.searchParams.get('sessionId') ?? '');
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, 'Unknown session');
+      return;
+    }
+    await session.transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    const handle = async () => {
+      const url = parseRequestUrl(req);
+      if (!url) {
+        sendJsonRpcError(res, 400, 'Invalid request URL or Host header');
+        return;
+      }
+      if (url.pathname === '/health' && req.method === 'GET') {
+        sendJson(res, 200, {
+          status: 'ok',
+          ...serverInfo,
+          sessions: sessions.size,
+          uptimeMs: Date.now() - startedAt,
+        });
+      } else if (url.pathname === '/mcp') {
+        await handleMcp(req, res);
+      } else if (url.pathname === '/sse' && req.method === 'GET') {
+        await handleSse(res);
+      } else if (url.pathname === '/messages' && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJson(res, 404, { error: `Not found: ${req.method} ${url.pathname}` });
+      }
+    };
+
+    handle().catch((error) => {
+      console.error('Error handling MCP HTTP request:', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, error instanceof SyntaxError ? 400 : 500, error instanceof Error ? error.message : String(error));
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  httpServer.on('close', () => {
+    for (const sessionId of [...sessions.keys()]) {
+      closeSession(sessionId);
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, host, () => {
+      httpServer.off('error', reject);
+      const { port: boundPort } = httpServer.address() as AddressInfo;
+      allowedHosts.push(`127.0.0.1:${boundPort}`, `localhost:${boundPort}`, `[::1]:${boundPort}`, `${host}:${boundPort}`);
+      resolve(httpServer);
+    });
+  });
+}
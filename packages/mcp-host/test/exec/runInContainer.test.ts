@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { argv } from '../../src/exec/command';
+import { ExecResult, runInContainer } from '../../src/exec/runInContainer';
+
+// Stands in for docker and podman: runs the exec'd command on this machine with
+// the -e variables set, so the kill script finds it through /proc as it would
+// inside the container
+const STUB_RUNTIME = `#!/bin/sh
+echo "$*" >> "$ROO_STUB_LOG"
+[ "$1" = exec ] || exit 1
+shift
+while [ $# -gt 0 ]; do
+  case "$1" in
+    -i) shift ;;
+    -e) export "$2"; shift 2 ;;
+    -w) shift 2 ;;
+    *) break ;;
+  esac
+done
+shift
+exec "$@"
+`;
+
+// Prints a line, then hangs until killed
+const HANGING = argv('sh', '-c', 'echo partial output; sleep 30; echo never');
+
+async function waitFor(condition: () => Promise<boolean>, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+suite('Running commands in the container', () => {
+  let stubDir: string;
+  let stubLog: string;
+  let previousPath: string | undefined;
+
+  const runtimeCalls = async () => (await fs.readFile(stubLog, 'utf8').catch(() => '')).split('\n').filter(Boolean);
+  const killCalls = async () => (await runtimeCalls()).filter((call) => call.includes('roo-kill'));
+
+  setup(async () => {
+    stubDir = await fs.mkdtemp(path.join(os.tmpdir(), 'roo-runtime-'));
+    stubLog = path.join(stubDir, 'calls.log');
+    for (const binary of ['docker', 'podman']) {
+      await fs.writeFile(path.join(stubDir, binary), STUB_RUNTIME, { mode: 0o755 });
+    }
+    previousPath = process.env.PATH;
+    process.env.PATH = `${stubDir}${path.delimiter}${previousPath ?? ''}`;
+    process.env.ROO_STUB_LOG = stubLog;
+  });
+
+  teardown(async () => {
+    process.env.PATH = previousPath;
+    delete process.env.ROO_STUB_LOG;
+    await fs.rm(stubDir, { recursive: true, force: true });
+  });
+
+  // Starts the hanging command and resolves once its first line has arrived
+  async function startHanging(options: { signal?: AbortSignal; timeoutMs?: number } = {}) {
+    let log = '';
+    const result = runInContainer('roo-track-1', HANGING, (chunk) => (log += chunk), options);
+    await waitFor(async () => log.includes('partial output'));
+    return { result, log: () => log };
+  }
+
+  test('completed commands report their exit code and output', async () => {
+    const result = await runInContainer('roo-track-1', argv('sh', '-c', 'echo out; echo err >&2; exit 3'), () => undefined);
+    assert.deepStrictEqual([result.status, result.success, result.exitCode, result.stdout], ['completed', false, 3, 'out\n']);
+    assert.match(result.log, /err/);
+
+    const [call] = await runtimeCalls();
+    assert.match(call, /^exec -i -e ROO_EXEC_ID=[0-9a-f]{16} -w \/work roo-track-1 sh -c /);
+  });
+
+  test('cancellation kills the process tree and keeps the partial log', async () => {
+    const controller = new AbortController();
+    const started = Date.now();
+    const { result } = await startHanging({ signal: controller.signal });
+    controller.abort();
+    const cancelled: ExecResult = await result;
+
+    assert.strictEqual(cancelled.status, 'cancelled');
+    assert.strictEqual(cancelled.success, false);
+    assert.match(cancelled.log, /^partial output\n[\s\S]*Command cancelled by client request\./);
+    assert.doesNotMatch(cancelled.log, /never/);
+    // Stopped by the TERM sent through the kill script, well within the grace period
+    assert.ok(Date.now() - started < 5000);
+
+    const execId = /ROO_EXEC_ID=([0-9a-f]+)/.exec((await runtimeCalls())[0])![1];
+    await waitFor(async () => (await killCalls()).length === 2);
+    assert.deepStrictEqual(
+      (await killCalls()).map((call) => call.split(' ').slice(-2)),
+      [['TERM', execId], ['KILL', execId]]
+    );
+  });
+
+  test('timeouts are told apart from cancellation', async () => {
+    const { result } = await startHanging({ timeoutMs: 300 });
+    const timedOut = await result;
+
+    assert.strictEqual(timedOut.status, 'timed_out');
+    assert.strictEqual(timedOut.success, false);
+    assert.match(timedOut.log, /^partial output\n[\s\S]*Command timed out after 300ms\./);
+    await waitFor(async () => (await killCalls()).length === 2);
+  });
+
+  test('nothing is started once cancelled or out of time', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    assert.strictEqual((await runInContainer('roo-track-1', HANGING, () => undefined, { signal: controller.signal })).status, 'cancelled');
+    assert.strictEqual((await runInContainer('roo-track-1', HANGING, () => undefined, { timeoutMs: 0 })).status, 'timed_out');
+    assert.deepStrictEqual(await runtimeCalls(), []);
+  });
+});
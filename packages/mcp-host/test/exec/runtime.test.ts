@@ -0,0 +1,21 @@
+import * as assert from 'assert';
+import { RUNTIMES, detectRuntime } from '../../src/exec/runtime';
+
+suite('container runtime detection', () => {
+  const onPath = (...binaries: string[]) => (binary: string) => binaries.includes(binary) ? `/usr/bin/${binary}` : undefined;
+
+  test('honours ROO_CONTAINER_RUNTIME over what is on PATH', () => {
+    assert.strictEqual(detectRuntime({ ROO_CONTAINER_RUNTIME: 'podman' }, onPath('docker')), RUNTIMES.podman);
+    assert.strictEqual(detectRuntime({ ROO_CONTAINER_RUNTIME: 'docker' }, onPath('podman')), RUNTIMES.docker);
+  });
+
+  test('prefers docker, then podman, when detecting automatically', () => {
+    assert.strictEqual(detectRuntime({}, onPath('docker', 'podman')), RUNTIMES.docker);
+    assert.strictEqual(detectRuntime({ ROO_CONTAINER_RUNTIME: 'auto' }, onPath('podman')), RUNTIMES.podman);
+    assert.strictEqual(detectRuntime({}, onPath()), RUNTIMES.docker);
+  });
+
+  test('rejects unknown runtimes', () => {
+    assert.throws(() => detectRuntime({ ROO_CONTAINER_RUNTIME: 'nerdctl' }, onPath()), /Unknown container runtime/);
+  });
+});
@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { PatchError, applyFilePatch, parseUnifiedDiff } from '../../src/fs/patch';
+import { fsApplyPatch } from '../../src/tools/fsApplyPatch';
+
+const ORIGINAL = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', ''].join('\n');
+
+suite('Unified diff patches', () => {
+  test('applies hunks and tolerates shifted line numbers', () => {
+    const [file] = parseUnifiedDiff([
+      '--- a/numbers.txt',
+      '+++ b/numbers.txt',
+      '@@ -5,3 +5,3 @@',
+      ' two',
+      '-three',
+      '+THREE',
+      ' four',
+      '@@ -9,2 +9,3 @@',
+      ' nine',
+      ' ten',
+      '+eleven',
+      '',
+    ].join('\n'));
+
+    assert.strictEqual(file.oldPath, 'numbers.txt');
+    const result = applyFilePatch(ORIGINAL, file);
+    assert.strictEqual(result, ORIGINAL.replace('three', 'THREE').replace('ten\n', 'ten\neleven\n'));
+  });
+
+  test('honours missing newline at end of file', () => {
+    const [file] = parseUnifiedDiff([
+      '--- a/x',
+      '+++ b/x',
+      '@@ -1 +1 @@',
+      '-a',
+      '\\ No newline at end of file',
+      '+b',
+      '',
+    ].join('\n'));
+    assert.strictEqual(applyFilePatch('a', file), 'b\n');
+  });
+
+  test('rejects hunks whose context does not match', () => {
+    const [file] = parseUnifiedDiff(['--- a/x', '+++ b/x', '@@ -1 +1 @@', '-missing', '+b', ''].join('\n'));
+    assert.throws(() => applyFilePatch(ORIGINAL, file), PatchError);
+  });
+
+  test('a failing file leaves every file untouched', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'roo-patch-'));
+    try {
+      await fs.writeFile(path.join(root, 'a.txt'), 'a\n');
+      await fs.writeFile(path.join(root, 'b.txt'), 'b\n');
+      const patch = [
+        '--- a/a.txt', '+++ b/a.txt', '@@ -1 +1 @@', '-a', '+A',
+        '--- a/b.txt', '+++ b/b.txt', '@@ -1 +1 @@', '-nope', '+B',
+        '',
+      ].join('\n');
+
+      await assert.rejects(fsApplyPatch({ patch }, root), PatchError);
+      assert.strictEqual(await fs.readFile(path.join(root, 'a.txt'), 'utf8'), 'a\n');
+
+      const created = await fsApplyPatch(
+        { patch: ['--- /dev/null', '+++ b/new/c.txt', '@@ -0,0 +1 @@', '+c', ''].join('\n') },
+        root
+      );
+      assert.deepStrictEqual(created.files, [{ path: 'new/c.txt', status: 'created', hunks: 1, additions: 1, deletions: 0 }]);
+      assert.strictEqual(await fs.readFile(path.join(root, 'new', 'c.txt'), 'utf8'), 'c\n');
+
+      await assert.rejects(
+        fsApplyPatch({ patch: ['--- /dev/null', '+++ b/../evil.txt', '@@ -0,0 +1 @@', '+x', ''].join('\n') }, root)
+      );
+
+      // A rename never overwrites the file it renames to
+      await assert.rejects(
+        fsApplyPatch({ patch: ['--- a/a.txt', '+++ b/b.txt', '@@ -1 +1 @@', '-a', '+A', ''].join('\n') }, root),
+        /renames a\.txt to a file that already exists/
+      );
+      assert.strictEqual(await fs.readFile(path.join(root, 'a.txt'), 'utf8'), 'a\n');
+      assert.strictEqual(await fs.readFile(path.join(root, 'b.txt'), 'utf8'), 'b\n');
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
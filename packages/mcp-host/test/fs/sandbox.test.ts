@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SandboxError, getWorkRoot, resolveSandboxPath, toContainerPath } from '../../src/fs/sandbox';
+import { fsList } from '../../src/tools/fsList';
+import { fsRead } from '../../src/tools/fsRead';
+import { fsSearch } from '../../src/tools/fsSearch';
+import { fsWrite } from '../../src/tools/fsWrite';
+
+suite('File tool sandbox', () => {
+  let root: string;
+  let outside: string;
+
+  setup(async () => {
+    const base = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'roo-sandbox-')));
+    root = path.join(base, 'work');
+    outside = path.join(base, 'outside');
+    await fs.mkdir(path.join(root, 'src'), { recursive: true });
+    await fs.mkdir(outside);
+    await fs.writeFile(path.join(root, 'src', 'index.ts'), 'export const answer = 42;\n');
+    await fs.writeFile(path.join(outside, 'secret.txt'), 'secret\n');
+    await fs.symlink(outside, path.join(root, 'escape'));
+  });
+
+  teardown(async () => {
+    await fs.rm(path.dirname(root), { recursive: true, force: true });
+  });
+
+  test('relative and absolute paths inside the root resolve', async () => {
+    assert.strictEqual((await resolveSandboxPath('src/index.ts', root)).relative, path.join('src', 'index.ts'));
+    assert.strictEqual((await resolveSandboxPath(path.join(root, 'src'), root)).relative, 'src');
+    assert.strictEqual((await resolveSandboxPath('src/new/file.ts', root)).relative, path.join('src', 'new', 'file.ts'));
+  });
+
+  test('traversal outside the root is rejected', async () => {
+    for (const requested of ['../outside/secret.txt', 'src/../../outside', '/etc/passwd', 'a\0b']) {
+      await assert.rejects(resolveSandboxPath(requested, root), SandboxError, requested);
+    }
+  });
+
+  test('symlinks leading outside the root are rejected', async () => {
+    await assert.rejects(fsRead({ path: 'escape/secret.txt' }, root), SandboxError);
+    await assert.rejects(fsWrite({ path: 'escape/new.txt', content: 'x' }, root), SandboxError);
+    await assert.rejects(fs.access(path.join(outside, 'new.txt')));
+  });
+
+  test('listing and search do not follow symlinks', async () => {
+    const listing = await fsList({ recursive: true }, root);
+    assert.deepStrictEqual(
+      listing.entries.map((entry) => `${entry.type} ${entry.path}`),
+      ['symlink escape', 'directory src', 'file src/index.ts']
+    );
+
+    const search = await fsSearch({ pattern: 'secret|answer' }, {}, root);
+    assert.deepStrictEqual(search.matches, [{ path: 'src/index.ts', line: 1, column: 14, text: 'export const answer = 42;' }]);
+  });
+
+  test('a catastrophically backtracking pattern times out without blocking the server', async () => {
+    await fs.writeFile(path.join(root, 'src', 'backtracking.txt'), `${'a'.repeat(40)}!\n`);
+    let ticks = 0;
+    const ticker = setInterval(() => ticks++, 10);
+    try {
+      const started = Date.now();
+      await assert.rejects(fsSearch({ pattern: '(a+)+$' }, {}, root, 300), /took longer than 300ms/);
+      assert.ok(Date.now() - started < 5000);
+      // The event loop kept running while the pattern was matched
+      assert.ok(ticks > 5, `${ticks} ticks`);
+    } finally {
+      clearInterval(ticker);
+    }
+    assert.strictEqual((await fsSearch({ pattern: 'answer' }, {}, root)).matches.length, 1);
+  });
+
+  test('the exec policy cannot be modified', async () => {
+    await assert.rejects(fsWrite({ path: '.roo/policy.json', content: '{}' }, root), SandboxError);
+    await assert.rejects(fsWrite({ path: 'src/../.roo/policy.json', content: '{}' }, root), SandboxError);
+  });
+
+  test('reads honour line ranges', async () => {
+    await fsWrite({ path: 'lines.txt', content: 'one\ntwo\nthree\n' }, root);
+    const result = await fsRead({ path: 'lines.txt', startLine: 2, endLine: 3 }, root);
+    assert.strictEqual(result.content, 'two\nthree');
+    assert.strictEqual(result.totalLines, 3);
+  });
+
+  test('the root is the host worktree named by ROO_WORK_ROOT', async () => {
+    assert.strictEqual(getWorkRoot({}), '/work');
+    assert.strictEqual(getWorkRoot({ ROO_WORK_ROOT: root }), root);
+    // Commands in the container see the same directory under /work
+    assert.strictEqual(toContainerPath(await resolveSandboxPath('src', root)), '/work/src');
+    assert.strictEqual(toContainerPath(await resolveSandboxPath('.', root)), '/work');
+
+    const previous = process.env.ROO_WORK_ROOT;
+    process.env.ROO_WORK_ROOT = root;
+    try {
+      assert.strictEqual((await fsRead({ path: 'src/index.ts' })).content, 'export const answer = 42;\n');
+    } finally {
+      if (previous === undefined) {
+        delete process.env.ROO_WORK_ROOT;
+      } else {
+        process.env.ROO_WORK_ROOT = previous;
+      }
+    }
+  });
+});
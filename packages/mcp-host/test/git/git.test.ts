@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import { parseLog, parseNumstat, parseStatus, revision } from '../../src/git/git';
+
+suite('Git output parsing', () => {
+  test('porcelain v2 status with renames, conflicts and spaces', () => {
+    const output = [
+      '# branch.oid 2157b22875d082140ee4ee5ce34005ba4c527e12',
+      '# branch.head puppet/track-1',
+      '# branch.upstream origin/puppet/track-1',
+      '# branch.ab +2 -1',
+      '1 .M N... 100644 100644 100644 7898192 7898192 src/a file.ts',
+      '2 R. N... 100644 100644 100644 7898192 7898192 R100 src/new.ts',
+      'src/old.ts',
+      'u UU N... 100644 100644 100644 100644 1111111 2222222 3333333 conflict.txt',
+      '? notes.md',
+      '',
+    ].join('\0');
+
+    const status = parseStatus(output);
+    assert.strictEqual(status.branch, 'puppet/track-1');
+    assert.strictEqual(status.upstream, 'origin/puppet/track-1');
+    assert.strictEqual(status.ahead, 2);
+    assert.strictEqual(status.behind, 1);
+    assert.deepStrictEqual(
+      status.files.map((file) => [file.path, file.origPath, file.staged, file.unstaged, file.untracked, file.conflicted]),
+      [
+        ['src/a file.ts', undefined, false, true, false, false],
+        ['src/new.ts', 'src/old.ts', true, false, false, false],
+        ['conflict.txt', undefined, true, true, false, true],
+        ['notes.md', undefined, false, false, true, false],
+      ]
+    );
+  });
+
+  test('numstat with binary files and renames', () => {
+    const output = ['3\t1\tsrc/a.ts', '-\t-\tlogo.png', '0\t0\t', 'old.ts', 'new.ts', ''].join('\0');
+    assert.deepStrictEqual(parseNumstat(output), [
+      { path: 'src/a.ts', additions: 3, deletions: 1, binary: false },
+      { path: 'logo.png', additions: 0, deletions: 0, binary: true },
+      { path: 'new.ts', additions: 0, deletions: 0, binary: false },
+    ]);
+  });
+
+  test('log records keep multi-line bodies intact', () => {
+    const output = 'abc\x1fAda\x1fada@example.com\x1f2024-01-01T00:00:00+00:00\x1fSubject | with bars\x1fLine 1\nLine 2\n\x1e\n';
+    assert.deepStrictEqual(parseLog(output), [
+      {
+        hash: 'abc',
+        author: 'Ada',
+        email: 'ada@example.com',
+        date: '2024-01-01T00:00:00+00:00',
+        subject: 'Subject | with bars',
+        body: 'Line 1\nLine 2',
+      },
+    ]);
+  });
+
+  test('revisions cannot smuggle options or shell syntax', () => {
+    assert.strictEqual(revision('main..HEAD~2', 'ref'), 'main..HEAD~2');
+    assert.throws(() => revision('--output=/tmp/x', 'ref'));
+    assert.throws(() => revision('HEAD;id', 'ref'));
+  });
+});
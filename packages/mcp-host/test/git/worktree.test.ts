@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { GitWorktree, getGitWorktree } from '../../src/git/git';
+import { gitCommit } from '../../src/tools/gitCommit';
+import { gitDiff } from '../../src/tools/gitDiff';
+import { gitLog } from '../../src/tools/gitLog';
+import { gitStash } from '../../src/tools/gitStash';
+import { gitStatus } from '../../src/tools/gitStatus';
+import { ToolContext } from '../../src/tools/toolContext';
+
+const IDENTITY = ['-c', 'user.name=Test', '-c', 'user.email=test@localhost'];
+
+function hostGit(cwd: string, ...args: string[]): string {
+  return execFileSync('git', [...IDENTITY, ...args], { cwd, encoding: 'utf8' });
+}
+
+const context: ToolContext = { onLog: () => undefined };
+
+// A main checkout with the track worktree beside it, as the extension creates them
+suite('Git tools in a linked worktree', () => {
+  let root: string;
+  let main: string;
+  let worktree: GitWorktree;
+
+  setup(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'roo-git-')));
+    main = path.join(root, 'main');
+    await fs.mkdir(main);
+    hostGit(main, 'init', '--quiet', '--initial-branch=main');
+    await fs.writeFile(path.join(main, 'README.md'), 'hello\n');
+    hostGit(main, 'add', 'README.md');
+    hostGit(main, 'commit', '--quiet', '--message=Initial commit');
+
+    const workTree = path.join(root, 'track-1');
+    hostGit(main, 'worktree', 'add', '--quiet', '-b', 'track/1', workTree);
+    worktree = { workTree, gitDir: path.join(main, '.git', 'worktrees', 'track-1') };
+  });
+
+  teardown(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('the worktree .git is a file pointing into the main checkout', async () => {
+    const dotGit = await fs.readFile(path.join(worktree.workTree, '.git'), 'utf8');
+    assert.match(dotGit, new RegExp(`^gitdir: ${main}/\\.git/worktrees/track-1`));
+  });
+
+  test('status, diff, commit and log run against the worktree', async () => {
+    await fs.writeFile(path.join(worktree.workTree, 'README.md'), 'hello\nworld\n');
+    await fs.writeFile(path.join(worktree.workTree, 'notes.md'), 'notes\n');
+
+    const status = await gitStatus(worktree, {}, context);
+    assert.strictEqual(status.branch, 'track/1');
+    assert.deepStrictEqual(status.files.map((file) => [file.path, file.untracked]), [
+      ['README.md', false],
+      ['notes.md', true],
+    ]);
+
+    const diff = await gitDiff(worktree, { paths: ['README.md'] }, context);
+    assert.deepStrictEqual(diff.files, [{ path: 'README.md', additions: 1, deletions: 0, binary: false }]);
+    assert.match(diff.diff, /^\+world$/m);
+
+    const commit = await gitCommit(worktree, { message: 'Add notes', files: ['notes.md'] }, context);
+    assert.deepStrictEqual(commit.files, [{ status: 'A', path: 'notes.md' }]);
+    assert.strictEqual(hostGit(main, 'rev-parse', 'track/1').trim(), commit.hash);
+
+    const log = await gitLog(worktree, {}, context);
+    assert.deepStrictEqual(log.commits.map((entry) => entry.subject), ['Add notes', 'Initial commit']);
+
+    const stash = await gitStash(worktree, { action: 'push', message: 'wip' }, context);
+    assert.deepStrictEqual(stash.stashes.map((entry) => entry.ref), ['stash@{0}']);
+    assert.strictEqual((await gitStatus(worktree, {}, context)).clean, true);
+  });
+
+  test('a rewritten .git file does not redirect git when the git dir is known', async () => {
+    const decoy = path.join(worktree.workTree, 'decoy');
+    hostGit(worktree.workTree, 'init', '--quiet', '--initial-branch=decoy', decoy);
+    await fs.writeFile(path.join(worktree.workTree, '.git'), `gitdir: ${path.join(decoy, '.git')}\n`);
+
+    assert.strictEqual((await gitStatus(worktree, {}, context)).branch, 'track/1');
+    assert.strictEqual((await gitStatus({ workTree: worktree.workTree }, {}, context)).branch, 'decoy');
+  });
+
+  test('the worktree is taken from the launcher environment', () => {
+    assert.deepStrictEqual(getGitWorktree({ ROO_WORK_ROOT: '/repo/.worktrees/t1', ROO_GIT_DIR: '/repo/.git/worktrees/t1' }), {
+      workTree: '/repo/.worktrees/t1',
+      gitDir: '/repo/.git/worktrees/t1',
+    });
+    assert.deepStrictEqual(getGitWorktree({}), { workTree: '/work', gitDir: undefined });
+  });
+});
@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import {
+  PolicyViolationError,
+  checkCommand,
+  effectiveTimeout,
+  loadPolicy,
+  matchesCommandPattern,
+  parsePolicy,
+  resolveEnv,
+} from '../../src/policy/policy';
+
+const policy = parsePolicy(
+  JSON.stringify({
+    commands: {
+      allow: ['tsc **', 'npx prisma generate', 'node scripts/*.js **'],
+      deny: ['** --unsafe-perm', 'node scripts/*.js ** -e **'],
+    },
+    env: { passthrough: ['NODE_ENV'], allow: ['DEBUG', 'PRISMA_*'] },
+    maxRuntimeMs: 60000,
+  }),
+  'test'
+);
+
+suite('Exec policy', () => {
+  test('command patterns match argument by argument', () => {
+    assert.ok(matchesCommandPattern('tsc **', ['tsc']));
+    assert.ok(matchesCommandPattern('tsc **', ['tsc', '--noEmit', '-p', '.']));
+    assert.ok(matchesCommandPattern('npx prisma generate', ['npx', 'prisma', 'generate']));
+    assert.ok(!matchesCommandPattern('npx prisma generate', ['npx', 'prisma', 'generate', '--schema=x']));
+    assert.ok(matchesCommandPattern('node scripts/*.js', ['node', 'scripts/codegen.js']));
+    assert.ok(!matchesCommandPattern('node scripts/*.js', ['node', 'scripts/../../tmp/evil.js']));
+  });
+
+  test('commands must be allowed and not denied', () => {
+    checkCommand(policy, ['tsc', '--noEmit']);
+    checkCommand(policy, ['node', 'scripts/codegen.js', '--out', 'src/gen']);
+    assert.throws(() => checkCommand(policy, ['rm', '-rf', '/']), PolicyViolationError);
+    assert.throws(() => checkCommand(policy, ['tsc', '--unsafe-perm']), /deny pattern/);
+    assert.throws(() => checkCommand(policy, ['node', 'scripts/codegen.js', '-e', 'process.exit()']), /deny pattern/);
+    assert.throws(() => checkCommand(policy, ['bash', '-c', 'tsc']), /does not match any allow pattern/);
+  });
+
+  test('environment passthrough and caller variables follow the policy', () => {
+    const env = resolveEnv(policy, { DEBUG: '1', PRISMA_HIDE_UPDATE_MESSAGE: 'true' }, { NODE_ENV: 'test', HOME: '/root' });
+    assert.deepStrictEqual(env, { NODE_ENV: 'test', DEBUG: '1', PRISMA_HIDE_UPDATE_MESSAGE: 'true' });
+    assert.throws(() => resolveEnv(policy, { LD_PRELOAD: '/tmp/evil.so' }, {}), PolicyViolationError);
+    assert.throws(() => resolveEnv(policy, { ROO_EXEC_ID: 'x' }, {}), PolicyViolationError);
+  });
+
+  test('timeouts are capped at the maximum runtime', () => {
+    assert.strictEqual(effectiveTimeout(policy), 60000);
+    assert.strictEqual(effectiveTimeout(policy, 1000), 1000);
+    assert.strictEqual(effectiveTimeout(policy, 120000), 60000);
+  });
+
+  test('a missing policy disables exec.run', async () => {
+    await assert.rejects(loadPolicy('/nonexistent/.roo/policy.json'), PolicyViolationError);
+    assert.throws(() => parsePolicy('{"maxRuntimeMs": -1}', 'test'));
+    assert.throws(() => parsePolicy('{"commands": {"allow": "tsc"}}', 'test'));
+    assert.throws(() => parsePolicy('{"env": ["NODE_ENV"]}', 'test'), /env must be an object/);
+  });
+});
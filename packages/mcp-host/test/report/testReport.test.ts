@@ -0,0 +1,159 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { parseJestJson, parseMochaJson } from '../../src/report/jsonReporters';
+import { parseJUnitXml } from '../../src/report/junit';
+import { parseTap } from '../../src/report/tap';
+import { TestReport, detectReportFormat, parseTestReport, parseTestReportFromLog } from '../../src/report/testReport';
+import { readReportFile, reportPathInWorktree } from '../../src/tools/testRun';
+
+// Compiled tests run from out/test/report; the fixtures stay in the source tree
+const FIXTURES = path.resolve(__dirname, '..', '..', '..', 'test', 'report', 'fixtures');
+
+function fixture(name: string): Promise<string> {
+  return fs.readFile(path.join(FIXTURES, name), 'utf8');
+}
+
+function caseSummary(report: TestReport): string[][] {
+  return report.suites.flatMap((suite) => suite.cases.map((c) => [suite.name, c.fullName, c.status]));
+}
+
+suite('Test reports', () => {
+  test('JUnit XML with nested suites, failures, skips and entities', async () => {
+    const report = parseJUnitXml(await fixture('junit.xml'), 'junit.xml')!;
+
+    assert.deepStrictEqual(report.summary, { total: 4, passed: 2, failed: 1, skipped: 1, durationMs: 1500 });
+    assert.deepStrictEqual(caseSummary(report), [
+      ['math', 'math adds & subtracts', 'passed'],
+      ['math', 'math divides', 'failed'],
+      ['math', 'math rounds', 'skipped'],
+      ['strings', 'strings trims', 'passed'],
+    ]);
+    const [divides] = report.suites[0].cases.filter((c) => c.status === 'failed');
+    assert.strictEqual(divides.failureMessage, 'expected 2 to equal 3');
+    assert.deepStrictEqual(divides.location, { file: '/work/src/math.test.ts', line: 12, column: 5 });
+    assert.deepStrictEqual(report.suites[1].cases[0].location, { file: 'src/strings.test.ts', line: 4 });
+  });
+
+  test('TAP with node:test subtests, diagnostics and directives', async () => {
+    const report = parseTap(await fixture('node-test.tap'), 'log')!;
+
+    assert.deepStrictEqual(report.summary, { total: 3, passed: 1, failed: 1, skipped: 1, durationMs: 3 });
+    assert.deepStrictEqual(caseSummary(report), [
+      ['(root)', 'standalone', 'skipped'],
+      ['parser', 'parser reads numbers', 'passed'],
+      ['parser', 'parser rejects letters', 'failed'],
+    ]);
+    const rejects = report.suites[1].cases[1];
+    assert.strictEqual(rejects.failureMessage, 'Expected values to be strictly equal');
+    assert.strictEqual(rejects.durationMs, 1);
+    assert.deepStrictEqual(rejects.location, { file: '/work/test/parser.test.js', line: 8, column: 3 });
+    assert.match(rejects.stackTrace!, /^TestContext\.<anonymous>/);
+  });
+
+  test('Jest JSON with failures, pending tests and suites that fail to load', async () => {
+    const report = parseJestJson(await fixture('jest.json'), 'jest.json')!;
+
+    assert.deepStrictEqual(report.summary, { total: 4, passed: 1, failed: 2, skipped: 1, durationMs: 250 });
+    assert.deepStrictEqual(caseSummary(report), [
+      ['/work/src/cart.test.ts', 'cart adds items', 'passed'],
+      ['/work/src/cart.test.ts', 'cart applies discounts', 'failed'],
+      ['/work/src/cart.test.ts', 'cart removes items', 'skipped'],
+      ['/work/src/broken.test.ts', '/work/src/broken.test.ts Test suite failed to run', 'failed'],
+    ]);
+    const discounts = report.suites[0].cases[1];
+    assert.strictEqual(discounts.failureMessage, 'Error: expected 90 but got 100');
+    assert.deepStrictEqual(discounts.location, { file: '/work/src/cart.test.ts', line: 20, column: 17 });
+    assert.strictEqual(report.suites[1].cases[0].failureMessage, "Cannot find module './missing' from 'src/broken.test.ts'");
+  });
+
+  test('Mocha JSON grouped by file', async () => {
+    const report = parseMochaJson(await fixture('mocha.json'), 'mocha.json')!;
+
+    assert.deepStrictEqual(report.summary, { total: 3, passed: 1, failed: 1, skipped: 1, durationMs: 42 });
+    assert.deepStrictEqual(caseSummary(report), [
+      ['/work/test/auth.test.js', 'auth logs in', 'passed'],
+      ['/work/test/auth.test.js', 'auth rejects bad passwords', 'failed'],
+      ['/work/test/auth.test.js', 'auth locks accounts', 'skipped'],
+    ]);
+    const rejects = report.suites[0].cases[1];
+    assert.strictEqual(rejects.failureMessage, 'expected 401 to equal 403');
+    assert.deepStrictEqual(rejects.location, { file: '/work/test/auth.test.js', line: 17, column: 22 });
+  });
+
+  test('formats are detected from the content', async () => {
+    assert.strictEqual(detectReportFormat(await fixture('junit.xml')), 'junit');
+    assert.strictEqual(detectReportFormat(await fixture('node-test.tap')), 'tap');
+    assert.strictEqual(detectReportFormat(await fixture('jest.json')), 'jest');
+    assert.strictEqual(detectReportFormat(await fixture('mocha.json')), 'mocha');
+    assert.strictEqual(parseTestReport(await fixture('mocha.json'), 'mocha.json')?.format, 'mocha');
+  });
+
+  test('JSON reports are found among package manager output in the log', async () => {
+    const jest = await fixture('jest.json');
+    const log = ['> app@1.0.0 test', '> jest --json', '', jest, 'Done in 2.1s.', ''].join('\n');
+    const report = parseTestReportFromLog(log)!;
+    assert.strictEqual(report.format, 'jest');
+    assert.strictEqual(report.source, 'log');
+    assert.strictEqual(report.summary.total, 4);
+
+    // A braced line before the report is skipped over
+    const mocha = await fixture('mocha.json');
+    const noisy = ['{ not json', mocha].join('\n');
+    assert.strictEqual(parseTestReportFromLog(noisy, 'mocha')?.summary.failed, 1);
+
+    const junit = parseTestReportFromLog(`Running tests\n${await fixture('junit.xml')}\nexit 1\n`);
+    assert.strictEqual(junit?.format, 'junit');
+  });
+
+  test('character references beyond Unicode are kept as written', () => {
+    const log = [
+      '<testsuite name="s" tests="1" failures="1">',
+      '  <testcase name="&#x41; &#x110000; &#1114112;"><failure message="&#65;&#99999999999;"/></testcase>',
+      '</testsuite>',
+    ].join('\n');
+    const report = parseTestReportFromLog(log)!;
+    const [testCase] = report.suites[0].cases;
+    assert.strictEqual(testCase.name, 'A &#x110000; &#1114112;');
+    assert.strictEqual(testCase.failureMessage, 'A&#99999999999;');
+  });
+
+  test('malformed input yields no report', () => {
+    for (const content of ['', 'just some output', '{"testResults": 5}', '{ broken', '<html></html>', '<testsuite']) {
+      assert.strictEqual(parseTestReport(content, 'x'), undefined, content);
+    }
+    assert.strictEqual(parseJestJson('{ broken', 'x'), undefined);
+    assert.strictEqual(parseJestJson('null', 'x'), undefined);
+    assert.strictEqual(parseMochaJson('{"stats": {}}', 'x'), undefined);
+    assert.strictEqual(parseMochaJson('[1, 2]', 'x'), undefined);
+    assert.strictEqual(parseJUnitXml('<html><body/></html>', 'x'), undefined);
+    assert.strictEqual(parseTap('no test points here', 'x'), undefined);
+    assert.strictEqual(parseTestReportFromLog('npm ERR! missing script: test'), undefined);
+  });
+
+  test('report files are read from the host worktree', async () => {
+    const root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'roo-report-')));
+    try {
+      await fs.mkdir(path.join(root, 'reports'));
+      await fs.copyFile(path.join(FIXTURES, 'junit.xml'), path.join(root, 'reports', 'junit.xml'));
+
+      for (const reportPath of ['reports/junit.xml', '/work/reports/junit.xml']) {
+        const report = await readReportFile(reportPath, 0, undefined, root);
+        assert.strictEqual(report?.summary.total, 4, reportPath);
+        // Named as the container sees it, not by its host path
+        assert.strictEqual(report?.source, '/work/reports/junit.xml');
+      }
+      // Stale reports from an earlier run are ignored
+      assert.strictEqual(await readReportFile('reports/junit.xml', Date.now() + 60_000, undefined, root), undefined);
+      // Outside the worktree is no report, so the test run's result still stands
+      assert.strictEqual(await readReportFile('/etc/passwd', 0, undefined, root), undefined);
+      assert.strictEqual(await readReportFile('../outside.xml', 0, undefined, root), undefined);
+      assert.throws(() => reportPathInWorktree('/etc/passwd'), /must be inside \/work/);
+      assert.throws(() => reportPathInWorktree('../outside.xml'), /must be inside \/work/);
+      assert.strictEqual(reportPathInWorktree('/work/reports/junit.xml'), 'reports/junit.xml');
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Command, toExecArgv } from '../../src/exec/command';
+import { detectToolchain, getToolchain } from '../../src/toolchain/detect';
+
+function argvOf(commands: Command[]): string[][] {
+  return commands.map(toExecArgv);
+}
+
+suite('Package script toolchains', () => {
+  test('npm separates script arguments with --', () => {
+    const npm = getToolchain('npm')!.commands;
+    assert.deepStrictEqual(argvOf(npm.lintFix), [['npm', 'run', 'lint', '--', '--fix']]);
+    assert.deepStrictEqual(argvOf(npm.test('auth')), [['npm', 'run', 'test', '--', 'auth']]);
+  });
+
+  test('pnpm passes script arguments without --', () => {
+    const pnpm = getToolchain('pnpm')!.commands;
+    assert.deepStrictEqual(argvOf(pnpm.lintFix), [['pnpm', 'run', 'lint', '--fix']]);
+    assert.deepStrictEqual(argvOf(pnpm.test('auth')), [['pnpm', 'run', 'test', 'auth']]);
+  });
+
+  test('yarn classic and berry pass script arguments without --', () => {
+    for (const id of ['yarn', 'yarn-berry']) {
+      const yarn = getToolchain(id)!.commands;
+      assert.deepStrictEqual(argvOf(yarn.lintFix), [['yarn', 'run', 'lint', '--fix']], id);
+      assert.deepStrictEqual(argvOf(yarn.test('auth')), [['yarn', 'run', 'test', 'auth']], id);
+    }
+  });
+
+  test('bun passes script arguments without --', () => {
+    const bun = getToolchain('bun')!.commands;
+    assert.deepStrictEqual(argvOf(bun.lintFix), [['bun', 'run', 'lint', '--fix']]);
+    assert.deepStrictEqual(argvOf(bun.test('auth')), [['bun', 'run', 'test', 'auth']]);
+  });
+
+  test('detection looks at the worktree it is given', async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), 'roo-toolchain-'));
+    try {
+      await fs.writeFile(path.join(root, 'package.json'), '{}');
+      await fs.writeFile(path.join(root, 'pnpm-lock.yaml'), '');
+      const detected = await detectToolchain(root);
+      assert.deepStrictEqual([detected.toolchain.id, detected.marker, detected.reason], ['pnpm', 'pnpm-lock.yaml', 'detected']);
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
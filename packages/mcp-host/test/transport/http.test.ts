@@ -0,0 +1,149 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { parseStartupOptions } from '../../src/index';
+import { SERVER_INFO, createServer } from '../../src/server';
+import { startHttpTransport } from '../../src/transport/http';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+
+function newClient(): Client {
+  return new Client({ name: 'http-test', version: '1.0.0' });
+}
+
+// Sends a raw request, for the cases the SDK client never produces
+function request(port: number, path: string, headers: http.OutgoingHttpHeaders, body?: unknown) {
+  return new Promise<{ status: number; body: string }>((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, path, method: body === undefined ? 'GET' : 'POST', headers }, (res) => {
+      let text = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => (text += chunk));
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body: text }));
+    });
+    req.on('error', reject);
+    req.end(body === undefined ? undefined : JSON.stringify(body));
+  });
+}
+
+async function health(port: number): Promise<{ status: string; name: string; sessions: number }> {
+  const response = await request(port, '/health', {});
+  assert.strictEqual(response.status, 200);
+  return JSON.parse(response.body);
+}
+
+suite('HTTP transport', () => {
+  let server: http.Server;
+  let port: number;
+  let baseUrl: string;
+
+  setup(async () => {
+    server = await startHttpTransport({ port: 0, createServer, serverInfo: SERVER_INFO });
+    port = (server.address() as AddressInfo).port;
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  teardown(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test('health reports the server and its open sessions', async () => {
+    assert.deepStrictEqual(
+      (({ status, name, sessions }) => ({ status, name, sessions }))(await health(port)),
+      { status: 'ok', name: SERVER_INFO.name, sessions: 0 }
+    );
+    assert.strictEqual((await request(port, '/nowhere', {})).status, 404);
+  });
+
+  test('Streamable HTTP sessions list tools and end on close', async () => {
+    const first = newClient();
+    const second = newClient();
+    const firstTransport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    await first.connect(firstTransport);
+    await second.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    assert.ok(firstTransport.sessionId);
+    assert.strictEqual((await health(port)).sessions, 2);
+
+    const { tools } = await first.listTools();
+    assert.ok(tools.some((tool) => tool.name === 'git.status'));
+
+    await firstTransport.terminateSession();
+    await first.close();
+    assert.strictEqual((await health(port)).sessions, 1);
+    await second.close();
+  });
+
+  test('requests without an initialized session are refused', async () => {
+    const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+    const listTools = { jsonrpc: '2.0', id: 2, method: 'tools/list' };
+
+    assert.strictEqual((await request(port, '/mcp', headers, listTools)).status, 400);
+    assert.strictEqual((await request(port, '/mcp', { ...headers, 'mcp-session-id': 'stale' }, listTools)).status, 404);
+    assert.strictEqual((await request(port, '/messages?sessionId=stale', headers, listTools)).status, 404);
+  });
+
+  test('the older SSE transport serves /sse and /messages', async () => {
+    const client = newClient();
+    await client.connect(new SSEClientTransport(new URL(`${baseUrl}/sse`)));
+    assert.strictEqual((await health(port)).sessions, 1);
+
+    const { tools } = await client.listTools();
+    assert.ok(tools.some((tool) => tool.name === 'fs.read'));
+    await client.close();
+  });
+
+  test('a Host header naming another site is rejected (DNS rebinding)', async () => {
+    const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+
+    const rebound = await request(port, '/mcp', { ...headers, Host: `attacker.example:${port}` }, INITIALIZE);
+    assert.strictEqual(rebound.status, 403);
+    assert.match(rebound.body, /Invalid Host header/);
+    assert.strictEqual((await health(port)).sessions, 0);
+
+    // The port the server was actually bound to is allowed, not the 0 it was given
+    const local = await request(port, '/mcp', { ...headers, Host: `localhost:${port}` }, INITIALIZE);
+    assert.strictEqual(local.status, 200);
+  });
+
+  test('a malformed Host header is refused and the server keeps serving', async () => {
+    const bad = await request(port, '/health', { Host: 'a b' });
+    assert.strictEqual(bad.status, 400);
+    assert.match(bad.body, /Invalid request URL or Host header/);
+    assert.strictEqual((await request(port, '/mcp', { Host: 'a b', 'Content-Type': 'application/json' }, INITIALIZE)).status, 400);
+    assert.strictEqual((await health(port)).status, 'ok');
+  });
+});
+
+suite('Startup options', () => {
+  test('stdio unless a port or HTTP is asked for', () => {
+    assert.deepStrictEqual(parseStartupOptions([], {}), { transport: 'stdio', port: 8000, host: undefined });
+    assert.deepStrictEqual(parseStartupOptions(['--http'], {}), { transport: 'http', port: 8000, host: undefined });
+    assert.deepStrictEqual(
+      parseStartupOptions([], { PORT: '8123', MCP_HOST: '127.0.0.1' }),
+      { transport: 'http', port: 8123, host: '127.0.0.1' }
+    );
+  });
+
+  test('flags win over the environment', () => {
+    assert.deepStrictEqual(
+      parseStartupOptions(['--transport=http', '--port=9001', '--host=0.0.0.0'], { PORT: '8123', MCP_HOST: '127.0.0.1' }),
+      { transport: 'http', port: 9001, host: '0.0.0.0' }
+    );
+    assert.strictEqual(parseStartupOptions(['--stdio'], { PORT: '8123' }).transport, 'stdio');
+    assert.strictEqual(parseStartupOptions([], { MCP_TRANSPORT: 'http' }).transport, 'http');
+  });
+
+  test('unknown transports and invalid ports are refused', () => {
+    assert.throws(() => parseStartupOptions(['--transport=ws'], {}), /Unknown transport "ws"/);
+    assert.throws(() => parseStartupOptions(['--port=70000'], {}), /Invalid port: 70000/);
+    assert.throws(() => parseStartupOptions([], { PORT: 'abc' }), /Invalid port: abc/);
+  });
+});
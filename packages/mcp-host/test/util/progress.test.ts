@@ -0,0 +1,145 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Progress, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../../src/server';
+import { ProgressReporter, ProgressReporterOptions } from '../../src/util/progress';
+
+function reporter(options: Partial<ProgressReporterOptions> = {}) {
+  const sent: ServerNotification[] = [];
+  const progressReporter = new ProgressReporter({
+    tool: 'build.project',
+    callId: 'call-7',
+    progressToken: 'token-1',
+    phases: ['install', 'build'],
+    sendNotification: async (notification) => {
+      sent.push(notification);
+    },
+    throttleMs: 0,
+    ...options,
+  });
+  const progress = () => sent.flatMap((notification) =>
+    notification.method === 'notifications/progress' ? [notification.params] : []
+  );
+  const messages = () => sent.flatMap((notification) =>
+    notification.method === 'notifications/message' ? [notification.params] : []
+  );
+  return { reporter: progressReporter, progress, messages };
+}
+
+suite('Progress reporting', () => {
+  test('log lines and progress carry the call id and phase', async () => {
+    const { reporter: progressReporter, progress, messages } = reporter();
+    progressReporter.phase('install');
+    progressReporter.log('added 12 packages\n');
+    await progressReporter.complete(true);
+
+    assert.deepStrictEqual(messages(), [{
+      level: 'info',
+      logger: 'build.project',
+      data: { callId: 'call-7', phase: 'install', message: 'added 12 packages\n' },
+    }]);
+    assert.ok(progress().every((event) => event.progressToken === 'token-1' && String(event.message).startsWith('[call-7] ')));
+    assert.deepStrictEqual(progress().map((event) => event.message), [
+      '[call-7] install: started',
+      '[call-7] install: 1 lines',
+      '[call-7] completed (1 lines)',
+    ]);
+  });
+
+  test('progress only increases, even when a phase comes round again', async () => {
+    const { reporter: progressReporter, progress } = reporter();
+    progressReporter.phase('install');
+    for (let i = 0; i < 200; i++) {
+      progressReporter.log(`line ${i}\n`);
+    }
+    progressReporter.phase('build');
+    progressReporter.log('compiling\n');
+    // Going back to an earlier phase appends it rather than moving backwards
+    progressReporter.phase('install');
+    progressReporter.log('postinstall\n');
+    await progressReporter.complete(false);
+
+    const values = progress().map((event) => event.progress);
+    assert.ok(values.every((value, index) => index === 0 || value > values[index - 1]), values.join(', '));
+    assert.ok(values.filter((value) => value < 50).length > 1);
+    assert.ok(values.every((value) => value <= 100));
+    assert.strictEqual(values[values.length - 1], 100);
+    assert.strictEqual(progress()[progress().length - 1].message, '[call-7] failed (202 lines)');
+  });
+
+  test('line updates are throttled while phase changes and completion are not', async () => {
+    const { reporter: progressReporter, progress, messages } = reporter({ throttleMs: 60_000 });
+    progressReporter.phase('install');
+    for (let i = 0; i < 20; i++) {
+      progressReporter.log(`line ${i}\n`);
+    }
+    progressReporter.phase('build');
+    await progressReporter.complete(true);
+
+    assert.strictEqual(messages().length, 20);
+    assert.deepStrictEqual(progress().map((event) => [event.progress, event.message]), [
+      [0, '[call-7] install: started'],
+      [50, '[call-7] build: started'],
+      [100, '[call-7] completed (20 lines)'],
+    ]);
+  });
+
+  test('partial lines are counted once complete and nothing is sent without a progress token', async () => {
+    const { reporter: progressReporter, progress, messages } = reporter({ progressToken: undefined });
+    progressReporter.phase('build');
+    progressReporter.log('no newline yet');
+    progressReporter.log(' ... done\nnext');
+    await progressReporter.complete(true);
+
+    assert.strictEqual(progress().length, 0);
+    assert.strictEqual(messages().length, 2);
+
+    const counted = reporter();
+    counted.reporter.phase('build');
+    counted.reporter.log('no newline yet');
+    counted.reporter.log(' ... done\nnext');
+    await counted.reporter.complete(true);
+    assert.deepStrictEqual(counted.progress().map((event) => event.message), [
+      '[call-7] build: started',
+      '[call-7] build: 1 lines',
+      '[call-7] completed (1 lines)',
+    ]);
+  });
+});
+
+suite('Tool call progress', () => {
+  test('a tool call that throws still sends its final progress', async () => {
+    const previous = process.env.ROO_POLICY_FILE;
+    process.env.ROO_POLICY_FILE = path.join(os.tmpdir(), 'roo-missing-policy', 'policy.json');
+    const server = createServer();
+    const client = new Client({ name: 'progress-test', version: '1.0.0' });
+    try {
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+
+      const events: Progress[] = [];
+      const result = await client.callTool(
+        { name: 'exec.run', arguments: { command: ['tsc'] } },
+        undefined,
+        { onprogress: (event) => events.push(event) }
+      );
+      assert.strictEqual(result.isError, true);
+      // The policy is missing, so exec.run throws before running anything
+      assert.match(JSON.stringify(result.content), /no command policy found/);
+      assert.strictEqual(events.length, 1);
+      assert.strictEqual(events[0].progress, 100);
+      assert.match(events[0].message!, /^\[call-\d+\] failed \(0 lines\)$/);
+    } finally {
+      await client.close();
+      if (previous === undefined) {
+        delete process.env.ROO_POLICY_FILE;
+      } else {
+        process.env.ROO_POLICY_FILE = previous;
+      }
+    }
+  });
+});
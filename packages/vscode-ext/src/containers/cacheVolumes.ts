@@ -0,0 +1,224 @@
+import { createHash, randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DockerApiError, DockerEngineClient, MountSpec, VolumeInspect } from './engineApi';
+import { MANAGED_LABEL, ROLE_LABEL } from './labels';
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn';
+
+/**
+ * A package manager whose download cache can live in a shared volume.
+ */
+export interface PackageCache {
+    manager: PackageManager;
+    lockfile: string;
+    // Where the volume is mounted in tool containers
+    mountPath: string;
+    // Points the package manager at the mount
+    env: Record<string, string>;
+    // Written into new volumes, by path relative to the mount
+    files?: Record<string, string>;
+}
+
+// yarn classic's cache is not safe for concurrent installs, so tracks sharing
+// a volume take turns through a lock in it; other commands run unhindered
+const YARN_MUTEX = ['install', 'add', 'remove', 'upgrade']
+    .map(command => `"--${command}.mutex" "file:/cache/yarn/.yarn-mutex"\n`)
+    .join('');
+
+export const PACKAGE_CACHES: PackageCache[] = [
+    { manager: 'npm', lockfile: 'package-lock.json', mountPath: '/cache/npm', env: { npm_config_cache: '/cache/npm' } },
+    { manager: 'pnpm', lockfile: 'pnpm-lock.yaml', mountPath: '/cache/pnpm', env: { npm_config_store_dir: '/cache/pnpm' } },
+    {
+        manager: 'yarn',
+        lockfile: 'yarn.lock',
+        mountPath: '/cache/yarn',
+        env: { YARN_CACHE_FOLDER: '/cache/yarn', YARN_CONFIG: '/cache/yarn/.yarnrc' },
+        files: { '.yarnrc': YARN_MUTEX },
+    },
+];
+
+// Labels identifying cache volumes and what they were created for
+export const CACHE_MANAGER_LABEL = 'roo-master.cache.manager';
+export const CACHE_KEY_LABEL = 'roo-master.cache.key';
+
+/**
+ * A cache volume selected for a worktree: one per lockfile found.
+ */
+export interface CacheVolume {
+    cache: PackageCache;
+    // sha256 of the lockfile
+    key: string;
+    volume: string;
+}
+
+export interface CacheVolumeInfo {
+    name: string;
+    manager: string;
+    key: string;
+    createdAt?: string;
+    // Bytes, when the engine reports it
+    size?: number;
+    // Containers currently using the volume, when the engine reports it
+    refCount?: number;
+}
+
+export interface PruneResult {
+    removed: string[];
+    // Still mounted by a container, left in place
+    inUse: string[];
+}
+
+export function cacheVolumeName(manager: PackageManager, key: string): string {
+    return `roo-cache-${manager}-${key.slice(0, 16)}`;
+}
+
+/**
+ * Picks the cache volumes for a checkout. Tracks with identical lockfiles share
+ * a volume, so once one track has installed, the others find every package
+ * cached and only read from it; a changed lockfile starts a new volume
+ * instead of mixing caches. npm's and pnpm's caches take concurrent writers;
+ * yarn installs are serialised, see YARN_MUTEX.
+ */
+export function findCacheVolumes(checkoutPath: string): CacheVolume[] {
+    const volumes: CacheVolume[] = [];
+    for (const cache of PACKAGE_CACHES) {
+        const lockfile = path.join(checkoutPath, cache.lockfile);
+        if (!fs.existsSync(lockfile)) {
+            continue;
+        }
+        const key = createHash('sha256').update(fs.readFileSync(lockfile)).digest('hex');
+        volumes.push({ cache, key, volume: cacheVolumeName(cache.manager, key) });
+    }
+    return volumes;
+}
+
+export function cacheMounts(volumes: CacheVolume[]): { mounts: MountSpec[]; env: string[] } {
+    return {
+        mounts: volumes.map(({ volume, cache }) => ({ Type: 'volume', Source: volume, Target: cache.mountPath })),
+        env: volumes.flatMap(({ cache }) => Object.entries(cache.env).map(([name, value]) => `${name}=${value}`)),
+    };
+}
+
+/**
+ * Creates missing cache volumes. `prepare` runs once for each newly created
+ * volume, e.g. to hand it to the container user.
+ */
+export async function ensureCacheVolumes(
+    client: DockerEngineClient,
+    volumes: CacheVolume[],
+    prepare?: (volume: CacheVolume) => Promise<void>
+): Promise<void> {
+    for (const volume of volumes) {
+        try {
+            await client.inspectVolume(volume.volume);
+            continue;
+        } catch (error) {
+            if (!(error instanceof DockerApiError && error.notFound)) {
+                throw error;
+            }
+        }
+        await client.createVolume(volume.volume, {
+            [MANAGED_LABEL]: 'true',
+            [CACHE_MANAGER_LABEL]: volume.cache.manager,
+            [CACHE_KEY_LABEL]: volume.key,
+        });
+        await prepare?.(volume);
+    }
+}
+
+/**
+ * Sets up a fresh volume: writes the cache's files into it and, given an
+ * `owner`, hands it over, since new named volumes belong to root, which the
+ * unprivileged tool container user cannot write to. Runs a short-lived
+ * container from `image` that may only chown. Idempotent, so tracks racing to
+ * prepare the same new volume do no harm.
+ */
+export async function prepareVolume(
+    client: DockerEngineClient,
+    image: string,
+    volume: CacheVolume,
+    owner?: string
+): Promise<void> {
+    const files = Object.entries(volume.cache.files ?? {});
+    if (!owner && files.length === 0) {
+        return;
+    }
+    // Contents are passed as arguments so nothing needs quoting for the shell
+    const script = [
+        ...files.map((_, index) => `printf '%s' "$${2 * index + 2}" > "$${2 * index + 1}"`),
+        ...(owner ? ['chown -R "$OWNER" .'] : []),
+    ].join(' && ');
+    const id = await client.createContainer(`${volume.volume}-init-${randomBytes(4).toString('hex')}`, {
+        Image: image,
+        User: '0:0',
+        Cmd: ['sh', '-c', script, 'sh', ...files.flat()],
+        Env: owner ? [`OWNER=${owner}`] : [],
+        WorkingDir: volume.cache.mountPath,
+        Labels: { [MANAGED_LABEL]: 'true', [ROLE_LABEL]: 'volume-init' },
+        HostConfig: {
+            CapDrop: ['ALL'],
+            CapAdd: owner ? ['CHOWN'] : [],
+            SecurityOpt: ['no-new-privileges'],
+            NetworkMode: 'none',
+            ReadonlyRootfs: true,
+            Mounts: [{ Type: 'volume', Source: volume.volume, Target: volume.cache.mountPath }],
+        },
+    });
+    try {
+        await client.startContainer(id);
+        const result = await client.wait(id);
+        if (result.StatusCode !== 0) {
+            const logs = await client.logs(id, { tail: 20 }).catch(() => undefined);
+            throw new Error(`Preparing cache volume ${volume.volume} failed with exit code ${result.StatusCode}${logs ? `: ${logs.stderr || logs.stdout}` : ''}`);
+        }
+    } finally {
+        await client.removeContainer(id, { force: true }).catch(() => undefined);
+    }
+}
+
+/**
+ * Lists the managed cache volumes with their size and users where the engine reports them.
+ */
+export async function listCacheVolumes(client: DockerEngineClient): Promise<CacheVolumeInfo[]> {
+    const volumes: VolumeInspect[] = await client.listVolumes({ label: [CACHE_MANAGER_LABEL] });
+    const usage = new Map((await client.volumeUsage().catch(() => [])).map(entry => [entry.Name, entry.UsageData]));
+
+    return volumes
+        .map(volume => {
+            const usageData = usage.get(volume.Name);
+            return {
+                name: volume.Name,
+                manager: volume.Labels?.[CACHE_MANAGER_LABEL] ?? 'unknown',
+                key: volume.Labels?.[CACHE_KEY_LABEL] ?? '',
+                createdAt: volume.CreatedAt,
+                size: usageData && usageData.Size >= 0 ? usageData.Size : undefined,
+                refCount: usageData && usageData.RefCount >= 0 ? usageData.RefCount : undefined,
+            };
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Removes cache volumes except those named in `keep`. Volumes still mounted
+ * by a container are refused by the engine and reported as in use.
+ */
+export async function pruneCacheVolumes(client: DockerEngineClient, keep: Set<string> = new Set()): Promise<PruneResult> {
+    const result: PruneResult = { removed: [], inUse: [] };
+    for (const volume of await listCacheVolumes(client)) {
+        if (keep.has(volume.name)) {
+            continue;
+        }
+        try {
+            await client.removeVolume(volume.name);
+            result.removed.push(volume.name);
+        } catch (error) {
+            if (error instanceof DockerApiError && error.conflict) {
+                result.inUse.push(volume.name);
+            } else {
+                throw error;
+            }
+        }
+    }
+    return result;
+}
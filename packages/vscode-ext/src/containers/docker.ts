@@ -1,7 +1,50 @@
-import { exec } from 'child_process';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { Logger } from '../util/logger';
 import { ErrorHandler } from '../util/errorHandler';
 import { RetryHandler } from '../util/retryHandler';
+import { GitWorktree } from '../worktree/gitWorktree';
+import {
+    ContainerCreateSpec,
+    ContainerStartError,
+    ContainerSummary,
+    DockerApiError,
+    DockerEngineClient,
+} from './engineApi';
+import { ContainerRuntime, ContainerRuntimePreference, UserMapping, detectRuntime, runtimeEnvironment, userMapping } from './runtime';
+import {
+    CacheVolume,
+    CacheVolumeInfo,
+    PruneResult,
+    cacheMounts,
+    ensureCacheVolumes,
+    findCacheVolumes,
+    listCacheVolumes,
+    prepareVolume,
+    pruneCacheVolumes,
+} from './cacheVolumes';
+import { ensureRegistryProxy, registryProxyEnv } from './egress';
+import {
+    DEFAULT_PROFILE_NAME,
+    REGISTRY_PROXY_NETWORK,
+    ResolvedSecurityProfile,
+    parseContainersConfig,
+    resolveDefinitionPaths,
+    resolveSecurityProfile,
+    toHostConfig,
+} from './securityProfiles';
+import { ToolImagePin, buildToolImage, isPinOutdated, readToolImagePin } from './toolImage';
+import { ROLE_LABEL, TRACK_LABEL } from './labels';
+import {
+    OrphanedContainer,
+    RemoveResult,
+    RooContainer,
+    findOrphanedContainers,
+    listRooContainers,
+    removeContainers,
+    toolContainerLabels,
+} from './lifecycle';
 
 const logger = new Logger('DockerContainer');
 
@@ -13,123 +56,502 @@ export interface DockerContainer {
     ports: string;
 }
 
-export async function startToolContainer(imageName: string, containerName: string, portBindings: string[]): Promise<string> {
-    return new Promise((resolve, reject) => {
-        // Input validation
-        if (!imageName || imageName.trim() === '') {
-            const errorMsg = 'Docker image name is required';
-            logger.error(errorMsg);
-            return reject(new Error(errorMsg));
-        }
+export interface TmpfsMount {
+    target: string;
+    // Docker size suffix, e.g. '512m' or '2g'
+    size?: string;
+}
+
+export interface ToolContainerOptions {
+    // Host worktree bind-mounted read-write at /work
+    worktreePath?: string;
+    // When set, the worktree must resolve to a directory below this root
+    allowedWorktreeRoot?: string;
+    // Writable scratch space; the rest of the container filesystem is read-only
+    tmpfsMounts?: TmpfsMount[];
+    // Limits and isolation; defaults to the profile configured for the workspace
+    securityProfile?: ResolvedSecurityProfile;
+    // Shared package caches; defaults to one per lockfile in the worktree, [] for none
+    cacheVolumes?: CacheVolume[];
+    // Recorded in the container's labels for the Containers view and garbage collection
+    trackId?: string;
+    workspace?: string;
+}
+
+// Where mcp-host expects the project inside the container
+export const WORK_MOUNT_TARGET = '/work';
+// HOME inside the container, holding the npm, pnpm, pip and cargo caches
+export const CONTAINER_HOME = '/home/roo';
+
+export const DEFAULT_TMPFS_MOUNTS: TmpfsMount[] = [
+    { target: '/tmp', size: '512m' },
+    { target: CONTAINER_HOME, size: '2g' },
+    { target: `${WORK_MOUNT_TARGET}/node_modules`, size: '4g' },
+];
 
-        if (!containerName || containerName.trim() === '') {
-            const errorMsg = 'Container name is required';
-            logger.error(errorMsg);
-            return reject(new Error(errorMsg));
+function isInside(root: string, candidate: string): boolean {
+    const relative = path.relative(root, candidate);
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+/**
+ * Resolves the worktree to mount at /work and makes sure the mount cannot
+ * expose anything beyond it: the path must be an existing directory of a git
+ * worktree, and below `allowedRoot` when given (after resolving symlinks).
+ * @returns The real path to use as the mount source.
+ */
+export function validateWorktreeMount(worktreePath: string, allowedRoot?: string): string {
+    if (!path.isAbsolute(worktreePath)) {
+        throw new Error(`Worktree path must be absolute: ${worktreePath}`);
+    }
+
+    let realPath: string;
+    try {
+        realPath = fs.realpathSync(worktreePath);
+    } catch (error) {
+        throw new Error(`Worktree path does not exist: ${worktreePath}`);
+    }
+    if (!fs.statSync(realPath).isDirectory()) {
+        throw new Error(`Worktree path is not a directory: ${worktreePath}`);
+    }
+    if (realPath === path.parse(realPath).root) {
+        throw new Error('Refusing to mount the filesystem root as the worktree');
+    }
+    if (!fs.existsSync(path.join(realPath, '.git'))) {
+        throw new Error(`Worktree path is not a git worktree: ${worktreePath}`);
+    }
+    if (allowedRoot) {
+        const realRoot = fs.existsSync(allowedRoot) ? fs.realpathSync(allowedRoot) : path.resolve(allowedRoot);
+        if (!isInside(realRoot, realPath)) {
+            throw new Error(`Worktree ${worktreePath} is outside the allowed root ${allowedRoot}`);
         }
+    }
+    return realPath;
+}
 
-        // Check if Docker is available
-        exec('docker --version', (error) => {
-            if (error) {
-                const errorMsg = 'Docker is not available or not installed';
-                logger.error(errorMsg);
-                return reject(new Error(errorMsg));
+function validateTmpfsMount(mount: TmpfsMount): void {
+    const target = path.posix.normalize(mount.target);
+    if (!path.posix.isAbsolute(target) || target !== mount.target || target === '/') {
+        throw new Error(`Invalid tmpfs target: ${mount.target}`);
+    }
+    if (target === WORK_MOUNT_TARGET) {
+        throw new Error(`A tmpfs mount at ${WORK_MOUNT_TARGET} would hide the worktree`);
+    }
+    if (/[,:\s]/.test(target) || (mount.size && !/^\d+[kmg]?$/.test(mount.size))) {
+        throw new Error(`Invalid tmpfs mount: ${target}${mount.size ? ` (${mount.size})` : ''}`);
+    }
+}
+
+let runtimePromise: Promise<ContainerRuntime> | undefined;
+
+export function getRuntimePreference(): ContainerRuntimePreference {
+    return vscode.workspace.getConfiguration('roo-master').get<ContainerRuntimePreference>('containerRuntime', 'auto');
+}
+
+/**
+ * Container runtime shared by the container commands, detected on first use
+ * according to the `roo-master.containerRuntime` setting.
+ */
+export function getContainerRuntime(): Promise<ContainerRuntime> {
+    if (!runtimePromise) {
+        const preference = getRuntimePreference();
+        runtimePromise = detectRuntime(preference).then(
+            (runtime) => {
+                logger.info(`Using ${runtime.rootless ? 'rootless ' : ''}${runtime.kind} ${runtime.version} at ${runtime.endpoint}`);
+                return runtime;
+            },
+            (error) => {
+                // Detect again next time, the engine may have been started since
+                runtimePromise = undefined;
+                throw error;
             }
+        );
+    }
+    return runtimePromise;
+}
 
-            // Check if container with same name already exists
-            exec(`docker ps -a --filter "name=${containerName}" --format "{{.Names}}"`, (error, stdout) => {
-                if (!error && stdout.trim() === containerName) {
-                    const errorMsg = `Container with name '${containerName}' already exists`;
-                    logger.error(errorMsg);
-                    return reject(new Error(errorMsg));
-                }
-
-                // Apply security hardening measures
-                const securityFlags = [
-                    '--read-only',                    // Make container's filesystem read-only
-                    '--cap-drop=ALL',                 // Drop all Linux capabilities
-                    '--security-opt=no-new-privileges', // Prevent privilege escalation
-                    '--pids-limit=512',               // Limit number of processes
-                    '--memory=4g',                    // Limit memory usage to 4GB
-                    '--cpus=2',                       // Limit CPU usage to 2 cores
-                    '--user 1000:1000',               // Run as non-root user
-                    '--network none'                  // Isolate container from network access
-                ];
-                
-                // Port bindings are removed for security - no ports should be exposed
-                // Network isolation is the default behavior
-                const command = `docker run -d --name ${containerName} ${securityFlags.join(' ')} ${imageName}`;
-                logger.info(`Starting container: ${command}`);
-                
-                exec(command, (error, stdout, stderr) => {
-                    if (error) {
-                        const errorMsg = `Error starting container ${containerName}: ${stderr}`;
-                        logger.error(errorMsg);
-                        
-                        // Provide more specific error messages
-                        if (stderr.includes('Unable to find image')) {
-                            return reject(new Error(`Docker image '${imageName}' not found. Please pull the image first.`));
-                        } else if (stderr.includes('port is already allocated')) {
-                            return reject(new Error(`Port already in use. Please check your port bindings.`));
-                        } else if (stderr.includes('Conflict. The container name')) {
-                            return reject(new Error(`Container name '${containerName}' is already in use.`));
-                        }
-                        
-                        return reject(new Error(errorMsg));
-                    }
-                    
-                    const containerId = stdout.trim();
-                    logger.info(`Container ${containerName} started with ID: ${containerId}`);
-                    
-                    // Verify container is actually running
-                    setTimeout(() => {
-                        exec(`docker ps --filter "id=${containerId}" --format "{{.Status}}"`, (verifyError, verifyStdout) => {
-                            if (verifyError || !verifyStdout.includes('Up')) {
-                                const errorMsg = `Container ${containerName} failed to start properly`;
-                                logger.error(errorMsg);
-                                return reject(new Error(errorMsg));
-                            }
-                            
-                            logger.info(`Container ${containerName} is running: ${verifyStdout.trim()}`);
-                            resolve(containerId);
-                        });
-                    }, 1000); // Wait a second for container to fully start
-                });
-            });
-        });
-    });
+/**
+ * Forgets the detected runtime, e.g. after the runtime setting changed.
+ */
+export function resetContainerRuntime(): void {
+    runtimePromise = undefined;
 }
 
-export async function stopToolContainer(containerName: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-        const command = `docker stop ${containerName}`;
-        exec(command, (error, stdout, stderr) => {
-            if (error) {
-                logger.error(`Error stopping container ${containerName}: ${stderr}`);
-                return reject(error);
+export async function getDockerClient(): Promise<DockerEngineClient> {
+    return (await getContainerRuntime()).client;
+}
+
+// Per-project profile definitions and selection, next to the exec policy
+export const CONTAINERS_CONFIG_FILE = path.join('.roo', 'containers.json');
+
+/**
+ * Resolves the security profile for tool containers of a project. Profiles
+ * come from the built-ins, the `roo-master.securityProfiles` setting and the
+ * project's `.roo/containers.json`, later sources overriding earlier ones by
+ * name. An explicitly set `roo-master.securityProfile` picks the profile,
+ * otherwise the file's `profile`, otherwise `strict`.
+ *
+ * `projectRoot` must be the main checkout, never a track worktree, so that
+ * agents cannot loosen their own sandbox by editing the file.
+ */
+export function loadSecurityProfile(projectRoot: string | undefined): ResolvedSecurityProfile {
+    const config = vscode.workspace.getConfiguration('roo-master');
+    const definitions = resolveDefinitionPaths(config.get('securityProfiles', {}), 'roo-master.securityProfiles', projectRoot ?? process.cwd());
+
+    let fileProfile: string | undefined;
+    if (projectRoot) {
+        const configPath = path.join(projectRoot, CONTAINERS_CONFIG_FILE);
+        if (fs.existsSync(configPath)) {
+            const fileConfig = parseContainersConfig(fs.readFileSync(configPath, 'utf8'), configPath);
+            Object.assign(definitions, fileConfig.profiles);
+            fileProfile = fileConfig.profile;
+        }
+    }
+
+    const setting = config.inspect<string>('securityProfile');
+    const explicitSetting = setting?.workspaceFolderValue ?? setting?.workspaceValue ?? setting?.globalValue;
+    return resolveSecurityProfile(explicitSetting ?? fileProfile ?? DEFAULT_PROFILE_NAME, definitions);
+}
+
+/**
+ * Builds the create request for a tool container.
+ */
+export function buildCreateSpec(
+    imageName: string,
+    options: ToolContainerOptions = {},
+    user: UserMapping = { User: '1000:1000' }
+): ContainerCreateSpec {
+    const tmpfsMounts = options.tmpfsMounts ?? DEFAULT_TMPFS_MOUNTS;
+    tmpfsMounts.forEach(validateTmpfsMount);
+
+    const profile = options.securityProfile ?? resolveSecurityProfile(DEFAULT_PROFILE_NAME);
+    const caches = cacheMounts(options.cacheVolumes ?? []);
+
+    const spec: ContainerCreateSpec = {
+        Image: imageName,
+        User: user.User,                            // Run as the worktree owner, see userMapping()
+        Env: [
+            `HOME=${CONTAINER_HOME}`,
+            ...(profile.network === REGISTRY_PROXY_NETWORK ? registryProxyEnv(profile.registryProxy) : []),
+            ...caches.env,
+        ],
+        HostConfig: {
+            ...toHostConfig(profile),               // Apply security hardening measures
+            UsernsMode: user.UsernsMode,
+            Mounts: caches.mounts,
+            Tmpfs: {},
+        },
+    };
+
+    let worktreeSource: string | undefined;
+    if (options.worktreePath) {
+        worktreeSource = validateWorktreeMount(options.worktreePath, options.allowedWorktreeRoot);
+        spec.HostConfig!.Mounts!.push({ Type: 'bind', Source: worktreeSource, Target: WORK_MOUNT_TARGET });
+        spec.WorkingDir = WORK_MOUNT_TARGET;
+    }
+    spec.Labels = toolContainerLabels({ trackId: options.trackId, worktreePath: worktreeSource, workspace: options.workspace });
+
+    for (const mount of tmpfsMounts) {
+        // World-writable like /tmp, since the container user has no home of its own
+        const size = mount.size ? `,size=${mount.size}` : '';
+        spec.HostConfig!.Tmpfs![mount.target] = `rw,nosuid,nodev,mode=1777${size}`;
+    }
+
+    return spec;
+}
+
+function describeStartError(error: unknown, imageName: string, containerName: string): Error {
+    if (error instanceof DockerApiError) {
+        if (error.notFound && /image/i.test(error.engineMessage)) {
+            return new Error(`Docker image '${imageName}' not found. Please pull the image first, or rebuild the tool image with 'Roo Master: Build Tool Image'.`);
+        }
+        if (error.conflict) {
+            return new Error(`Container name '${containerName}' is already in use.`);
+        }
+    }
+    return error instanceof Error ? error : new Error(String(error));
+}
+
+export async function startToolContainer(
+    imageName: string,
+    containerName: string,
+    portBindings: string[],
+    options: ToolContainerOptions = {}
+): Promise<string> {
+    // Input validation
+    if (!imageName || imageName.trim() === '') {
+        const errorMsg = 'Docker image name is required';
+        logger.error(errorMsg);
+        throw new Error(errorMsg);
+    }
+
+    if (!containerName || containerName.trim() === '') {
+        const errorMsg = 'Container name is required';
+        logger.error(errorMsg);
+        throw new Error(errorMsg);
+    }
+
+    // Port bindings are removed for security - no ports should be exposed
+    // Network isolation is the default behavior
+    if (portBindings.length > 0) {
+        logger.warn(`Ignoring port bindings for ${containerName}: tool containers run without network access`);
+    }
+
+    // Fails when neither Docker nor Podman is reachable
+    const runtime = await getContainerRuntime();
+    const client = runtime.client;
+
+    // Check if container with same name already exists
+    if (await client.findContainer(containerName)) {
+        const errorMsg = `Container with name '${containerName}' already exists`;
+        logger.error(errorMsg);
+        throw new Error(errorMsg);
+    }
+
+    let spec: ContainerCreateSpec;
+    let securityProfile: ResolvedSecurityProfile;
+    let cacheVolumes: CacheVolume[];
+    const user = userMapping(runtime);
+    try {
+        securityProfile = options.securityProfile ?? loadSecurityProfile(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath);
+        logger.info(`Applying security profile '${securityProfile.name}' to ${containerName}`);
+        cacheVolumes = options.cacheVolumes ?? (options.worktreePath ? findCacheVolumes(options.worktreePath) : []);
+        const workspace = options.workspace ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        spec = buildCreateSpec(imageName, { ...options, securityProfile, cacheVolumes, workspace }, user);
+    } catch (validationError: any) {
+        logger.error(validationError.message);
+        throw validationError;
+    }
+
+    // The container's only route out is the registry proxy, which must be up first
+    if (securityProfile.network === REGISTRY_PROXY_NETWORK) {
+        try {
+            await ensureRegistryProxy(client, securityProfile.registryProxy, message => logger.info(message));
+        } catch (error: any) {
+            logger.error(`Failed to set up the registry proxy for ${containerName}: ${error.message}`);
+            throw error;
+        }
+    }
+
+    if (cacheVolumes.length > 0) {
+        logger.info(`Using package caches ${cacheVolumes.map(volume => volume.volume).join(', ')} for ${containerName}`);
+        // Root owns new volumes, except under rootless Docker where root is the host user
+        const owner = user.User === '0:0' ? undefined : user.User;
+        const prepare = (volume: CacheVolume) => {
+            logger.info(`Preparing new cache volume ${volume.volume}`);
+            return prepareVolume(client, imageName, volume, owner);
+        };
+        await ensureCacheVolumes(client, cacheVolumes, prepare);
+    }
+
+    logger.info(`Creating container ${containerName} from ${imageName} with ${runtime.kind} at ${runtime.endpoint}`);
+
+    let containerId: string;
+    try {
+        containerId = await client.createContainer(containerName, spec);
+        await client.startContainer(containerId);
+    } catch (error) {
+        const startError = describeStartError(error, imageName, containerName);
+        logger.error(`Error starting container ${containerName}: ${startError.message}`);
+        throw startError;
+    }
+    logger.info(`Container ${containerName} started with ID: ${containerId}`);
+
+    // Wait until the container is running and, if the image has a healthcheck, healthy
+    try {
+        const inspect = await client.waitForReady(containerId);
+        logger.info(`Container ${containerName} is ${inspect.State.Health?.Status ?? inspect.State.Status}`);
+        return containerId;
+    } catch (error: any) {
+        logger.error(`Container ${containerName} failed to start properly: ${error.message}`);
+        if (error instanceof ContainerStartError) {
+            const logs = await client.logs(containerId, { tail: 50 }).catch(() => undefined);
+            if (logs && (logs.stdout || logs.stderr)) {
+                logger.error(`Last output of ${containerName}:\n${logs.stdout}${logs.stderr}`);
             }
-            logger.info(`Container ${containerName} stopped: ${stdout.trim()}`);
-            resolve();
+        }
+        // Do not leave a broken container holding the name
+        await client.removeContainer(containerId, { force: true }).catch((removeError: Error) => {
+            logger.warn(`Failed to remove container ${containerName}: ${removeError.message}`);
         });
-    });
+        throw error;
+    }
+}
+
+export async function stopToolContainer(containerName: string): Promise<void> {
+    try {
+        await (await getDockerClient()).stopContainer(containerName);
+        logger.info(`Container ${containerName} stopped`);
+    } catch (error: any) {
+        logger.error(`Error stopping container ${containerName}: ${error.message}`);
+        throw error;
+    }
+}
+
+function formatPorts(ports: ContainerSummary['Ports']): string {
+    return ports
+        .map(port => port.PublicPort
+            ? `${port.IP ?? ''}:${port.PublicPort}->${port.PrivatePort}/${port.Type}`
+            : `${port.PrivatePort}/${port.Type}`)
+        .join(', ');
 }
 
 export async function listToolContainers(): Promise<DockerContainer[]> {
-    return new Promise((resolve, reject) => {
-        const command = `docker ps -a --format "{{.ID}}\t{{.Names}}\t{{.Image}}\t{{.Status}}\t{{.Ports}}"`;
-        exec(command, (error, stdout, stderr) => {
-            if (error) {
-                logger.error(`Error listing containers: ${stderr}`);
-                return reject(error);
-            }
+    try {
+        const containers = await (await getDockerClient()).listContainers({ all: true, filters: { label: [`${ROLE_LABEL}=tool`] } });
+        return containers.map(container => ({
+            id: container.Id.slice(0, 12),
+            name: (container.Names[0] ?? '').replace(/^\//, ''),
+            image: container.Image,
+            status: container.Status,
+            ports: formatPorts(container.Ports),
+        }));
+    } catch (error: any) {
+        logger.error(`Error listing containers: ${error.message}`);
+        throw error;
+    }
+}
 
-            const lines = stdout.trim().split('\n');
-            const containers: DockerContainer[] = [];
-            for (const line of lines) {
-                const [id, name, image, status, ports] = line.split('\t');
-                containers.push({ id, name, image, status, ports });
-            }
-            resolve(containers);
-        });
+export async function listManagedContainers(): Promise<RooContainer[]> {
+    return listRooContainers(await getDockerClient());
+}
+
+/**
+ * Builds a check for whether a worktree exists: git still lists it and it is
+ * on disk. Without a workspace, or when git cannot list worktrees, only the
+ * directory is checked.
+ */
+export async function createWorktreeChecker(workspace: string | undefined): Promise<(worktreePath: string) => boolean> {
+    const canonical = (worktreePath: string) => fs.existsSync(worktreePath) ? fs.realpathSync(worktreePath) : path.resolve(worktreePath);
+    let gitWorktrees: Set<string> | undefined;
+    if (workspace) {
+        try {
+            const worktrees = await new GitWorktree(workspace).listWorktrees();
+            gitWorktrees = new Set(worktrees.map(worktree => canonical(worktree.path)));
+        } catch (error: any) {
+            logger.warn(`Cannot list git worktrees, checking worktree directories only: ${error.message}`);
+        }
+    }
+    return worktreePath => fs.existsSync(worktreePath) && (!gitWorktrees || gitWorktrees.has(canonical(worktreePath)));
+}
+
+/**
+ * Finds Roo containers of this workspace that no worktree or track refers to
+ * any more.
+ */
+export async function findOrphanedToolContainers(
+    knownTrackIds: Set<string>,
+    activeTrackIds: Set<string>
+): Promise<OrphanedContainer[]> {
+    const workspace = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const worktreeExists = await createWorktreeChecker(workspace);
+    const containers = await listRooContainers(await getDockerClient());
+    return findOrphanedContainers(containers, {
+        workspace,
+        knownTrackIds,
+        activeTrackIds,
+        worktreeExists,
     });
-}
\ No newline at end of file
+}
+
+export async function removeManagedContainers(containers: RooContainer[]): Promise<RemoveResult> {
+    const result = await removeContainers(await getDockerClient(), containers);
+    logger.info(`Removed ${result.removed.length} container(s)${result.failed.length > 0 ? `, ${result.failed.length} failed` : ''}`);
+    result.failed.forEach(failure => logger.warn(`Failed to remove container ${failure.name}: ${failure.error}`));
+    return result;
+}
+
+export async function restartManagedContainer(container: RooContainer): Promise<void> {
+    await (await getDockerClient()).restartContainer(container.id);
+    logger.info(`Container ${container.name} restarted`);
+}
+
+/**
+ * Streams a container's logs, starting with the last `tail` lines, until
+ * the container stops or `signal` aborts.
+ */
+export async function followContainerLogs(
+    container: RooContainer,
+    onOutput: (text: string) => void,
+    signal: AbortSignal,
+    tail: number = 200
+): Promise<void> {
+    await (await getDockerClient()).followLogs(container.id, { tail, signal }, (_stream, text) => onOutput(text));
+}
+
+/**
+ * Reports tool containers the kernel OOM-kills until `signal` aborts.
+ * The track is taken from the container's labels.
+ */
+export async function watchOomKills(
+    onOom: (container: { name: string; trackId?: string }) => void,
+    signal: AbortSignal
+): Promise<void> {
+    const filters = { type: ['container'], event: ['oom'], label: [`${ROLE_LABEL}=tool`] };
+    await (await getDockerClient()).events({ filters, signal }, event => onOom({
+        name: event.Actor.Attributes?.name ?? event.Actor.ID.slice(0, 12),
+        trackId: event.Actor.Attributes?.[TRACK_LABEL],
+    }));
+}
+
+/**
+ * The CLI invocation for an interactive shell in a running container, for
+ * use as a terminal's shell. Interactive exec needs a TTY, which the CLI
+ * handles far better than the Engine API would over a pseudoterminal.
+ */
+export async function containerShellCommand(container: RooContainer): Promise<{ shellPath: string; shellArgs: string[]; env: Record<string, string> }> {
+    const runtime = await getContainerRuntime();
+    return {
+        shellPath: runtime.kind,
+        // bash where the image has it, sh otherwise
+        shellArgs: ['exec', '-it', container.id, 'sh', '-c', 'command -v bash >/dev/null && exec bash || exec sh'],
+        env: runtimeEnvironment(runtime),
+    };
+}
+
+export async function listPackageCaches(): Promise<CacheVolumeInfo[]> {
+    return listCacheVolumes(await getDockerClient());
+}
+
+/**
+ * Removes unused package cache volumes. With `keepCurrent`, the volumes
+ * matching the workspace's current lockfiles survive, since new tracks
+ * will use them.
+ */
+export async function prunePackageCaches(keepCurrent: boolean): Promise<PruneResult> {
+    const projectRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const keep = new Set(keepCurrent && projectRoot ? findCacheVolumes(projectRoot).map(volume => volume.volume) : []);
+    const result = await pruneCacheVolumes(await getDockerClient(), keep);
+    logger.info(`Pruned ${result.removed.length} package cache volume(s), ${result.inUse.length} still in use`);
+    return result;
+}
+
+/**
+ * Builds the tool image for the workspace and pins its digest in
+ * .roo/tool-image.json, reporting build output line by line.
+ */
+export async function buildWorkspaceToolImage(onOutput: (line: string) => void, signal?: AbortSignal): Promise<ToolImagePin> {
+    const projectRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!projectRoot) {
+        throw new Error('Open a workspace folder to build its tool image');
+    }
+    const pin = await buildToolImage(await getDockerClient(), projectRoot, onOutput, signal);
+    logger.info(`Built tool image ${pin.image} (${pin.digest}) for Node ${pin.nodeVersion} with ${pin.packageManager}`);
+    return pin;
+}
+
+/**
+ * Returns the pinned tool image digest tool containers are created from.
+ * Reads the pin from the main checkout, like the security profile, so a
+ * track cannot swap its own image.
+ */
+export function resolveToolImage(projectRoot: string | undefined): string {
+    const pin = projectRoot ? readToolImagePin(projectRoot) : undefined;
+    if (!pin) {
+        throw new Error(`No tool image is pinned for this workspace. Run 'Roo Master: Build Tool Image' first.`);
+    }
+    if (isPinOutdated(projectRoot!, pin)) {
+        logger.warn(`Tool image ${pin.image} was built for a different Node version or package manager; run 'Roo Master: Build Tool Image' to update it`);
+    }
+    return pin.digest;
+}
@@ -0,0 +1,143 @@
+import { ContainerInspect, DockerApiError, DockerEngineClient } from './engineApi';
+import { MANAGED_LABEL, ROLE_LABEL } from './labels';
+
+/**
+ * Registry proxy that tool containers in `registry-proxy` network mode reach
+ * instead of the internet. Any registry or caching proxy image works as long
+ * as it serves HTTP on `port`; `env` tells the package managers inside tool
+ * containers where it is, with `{url}` standing for the proxy's base URL.
+ */
+export interface RegistryProxyConfig {
+    image: string;
+    port: number;
+    env: Record<string, string>;
+    // Named volume holding the proxy's cache, kept across restarts
+    cacheVolume?: string;
+    // Where the image keeps its cache
+    cachePath?: string;
+}
+
+// Internal network: members can only talk to each other, which leaves the proxy as the only way out
+export const EGRESS_NETWORK = 'roo-egress';
+export const REGISTRY_PROXY_CONTAINER = 'roo-registry-proxy';
+// Host name of the proxy on the internal network
+export const REGISTRY_PROXY_ALIAS = 'registry-proxy';
+
+export const DEFAULT_REGISTRY_PROXY: RegistryProxyConfig = {
+    image: 'verdaccio/verdaccio:5',
+    port: 4873,
+    env: {
+        npm_config_registry: '{url}',
+        YARN_NPM_REGISTRY_SERVER: '{url}',
+    },
+    cacheVolume: 'roo-registry-cache',
+    cachePath: '/verdaccio/storage',
+};
+
+export function registryProxyUrl(config: RegistryProxyConfig): string {
+    return `http://${REGISTRY_PROXY_ALIAS}:${config.port}/`;
+}
+
+/**
+ * Environment entries pointing package managers in a tool container at the proxy.
+ */
+export function registryProxyEnv(config: RegistryProxyConfig): string[] {
+    const url = registryProxyUrl(config);
+    return Object.entries(config.env).map(([name, value]) => `${name}=${value.replace(/\{url\}/g, url)}`);
+}
+
+async function ensureEgressNetwork(client: DockerEngineClient, log: (message: string) => void): Promise<void> {
+    try {
+        const network = await client.inspectNetwork(EGRESS_NETWORK);
+        if (!network.Internal) {
+            throw new Error(`Network ${EGRESS_NETWORK} exists but is not internal; remove it so it can be recreated without an outbound route`);
+        }
+        return;
+    } catch (error) {
+        if (!(error instanceof DockerApiError && error.notFound)) {
+            throw error;
+        }
+    }
+
+    log(`Creating internal network ${EGRESS_NETWORK}`);
+    try {
+        await client.createNetwork({ Name: EGRESS_NETWORK, Internal: true, Labels: { [MANAGED_LABEL]: 'true' } });
+    } catch (error) {
+        // Another track created it first
+        if (!(error instanceof DockerApiError && error.conflict)) {
+            throw error;
+        }
+    }
+}
+
+async function createProxyContainer(
+    client: DockerEngineClient,
+    config: RegistryProxyConfig,
+    log: (message: string) => void
+): Promise<ContainerInspect> {
+    try {
+        await client.inspectImage(config.image);
+    } catch (error) {
+        if (!(error instanceof DockerApiError && error.notFound)) {
+            throw error;
+        }
+        log(`Pulling registry proxy image ${config.image}`);
+        await client.pullImage(config.image);
+    }
+
+    log(`Creating registry proxy ${REGISTRY_PROXY_CONTAINER} from ${config.image}`);
+    let id: string;
+    try {
+        // Starts on the default bridge, which is its route to the upstream registries
+        id = await client.createContainer(REGISTRY_PROXY_CONTAINER, {
+            Image: config.image,
+            Labels: { [MANAGED_LABEL]: 'true', [ROLE_LABEL]: 'registry-proxy' },
+            HostConfig: {
+                CapDrop: ['ALL'],
+                SecurityOpt: ['no-new-privileges'],
+                PidsLimit: 256,
+                Memory: 1024 ** 3,
+                NetworkMode: 'bridge',
+                Mounts: config.cacheVolume && config.cachePath
+                    ? [{ Type: 'volume', Source: config.cacheVolume, Target: config.cachePath }]
+                    : [],
+            },
+        });
+    } catch (error) {
+        if (error instanceof DockerApiError && error.conflict) {
+            return client.inspectContainer(REGISTRY_PROXY_CONTAINER);
+        }
+        throw error;
+    }
+    return client.inspectContainer(id);
+}
+
+/**
+ * Makes sure the internal egress network and the registry proxy on it are
+ * up, creating or starting them as needed. Safe to call for every container
+ * start; concurrent callers converge on the same network and proxy.
+ * @returns Environment entries for tool containers joining the network.
+ */
+export async function ensureRegistryProxy(
+    client: DockerEngineClient,
+    config: RegistryProxyConfig,
+    log: (message: string) => void = () => undefined
+): Promise<string[]> {
+    await ensureEgressNetwork(client, log);
+
+    let proxy = await client.findContainer(REGISTRY_PROXY_CONTAINER) ?? await createProxyContainer(client, config, log);
+    if (proxy.Config.Image !== config.image) {
+        log(`Registry proxy runs ${proxy.Config.Image}, not the configured ${config.image}; remove ${REGISTRY_PROXY_CONTAINER} to switch`);
+    }
+
+    if (!proxy.NetworkSettings.Networks[EGRESS_NETWORK]) {
+        await client.connectNetwork(EGRESS_NETWORK, proxy.Id, [REGISTRY_PROXY_ALIAS]);
+    }
+    if (!proxy.State.Running) {
+        log(`Starting registry proxy ${REGISTRY_PROXY_CONTAINER}`);
+        await client.startContainer(proxy.Id);
+        proxy = await client.waitForReady(proxy.Id);
+    }
+
+    return registryProxyEnv(config);
+}
@@ -0,0 +1,874 @@
+import * as http from 'http';
+import { Readable } from 'stream';
+
+// Oldest API version with everything used here; Podman's compat API serves it too
+export const DOCKER_API_VERSION = 'v1.41';
+
+// Applies to ordinary requests; streaming endpoints (events, followed logs) have no timeout
+const DEFAULT_REQUEST_TIMEOUT_MS = 30 * 1000;
+// Non-streaming response bodies above this size are rejected
+const MAX_RESPONSE_BYTES = 16 * 1024 * 1024;
+
+export type QueryValue = string | number | boolean | undefined;
+
+export interface DockerRequest {
+    method: 'GET' | 'POST' | 'DELETE' | 'HEAD';
+    // Path including the API version prefix and query string
+    path: string;
+    // Serialized as JSON, except Buffers, which are sent as they are
+    body?: unknown;
+    // Content type of a Buffer body
+    contentType?: string;
+    signal?: AbortSignal;
+    timeoutMs?: number;
+}
+
+export interface DockerResponse {
+    statusCode: number;
+    headers: http.IncomingHttpHeaders;
+    body: Readable;
+}
+
+/**
+ * Carries one HTTP request to the engine. The default goes over the local
+ * socket; tests point it at a fake server instead.
+ */
+export interface DockerTransport {
+    readonly description: string;
+    request(request: DockerRequest): Promise<DockerResponse>;
+}
+
+/**
+ * Raised when the engine answers with an error status. `statusCode` and the
+ * engine's own message are kept so callers can branch on them.
+ */
+export class DockerApiError extends Error {
+    constructor(
+        public readonly operation: string,
+        public readonly statusCode: number,
+        public readonly engineMessage: string
+    ) {
+        super(`Docker ${operation} failed (${statusCode}): ${engineMessage}`);
+        this.name = 'DockerApiError';
+    }
+
+    public get notFound(): boolean {
+        return this.statusCode === 404;
+    }
+
+    public get conflict(): boolean {
+        return this.statusCode === 409;
+    }
+}
+
+/**
+ * Raised when the engine cannot be reached at all (no socket, daemon down, permission denied).
+ */
+export class DockerUnavailableError extends Error {
+    constructor(public readonly endpoint: string, public readonly cause?: Error) {
+        super(`Docker engine is not reachable at ${endpoint}${cause ? `: ${cause.message}` : ''}`);
+        this.name = 'DockerUnavailableError';
+    }
+}
+
+/**
+ * Raised when a started container exits or reports unhealthy before it is ready.
+ */
+export class ContainerStartError extends Error {
+    constructor(
+        public readonly containerId: string,
+        message: string,
+        public readonly state?: ContainerState
+    ) {
+        super(message);
+        this.name = 'ContainerStartError';
+    }
+}
+
+/**
+ * HTTP over a unix socket or Windows named pipe.
+ */
+export class SocketTransport implements DockerTransport {
+    constructor(public readonly socketPath: string) {}
+
+    public get description(): string {
+        return this.socketPath;
+    }
+
+    public request(request: DockerRequest): Promise<DockerResponse> {
+        return new Promise((resolve, reject) => {
+            const payload = request.body === undefined || Buffer.isBuffer(request.body)
+                ? request.body
+                : Buffer.from(JSON.stringify(request.body));
+            const contentType = Buffer.isBuffer(request.body) ? request.contentType ?? 'application/octet-stream' : 'application/json';
+            const req = http.request({
+                socketPath: this.socketPath,
+                method: request.method,
+                path: request.path,
+                headers: {
+                    Host: 'docker',
+                    ...(payload ? { 'Content-Type': contentType, 'Content-Length': payload.length } : {}),
+                },
+                signal: request.signal,
+                timeout: request.timeoutMs,
+            });
+
+            req.on('response', (res) => resolve({ statusCode: res.statusCode ?? 0, headers: res.headers, body: res }));
+            req.on('timeout', () => req.destroy(new Error(`Request timed out after ${request.timeoutMs}ms`)));
+            req.on('error', (error: NodeJS.ErrnoException) => {
+                if (error.name === 'AbortError') {
+                    reject(error);
+                } else if (error.code === 'ENOENT' || error.code === 'ECONNREFUSED' || error.code === 'EACCES') {
+                    reject(new DockerUnavailableError(this.socketPath, error));
+                } else {
+                    reject(error);
+                }
+            });
+            req.end(payload);
+        });
+    }
+}
+
+/**
+ * Resolves the engine socket from DOCKER_HOST, falling back to the platform default.
+ * Only local sockets are supported; TCP endpoints would need TLS configuration.
+ */
+export function defaultSocketPath(env: NodeJS.ProcessEnv = process.env, platform: NodeJS.Platform = process.platform): string {
+    const dockerHost = env.DOCKER_HOST;
+    if (dockerHost) {
+        if (dockerHost.startsWith('unix://')) {
+            return dockerHost.slice('unix://'.length);
+        }
+        if (dockerHost.startsWith('npipe://')) {
+            return dockerHost.slice('npipe://'.length).replace(/\//g, '\\');
+        }
+        throw new Error(`Unsupported DOCKER_HOST '${dockerHost}': only unix:// and npipe:// endpoints are supported`);
+    }
+    return platform === 'win32' ? '\\\\.\\pipe\\docker_engine' : '/var/run/docker.sock';
+}
+
+export interface EngineVersion {
+    Version: string;
+    ApiVersion: string;
+    Os: string;
+    Arch: string;
+    // Podman lists a 'Podman Engine' component here
+    Components?: { Name: string; Version: string }[];
+}
+
+export interface EngineInfo {
+    Name: string;
+    OperatingSystem: string;
+    // Contains 'name=rootless' for rootless Docker and Podman
+    SecurityOptions: string[] | null;
+}
+
+export interface MountSpec {
+    Type: 'bind' | 'volume' | 'tmpfs';
+    Source?: string;
+    Target: string;
+    ReadOnly?: boolean;
+}
+
+export interface HostConfigSpec {
+    ReadonlyRootfs?: boolean;
+    CapDrop?: string[];
+    CapAdd?: string[];
+    SecurityOpt?: string[];
+    PidsLimit?: number;
+    Memory?: number;
+    NanoCpus?: number;
+    NetworkMode?: string;
+    // 'keep-id' on rootless Podman maps the host user to the same uid inside
+    UsernsMode?: string;
+    Mounts?: MountSpec[];
+    // Target path -> mount options, as in `--tmpfs target:options`
+    Tmpfs?: Record<string, string>;
+    AutoRemove?: boolean;
+}
+
+export interface ContainerCreateSpec {
+    Image: string;
+    Cmd?: string[];
+    Entrypoint?: string[];
+    Env?: string[];
+    User?: string;
+    WorkingDir?: string;
+    Labels?: Record<string, string>;
+    HostConfig?: HostConfigSpec;
+}
+
+export interface ContainerHealth {
+    Status: 'starting' | 'healthy' | 'unhealthy' | 'none';
+    FailingStreak: number;
+    Log?: { ExitCode: number; Output: string }[];
+}
+
+export interface ContainerState {
+    Status: 'created' | 'running' | 'paused' | 'restarting' | 'removing' | 'exited' | 'dead';
+    Running: boolean;
+    Paused: boolean;
+    Restarting: boolean;
+    OOMKilled: boolean;
+    Dead: boolean;
+    Pid: number;
+    ExitCode: number;
+    Error: string;
+    StartedAt: string;
+    FinishedAt: string;
+    Health?: ContainerHealth;
+}
+
+export interface ContainerInspect {
+    Id: string;
+    Name: string;
+    Created: string;
+    Image: string;
+    State: ContainerState;
+    Config: {
+        Image: string;
+        Labels: Record<string, string> | null;
+        Healthcheck?: { Test?: string[] };
+    };
+    HostConfig: HostConfigSpec;
+    Mounts: { Type: string; Source: string; Destination: string; RW: boolean }[];
+    NetworkSettings: {
+        Networks: Record<string, { NetworkID: string; Aliases: string[] | null; IPAddress: string }>;
+    };
+}
+
+export interface NetworkCreateSpec {
+    Name: string;
+    Driver?: string;
+    // No route out of the network; members only reach each other
+    Internal?: boolean;
+    Labels?: Record<string, string>;
+}
+
+export interface NetworkInspect {
+    Id: string;
+    Name: string;
+    Driver: string;
+    Internal: boolean;
+    Labels: Record<string, string> | null;
+}
+
+export interface VolumeInspect {
+    Name: string;
+    Driver: string;
+    Mountpoint: string;
+    CreatedAt?: string;
+    Labels: Record<string, string> | null;
+}
+
+export interface VolumeUsage {
+    Name: string;
+    Labels: Record<string, string> | null;
+    CreatedAt?: string;
+    // -1 when the engine has not computed it
+    UsageData?: { Size: number; RefCount: number } | null;
+}
+
+export interface CpuStats {
+    cpu_usage: { total_usage: number };
+    // Absent on Windows and in Podman's compat API for some cgroup setups
+    system_cpu_usage?: number;
+    online_cpus?: number;
+}
+
+/**
+ * One stats reading of a container. Field names are the engine's; which
+ * ones are present depends on the cgroup version and runtime.
+ */
+export interface ContainerStats {
+    read: string;
+    cpu_stats: CpuStats;
+    precpu_stats?: CpuStats;
+    memory_stats: {
+        usage?: number;
+        limit?: number;
+        // cgroup v1 reports cache, v2 inactive_file; both count as reclaimable
+        stats?: { cache?: number; inactive_file?: number };
+    };
+    blkio_stats?: { io_service_bytes_recursive?: { op: string; value: number }[] | null };
+    networks?: Record<string, { rx_bytes: number; tx_bytes: number }>;
+    pids_stats?: { current?: number; limit?: number };
+}
+
+export interface ImageInspect {
+    Id: string;
+    RepoTags: string[] | null;
+    RepoDigests: string[] | null;
+}
+
+export interface BuildImageOptions {
+    tag: string;
+    // Path of the Dockerfile inside the context; defaults to `Dockerfile`
+    dockerfile?: string;
+    labels?: Record<string, string>;
+    // Pull newer versions of the base images
+    pull?: boolean;
+    signal?: AbortSignal;
+}
+
+export interface ContainerSummary {
+    Id: string;
+    Names: string[];
+    Image: string;
+    State: string;
+    Status: string;
+    Created: number;
+    Labels: Record<string, string> | null;
+    Ports: { IP?: string; PrivatePort: number; PublicPort?: number; Type: string }[];
+}
+
+export interface ContainerWaitResult {
+    StatusCode: number;
+    Error?: { Message: string } | null;
+}
+
+export interface DockerEvent {
+    Type: string;
+    Action: string;
+    Actor: { ID: string; Attributes: Record<string, string> };
+    time: number;
+    timeNano: number;
+}
+
+// Engine-side filters, e.g. { label: ['roo-master.track'], name: ['roo-track-a'] }
+export type DockerFilters = Record<string, string[]>;
+
+export interface LogsOptions {
+    stdout?: boolean;
+    stderr?: boolean;
+    // Number of lines from the end, or 'all'
+    tail?: number | 'all';
+    // Unix timestamp in seconds
+    since?: number;
+    timestamps?: boolean;
+}
+
+export interface ContainerLogs {
+    stdout: string;
+    stderr: string;
+}
+
+export interface EventsOptions {
+    filters?: DockerFilters;
+    // Unix timestamps in seconds; without `until` the stream stays open until aborted
+    since?: number;
+    until?: number;
+    signal?: AbortSignal;
+}
+
+export interface WaitForReadyOptions {
+    timeoutMs?: number;
+    intervalMs?: number;
+    signal?: AbortSignal;
+}
+
+async function readBody(body: Readable, limit: number = MAX_RESPONSE_BYTES): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of body) {
+        size += chunk.length;
+        if (size > limit) {
+            body.destroy();
+            throw new Error(`Docker response exceeds ${limit} bytes`);
+        }
+        chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Reads a stream of newline-delimited JSON messages, as sent by the pull,
+ * build and events endpoints, passing each one to `onMessage`.
+ */
+async function readJsonLines(body: Readable, onMessage: (message: any) => void): Promise<void> {
+    let pending = '';
+    for await (const chunk of body) {
+        pending += chunk.toString('utf8');
+        let newline: number;
+        while ((newline = pending.indexOf('\n')) >= 0) {
+            const line = pending.slice(0, newline).trim();
+            pending = pending.slice(newline + 1);
+            if (line) {
+                onMessage(JSON.parse(line));
+            }
+        }
+    }
+    if (pending.trim()) {
+        onMessage(JSON.parse(pending));
+    }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            return reject(signal.reason ?? new Error('Aborted'));
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason ?? new Error('Aborted'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Splits a log stream of a container without a TTY into stdout and stderr.
+ * Each frame is an 8-byte header (stream id, 3 zero bytes, big-endian length)
+ * followed by the payload. Streams that do not start with a valid header
+ * (TTY containers) are returned as stdout unchanged.
+ */
+export function demuxLogStream(buffer: Buffer): ContainerLogs {
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let offset = 0;
+
+    while (offset < buffer.length) {
+        const isHeader = offset + 8 <= buffer.length
+            && buffer[offset] <= 2
+            && buffer[offset + 1] === 0 && buffer[offset + 2] === 0 && buffer[offset + 3] === 0;
+        if (!isHeader) {
+            if (offset === 0) {
+                return { stdout: buffer.toString('utf8'), stderr: '' };
+            }
+            throw new Error(`Malformed log stream at byte ${offset}`);
+        }
+        const length = buffer.readUInt32BE(offset + 4);
+        const payload = buffer.subarray(offset + 8, offset + 8 + length);
+        (buffer[offset] === 2 ? stderr : stdout).push(payload);
+        offset += 8 + length;
+    }
+
+    return { stdout: Buffer.concat(stdout).toString('utf8'), stderr: Buffer.concat(stderr).toString('utf8') };
+}
+
+/**
+ * Splits `registry:5000/name:tag` into image and tag as the pull endpoint
+ * expects; digests stay part of the image. The tag defaults to `latest`.
+ */
+export function splitImageReference(reference: string): { image: string; tag?: string } {
+    if (reference.includes('@')) {
+        return { image: reference };
+    }
+    const lastSlash = reference.lastIndexOf('/');
+    const colon = reference.indexOf(':', lastSlash + 1);
+    return colon === -1
+        ? { image: reference, tag: 'latest' }
+        : { image: reference.slice(0, colon), tag: reference.slice(colon + 1) };
+}
+
+function buildQuery(query: Record<string, QueryValue>): string {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined) {
+            params.set(key, typeof value === 'boolean' ? (value ? '1' : '0') : String(value));
+        }
+    }
+    const encoded = params.toString();
+    return encoded ? `?${encoded}` : '';
+}
+
+/**
+ * Typed client for the subset of the Docker Engine API used by Roo Master.
+ * Every method throws DockerApiError for error statuses and
+ * DockerUnavailableError when the engine cannot be reached.
+ */
+export class DockerEngineClient {
+    constructor(private readonly transport: DockerTransport = new SocketTransport(defaultSocketPath())) {}
+
+    public get endpoint(): string {
+        return this.transport.description;
+    }
+
+    public async ping(): Promise<void> {
+        await this.call('ping', 'GET', '/_ping');
+    }
+
+    public async version(): Promise<EngineVersion> {
+        return this.json('version', 'GET', '/version');
+    }
+
+    public async info(): Promise<EngineInfo> {
+        return this.json('info', 'GET', '/info');
+    }
+
+    /**
+     * Creates a container and returns its id. The engine rejects duplicate names with 409.
+     */
+    public async createContainer(name: string, spec: ContainerCreateSpec): Promise<string> {
+        const result = await this.json<{ Id: string; Warnings?: string[] }>(
+            `create container ${name}`, 'POST', `/containers/create${buildQuery({ name })}`, spec
+        );
+        return result.Id;
+    }
+
+    public async startContainer(id: string): Promise<void> {
+        // 304: already running
+        await this.call(`start container ${id}`, 'POST', `/containers/${encodeURIComponent(id)}/start`, undefined, [304]);
+    }
+
+    /**
+     * Stops a container, killing it after `timeoutSeconds`. Stopping a stopped container is not an error.
+     */
+    public async stopContainer(id: string, timeoutSeconds?: number): Promise<void> {
+        await this.call(`stop container ${id}`, 'POST',
+            `/containers/${encodeURIComponent(id)}/stop${buildQuery({ t: timeoutSeconds })}`, undefined, [304]);
+    }
+
+    public async restartContainer(id: string, timeoutSeconds?: number): Promise<void> {
+        await this.call(`restart container ${id}`, 'POST',
+            `/containers/${encodeURIComponent(id)}/restart${buildQuery({ t: timeoutSeconds })}`);
+    }
+
+    public async removeContainer(id: string, options: { force?: boolean; volumes?: boolean } = {}): Promise<void> {
+        await this.call(`remove container ${id}`, 'DELETE',
+            `/containers/${encodeURIComponent(id)}${buildQuery({ force: options.force, v: options.volumes })}`);
+    }
+
+    public async inspectContainer(id: string): Promise<ContainerInspect> {
+        return this.json(`inspect container ${id}`, 'GET', `/containers/${encodeURIComponent(id)}/json`);
+    }
+
+    /**
+     * Takes one stats reading without waiting for a second sample, so
+     * `precpu_stats` may be empty; CPU usage is the delta between readings.
+     */
+    public async containerStats(id: string): Promise<ContainerStats> {
+        return this.json(`stats of container ${id}`, 'GET', `/containers/${encodeURIComponent(id)}/stats${buildQuery({ stream: false, 'one-shot': true })}`);
+    }
+
+    /**
+     * Inspects a container, returning undefined instead of throwing when it does not exist.
+     */
+    public async findContainer(id: string): Promise<ContainerInspect | undefined> {
+        try {
+            return await this.inspectContainer(id);
+        } catch (error) {
+            if (error instanceof DockerApiError && error.notFound) {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    public async listContainers(options: { all?: boolean; filters?: DockerFilters } = {}): Promise<ContainerSummary[]> {
+        const query = buildQuery({
+            all: options.all,
+            filters: options.filters ? JSON.stringify(options.filters) : undefined,
+        });
+        return this.json('list containers', 'GET', `/containers/json${query}`);
+    }
+
+    public async inspectNetwork(name: string): Promise<NetworkInspect> {
+        return this.json(`inspect network ${name}`, 'GET', `/networks/${encodeURIComponent(name)}`);
+    }
+
+    public async createNetwork(spec: NetworkCreateSpec): Promise<string> {
+        const result = await this.json<{ Id: string }>(`create network ${spec.Name}`, 'POST', '/networks/create', spec);
+        return result.Id;
+    }
+
+    /**
+     * Attaches a container to a network, reachable there under `aliases`.
+     */
+    public async connectNetwork(network: string, containerId: string, aliases: string[] = []): Promise<void> {
+        await this.call(`connect ${containerId} to network ${network}`, 'POST', `/networks/${encodeURIComponent(network)}/connect`, {
+            Container: containerId,
+            EndpointConfig: { Aliases: aliases },
+        });
+    }
+
+    public async createVolume(name: string, labels: Record<string, string> = {}): Promise<VolumeInspect> {
+        return this.json(`create volume ${name}`, 'POST', '/volumes/create', { Name: name, Labels: labels });
+    }
+
+    public async inspectVolume(name: string): Promise<VolumeInspect> {
+        return this.json(`inspect volume ${name}`, 'GET', `/volumes/${encodeURIComponent(name)}`);
+    }
+
+    public async listVolumes(filters?: DockerFilters): Promise<VolumeInspect[]> {
+        const query = buildQuery({ filters: filters ? JSON.stringify(filters) : undefined });
+        const result = await this.json<{ Volumes: VolumeInspect[] | null }>('list volumes', 'GET', `/volumes${query}`);
+        return result.Volumes ?? [];
+    }
+
+    /**
+     * Removes a volume. The engine refuses with 409 while a container uses it.
+     */
+    public async removeVolume(name: string, force: boolean = false): Promise<void> {
+        await this.call(`remove volume ${name}`, 'DELETE', `/volumes/${encodeURIComponent(name)}${buildQuery({ force })}`);
+    }
+
+    /**
+     * Volume sizes and reference counts, which only the disk usage endpoint reports.
+     */
+    public async volumeUsage(): Promise<VolumeUsage[]> {
+        const result = await this.json<{ Volumes: VolumeUsage[] | null }>('disk usage', 'GET', '/system/df');
+        return result.Volumes ?? [];
+    }
+
+    public async inspectImage(reference: string): Promise<ImageInspect> {
+        return this.json(`inspect image ${reference}`, 'GET', `/images/${encodeURIComponent(reference)}/json`);
+    }
+
+    /**
+     * Pulls an image, reporting each progress message. Pull failures arrive in
+     * the progress stream after a 200 status and are raised as DockerApiError.
+     */
+    public async pullImage(reference: string, onProgress?: (message: string) => void): Promise<void> {
+        const { image, tag } = splitImageReference(reference);
+        const response = await this.request(`pull image ${reference}`, 'POST',
+            `/images/create${buildQuery({ fromImage: image, tag })}`, undefined, { timeoutMs: 0 });
+
+        await readJsonLines(response.body, message => {
+            if (message.error) {
+                throw new DockerApiError(`pull image ${reference}`, 500, message.errorDetail?.message ?? message.error);
+            }
+            if (message.status && onProgress) {
+                onProgress(message.id ? `${message.id}: ${message.status}` : message.status);
+            }
+        });
+    }
+
+    /**
+     * Builds an image from a tar archive holding the build context and tags it
+     * as `options.tag`. Build output is passed to `onOutput` line by line;
+     * failing build steps arrive in the stream after a 200 status and are
+     * raised as DockerApiError.
+     * @returns The id of the built image.
+     */
+    public async buildImage(context: Buffer, options: BuildImageOptions, onOutput?: (line: string) => void): Promise<string> {
+        const operation = `build image ${options.tag}`;
+        const query = buildQuery({
+            t: options.tag,
+            dockerfile: options.dockerfile,
+            labels: options.labels ? JSON.stringify(options.labels) : undefined,
+            pull: options.pull,
+            rm: true,
+            forcerm: true,
+        });
+        const response = await this.request(operation, 'POST', `/build${query}`, context, {
+            contentType: 'application/x-tar',
+            signal: options.signal,
+            timeoutMs: 0,
+        });
+
+        let imageId: string | undefined;
+        let partial = '';
+        await readJsonLines(response.body, message => {
+            if (message.error) {
+                throw new DockerApiError(operation, 500, message.errorDetail?.message ?? message.error);
+            }
+            if (message.aux?.ID) {
+                imageId = message.aux.ID;
+            }
+            if (typeof message.stream === 'string') {
+                const lines = (partial + message.stream).split('\n');
+                partial = lines.pop()!;
+                lines.filter(line => line.trim()).forEach(line => onOutput?.(line));
+            }
+        });
+        if (partial.trim()) {
+            onOutput?.(partial);
+        }
+
+        // Older engines and Podman report the id only as text; the tag resolves it either way
+        return imageId ?? (await this.inspectImage(options.tag)).Id;
+    }
+
+    public async logs(id: string, options: LogsOptions = {}): Promise<ContainerLogs> {
+        const query = buildQuery({
+            stdout: options.stdout ?? true,
+            stderr: options.stderr ?? true,
+            tail: options.tail,
+            since: options.since,
+            timestamps: options.timestamps,
+        });
+        const response = await this.request(`logs of container ${id}`, 'GET', `/containers/${encodeURIComponent(id)}/logs${query}`);
+        return demuxLogStream(await readBody(response.body));
+    }
+
+    /**
+     * Streams a container's output to `onOutput` as it is written, starting
+     * with the last `tail` lines. Resolves when the container stops or
+     * `signal` aborts.
+     */
+    public async followLogs(
+        id: string,
+        options: Pick<LogsOptions, 'tail' | 'since' | 'timestamps'> & { signal?: AbortSignal },
+        onOutput: (stream: 'stdout' | 'stderr', text: string) => void
+    ): Promise<void> {
+        const query = buildQuery({
+            stdout: true,
+            stderr: true,
+            follow: true,
+            tail: options.tail,
+            since: options.since,
+            timestamps: options.timestamps,
+        });
+
+        let response: DockerResponse;
+        try {
+            response = await this.request(`logs of container ${id}`, 'GET',
+                `/containers/${encodeURIComponent(id)}/logs${query}`, undefined, { signal: options.signal, timeoutMs: 0 });
+        } catch (error) {
+            if (options.signal?.aborted) {
+                return;
+            }
+            throw error;
+        }
+
+        // Frames may be split across chunks; TTY containers send unframed text
+        let pending = Buffer.alloc(0);
+        let framed: boolean | undefined;
+        try {
+            for await (const chunk of response.body) {
+                pending = Buffer.concat([pending, chunk]);
+                if (framed === undefined && pending.length >= 8) {
+                    framed = pending[0] <= 2 && pending[1] === 0 && pending[2] === 0 && pending[3] === 0;
+                }
+                if (framed === false) {
+                    onOutput('stdout', pending.toString('utf8'));
+                    pending = Buffer.alloc(0);
+                    continue;
+                }
+                while (pending.length >= 8 && pending.length >= 8 + pending.readUInt32BE(4)) {
+                    const length = pending.readUInt32BE(4);
+                    onOutput(pending[0] === 2 ? 'stderr' : 'stdout', pending.toString('utf8', 8, 8 + length));
+                    pending = pending.subarray(8 + length);
+                }
+            }
+            if (!framed && pending.length > 0) {
+                onOutput('stdout', pending.toString('utf8'));
+            }
+        } catch (error) {
+            if (!options.signal?.aborted) {
+                throw error;
+            }
+        }
+    }
+
+    /**
+     * Blocks until the container reaches `condition` and returns its exit status.
+     */
+    public async wait(
+        id: string,
+        condition: 'not-running' | 'next-exit' | 'removed' = 'not-running',
+        signal?: AbortSignal
+    ): Promise<ContainerWaitResult> {
+        const response = await this.request(`wait for container ${id}`, 'POST',
+            `/containers/${encodeURIComponent(id)}/wait${buildQuery({ condition })}`, undefined, { signal, timeoutMs: 0 });
+        return JSON.parse((await readBody(response.body)).toString('utf8'));
+    }
+
+    /**
+     * Streams engine events to `onEvent` until the stream ends (`until` reached)
+     * or `signal` aborts, in which case the promise resolves normally.
+     */
+    public async events(options: EventsOptions, onEvent: (event: DockerEvent) => void): Promise<void> {
+        const query = buildQuery({
+            since: options.since,
+            until: options.until,
+            filters: options.filters ? JSON.stringify(options.filters) : undefined,
+        });
+
+        let response: DockerResponse;
+        try {
+            response = await this.request('events', 'GET', `/events${query}`, undefined, { signal: options.signal, timeoutMs: 0 });
+        } catch (error) {
+            if (options.signal?.aborted) {
+                return;
+            }
+            throw error;
+        }
+
+        try {
+            await readJsonLines(response.body, onEvent);
+        } catch (error) {
+            if (!options.signal?.aborted) {
+                throw error;
+            }
+        }
+    }
+
+    /**
+     * Polls a started container until it is ready: running and, when the image
+     * defines a healthcheck, reported healthy. Throws ContainerStartError when
+     * the container exits or turns unhealthy, or when `timeoutMs` elapses.
+     */
+    public async waitForReady(id: string, options: WaitForReadyOptions = {}): Promise<ContainerInspect> {
+        const timeoutMs = options.timeoutMs ?? 60 * 1000;
+        const intervalMs = options.intervalMs ?? 250;
+        const deadline = Date.now() + timeoutMs;
+
+        for (;;) {
+            const inspect = await this.inspectContainer(id);
+            const { State } = inspect;
+
+            if (State.Status === 'exited' || State.Status === 'dead') {
+                const reason = State.OOMKilled ? 'was killed for exceeding its memory limit' : `exited with code ${State.ExitCode}`;
+                throw new ContainerStartError(id, `Container ${inspect.Name.replace(/^\//, '')} ${reason}${State.Error ? `: ${State.Error}` : ''}`, State);
+            }
+            if (State.Health?.Status === 'unhealthy') {
+                const lastCheck = State.Health.Log?.[State.Health.Log.length - 1];
+                throw new ContainerStartError(id, `Container ${inspect.Name.replace(/^\//, '')} is unhealthy${lastCheck ? `: ${lastCheck.Output.trim()}` : ''}`, State);
+            }
+            if (State.Running && (!State.Health || State.Health.Status === 'healthy' || State.Health.Status === 'none')) {
+                return inspect;
+            }
+
+            if (Date.now() + intervalMs > deadline) {
+                throw new ContainerStartError(id, `Container ${inspect.Name.replace(/^\//, '')} was not ready after ${timeoutMs}ms (status: ${State.Health?.Status ?? State.Status})`, State);
+            }
+            await sleep(intervalMs, options.signal);
+        }
+    }
+
+    private async request(
+        operation: string,
+        method: DockerRequest['method'],
+        path: string,
+        body?: unknown,
+        options: { signal?: AbortSignal; timeoutMs?: number; allowedStatus?: number[]; contentType?: string } = {}
+    ): Promise<DockerResponse> {
+        const response = await this.transport.request({
+            method,
+            path: `/${DOCKER_API_VERSION}${path}`,
+            body,
+            contentType: options.contentType,
+            signal: options.signal,
+            timeoutMs: options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS,
+        });
+
+        const ok = (response.statusCode >= 200 && response.statusCode < 300) || options.allowedStatus?.includes(response.statusCode);
+        if (!ok) {
+            const text = (await readBody(response.body)).toString('utf8');
+            let message = text.trim();
+            try {
+                message = JSON.parse(text).message ?? message;
+            } catch {
+                // Plain-text error body
+            }
+            throw new DockerApiError(operation, response.statusCode, message || http.STATUS_CODES[response.statusCode] || 'unknown error');
+        }
+        return response;
+    }
+
+    private async call(operation: string, method: DockerRequest['method'], path: string, body?: unknown, allowedStatus?: number[]): Promise<void> {
+        const response = await this.request(operation, method, path, body, { allowedStatus });
+        response.body.resume();
+    }
+
+    private async json<T>(operation: string, method: DockerRequest['method'], path: string, body?: unknown): Promise<T> {
+        const response = await this.request(operation, method, path, body);
+        return JSON.parse((await readBody(response.body)).toString('utf8'));
+    }
+}
@@ -0,0 +1,12 @@
+// Labels Roo Master puts on every container, network and volume it creates;
+// only resources carrying MANAGED_LABEL are ever listed, collected or removed
+export const MANAGED_LABEL = 'roo-master.managed';
+// What a managed container is for, see ContainerRole
+export const ROLE_LABEL = 'roo-master.role';
+// Track and worktree a tool container was started for
+export const TRACK_LABEL = 'roo-master.track';
+export const WORKTREE_LABEL = 'roo-master.worktree';
+// Main checkout of the workspace that started the container
+export const WORKSPACE_LABEL = 'roo-master.workspace';
+
+export type ContainerRole = 'tool' | 'registry-proxy' | 'volume-init';
@@ -0,0 +1,147 @@
+import * as path from 'path';
+import { ContainerSummary, DockerApiError, DockerEngineClient } from './engineApi';
+import { ContainerRole, MANAGED_LABEL, ROLE_LABEL, TRACK_LABEL, WORKSPACE_LABEL, WORKTREE_LABEL } from './labels';
+
+/**
+ * A container created by Roo Master, as identified by its labels.
+ */
+export interface RooContainer {
+    id: string;
+    name: string;
+    image: string;
+    // Engine state: created, running, paused, exited, dead
+    state: string;
+    // Human-readable status, e.g. 'Up 5 minutes'
+    status: string;
+    role: ContainerRole | 'unknown';
+    trackId?: string;
+    worktreePath?: string;
+    workspace?: string;
+    // Unix timestamp in seconds
+    created: number;
+}
+
+export interface OrphanedContainer {
+    container: RooContainer;
+    reason: string;
+}
+
+/**
+ * What the garbage collector checks tool containers against.
+ */
+export interface OrphanCheck {
+    // Main checkout of this window; containers of other workspaces are left alone
+    workspace: string | undefined;
+    // Tracks of the current work plan
+    knownTrackIds: Set<string>;
+    // Tracks executing right now, whose containers are never collected
+    activeTrackIds: Set<string>;
+    worktreeExists: (worktreePath: string) => boolean;
+}
+
+export interface RemoveResult {
+    removed: string[];
+    failed: { name: string; error: string }[];
+}
+
+/**
+ * Labels for a tool container, applied when it is created.
+ */
+export function toolContainerLabels(options: { trackId?: string; worktreePath?: string; workspace?: string }): Record<string, string> {
+    const labels: Record<string, string> = { [MANAGED_LABEL]: 'true', [ROLE_LABEL]: 'tool' };
+    if (options.trackId) {
+        labels[TRACK_LABEL] = options.trackId;
+    }
+    if (options.worktreePath) {
+        labels[WORKTREE_LABEL] = options.worktreePath;
+    }
+    if (options.workspace) {
+        labels[WORKSPACE_LABEL] = options.workspace;
+    }
+    return labels;
+}
+
+function toRooContainer(summary: ContainerSummary): RooContainer {
+    const labels = summary.Labels ?? {};
+    const role = labels[ROLE_LABEL];
+    return {
+        id: summary.Id,
+        name: (summary.Names[0] ?? summary.Id.slice(0, 12)).replace(/^\//, ''),
+        image: summary.Image,
+        state: summary.State,
+        status: summary.Status,
+        role: role === 'tool' || role === 'registry-proxy' || role === 'volume-init' ? role : 'unknown',
+        trackId: labels[TRACK_LABEL],
+        worktreePath: labels[WORKTREE_LABEL],
+        workspace: labels[WORKSPACE_LABEL],
+        created: summary.Created,
+    };
+}
+
+/**
+ * Lists every container carrying the managed label, running or not.
+ */
+export async function listRooContainers(client: DockerEngineClient): Promise<RooContainer[]> {
+    const containers = await client.listContainers({ all: true, filters: { label: [MANAGED_LABEL] } });
+    return containers
+        .map(toRooContainer)
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Picks the containers nothing refers to any more: tool containers whose
+ * worktree was removed or whose track is not part of the current work plan,
+ * and cache volume preparation containers left behind by a crash. The
+ * registry proxy is shared by all tracks and never collected.
+ */
+export function findOrphanedContainers(containers: RooContainer[], check: OrphanCheck): OrphanedContainer[] {
+    const orphans: OrphanedContainer[] = [];
+    for (const container of containers) {
+        if (container.role === 'volume-init') {
+            if (container.state !== 'running') {
+                orphans.push({ container, reason: 'left over from preparing a cache volume' });
+            }
+            continue;
+        }
+        if (container.role !== 'tool') {
+            continue;
+        }
+        if (container.workspace && check.workspace && path.resolve(container.workspace) !== path.resolve(check.workspace)) {
+            continue;
+        }
+        if (container.trackId && check.activeTrackIds.has(container.trackId)) {
+            continue;
+        }
+
+        if (container.worktreePath && !check.worktreeExists(container.worktreePath)) {
+            orphans.push({ container, reason: `worktree ${container.worktreePath} no longer exists` });
+        } else if (!container.trackId) {
+            orphans.push({ container, reason: 'not started for a track' });
+        } else if (!check.knownTrackIds.has(container.trackId)) {
+            orphans.push({ container, reason: `track ${container.trackId} is not part of the current work plan` });
+        }
+    }
+    return orphans;
+}
+
+/**
+ * Force-removes containers, with their anonymous volumes. Containers
+ * already gone count as removed; other failures are collected rather than
+ * stopping the rest.
+ */
+export async function removeContainers(client: DockerEngineClient, containers: RooContainer[]): Promise<RemoveResult> {
+    const result: RemoveResult = { removed: [], failed: [] };
+    for (const container of containers) {
+        try {
+            await client.removeContainer(container.id, { force: true, volumes: true });
+            result.removed.push(container.name);
+        } catch (error: any) {
+            if (error instanceof DockerApiError && error.notFound) {
+                result.removed.push(container.name);
+            } else {
+                result.failed.push({ name: container.name, error: error.message });
+            }
+        }
+    }
+    return result;
+}
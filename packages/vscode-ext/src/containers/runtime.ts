@@ -0,0 +1,175 @@
+import * as os from 'os';
+import * as path from 'path';
+import { DockerEngineClient, DockerTransport, SocketTransport, defaultSocketPath } from './engineApi';
+
+export type ContainerRuntimeKind = 'docker' | 'podman';
+export type ContainerRuntimePreference = ContainerRuntimeKind | 'auto';
+
+/**
+ * A reachable container engine. Podman is driven through its Docker-compatible
+ * API, so both kinds share DockerEngineClient and differ only in how the
+ * container user is mapped.
+ */
+export interface ContainerRuntime {
+    kind: ContainerRuntimeKind;
+    client: DockerEngineClient;
+    // Socket or pipe the client talks to
+    endpoint: string;
+    version: string;
+    // Engine runs in a user namespace owned by an unprivileged host user
+    rootless: boolean;
+}
+
+export interface RuntimeCandidate {
+    // Engine expected at this endpoint; the engine's own version report has the final say
+    kind: ContainerRuntimeKind;
+    socketPath: string;
+}
+
+export interface UserMapping {
+    User: string;
+    UsernsMode?: string;
+}
+
+export interface DetectRuntimeOptions {
+    env?: NodeJS.ProcessEnv;
+    platform?: NodeJS.Platform;
+    // Builds the transport for a candidate; tests substitute fake sockets
+    createTransport?: (socketPath: string) => DockerTransport;
+}
+
+function unixSocketFromUrl(value: string | undefined): string | undefined {
+    return value?.startsWith('unix://') ? value.slice('unix://'.length) : undefined;
+}
+
+/**
+ * Endpoints to probe, in order. DOCKER_HOST and CONTAINER_HOST come first since
+ * they are explicit; a DOCKER_HOST pointing at Podman's socket is common.
+ */
+export function runtimeCandidates(
+    preference: ContainerRuntimePreference,
+    env: NodeJS.ProcessEnv = process.env,
+    platform: NodeJS.Platform = process.platform
+): RuntimeCandidate[] {
+    const candidates: RuntimeCandidate[] = [];
+    const add = (kind: ContainerRuntimeKind, socketPath: string | undefined) => {
+        if (socketPath && !candidates.some(candidate => candidate.socketPath === socketPath)) {
+            candidates.push({ kind, socketPath });
+        }
+    };
+    const runtimeDir = env.XDG_RUNTIME_DIR ?? (typeof process.getuid === 'function' ? `/run/user/${process.getuid()}` : undefined);
+
+    if (preference !== 'podman') {
+        if (env.DOCKER_HOST) {
+            try {
+                add('docker', defaultSocketPath(env, platform));
+            } catch {
+                // A TCP DOCKER_HOST cannot be used; fall back to the local sockets
+            }
+        }
+        add('docker', defaultSocketPath({}, platform));
+        if (platform !== 'win32' && runtimeDir) {
+            // Rootless Docker
+            add('docker', path.posix.join(runtimeDir, 'docker.sock'));
+        }
+        if (platform === 'darwin') {
+            // Docker Desktop without the privileged /var/run symlink
+            add('docker', path.join(os.homedir(), '.docker', 'run', 'docker.sock'));
+        }
+    }
+
+    if (preference !== 'docker') {
+        add('podman', unixSocketFromUrl(env.CONTAINER_HOST));
+        if (platform === 'win32') {
+            add('podman', '\\\\.\\pipe\\podman-machine-default');
+        } else {
+            if (runtimeDir) {
+                add('podman', path.posix.join(runtimeDir, 'podman', 'podman.sock'));
+            }
+            add('podman', '/run/podman/podman.sock');
+        }
+    }
+
+    return candidates;
+}
+
+/**
+ * Finds the first reachable engine matching the preference. Throws with the
+ * list of probed endpoints when none answers.
+ */
+export async function detectRuntime(
+    preference: ContainerRuntimePreference,
+    options: DetectRuntimeOptions = {}
+): Promise<ContainerRuntime> {
+    const createTransport = options.createTransport ?? ((socketPath: string) => new SocketTransport(socketPath));
+    const failures: string[] = [];
+
+    for (const candidate of runtimeCandidates(preference, options.env, options.platform)) {
+        const client = new DockerEngineClient(createTransport(candidate.socketPath));
+        try {
+            const version = await client.version();
+            const kind: ContainerRuntimeKind = version.Components?.some(component => /podman/i.test(component.Name))
+                ? 'podman'
+                : 'docker';
+            if (preference !== 'auto' && kind !== preference) {
+                failures.push(`${candidate.socketPath}: ${kind}, not ${preference}`);
+                continue;
+            }
+            const info = await client.info();
+            const rootless = (info.SecurityOptions ?? []).some(option => option.split(',').includes('name=rootless'));
+            return { kind, client, endpoint: candidate.socketPath, version: version.Version, rootless };
+        } catch (error: any) {
+            failures.push(`${candidate.socketPath}: ${error.message}`);
+        }
+    }
+
+    const wanted = preference === 'auto' ? 'Docker or Podman' : preference === 'docker' ? 'Docker' : 'Podman';
+    throw new Error(`No ${wanted} engine is reachable. Tried:\n${failures.join('\n')}`);
+}
+
+/**
+ * Environment that points mcp-host's CLI-based exec at the same engine:
+ * ROO_CONTAINER_RUNTIME selects the binary, and the docker CLI additionally
+ * needs DOCKER_HOST when the socket is not its default (e.g. rootless Docker).
+ */
+export function runtimeEnvironment(runtime: Pick<ContainerRuntime, 'kind' | 'endpoint'>): Record<string, string> {
+    const env: Record<string, string> = { ROO_CONTAINER_RUNTIME: runtime.kind };
+    if (runtime.kind === 'docker') {
+        env.DOCKER_HOST = runtime.endpoint.startsWith('\\\\')
+            ? `npipe://${runtime.endpoint.replace(/\\/g, '/')}`
+            : `unix://${runtime.endpoint}`;
+    }
+    return env;
+}
+
+/**
+ * Chooses the container user so that files written to the bind-mounted
+ * worktree belong to the host user who owns it:
+ * - rootful engines: run as the host uid:gid directly
+ * - rootless Podman: `keep-id` maps the host user to the same uid:gid inside
+ * - rootless Docker: container root is the host user, and uid 1000 inside
+ *   would land on a subordinate uid, so run as 0:0 with all capabilities dropped
+ * Without host ids (Windows, or when unknown) the image's 1000:1000 is used.
+ */
+export function userMapping(
+    runtime: Pick<ContainerRuntime, 'kind' | 'rootless'>,
+    hostIds: { uid: number; gid: number } | null = currentHostIds()
+): UserMapping {
+    if (!hostIds) {
+        return { User: '1000:1000' };
+    }
+    if (runtime.rootless && runtime.kind === 'podman') {
+        return { User: `${hostIds.uid}:${hostIds.gid}`, UsernsMode: 'keep-id' };
+    }
+    if (runtime.rootless) {
+        return { User: '0:0' };
+    }
+    return { User: `${hostIds.uid}:${hostIds.gid}` };
+}
+
+function currentHostIds(): { uid: number; gid: number } | null {
+    if (typeof process.getuid === 'function' && typeof process.getgid === 'function') {
+        return { uid: process.getuid(), gid: process.getgid() };
+    }
+    return null;
+}
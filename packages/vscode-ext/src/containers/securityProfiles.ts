@@ -0,0 +1,340 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HostConfigSpec } from './engineApi';
+import { DEFAULT_REGISTRY_PROXY, EGRESS_NETWORK, RegistryProxyConfig } from './egress';
+
+/**
+ * Resource limits and isolation settings applied to a tool container.
+ */
+export interface SecurityProfile {
+    cpus: number;
+    // Docker size, e.g. '4g' or '512m'
+    memory: string;
+    pidsLimit: number;
+    // 'none', 'registry-proxy', 'bridge' or the name of a user-defined network
+    network: string;
+    readOnlyRootfs: boolean;
+    // Added back after dropping all capabilities, e.g. ['CHOWN']
+    capAdd: string[];
+    // 'default' for the engine's profile, or a path to a seccomp JSON profile
+    seccomp: string;
+    // 'default' for the engine's profile, or the name of a loaded AppArmor profile
+    apparmor: string;
+    // Proxy serving installs when network is 'registry-proxy'
+    registryProxy: RegistryProxyConfig;
+}
+
+/**
+ * A profile as written in settings or `.roo/containers.json`: any subset of
+ * fields on top of the profile it extends (`strict` unless stated).
+ */
+export type SecurityProfileDefinition = Partial<Omit<SecurityProfile, 'registryProxy'>> & {
+    extends?: string;
+    registryProxy?: Partial<RegistryProxyConfig>;
+};
+
+export interface ResolvedSecurityProfile extends SecurityProfile {
+    name: string;
+}
+
+/**
+ * Contents of `.roo/containers.json`.
+ */
+export interface ContainersConfig {
+    profile?: string;
+    profiles?: Record<string, SecurityProfileDefinition>;
+}
+
+export class SecurityProfileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SecurityProfileError';
+    }
+}
+
+export const DEFAULT_PROFILE_NAME = 'strict';
+// Network mode that routes all traffic through the registry proxy, see egress.ts
+export const REGISTRY_PROXY_NETWORK = 'registry-proxy';
+
+const STRICT_PROFILE: SecurityProfile = {
+    cpus: 2,
+    memory: '4g',
+    pidsLimit: 512,
+    network: 'none',
+    readOnlyRootfs: true,
+    capAdd: [],
+    seccomp: 'default',
+    apparmor: 'default',
+    registryProxy: DEFAULT_REGISTRY_PROXY,
+};
+
+export const BUILTIN_PROFILES: Record<string, SecurityProfile> = {
+    // No network, read-only root filesystem, no capabilities
+    strict: STRICT_PROFILE,
+    // As strict, but installs can reach package registries through the registry proxy
+    'build-with-registry': { ...STRICT_PROFILE, network: REGISTRY_PROXY_NETWORK },
+};
+
+// Capabilities a build may reasonably need; anything else weakens the sandbox too far
+const ALLOWED_CAPABILITIES = [
+    'AUDIT_WRITE', 'CHOWN', 'DAC_OVERRIDE', 'FOWNER', 'FSETID', 'KILL',
+    'NET_BIND_SERVICE', 'SETFCAP', 'SETGID', 'SETPCAP', 'SETUID', 'SYS_CHROOT',
+];
+
+const PROFILE_KEYS: (keyof SecurityProfileDefinition)[] = [
+    'extends', 'cpus', 'memory', 'pidsLimit', 'network', 'readOnlyRootfs', 'capAdd', 'seccomp', 'apparmor', 'registryProxy',
+];
+const REGISTRY_PROXY_KEYS: (keyof RegistryProxyConfig)[] = ['image', 'port', 'env', 'cacheVolume', 'cachePath'];
+
+const NAME_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_.-]*$/;
+const IMAGE_PATTERN = /^[a-zA-Z0-9][a-zA-Z0-9_.\/:@-]*$/;
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MIN_MEMORY_BYTES = 64 * 1024 ** 2;
+
+/**
+ * Converts a Docker size ('512m', '4g') to bytes.
+ */
+export function parseByteSize(size: string): number {
+    const match = /^(\d+)([kmg]?)$/i.exec(size);
+    if (!match) {
+        throw new SecurityProfileError(`Invalid size: ${size}`);
+    }
+    const multiplier = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 }[match[2].toLowerCase() as '' | 'k' | 'm' | 'g'];
+    return Number(match[1]) * multiplier;
+}
+
+function normalizeCapability(capability: string): string {
+    return capability.toUpperCase().replace(/^CAP_/, '');
+}
+
+/**
+ * Checks a complete profile and returns every problem found, so a broken
+ * configuration is reported in one go.
+ */
+export function validateSecurityProfile(profile: SecurityProfile): string[] {
+    const problems: string[] = [];
+
+    if (typeof profile.cpus !== 'number' || !(profile.cpus > 0) || profile.cpus > 64) {
+        problems.push(`cpus must be a number between 0 and 64, got ${JSON.stringify(profile.cpus)}`);
+    }
+    if (typeof profile.memory !== 'string' || !/^\d+[kmg]?$/i.test(profile.memory)) {
+        problems.push(`memory must be a size such as "512m" or "4g", got ${JSON.stringify(profile.memory)}`);
+    } else if (parseByteSize(profile.memory) < MIN_MEMORY_BYTES) {
+        problems.push(`memory must be at least 64m, got ${profile.memory}`);
+    }
+    if (!Number.isInteger(profile.pidsLimit) || profile.pidsLimit < 16) {
+        problems.push(`pidsLimit must be an integer of at least 16, got ${JSON.stringify(profile.pidsLimit)}`);
+    }
+    if (typeof profile.network !== 'string' || !NAME_PATTERN.test(profile.network)) {
+        problems.push(`network must be "none", "${REGISTRY_PROXY_NETWORK}", "bridge" or a network name, got ${JSON.stringify(profile.network)}`);
+    } else if (profile.network === 'host') {
+        problems.push('network "host" would give the container the host\'s network stack');
+    }
+    if (typeof profile.readOnlyRootfs !== 'boolean') {
+        problems.push(`readOnlyRootfs must be true or false, got ${JSON.stringify(profile.readOnlyRootfs)}`);
+    }
+    if (!Array.isArray(profile.capAdd)) {
+        problems.push(`capAdd must be a list of capability names, got ${JSON.stringify(profile.capAdd)}`);
+    } else {
+        for (const capability of profile.capAdd) {
+            if (typeof capability !== 'string' || !ALLOWED_CAPABILITIES.includes(normalizeCapability(capability))) {
+                problems.push(`capability ${JSON.stringify(capability)} is not allowed, use one of ${ALLOWED_CAPABILITIES.join(', ')}`);
+            }
+        }
+    }
+    if (typeof profile.seccomp !== 'string' || profile.seccomp === 'unconfined') {
+        problems.push('seccomp must be "default" or the path to a profile; "unconfined" is not allowed');
+    } else if (profile.seccomp !== 'default' && !path.isAbsolute(profile.seccomp)) {
+        problems.push(`seccomp profile path must be absolute once resolved, got ${profile.seccomp}`);
+    }
+    if (typeof profile.apparmor !== 'string' || profile.apparmor === 'unconfined' || !NAME_PATTERN.test(profile.apparmor)) {
+        problems.push(`apparmor must be "default" or a profile name; "unconfined" is not allowed, got ${JSON.stringify(profile.apparmor)}`);
+    }
+    problems.push(...validateRegistryProxy(profile.registryProxy));
+
+    return problems;
+}
+
+function validateRegistryProxy(proxy: RegistryProxyConfig): string[] {
+    const problems: string[] = [];
+    if (typeof proxy.image !== 'string' || !IMAGE_PATTERN.test(proxy.image)) {
+        problems.push(`registryProxy.image must be an image reference, got ${JSON.stringify(proxy.image)}`);
+    }
+    if (!Number.isInteger(proxy.port) || proxy.port < 1 || proxy.port > 65535) {
+        problems.push(`registryProxy.port must be a port number, got ${JSON.stringify(proxy.port)}`);
+    }
+    if (typeof proxy.env !== 'object' || proxy.env === null || Array.isArray(proxy.env)) {
+        problems.push('registryProxy.env must map variable names to values');
+    } else {
+        for (const [name, value] of Object.entries(proxy.env)) {
+            if (!ENV_NAME_PATTERN.test(name) || typeof value !== 'string') {
+                problems.push(`registryProxy.env entry ${JSON.stringify(name)} must be a variable name with a string value`);
+            }
+        }
+    }
+    if (proxy.cacheVolume !== undefined && (typeof proxy.cacheVolume !== 'string' || !NAME_PATTERN.test(proxy.cacheVolume))) {
+        problems.push(`registryProxy.cacheVolume must be a volume name, got ${JSON.stringify(proxy.cacheVolume)}`);
+    }
+    if (proxy.cachePath !== undefined && (typeof proxy.cachePath !== 'string' || !path.posix.isAbsolute(proxy.cachePath))) {
+        problems.push(`registryProxy.cachePath must be an absolute path, got ${JSON.stringify(proxy.cachePath)}`);
+    }
+    return problems;
+}
+
+function checkDefinition(name: string, definition: unknown, source: string): SecurityProfileDefinition {
+    if (typeof definition !== 'object' || definition === null || Array.isArray(definition)) {
+        throw new SecurityProfileError(`Security profile '${name}' in ${source} must be an object`);
+    }
+    const unknownKeys = Object.keys(definition).filter(key => !PROFILE_KEYS.includes(key as keyof SecurityProfileDefinition));
+    if (unknownKeys.length > 0) {
+        throw new SecurityProfileError(`Security profile '${name}' in ${source} has unknown settings: ${unknownKeys.join(', ')}`);
+    }
+    const proxy = (definition as SecurityProfileDefinition).registryProxy;
+    if (proxy !== undefined) {
+        const unknownProxyKeys = typeof proxy === 'object' && proxy !== null
+            ? Object.keys(proxy).filter(key => !REGISTRY_PROXY_KEYS.includes(key as keyof RegistryProxyConfig))
+            : ['(not an object)'];
+        if (unknownProxyKeys.length > 0) {
+            throw new SecurityProfileError(`registryProxy of security profile '${name}' in ${source} has unknown settings: ${unknownProxyKeys.join(', ')}`);
+        }
+    }
+    return definition as SecurityProfileDefinition;
+}
+
+/**
+ * Parses `.roo/containers.json`. Relative seccomp paths are resolved against
+ * the directory holding the file.
+ */
+export function parseContainersConfig(text: string, source: string): ContainersConfig {
+    let raw: any;
+    try {
+        raw = JSON.parse(text);
+    } catch (error: any) {
+        throw new SecurityProfileError(`${source} is not valid JSON: ${error.message}`);
+    }
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        throw new SecurityProfileError(`${source} must contain a JSON object`);
+    }
+    const unknownKeys = Object.keys(raw).filter(key => key !== 'profile' && key !== 'profiles');
+    if (unknownKeys.length > 0) {
+        throw new SecurityProfileError(`${source} has unknown settings: ${unknownKeys.join(', ')}`);
+    }
+    if (raw.profile !== undefined && typeof raw.profile !== 'string') {
+        throw new SecurityProfileError(`"profile" in ${source} must be a profile name`);
+    }
+
+    return {
+        profile: raw.profile,
+        profiles: resolveDefinitionPaths(raw.profiles ?? {}, source, path.dirname(source)),
+    };
+}
+
+/**
+ * Checks profile definitions from settings or a file and makes their seccomp
+ * paths absolute relative to `baseDir`.
+ */
+export function resolveDefinitionPaths(
+    definitions: unknown,
+    source: string,
+    baseDir: string
+): Record<string, SecurityProfileDefinition> {
+    if (typeof definitions !== 'object' || definitions === null || Array.isArray(definitions)) {
+        throw new SecurityProfileError(`Security profiles in ${source} must be an object keyed by profile name`);
+    }
+    const resolved: Record<string, SecurityProfileDefinition> = {};
+    for (const [name, definition] of Object.entries(definitions)) {
+        const checked = checkDefinition(name, definition, source);
+        resolved[name] = typeof checked.seccomp === 'string' && checked.seccomp !== 'default' && checked.seccomp !== 'unconfined'
+            ? { ...checked, seccomp: path.resolve(baseDir, checked.seccomp) }
+            : checked;
+    }
+    return resolved;
+}
+
+// Fields of `child` win; registryProxy is merged field by field
+function overlay(parent: SecurityProfileDefinition, child: SecurityProfileDefinition): SecurityProfileDefinition {
+    const merged = { ...parent, ...child };
+    if (parent.registryProxy || child.registryProxy) {
+        merged.registryProxy = { ...parent.registryProxy, ...child.registryProxy };
+    }
+    return merged;
+}
+
+/**
+ * Resolves a profile by name, following `extends` through the given
+ * definitions and the built-in profiles, and validates the result.
+ */
+export function resolveSecurityProfile(
+    name: string,
+    definitions: Record<string, SecurityProfileDefinition> = {}
+): ResolvedSecurityProfile {
+    const chain: string[] = [];
+    let current: string | undefined = name;
+    let merged: SecurityProfileDefinition = {};
+
+    while (current !== undefined) {
+        if (chain.includes(current)) {
+            throw new SecurityProfileError(`Security profile '${name}' extends itself: ${[...chain, current].join(' -> ')}`);
+        }
+        chain.push(current);
+
+        const definition: SecurityProfileDefinition | undefined = definitions[current];
+        if (definition) {
+            const { extends: parent, ...fields }: SecurityProfileDefinition = definition;
+            merged = overlay(fields, merged);
+            current = parent ?? (current === DEFAULT_PROFILE_NAME ? undefined : DEFAULT_PROFILE_NAME);
+            if (current === undefined) {
+                merged = overlay(BUILTIN_PROFILES[DEFAULT_PROFILE_NAME], merged);
+            }
+        } else if (BUILTIN_PROFILES[current]) {
+            merged = overlay(BUILTIN_PROFILES[current], merged);
+            current = undefined;
+        } else {
+            const known = [...new Set([...Object.keys(BUILTIN_PROFILES), ...Object.keys(definitions)])];
+            throw new SecurityProfileError(`Security profile '${current}' is not defined. Known profiles: ${known.join(', ')}`);
+        }
+    }
+
+    const profile = merged as SecurityProfile;
+    const problems = validateSecurityProfile(profile);
+    if (problems.length > 0) {
+        throw new SecurityProfileError(`Security profile '${name}' is invalid:\n- ${problems.join('\n- ')}`);
+    }
+    return { name, ...profile, capAdd: profile.capAdd.map(normalizeCapability) };
+}
+
+/**
+ * Translates a profile into the engine's HostConfig. This is the only place
+ * container hardening is decided; all capabilities are dropped and privilege
+ * escalation is disabled regardless of profile.
+ */
+export function toHostConfig(
+    profile: SecurityProfile,
+    readFile: (file: string) => string = (file) => fs.readFileSync(file, 'utf8')
+): HostConfigSpec {
+    const securityOpt = ['no-new-privileges'];
+    if (profile.seccomp !== 'default') {
+        let seccompProfile: string;
+        try {
+            // The API takes the profile itself rather than a path
+            seccompProfile = JSON.stringify(JSON.parse(readFile(profile.seccomp)));
+        } catch (error: any) {
+            throw new SecurityProfileError(`Cannot load seccomp profile ${profile.seccomp}: ${error.message}`);
+        }
+        securityOpt.push(`seccomp=${seccompProfile}`);
+    }
+    if (profile.apparmor !== 'default') {
+        securityOpt.push(`apparmor=${profile.apparmor}`);
+    }
+
+    return {
+        ReadonlyRootfs: profile.readOnlyRootfs,
+        CapDrop: ['ALL'],
+        CapAdd: profile.capAdd.length > 0 ? profile.capAdd : undefined,
+        SecurityOpt: securityOpt,
+        PidsLimit: profile.pidsLimit,
+        Memory: parseByteSize(profile.memory),
+        NanoCpus: Math.round(profile.cpus * 1e9),
+        NetworkMode: profile.network === REGISTRY_PROXY_NETWORK ? EGRESS_NETWORK : profile.network,
+    };
+}
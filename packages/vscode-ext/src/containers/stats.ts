@@ -0,0 +1,246 @@
+import { ContainerStats, CpuStats, DockerApiError, DockerEngineClient } from './engineApi';
+
+// How often running track containers are sampled
+export const DEFAULT_STATS_INTERVAL_MS = 5 * 1000;
+
+/**
+ * Resource usage of a container at one reading. Values the runtime does not
+ * report are left undefined rather than reported as zero.
+ */
+export interface ResourceSample {
+    // Milliseconds since the epoch
+    timestamp: number;
+    // 100 per fully used core, as in `docker stats`
+    cpuPercent?: number;
+    // Excluding reclaimable page cache
+    memoryBytes?: number;
+    memoryLimitBytes?: number;
+    pids?: number;
+    // Totals since the container started
+    blockReadBytes: number;
+    blockWriteBytes: number;
+    networkRxBytes: number;
+    networkTxBytes: number;
+}
+
+/**
+ * Highest usage seen over a container's lifetime; I/O totals are the last reading.
+ */
+export interface ResourcePeaks {
+    cpuPercent: number;
+    memoryBytes: number;
+    pids: number;
+    blockReadBytes: number;
+    blockWriteBytes: number;
+    networkRxBytes: number;
+    networkTxBytes: number;
+    samples: number;
+}
+
+export interface StatsMonitorOptions {
+    intervalMs?: number;
+    onSample?: (key: string, sample: ResourceSample) => void;
+    onError?: (key: string, error: Error) => void;
+}
+
+interface WatchedContainer {
+    containerId: string;
+    previousCpu?: CpuStats;
+    latest?: ResourceSample;
+    peaks?: ResourcePeaks;
+    // The container is gone; its figures are kept until unwatched
+    ended: boolean;
+}
+
+function cpuPercent(current: CpuStats, previous: CpuStats | undefined): number | undefined {
+    if (!previous || current.system_cpu_usage === undefined || previous.system_cpu_usage === undefined) {
+        return undefined;
+    }
+    const cpuDelta = current.cpu_usage.total_usage - previous.cpu_usage.total_usage;
+    const systemDelta = current.system_cpu_usage - previous.system_cpu_usage;
+    if (systemDelta <= 0 || cpuDelta < 0) {
+        return undefined;
+    }
+    return (cpuDelta / systemDelta) * (current.online_cpus ?? 1) * 100;
+}
+
+/**
+ * Converts an engine stats reading into a sample. CPU usage needs an earlier
+ * reading: the engine's own `precpu_stats` when it sampled twice, otherwise
+ * `previousCpu` from the caller's last reading.
+ */
+export function toResourceSample(stats: ContainerStats, previousCpu?: CpuStats, timestamp: number = Date.now()): ResourceSample {
+    const precpu = stats.precpu_stats?.system_cpu_usage ? stats.precpu_stats : previousCpu;
+    const memory = stats.memory_stats;
+    const reclaimable = memory.stats?.inactive_file ?? memory.stats?.cache ?? 0;
+
+    let blockReadBytes = 0;
+    let blockWriteBytes = 0;
+    for (const entry of stats.blkio_stats?.io_service_bytes_recursive ?? []) {
+        const op = entry.op.toLowerCase();
+        if (op === 'read') {
+            blockReadBytes += entry.value;
+        } else if (op === 'write') {
+            blockWriteBytes += entry.value;
+        }
+    }
+
+    const networks = Object.values(stats.networks ?? {});
+    return {
+        timestamp,
+        cpuPercent: cpuPercent(stats.cpu_stats, precpu),
+        memoryBytes: memory.usage !== undefined ? Math.max(0, memory.usage - reclaimable) : undefined,
+        memoryLimitBytes: memory.limit,
+        pids: stats.pids_stats?.current,
+        blockReadBytes,
+        blockWriteBytes,
+        networkRxBytes: networks.reduce((sum, network) => sum + network.rx_bytes, 0),
+        networkTxBytes: networks.reduce((sum, network) => sum + network.tx_bytes, 0),
+    };
+}
+
+export function mergePeaks(peaks: ResourcePeaks | undefined, sample: ResourceSample): ResourcePeaks {
+    return {
+        cpuPercent: Math.max(peaks?.cpuPercent ?? 0, sample.cpuPercent ?? 0),
+        memoryBytes: Math.max(peaks?.memoryBytes ?? 0, sample.memoryBytes ?? 0),
+        pids: Math.max(peaks?.pids ?? 0, sample.pids ?? 0),
+        blockReadBytes: sample.blockReadBytes,
+        blockWriteBytes: sample.blockWriteBytes,
+        networkRxBytes: sample.networkRxBytes,
+        networkTxBytes: sample.networkTxBytes,
+        samples: (peaks?.samples ?? 0) + 1,
+    };
+}
+
+export function formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+/**
+ * One-line summary such as `CPU 45% · 1.2 GB / 4.0 GB · 37 pids`.
+ */
+export function formatResourceSample(sample: ResourceSample): string {
+    const parts: string[] = [];
+    if (sample.cpuPercent !== undefined) {
+        parts.push(`CPU ${Math.round(sample.cpuPercent)}%`);
+    }
+    if (sample.memoryBytes !== undefined) {
+        parts.push(sample.memoryLimitBytes
+            ? `${formatBytes(sample.memoryBytes)} / ${formatBytes(sample.memoryLimitBytes)}`
+            : formatBytes(sample.memoryBytes));
+    }
+    if (sample.pids !== undefined) {
+        parts.push(`${sample.pids} pids`);
+    }
+    return parts.join(' · ');
+}
+
+/**
+ * Samples the containers of running tracks at a fixed interval, keeping the
+ * latest reading and the peaks of each. Containers are keyed by the caller,
+ * e.g. by track id, so a retried track's new container continues its figures.
+ */
+export class ContainerStatsMonitor {
+    private watched = new Map<string, WatchedContainer>();
+    private timer: NodeJS.Timeout | undefined;
+    private polling = false;
+
+    constructor(
+        private readonly getClient: () => Promise<DockerEngineClient>,
+        private readonly options: StatsMonitorOptions = {}
+    ) {}
+
+    public watch(key: string, containerId: string): void {
+        const existing = this.watched.get(key);
+        this.watched.set(key, { containerId, peaks: existing?.peaks, ended: false });
+        if (!this.timer) {
+            this.timer = setInterval(() => void this.poll(), this.options.intervalMs ?? DEFAULT_STATS_INTERVAL_MS);
+            this.timer.unref?.();
+        }
+    }
+
+    /**
+     * Stops sampling a container.
+     * @returns The peaks seen, if any reading succeeded.
+     */
+    public unwatch(key: string): ResourcePeaks | undefined {
+        const watched = this.watched.get(key);
+        this.watched.delete(key);
+        if (this.watched.size === 0) {
+            this.stopTimer();
+        }
+        return watched?.peaks;
+    }
+
+    public latest(key: string): ResourceSample | undefined {
+        return this.watched.get(key)?.latest;
+    }
+
+    public peaks(key: string): ResourcePeaks | undefined {
+        return this.watched.get(key)?.peaks;
+    }
+
+    /**
+     * Takes one reading of every watched container. Runs on the interval;
+     * overlapping calls return without sampling.
+     */
+    public async poll(): Promise<void> {
+        if (this.polling) {
+            return;
+        }
+        this.polling = true;
+        try {
+            const client = await this.getClient();
+            await Promise.all(Array.from(this.watched.entries())
+                .filter(([, watched]) => !watched.ended)
+                .map(([key, watched]) => this.sample(client, key, watched)));
+        } catch (error: any) {
+            // The engine is unreachable; every container is affected alike
+            for (const key of this.watched.keys()) {
+                this.options.onError?.(key, error);
+            }
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    public dispose(): void {
+        this.stopTimer();
+        this.watched.clear();
+    }
+
+    private async sample(client: DockerEngineClient, key: string, watched: WatchedContainer): Promise<void> {
+        try {
+            const stats = await client.containerStats(watched.containerId);
+            // Replaced by a newer container while the request was out
+            if (this.watched.get(key) !== watched) {
+                return;
+            }
+            const sample = toResourceSample(stats, watched.previousCpu);
+            watched.previousCpu = stats.cpu_stats;
+            watched.latest = sample;
+            watched.peaks = mergePeaks(watched.peaks, sample);
+            this.options.onSample?.(key, sample);
+        } catch (error: any) {
+            if (error instanceof DockerApiError && error.notFound) {
+                watched.ended = true;
+                return;
+            }
+            this.options.onError?.(key, error);
+        }
+    }
+
+    private stopTimer(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+}
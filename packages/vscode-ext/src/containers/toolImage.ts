@@ -0,0 +1,296 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DockerEngineClient } from './engineApi';
+import { PACKAGE_CACHES, PackageManager } from './cacheVolumes';
+import { MANAGED_LABEL } from './labels';
+
+export const TOOL_IMAGE_REPOSITORY = 'roo-master/tool-image';
+// Pin recorded in the project, relative to its root
+export const TOOL_IMAGE_PIN_FILE = '.roo/tool-image.json';
+// Used when the project states no Node version
+export const DEFAULT_NODE_VERSION = '22';
+
+// Labels recording what a tool image was built for
+export const TOOL_IMAGE_NODE_LABEL = 'roo-master.tool-image.node';
+export const TOOL_IMAGE_PACKAGE_MANAGER_LABEL = 'roo-master.tool-image.package-manager';
+
+/**
+ * What a project needs from its tool image, and where each value came from.
+ */
+export interface Toolchain {
+    // Tag of the official node image, e.g. '20', '20.11.1' or 'lts'
+    nodeVersion: string;
+    nodeVersionSource: string;
+    packageManager: PackageManager;
+    // Version from the `packageManager` field, including any corepack hash
+    packageManagerVersion?: string;
+    packageManagerSource: string;
+}
+
+/**
+ * The tool image a project is pinned to, as stored in .roo/tool-image.json.
+ */
+export interface ToolImagePin {
+    // Content-hash tag the image was built under
+    image: string;
+    // What containers are created from: the local image id, or a
+    // `repository@sha256:` digest once the image is pushed somewhere
+    digest: string;
+    nodeVersion: string;
+    packageManager: string;
+    builtAt: string;
+}
+
+export class ToolImageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ToolImageError';
+    }
+}
+
+// Follows packages/tool-image/Dockerfile; the user is set per container, see userMapping()
+const DOCKERFILE_TEMPLATE = `# Generated by Roo Master; rebuild with the Build Tool Image command
+FROM node:{{NODE_VERSION}}-slim
+
+RUN apt-get update \\
+ && apt-get install -y --no-install-recommends bash git coreutils curl ca-certificates \\
+ && rm -rf /var/lib/apt/lists/*
+
+# Outside HOME, which is an empty tmpfs in tool containers
+ENV COREPACK_HOME=/opt/corepack
+{{PACKAGE_MANAGER_SETUP}}
+WORKDIR /work
+CMD ["sleep", "infinity"]
+`;
+
+function readPackageJson(projectRoot: string): any {
+    const file = path.join(projectRoot, 'package.json');
+    if (!fs.existsSync(file)) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error: any) {
+        throw new ToolImageError(`Cannot read ${file}: ${error.message}`);
+    }
+}
+
+/**
+ * Maps an .nvmrc entry to a node image tag: plain versions are kept, LTS
+ * aliases become the codename tags the official image publishes.
+ */
+function nodeImageTag(version: string): string | undefined {
+    const value = version.trim().replace(/^v/, '');
+    if (/^\d+(\.\d+){0,2}$/.test(value)) {
+        return value;
+    }
+    if (value === 'lts/*' || value === 'lts') {
+        return 'lts';
+    }
+    if (value === 'node' || value === 'stable' || value === 'current') {
+        return 'current';
+    }
+    const codename = /^lts\/([a-z]+)$/i.exec(value);
+    return codename ? codename[1].toLowerCase() : undefined;
+}
+
+/**
+ * Detects the Node version from .nvmrc, .node-version or `engines.node`, and
+ * the package manager from the `packageManager` field or the lockfile.
+ */
+export function detectToolchain(projectRoot: string): Toolchain {
+    const packageJson = readPackageJson(projectRoot);
+
+    let nodeVersion: string | undefined;
+    let nodeVersionSource = 'default';
+    for (const file of ['.nvmrc', '.node-version']) {
+        const versionFile = path.join(projectRoot, file);
+        if (fs.existsSync(versionFile)) {
+            const content = fs.readFileSync(versionFile, 'utf8').split('\n')[0];
+            nodeVersion = nodeImageTag(content);
+            if (!nodeVersion) {
+                throw new ToolImageError(`Unsupported Node version '${content.trim()}' in ${file}`);
+            }
+            nodeVersionSource = file;
+            break;
+        }
+    }
+    if (!nodeVersion && typeof packageJson?.engines?.node === 'string') {
+        // The lowest major the range names, e.g. '>=18.17 <21' gives 18
+        const major = /(\d+)/.exec(packageJson.engines.node);
+        if (major) {
+            nodeVersion = major[1];
+            nodeVersionSource = 'package.json engines.node';
+        }
+    }
+
+    let packageManager: PackageManager = 'npm';
+    let packageManagerVersion: string | undefined;
+    let packageManagerSource = 'default';
+    if (typeof packageJson?.packageManager === 'string') {
+        const match = /^(npm|pnpm|yarn)@(\d[^\s]*)$/.exec(packageJson.packageManager);
+        if (!match) {
+            throw new ToolImageError(`Unsupported packageManager '${packageJson.packageManager}' in package.json`);
+        }
+        packageManager = match[1] as PackageManager;
+        packageManagerVersion = match[2];
+        packageManagerSource = 'package.json packageManager';
+    } else {
+        const cache = PACKAGE_CACHES.find(candidate => fs.existsSync(path.join(projectRoot, candidate.lockfile)));
+        if (cache) {
+            packageManager = cache.manager;
+            packageManagerSource = cache.lockfile;
+        }
+    }
+
+    return {
+        nodeVersion: nodeVersion ?? DEFAULT_NODE_VERSION,
+        nodeVersionSource,
+        packageManager,
+        packageManagerVersion,
+        packageManagerSource,
+    };
+}
+
+export function formatPackageManager(toolchain: Toolchain): string {
+    return toolchain.packageManagerVersion
+        ? `${toolchain.packageManager}@${toolchain.packageManagerVersion}`
+        : toolchain.packageManager;
+}
+
+/**
+ * Renders the tool image Dockerfile. npm and yarn classic ship with the node
+ * image; other package managers are installed ahead of time through corepack,
+ * since tool containers usually have no network to fetch them on first use.
+ */
+export function renderDockerfile(toolchain: Toolchain): string {
+    let setup = '';
+    if (toolchain.packageManager === 'pnpm' || (toolchain.packageManager === 'yarn' && toolchain.packageManagerVersion)) {
+        const spec = `${toolchain.packageManager}@${toolchain.packageManagerVersion ?? 'latest'}`;
+        setup = `RUN corepack enable \\\n && corepack prepare ${spec} --activate \\\n && chmod -R a+rX /opt/corepack\n`;
+    }
+    return DOCKERFILE_TEMPLATE
+        .replace('{{NODE_VERSION}}', toolchain.nodeVersion)
+        .replace('{{PACKAGE_MANAGER_SETUP}}', setup);
+}
+
+/**
+ * Tags an image by the hash of its Dockerfile, so projects needing the same
+ * toolchain share one image and a changed toolchain never reuses a stale one.
+ */
+export function toolImageTag(dockerfile: string): string {
+    const hash = createHash('sha256').update(dockerfile).digest('hex');
+    return `${TOOL_IMAGE_REPOSITORY}:${hash.slice(0, 16)}`;
+}
+
+function tarHeader(name: string, size: number, mode: number): Buffer {
+    if (Buffer.byteLength(name) > 100) {
+        throw new Error(`Build context path too long: ${name}`);
+    }
+    const header = Buffer.alloc(512);
+    const octal = (value: number, width: number) => value.toString(8).padStart(width - 1, '0') + '\0';
+    header.write(name, 0, 100, 'utf8');
+    header.write(octal(mode, 8), 100, 8, 'ascii');
+    header.write(octal(0, 8), 108, 8, 'ascii');     // uid
+    header.write(octal(0, 8), 116, 8, 'ascii');     // gid
+    header.write(octal(size, 12), 124, 12, 'ascii');
+    header.write(octal(0, 12), 136, 12, 'ascii');   // mtime, fixed so equal contexts are byte-identical
+    header.write('        ', 148, 8, 'ascii');      // checksum counts as spaces while summing
+    header.write('0', 156, 1, 'ascii');             // regular file
+    header.write('ustar\0' + '00', 257, 8, 'ascii');
+
+    let checksum = 0;
+    for (const byte of header) {
+        checksum += byte;
+    }
+    header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8, 'ascii');
+    return header;
+}
+
+/**
+ * Packs files into an uncompressed ustar archive, the format the build
+ * endpoint takes its context in.
+ */
+export function createTarArchive(files: { name: string; content: string | Buffer; mode?: number }[]): Buffer {
+    const blocks: Buffer[] = [];
+    for (const file of files) {
+        const content = typeof file.content === 'string' ? Buffer.from(file.content) : file.content;
+        blocks.push(tarHeader(file.name, content.length, file.mode ?? 0o644), content);
+        const padding = (512 - (content.length % 512)) % 512;
+        if (padding) {
+            blocks.push(Buffer.alloc(padding));
+        }
+    }
+    // Two empty blocks end the archive
+    blocks.push(Buffer.alloc(1024));
+    return Buffer.concat(blocks);
+}
+
+export function readToolImagePin(projectRoot: string): ToolImagePin | undefined {
+    const file = path.join(projectRoot, TOOL_IMAGE_PIN_FILE);
+    if (!fs.existsSync(file)) {
+        return undefined;
+    }
+    let pin: ToolImagePin;
+    try {
+        pin = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error: any) {
+        throw new ToolImageError(`Cannot read ${file}: ${error.message}`);
+    }
+    if (typeof pin?.image !== 'string' || typeof pin.digest !== 'string' || !pin.digest.includes('sha256:')) {
+        throw new ToolImageError(`${file} must record the image and its sha256 digest`);
+    }
+    return pin;
+}
+
+export function writeToolImagePin(projectRoot: string, pin: ToolImagePin): void {
+    const file = path.join(projectRoot, TOOL_IMAGE_PIN_FILE);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(pin, null, 2) + '\n', 'utf8');
+}
+
+/**
+ * Builds the tool image for a project and pins it: the image is tagged with
+ * the hash of its Dockerfile and its digest recorded in .roo/tool-image.json.
+ */
+export async function buildToolImage(
+    client: DockerEngineClient,
+    projectRoot: string,
+    onOutput: (line: string) => void = () => undefined,
+    signal?: AbortSignal
+): Promise<ToolImagePin> {
+    const toolchain = detectToolchain(projectRoot);
+    const dockerfile = renderDockerfile(toolchain);
+    const image = toolImageTag(dockerfile);
+
+    onOutput(`Building ${image} for Node ${toolchain.nodeVersion} (${toolchain.nodeVersionSource}) with ${formatPackageManager(toolchain)} (${toolchain.packageManagerSource})`);
+    const imageId = await client.buildImage(createTarArchive([{ name: 'Dockerfile', content: dockerfile }]), {
+        tag: image,
+        labels: {
+            [MANAGED_LABEL]: 'true',
+            [TOOL_IMAGE_NODE_LABEL]: toolchain.nodeVersion,
+            [TOOL_IMAGE_PACKAGE_MANAGER_LABEL]: formatPackageManager(toolchain),
+        },
+        // Base image tags like '20' move; always build on the current one
+        pull: true,
+        signal,
+    }, onOutput);
+
+    const pin: ToolImagePin = {
+        image,
+        digest: imageId,
+        nodeVersion: toolchain.nodeVersion,
+        packageManager: formatPackageManager(toolchain),
+        builtAt: new Date().toISOString(),
+    };
+    writeToolImagePin(projectRoot, pin);
+    return pin;
+}
+
+/**
+ * Whether the project's toolchain changed since its image was pinned.
+ */
+export function isPinOutdated(projectRoot: string, pin: ToolImagePin): boolean {
+    return toolImageTag(renderDockerfile(detectToolchain(projectRoot))) !== pin.image;
+}
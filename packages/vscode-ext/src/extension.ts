@@ -3,21 +3,39 @@ import * as path from 'path';
 import { Logger, initializeLogger } from './util/logger';
 import { ErrorHandler } from './util/errorHandler';
 import { GitWorktree, GitWorktreeInfo } from './worktree/gitWorktree';
-import { startToolContainer, stopToolContainer, listToolContainers } from './containers/docker';
+import {
+    startToolContainer,
+    stopToolContainer,
+    listToolContainers,
+    resetContainerRuntime,
+    listPackageCaches,
+    prunePackageCaches,
+    buildWorkspaceToolImage,
+    containerShellCommand,
+    findOrphanedToolContainers,
+    removeManagedContainers,
+    restartManagedContainer,
+} from './containers/docker';
 import { McpServerLauncher } from './mcp/launcher';
 import { McpServerRegistration } from './mcp/registration';
 import { RooMasterTreeDataProvider } from './ui/tree'; // Keep this for now, it's for the worktree view
 import { TrackStatusTreeDataProvider } from './ui/trackStatusTreeDataProvider'; // New import
+import { ContainerItem, ContainersTreeDataProvider } from './ui/containersTreeDataProvider';
+import { ContainerLogViewer } from './ui/containerLogs';
+import { formatBytes } from './containers/stats';
 import { MergeFlow } from './integration/mergeFlow';
 import { TrackStatus } from './integration/trackStatus';
-import { WorkPlanParser } from './orchestrator/workPlanParser';
+import { Track, WorkPlanParser } from './orchestrator/workPlanParser';
 import { TrackExecutor } from './orchestrator/trackExecutor';
+import { TrackStateStore } from './orchestrator/trackState';
+import { TRACK_PRIORITIES, formatMinutes } from './orchestrator/schedulingPolicy';
 import { PromptAnalyzer } from './orchestrator/promptAnalyzer'; // New import
 
 // Global variables for resource cleanup
 let mcpServerLauncher: McpServerLauncher | null = null;
 let rooMasterTreeDataProvider: RooMasterTreeDataProvider | null = null;
 let trackStatusTreeDataProvider: TrackStatusTreeDataProvider | null = null;
+let containersTreeDataProvider: ContainersTreeDataProvider | null = null;
 
 export function activate(context: vscode.ExtensionContext) {
     initializeLogger();
@@ -45,16 +63,122 @@ export function activate(context: vscode.ExtensionContext) {
     mcpServerLauncher = new McpServerLauncher();
     const mcpServerRegistration = new McpServerRegistration(mcpServerLauncher);
 
-    // Initialize TrackStatus and MergeFlow
-    const trackStatus = new TrackStatus();
+    // Initialize TrackStatus and MergeFlow; track state outlives the window in workspace storage
+    const trackState = new TrackStateStore(context.workspaceState);
+    const trackStatus = new TrackStatus(trackState);
     const mergeFlow = new MergeFlow(context, trackStatus);
     const workPlanParser = new WorkPlanParser(); // Keep this for now, PromptAnalyzer uses it internally
     const promptAnalyzer = new PromptAnalyzer(); // New instance
-    const trackExecutor = new TrackExecutor(context, mcpServerLauncher, mcpServerRegistration);
+    const trackExecutor = new TrackExecutor(context, mcpServerLauncher, mcpServerRegistration, trackState);
 
     // Register the new Track Status Tree View
     trackStatusTreeDataProvider = new TrackStatusTreeDataProvider(trackStatus);
     vscode.window.registerTreeDataProvider('rooMasterTrackStatusView', trackStatusTreeDataProvider);
+    context.subscriptions.push(trackExecutor.onProgressUpdate(report => {
+        trackStatusTreeDataProvider?.setResourceUsage(report.resourceUsage, report.peakUsage);
+    }));
+
+    // Containers created by Roo Master, with logs, terminal and cleanup actions
+    containersTreeDataProvider = new ContainersTreeDataProvider();
+    vscode.window.registerTreeDataProvider('rooMasterContainersView', containersTreeDataProvider);
+    trackStatus.onDidChangeTreeData(() => containersTreeDataProvider?.refresh());
+    const containerLogViewer = new ContainerLogViewer();
+
+    // Pause, resume and cancel show in the Track Status view according to the execution state
+    context.subscriptions.push(trackExecutor.onExecutionStateChange(state => {
+        vscode.commands.executeCommand('setContext', 'roo-master.executionState', state);
+    }));
+
+    // Runs a work plan under a progress notification whose cancel button cancels the execution
+    const withWorkPlanProgress = <T>(title: string, run: (token: vscode.CancellationToken) => Promise<T>): Thenable<T> =>
+        vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title, cancellable: true }, (progress, token) => {
+            let settled = 0;
+            const subscription = trackExecutor.onProgressUpdate(report => {
+                const nowSettled = report.completedTracks + report.failedTracks;
+                const increment = report.totalTracks > 0 && nowSettled > settled ? ((nowSettled - settled) / report.totalTracks) * 100 : 0;
+                settled = nowSettled;
+                progress.report({
+                    increment,
+                    message: `${nowSettled}/${report.totalTracks} tracks done, ${report.runningTracks} running${report.paused ? ' (paused)' : ''}`,
+                });
+            });
+            const scheduling = trackExecutor.onSchedulingEvent(event => {
+                if (event.type === 'waiting') {
+                    progress.report({ message: `${event.trackIds.length} track(s) ready, waiting for a free slot (limit ${event.limit})` });
+                }
+            });
+            return run(token).finally(() => {
+                subscription.dispose();
+                scheduling.dispose();
+            });
+        });
+
+    // A work plan left unfinished by the last session can be resumed or cleaned up
+    const restorePersistedWorkPlan = async () => {
+        const reconciliation = await trackExecutor.reconcilePersistedState();
+        if (!reconciliation) {
+            return;
+        }
+        const unfinished = reconciliation.tracks.filter(track => !track.done);
+        if (unfinished.length === 0) {
+            // Finished plans stay around for the merge flow
+            return;
+        }
+
+        const { workPlan } = reconciliation;
+        const done = reconciliation.tracks.filter(track => track.done);
+        const interrupted = unfinished.filter(track => track.interrupted);
+        const leftovers = unfinished.filter(track => track.worktreePath || track.containers.length > 0);
+        logger.info(`Found unfinished work plan ${workPlan.id}: ${done.length}/${workPlan.tracks.length} tracks completed, ` +
+            `${interrupted.length} interrupted, ${leftovers.length} with leftover worktrees or containers`);
+
+        const resume = 'Resume';
+        const cleanUp = 'Clean Up';
+        const choice = await vscode.window.showWarningMessage(
+            `The work plan "${workPlan.prompt.length > 60 ? `${workPlan.prompt.slice(0, 57)}...` : workPlan.prompt}" did not finish: ` +
+            `${done.length} of ${workPlan.tracks.length} tracks completed${interrupted.length > 0 ? `, ${interrupted.length} interrupted` : ''}.`,
+            resume,
+            cleanUp
+        );
+
+        try {
+            if (choice === resume) {
+                await withWorkPlanProgress('Resuming work plan', token => trackExecutor.resumeWorkPlan(undefined, token));
+                trackStatus.refresh();
+            } else if (choice === cleanUp) {
+                const confirmed = await vscode.window.showWarningMessage(
+                    `Remove the worktrees and containers of all ${workPlan.tracks.length} tracks?`,
+                    { modal: true, detail: 'The track branches are kept, so committed work can still be merged by hand.' },
+                    'Remove'
+                );
+                if (!confirmed) {
+                    return;
+                }
+                const failures = await trackExecutor.discardTrackResources(reconciliation.tracks);
+                await trackExecutor.clearPersistedState();
+                if (failures.length > 0) {
+                    vscode.window.showWarningMessage(`Cleaned up the work plan, but ${failures.length} item(s) could not be removed. Check the logs for details.`);
+                    failures.forEach(failure => logger.warn(`Could not clean up: ${failure}`));
+                } else {
+                    vscode.window.showInformationMessage('Cleaned up the unfinished work plan.');
+                }
+            }
+        } catch (error: any) {
+            ErrorHandler.handleError(error, {
+                showUser: true,
+                logLevel: 'error',
+                userMessage: `Failed to ${choice === resume ? 'resume' : 'clean up'} the work plan: ${error.message}`,
+                context: 'Extension.restorePersistedWorkPlan'
+            });
+        }
+        containersTreeDataProvider?.refresh();
+        rooMasterTreeDataProvider?.refresh();
+    };
+    restorePersistedWorkPlan().catch(error => ErrorHandler.handleError(error, {
+        showUser: false,
+        logLevel: 'error',
+        context: 'Extension.restorePersistedWorkPlan'
+    }));
 
     context.subscriptions.push(
         vscode.commands.registerCommand('roo-master.createWorktree', async () => {
@@ -117,6 +241,7 @@ export function activate(context: vscode.ExtensionContext) {
                 const containerId = await startToolContainer(imageName, containerName, portBindings);
                 vscode.window.showInformationMessage(`Container '${containerName}' started with ID: ${containerId}`);
                 rooMasterTreeDataProvider?.refresh();
+                containersTreeDataProvider?.refresh();
             } catch (error: any) {
                 ErrorHandler.handleError(error, {
                     showUser: true,
@@ -139,6 +264,7 @@ export function activate(context: vscode.ExtensionContext) {
                 await stopToolContainer(selectedContainer.label);
                 vscode.window.showInformationMessage(`Container '${selectedContainer.label}' stopped.`);
                 rooMasterTreeDataProvider?.refresh();
+                containersTreeDataProvider?.refresh();
             } catch (error: any) {
                 ErrorHandler.handleError(error, {
                     showUser: true,
@@ -171,7 +297,7 @@ export function activate(context: vscode.ExtensionContext) {
 
             if (worktreePath) {
                 try {
-                    const port = await mcpServerLauncher!.launchMcpServer(worktreePath);
+                    const port = await mcpServerLauncher!.launchMcpServer(worktreePath, { projectRoot: rootPath });
                     await mcpServerRegistration.writeMcpConfig(worktreePath, { port });
                     vscode.window.showInformationMessage(`MCP Server registered and launched for ${path.basename(worktreePath)} on port ${port}.`);
                     rooMasterTreeDataProvider?.refresh();
@@ -209,13 +335,32 @@ export function activate(context: vscode.ExtensionContext) {
             try {
                 logger.info('Parsing prompt and generating work plan...');
                 const workPlan = await promptAnalyzer.analyzePrompt(prompt); // Use PromptAnalyzer
-                logger.info('Work plan generated. Executing tracks...');
+                logger.info('Work plan generated.');
+
+                const forecast = trackExecutor.forecastWorkPlan(workPlan);
+                if (forecast) {
+                    const names = new Map(workPlan.tracks.map(track => [track.id, track.name]));
+                    const start = await vscode.window.showInformationMessage(
+                        `${workPlan.tracks.length} tracks, predicted to take ${formatMinutes(forecast.makespanMinutes)} running ${forecast.concurrency} at a time.`,
+                        {
+                            modal: true,
+                            detail: `Critical path (${formatMinutes(forecast.criticalPath.minutes)}): ` +
+                                `${forecast.criticalPath.trackIds.map(trackId => names.get(trackId) ?? trackId).join(' → ')}. ` +
+                                'Tracks on it start first.',
+                        },
+                        'Start'
+                    );
+                    if (!start) {
+                        return;
+                    }
+                }
+                logger.info('Executing tracks...');
                 
                 // Add all tracks to trackStatus for display
                 workPlan.tracks.forEach(track => trackStatus.addTrack(track));
 
-                await trackExecutor.executeWorkPlan(workPlan);
-                vscode.window.showInformationMessage('Work plan execution completed.');
+                // The executor reports how the run ended, cancelled included
+                await withWorkPlanProgress('Executing work plan', token => trackExecutor.executeWorkPlan(workPlan, { token }));
                 trackStatus.refresh();
             } catch (error: any) {
                 ErrorHandler.handleError(error, {
@@ -225,6 +370,311 @@ export function activate(context: vscode.ExtensionContext) {
                     context: 'Extension.executeWorkPlan'
                 });
             }
+        }),
+        vscode.commands.registerCommand('roo-master.pauseWorkPlan', () => {
+            try {
+                trackExecutor.pauseExecution();
+                vscode.window.showInformationMessage('Work plan paused. Running tracks stop after their current step.');
+            } catch (error: any) {
+                ErrorHandler.handleError(error, {
+                    showUser: true,
+                    logLevel: 'warn',
+                    userMessage: `Failed to pause the work plan: ${error.message}`,
+                    context: 'Extension.pauseWorkPlan'
+                });
+            }
+        }),
+        vscode.commands.registerCommand('roo-master.cancelWorkPlan', async () => {
+            if (!trackExecutor.isExecuting) {
+                vscode.window.showInformationMessage('No work plan is executing.');
+                return;
+            }
+            const confirmed = await vscode.window.showWarningMessage(
+                'Cancel the work plan?',
+                { modal: true, detail: 'Running tracks are stopped and marked failed; tracks not yet started stay pending. Both can be resumed later.' },
+                'Cancel Work Plan'
+            );
+            if (confirmed) {
+                await trackExecutor.cancelExecution();
+            }
+        }),
+        vscode.commands.registerCommand('roo-master.cancelTrack', (track: Track) => {
+            try {
+                trackExecutor.cancelTrack(track.id);
+            } catch (error: any) {
+                ErrorHandler.handleError(error, {
+                    showUser: true,
+                    logLevel: 'warn',
+                    userMessage: `Failed to cancel track ${track.id}: ${error.message}`,
+                    context: 'Extension.cancelTrack'
+                });
+            }
+        }),
+        vscode.commands.registerCommand('roo-master.resumeWorkPlan', async () => {
+            // A paused execution continues; otherwise the persisted work plan is picked up again
+            if (trackExecutor.isPaused) {
+                trackExecutor.resumeExecution();
+                return;
+            }
+            try {
+                if (!await withWorkPlanProgress('Resuming work plan', token => trackExecutor.resumeWorkPlan(undefined, token))) {
+                    vscode.window.showInformationMessage('Every track of the work plan is done; nothing to resume.');
+                }
+                trackStatus.refresh();
+            } catch (error: any) {
+                ErrorHandler.handleError(error, {
+                    showUser: true,
+                    logLevel: 'error',
+                    userMessage: `Failed to resume the work plan: ${error.message}`,
+                    context: 'Extension.resumeWorkPlan'
+                });
+            }
+        }),
+        vscode.commands.registerCommand('roo-master.retryTrack', async (track: Track) => {
+            try {
+                if (trackExecutor.isExecuting) {
+                    await trackExecutor.retryTrack(track.id);
+                } else {
+                    await withWorkPlanProgress(`Retrying track ${track.name}`, token => trackExecutor.retryTrack(track.id, token));
+                }
+            } catch (error: any) {
+                ErrorHandler.handleError(error, {
+                    showUser: true,
+                    logLevel: 'error',
+                    userMessage: `Failed to retry track ${track.id}: ${error.message}`,
+                    context: 'Extension.retryTrack'
+                });
+            }
+        }),
+        vscode.commands.registerCommand('roo-master.skipTrack', async (track: Track) => {
+            const dependents = trackStatus.getTracks().filter(other => other.dependencies.includes(track.id));
+            const confirmed = await vscode.window.showWarningMessage(
+                `Skip track '${track.name}'?`,
+                {
+                    modal: true,
+                    detail: `The track is not run and its branch is not merged.${dependents.length > 0 ? ` ${dependents.length} dependent track(s) will run without it.` : ''}`,
+                },
+                'Skip'
+            );
+            if (!confirmed) {
+                return;
+            }
+            try {
+                await trackExecutor.skipTrack(track.id);
+            } catch (error: any) {
+                ErrorHandler.handleError(error, {
+                    showUser: true,
+                    logLevel: 'error',
+                    userMessage: `Failed to skip track ${track.id}: ${error.message}`,
+                    context: 'Extension.skipTrack'
+                });
+            }
+        }),
+        vscode.commands.registerCommand('roo-master.forceCompleteTrack', async (track: Track) => {
+            const confirmed = await vscode.window.showWarningMessage(
+                `Mark track '${track.name}' as completed?`,
+                { modal: true, detail: 'Its branch is merged as it stands, and tracks depending on it can start.' },
+                'Mark Completed'
+            );
+            if (!confirmed) {
+                return;
+            }
+            try {
+                await trackExecutor.forceCompleteTrack(track.id);
+            } catch (error: any) {
+                ErrorHandler.handleError(error, {
+                    showUser: true,
+                    logLevel: 'error',
+                    userMessage: `Failed to complete track ${track.id}: ${error.message}`,
+                    context: 'Extension.forceCompleteTrack'
+                });
+            }
+        }),
+        vscode.commands.registerCommand('roo-master.setTrackPriority', async (track: Track) => {
+            const current = track.priority ?? 0;
+            const picked = await vscode.window.showQuickPick(
+                TRACK_PRIORITIES.map(level => ({ ...level, description: level.value === current ? 'current' : undefined })),
+                { placeHolder: `Priority of track '${track.name}'; higher priority tracks start first when they are ready` }
+            );
+            if (!picked) {
+                return;
+            }
+            try {
+                await trackExecutor.setTrackPriority(track.id, picked.value);
+            } catch (error: any) {
+                ErrorHandler.handleError(error, {
+                    showUser: true,
+                    logLevel: 'error',
+                    userMessage: `Failed to set the priority of track ${track.id}: ${error.message}`,
+                    context: 'Extension.setTrackPriority'
+                });
+            }
+        }),
+        vscode.commands.registerCommand('roo-master.inspectCacheVolumes', async () => {
+            try {
+                const volumes = await listPackageCaches();
+                if (volumes.length === 0) {
+                    vscode.window.showInformationMessage('No package cache volumes yet. They are created when a track container starts.');
+                    return;
+                }
+                await vscode.window.showQuickPick(
+                    volumes.map(volume => ({
+                        label: volume.name,
+                        description: `${volume.manager} · ${volume.size !== undefined ? formatBytes(volume.size) : 'size unknown'}`,
+                        detail: `Lockfile ${volume.key.slice(0, 12)} · ${volume.refCount !== undefined ? `used by ${volume.refCount} container(s)` : 'usage unknown'}${volume.createdAt ? ` · created ${volume.createdAt}` : ''}`,
+                    })),
+                    { placeHolder: 'Package cache volumes shared by track containers' }
+                );
+            } catch (error: any) {
+                ErrorHandler.handleError(error, {
+                    showUser: true,
+                    logLevel: 'error',
+                    userMessage: `Failed to list cache volumes: ${error.message}`,
+                    context: 'Extension.inspectCacheVolumes'
+                });
+            }
+        }),
+        vscode.commands.registerCommand('roo-master.pruneCacheVolumes', async () => {
+            const keepCurrent = 'Keep current lockfiles';
+            const removeAll = 'Remove all unused';
+            const choice = await vscode.window.showWarningMessage(
+                'Remove package cache volumes that no container is using?',
+                { modal: true, detail: 'Caches matching the workspace\'s current lockfiles can be kept so new tracks still start warm.' },
+                keepCurrent,
+                removeAll
+            );
+            if (!choice) {
+                return;
+            }
+            try {
+                const result = await prunePackageCaches(choice === keepCurrent);
+                vscode.window.showInformationMessage(
+                    `Removed ${result.removed.length} cache volume(s)${result.inUse.length > 0 ? `, ${result.inUse.length} still in use` : ''}.`
+                );
+            } catch (error: any) {
+                ErrorHandler.handleError(error, {
+                    showUser: true,
+                    logLevel: 'error',
+                    userMessage: `Failed to prune cache volumes: ${error.message}`,
+                    context: 'Extension.pruneCacheVolumes'
+                });
+            }
+        }),
+        vscode.commands.registerCommand('roo-master.buildToolImage', async () => {
+            try {
+                const pin = await vscode.window.withProgress(
+                    { location: vscode.ProgressLocation.Notification, title: 'Building tool image', cancellable: true },
+                    (progress, token) => {
+                        const abort = new AbortController();
+                        token.onCancellationRequested(() => abort.abort());
+                        return buildWorkspaceToolImage(line => {
+                            logger.info(line);
+                            progress.report({ message: line.length > 80 ? `${line.slice(0, 77)}...` : line });
+                        }, abort.signal);
+                    }
+                );
+                vscode.window.showInformationMessage(`Tool image ${pin.image} built and pinned in .roo/tool-image.json.`);
+            } catch (error: any) {
+                ErrorHandler.handleError(error, {
+                    showUser: true,
+                    logLevel: 'error',
+                    userMessage: `Failed to build tool image: ${error.message}`,
+                    context: 'Extension.buildToolImage'
+                });
+            }
+        }),
+        containerLogViewer,
+        vscode.commands.registerCommand('roo-master.refreshContainers', () => containersTreeDataProvider?.refresh()),
+        vscode.commands.registerCommand('roo-master.showContainerLogs', (item: ContainerItem) => {
+            containerLogViewer.show(item.container);
+        }),
+        vscode.commands.registerCommand('roo-master.openContainerTerminal', async (item: ContainerItem) => {
+            try {
+                const shell = await containerShellCommand(item.container);
+                vscode.window.createTerminal({ name: `Roo: ${item.container.name}`, ...shell }).show();
+            } catch (error: any) {
+                ErrorHandler.handleError(error, {
+                    showUser: true,
+                    logLevel: 'error',
+                    userMessage: `Failed to open a terminal in ${item.container.name}: ${error.message}`,
+                    context: 'Extension.openContainerTerminal'
+                });
+            }
+        }),
+        vscode.commands.registerCommand('roo-master.restartContainer', async (item: ContainerItem) => {
+            try {
+                await restartManagedContainer(item.container);
+                vscode.window.showInformationMessage(`Container '${item.container.name}' restarted.`);
+            } catch (error: any) {
+                ErrorHandler.handleError(error, {
+                    showUser: true,
+                    logLevel: 'error',
+                    userMessage: `Failed to restart container: ${error.message}`,
+                    context: 'Extension.restartContainer'
+                });
+            }
+            containersTreeDataProvider?.refresh();
+        }),
+        vscode.commands.registerCommand('roo-master.removeContainer', async (item: ContainerItem) => {
+            const confirmed = await vscode.window.showWarningMessage(
+                `Remove container '${item.container.name}'?`,
+                { modal: true, detail: item.container.state === 'running' ? 'The container is running and will be killed.' : undefined },
+                'Remove'
+            );
+            if (!confirmed) {
+                return;
+            }
+            try {
+                const result = await removeManagedContainers([item.container]);
+                if (result.failed.length > 0) {
+                    throw new Error(result.failed[0].error);
+                }
+            } catch (error: any) {
+                ErrorHandler.handleError(error, {
+                    showUser: true,
+                    logLevel: 'error',
+                    userMessage: `Failed to remove container: ${error.message}`,
+                    context: 'Extension.removeContainer'
+                });
+            }
+            containersTreeDataProvider?.refresh();
+        }),
+        vscode.commands.registerCommand('roo-master.collectOrphanedContainers', async () => {
+            try {
+                const activeTrackIds = new Set(trackExecutor.getActiveTrackIds());
+                const knownTrackIds = new Set([...trackStatus.getTracks().map(track => track.id), ...activeTrackIds]);
+                const orphans = await findOrphanedToolContainers(knownTrackIds, activeTrackIds);
+                if (orphans.length === 0) {
+                    vscode.window.showInformationMessage('No orphaned Roo containers found.');
+                    return;
+                }
+                const confirmed = await vscode.window.showWarningMessage(
+                    `Remove ${orphans.length} orphaned Roo container(s)?`,
+                    { modal: true, detail: orphans.map(orphan => `${orphan.container.name}: ${orphan.reason}`).join('\n') },
+                    'Remove'
+                );
+                if (!confirmed) {
+                    return;
+                }
+                const result = await removeManagedContainers(orphans.map(orphan => orphan.container));
+                vscode.window.showInformationMessage(
+                    `Removed ${result.removed.length} orphaned container(s)${result.failed.length > 0 ? `, ${result.failed.length} could not be removed` : ''}.`
+                );
+            } catch (error: any) {
+                ErrorHandler.handleError(error, {
+                    showUser: true,
+                    logLevel: 'error',
+                    userMessage: `Failed to collect orphaned containers: ${error.message}`,
+                    context: 'Extension.collectOrphanedContainers'
+                });
+            }
+            containersTreeDataProvider?.refresh();
+        }),
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('roo-master.containerRuntime')) {
+                resetContainerRuntime();
+                containersTreeDataProvider?.refresh();
+            }
         })
     );
 }
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { Track } from '../orchestrator/workPlanParser';
 import { Logger } from '../util/logger';
+import { TrackStateStore } from '../orchestrator/trackState';
 
 const logger = new Logger('TrackStatus');
 
@@ -11,8 +12,32 @@ export class TrackStatus {
     private _onDidChangeTreeData: vscode.EventEmitter<Track | undefined | null | void> = new vscode.EventEmitter<Track | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<Track | undefined | null | void> = this._onDidChangeTreeData.event;
 
-    constructor() {
+    constructor(private trackState?: TrackStateStore) {
         // Initialize with any persisted state or empty
+        this.loadPersistedTracks();
+        this.trackState?.onDidChange(trackId => {
+            if (trackId === undefined) {
+                this.loadPersistedTracks();
+                this._onDidChangeTreeData.fire();
+                return;
+            }
+            const track = this.tracks.get(trackId);
+            const persisted = this.trackState?.getTrack(trackId);
+            if (track && persisted) {
+                track.status = persisted.status;
+                track.statusMessage = persisted.statusMessage;
+                track.branch = persisted.branchName ?? track.branch;
+                track.priority = persisted.priority ?? track.priority;
+                this._onDidChangeTreeData.fire(track);
+            }
+        });
+    }
+
+    private loadPersistedTracks(): void {
+        if (this.trackState) {
+            const tracks = this.trackState.getWorkPlan()?.tracks ?? [];
+            this.tracks = new Map(tracks.map(track => [track.id, track]));
+        }
     }
 
     public addTrack(track: Track): void {
@@ -21,7 +46,7 @@ export class TrackStatus {
         logger.info(`Track added: ${track.id}`);
     }
 
-    public updateTrackStatus(trackId: string, status: 'pending' | 'in-progress' | 'completed' | 'blocked' | 'merged' | 'failed', message?: string): void {
+    public updateTrackStatus(trackId: string, status: Track['status'], message?: string): void {
         const track = this.tracks.get(trackId);
         if (track) {
             track.status = status;
@@ -30,6 +55,8 @@ export class TrackStatus {
             }
             this.tracks.set(trackId, track); // Update the map with the modified track
             this._onDidChangeTreeData.fire(track);
+            this.trackState?.updateTrack(trackId, { status, statusMessage: track.statusMessage })
+                .then(undefined, error => logger.warn(`Could not persist status of track ${trackId}: ${error.message}`));
             logger.info(`Track ${trackId} status updated to: ${status}`);
         } else {
             logger.warn(`Attempted to update status for non-existent track: ${trackId}`);
@@ -0,0 +1,202 @@
+import Ajv from 'ajv';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+    CallToolResult,
+    CallToolResultSchema,
+    LoggingMessageNotificationSchema,
+    Progress,
+    Tool,
+    ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Logger } from '../util/logger';
+
+const logger = new Logger('McpClient');
+
+// Per-request timeout; progress notifications from long builds reset it
+const DEFAULT_TOOL_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface ToolCallOptions {
+    timeoutMs?: number;
+    signal?: AbortSignal;
+    onProgress?: (progress: Progress) => void;
+}
+
+/**
+ * Raised when arguments do not match a tool's inputSchema, before the call is sent.
+ */
+export class ToolArgumentError extends Error {
+    constructor(public readonly toolName: string, message: string) {
+        super(`Invalid arguments for tool '${toolName}': ${message}`);
+        this.name = 'ToolArgumentError';
+    }
+}
+
+/**
+ * Raised for tool results flagged with isError, carrying the full result.
+ */
+export class ToolCallError extends Error {
+    constructor(public readonly toolName: string, public readonly result: CallToolResult) {
+        super(`Tool '${toolName}' failed: ${textContent(result).slice(-2000) || 'no output'}`);
+        this.name = 'ToolCallError';
+    }
+}
+
+/**
+ * Concatenates the text blocks of a tool result.
+ */
+export function textContent(result: CallToolResult): string {
+    return result.content
+        .filter((block): block is { type: 'text'; text: string } => block.type === 'text')
+        .map(block => block.text)
+        .join('\n');
+}
+
+// Log data mcp-host attaches to tool output, see its ProgressReporter
+interface ToolLogData {
+    callId?: unknown;
+    phase?: unknown;
+    message: unknown;
+}
+
+function isToolLogData(data: unknown): data is ToolLogData {
+    return typeof data === 'object' && data !== null && 'message' in data;
+}
+
+function formatLogData(data: unknown): string {
+    if (isToolLogData(data)) {
+        return `${data.callId ?? ''} ${data.phase ?? ''}: ${String(data.message).trimEnd()}`;
+    }
+    return typeof data === 'string' ? data : JSON.stringify(data);
+}
+
+/**
+ * MCP client for one mcp-host server. Performs the initialize handshake on
+ * connect, caches tools/list until the server reports a change, validates
+ * arguments against each tool's inputSchema and forwards server logging and
+ * progress to the Roo Master output channel.
+ */
+export class McpToolClient {
+    private client: Client | undefined;
+    private tools: Map<string, Tool> | undefined;
+    private validators = new Map<string, Ajv.ValidateFunction>();
+    private ajv = new Ajv({ allErrors: true });
+
+    constructor(private readonly label: string, private readonly endpoint: URL) {}
+
+    public async connect(): Promise<void> {
+        if (this.client) {
+            return;
+        }
+
+        const client = new Client(
+            { name: 'roo-master', version: '1.0.0' },
+            { capabilities: {} }
+        );
+
+        client.setNotificationHandler(LoggingMessageNotificationSchema, (notification) => {
+            const { level, logger: source, data } = notification.params;
+            const line = `[${this.label}] ${source ?? 'server'} ${formatLogData(data)}`;
+            if (level === 'error' || level === 'critical' || level === 'alert' || level === 'emergency') {
+                logger.error(line);
+            } else if (level === 'warning') {
+                logger.warn(line);
+            } else if (level === 'debug') {
+                logger.debug(line);
+            } else {
+                logger.info(line);
+            }
+        });
+
+        client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+            logger.info(`[${this.label}] Tool list changed, refreshing cache`);
+            this.tools = undefined;
+            this.validators.clear();
+        });
+
+        await client.connect(new StreamableHTTPClientTransport(this.endpoint));
+        this.client = client;
+
+        const serverInfo = client.getServerVersion();
+        logger.info(`[${this.label}] Connected to ${serverInfo?.name ?? 'MCP server'} ${serverInfo?.version ?? ''} at ${this.endpoint}`);
+    }
+
+    public async listTools(refresh: boolean = false): Promise<Tool[]> {
+        const client = await this.connected();
+        if (!this.tools || refresh) {
+            const tools = new Map<string, Tool>();
+            let cursor: string | undefined;
+            do {
+                const page = await client.listTools(cursor ? { cursor } : undefined);
+                page.tools.forEach(tool => tools.set(tool.name, tool));
+                cursor = page.nextCursor;
+            } while (cursor);
+            this.tools = tools;
+            this.validators.clear();
+        }
+        return [...this.tools.values()];
+    }
+
+    /**
+     * Calls a tool and returns its result. Results flagged with isError are
+     * returned as well; callers decide whether that fails their step.
+     */
+    public async callTool(name: string, args: Record<string, unknown> = {}, options: ToolCallOptions = {}): Promise<CallToolResult> {
+        const client = await this.connected();
+        this.validateArguments(await this.getTool(name), args);
+
+        logger.info(`[${this.label}] Calling tool '${name}' with args: ${JSON.stringify(args)}`);
+        const result = await client.callTool(
+            { name, arguments: args },
+            CallToolResultSchema,
+            {
+                signal: options.signal,
+                timeout: options.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS,
+                resetTimeoutOnProgress: true,
+                onprogress: (progress) => {
+                    logger.info(`[${this.label}] ${name}: ${progress.message ?? ''} (${progress.progress}${progress.total ? `/${progress.total}` : ''})`);
+                    options.onProgress?.(progress);
+                },
+            }
+        );
+        return result as CallToolResult;
+    }
+
+    public async close(): Promise<void> {
+        const client = this.client;
+        this.client = undefined;
+        this.tools = undefined;
+        this.validators.clear();
+        await client?.close();
+    }
+
+    private async connected(): Promise<Client> {
+        await this.connect();
+        return this.client!;
+    }
+
+    private async getTool(name: string): Promise<Tool> {
+        await this.listTools();
+        let tool = this.tools!.get(name);
+        if (!tool) {
+            // The server may have gained tools since the cache was filled
+            await this.listTools(true);
+            tool = this.tools!.get(name);
+        }
+        if (!tool) {
+            throw new ToolArgumentError(name, `unknown tool, available tools: ${[...this.tools!.keys()].join(', ')}`);
+        }
+        return tool;
+    }
+
+    private validateArguments(tool: Tool, args: Record<string, unknown>): void {
+        let validate = this.validators.get(tool.name);
+        if (!validate) {
+            validate = this.ajv.compile(tool.inputSchema);
+            this.validators.set(tool.name, validate);
+        }
+        if (!validate(args)) {
+            throw new ToolArgumentError(tool.name, this.ajv.errorsText(validate.errors));
+        }
+    }
+}
@@ -7,19 +7,39 @@ import { findOpenPort } from '../util/ports';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as http from 'http';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { McpToolClient, ToolCallOptions } from './client';
+import { getContainerRuntime } from '../containers/docker';
+import { runtimeEnvironment } from '../containers/runtime';
+import { GitWorktree } from '../worktree/gitWorktree';
 
 const logger = new Logger('McpServerLauncher');
 
+// mcp-host binds to the IPv4 loopback; "localhost" may resolve to ::1 first
+export const MCP_HOST = '127.0.0.1';
+
+export function mcpEndpointUrl(port: number): string {
+    return `http://${MCP_HOST}:${port}/mcp`;
+}
+
+export interface McpServerOptions {
+    // Tool container bound to the worktree, where mcp-host runs its commands
+    containerName?: string;
+    // Main checkout, whose .roo/policy.json governs exec.run
+    projectRoot?: string;
+}
+
 interface McpServerProcess {
     process: ChildProcessWithoutNullStreams;
     port: number;
     worktreePath: string;
+    client?: McpToolClient;
 }
 
 export class McpServerLauncher {
     private activeMcpServers: Map<string, McpServerProcess> = new Map();
 
-    public async launchMcpServer(worktreePath: string): Promise<number> {
+    public async launchMcpServer(worktreePath: string, options: McpServerOptions = {}): Promise<number> {
         // Path validation
         ErrorHandler.validateRequired(worktreePath, 'worktreePath', 'McpServerLauncher.launchMcpServer');
         ErrorHandler.validatePath(worktreePath, 'directory', 'McpServerLauncher.launchMcpServer');
@@ -38,9 +58,18 @@ export class McpServerLauncher {
         ErrorHandler.validateRequired(mcpHostPath, 'mcpHostPath', 'McpServerLauncher.launchMcpServer');
         ErrorHandler.validatePath(mcpHostPath, 'directory', 'McpServerLauncher.launchMcpServer');
         
+        // Run tool commands through the same engine the extension uses
+        let runtimeEnv: Record<string, string> = {};
+        try {
+            runtimeEnv = runtimeEnvironment(await getContainerRuntime());
+        } catch (error: any) {
+            logger.warn(`No container runtime detected, MCP server will detect its own: ${error.message}`);
+        }
+
+        const serverEnv = await this.serverEnvironment(worktreePath, options);
         const serverProcess = spawn('npm', ['start'], {
             cwd: mcpHostPath,
-            env: { ...process.env, PORT: port.toString() },
+            env: { ...process.env, ...runtimeEnv, ...serverEnv, MCP_TRANSPORT: 'http', MCP_HOST, PORT: port.toString() },
             shell: true
         });
 
@@ -84,9 +113,32 @@ export class McpServerLauncher {
         }
     }
 
+    /**
+     * Tells mcp-host which container to run commands in and where the
+     * worktree it sees at /work lives on the host, for the tools that read
+     * files or run git there.
+     */
+    private async serverEnvironment(worktreePath: string, options: McpServerOptions): Promise<Record<string, string>> {
+        const env: Record<string, string> = { ROO_WORK_ROOT: worktreePath };
+        if (options.containerName) {
+            env.CONTAINER_NAME = options.containerName;
+        }
+        // The worktree's own policy could be rewritten by the commands it restricts
+        if (options.projectRoot) {
+            env.ROO_POLICY_FILE = path.join(options.projectRoot, '.roo', 'policy.json');
+        }
+        // Resolved now, before the track can rewrite the worktree's .git file
+        try {
+            env.ROO_GIT_DIR = await new GitWorktree(worktreePath).getGitDir();
+        } catch (error: any) {
+            logger.warn(`Could not resolve the git directory of ${worktreePath}, git tools will look it up: ${error.message}`);
+        }
+        return env;
+    }
+
     private async waitForServerStartup(port: number, worktreePath: string, timeoutMs: number = 30000): Promise<void> {
         const startTime = Date.now();
-        const healthCheckUrl = `http://localhost:${port}/health`;
+        const healthCheckUrl = `http://${MCP_HOST}:${port}/health`;
         
         return new Promise((resolve, reject) => {
             const interval = setInterval(() => {
@@ -124,6 +176,7 @@ export class McpServerLauncher {
         
         const server = this.activeMcpServers.get(worktreePath);
         if (server) {
+            server.client?.close().catch(() => undefined);
             server.process.kill();
             this.activeMcpServers.delete(worktreePath);
             logger.info(`MCP server for ${worktreePath} stopped.`);
@@ -136,98 +189,56 @@ export class McpServerLauncher {
         return this.activeMcpServers;
     }
 
-    public async useTool(worktreePath: string, toolName: string, args: any): Promise<any> {
-        // Validate input
-        ErrorHandler.validateRequired(worktreePath, 'worktreePath', 'McpServerLauncher.useTool');
-        ErrorHandler.validateRequired(toolName, 'toolName', 'McpServerLauncher.useTool');
-        
+    /**
+     * Returns the MCP client for a worktree's server, connecting on first use.
+     */
+    public async getClient(worktreePath: string): Promise<McpToolClient> {
         const server = this.activeMcpServers.get(worktreePath);
-        
         if (!server) {
             const errorMsg = `No active MCP server found for ${worktreePath}`;
             ErrorHandler.handleError(errorMsg, {
                 showUser: false,
                 logLevel: 'error',
-                context: 'McpServerLauncher.useTool'
+                context: 'McpServerLauncher.getClient'
             });
             throw new Error(errorMsg);
         }
 
-        const toolUrl = `http://localhost:${server.port}/tools/${toolName}`;
-        
-        logger.info(`Using tool '${toolName}' on server for ${worktreePath} with args: ${JSON.stringify(args)}`);
-
-        return new Promise((resolve, reject) => {
-            const postData = JSON.stringify(args);
-            const postOptions = {
-                hostname: 'localhost',
-                port: server.port,
-                path: `/tools/${toolName}`,
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Content-Length': Buffer.byteLength(postData)
-                }
-            };
-
-            const req = http.request(postOptions, (res) => {
-                let data = '';
-                
-                res.on('data', (chunk) => {
-                    data += chunk;
-                });
-                
-                res.on('end', () => {
-                    if (res.statusCode === 200) {
-                        try {
-                            const result = JSON.parse(data);
-                            logger.info(`Tool '${toolName}' executed successfully for ${worktreePath}`);
-                            resolve(result);
-                        } catch (parseError: any) {
-                            const errorMsg = `Failed to parse tool response for ${toolName}: ${parseError.message}`;
-                            ErrorHandler.handleError(parseError, {
-                                showUser: false,
-                                logLevel: 'error',
-                                context: 'McpServerLauncher.useTool.parseError'
-                            });
-                            reject(new Error(errorMsg));
-                        }
-                    } else {
-                        const errorMsg = `Tool execution failed with status ${res.statusCode}: ${data}`;
-                        ErrorHandler.handleError(errorMsg, {
-                            showUser: false,
-                            logLevel: 'error',
-                            context: 'McpServerLauncher.useTool.executionFailed'
-                        });
-                        reject(new Error(errorMsg));
-                    }
-                });
-            });
+        if (!server.client) {
+            server.client = new McpToolClient(path.basename(worktreePath), new URL(mcpEndpointUrl(server.port)));
+        }
+        try {
+            await server.client.connect();
+        } catch (error: any) {
+            server.client = undefined;
+            throw new Error(`Error connecting to MCP server for ${worktreePath}: ${error.message}`);
+        }
+        return server.client;
+    }
 
-            req.on('error', (error) => {
-                ErrorHandler.handleError(error, {
-                    showUser: false,
-                    logLevel: 'error',
-                    context: 'McpServerLauncher.useTool.communicationError'
-                });
-                const errorMsg = `Error communicating with MCP server for tool '${toolName}': ${error.message}`;
-                reject(new Error(errorMsg));
-            });
+    public async useTool(
+        worktreePath: string,
+        toolName: string,
+        args: Record<string, unknown> = {},
+        options: ToolCallOptions = {}
+    ): Promise<CallToolResult> {
+        // Validate input
+        ErrorHandler.validateRequired(worktreePath, 'worktreePath', 'McpServerLauncher.useTool');
+        ErrorHandler.validateRequired(toolName, 'toolName', 'McpServerLauncher.useTool');
 
-            req.setTimeout(30000, () => {
-                req.destroy();
-                const errorMsg = `Tool execution timeout for '${toolName}' after 30 seconds`;
-                ErrorHandler.handleError(errorMsg, {
-                    showUser: false,
-                    logLevel: 'error',
-                    context: 'McpServerLauncher.useTool.timeout'
-                });
-                reject(new Error(errorMsg));
+        const client = await this.getClient(worktreePath);
+        try {
+            const result = await client.callTool(toolName, args, options);
+            logger.info(`Tool '${toolName}' ${result.isError ? 'reported an error' : 'executed successfully'} for ${worktreePath}`);
+            return result;
+        } catch (error: any) {
+            ErrorHandler.handleError(error, {
+                showUser: false,
+                logLevel: 'error',
+                context: 'McpServerLauncher.useTool'
             });
-
-            req.write(postData);
-            req.end();
-        });
+            throw error;
+        }
     }
 
     public async checkServerHealth(worktreePath: string): Promise<boolean> {
@@ -245,7 +256,7 @@ export class McpServerLauncher {
             return false;
         }
 
-        const healthUrl = `http://localhost:${server.port}/health`;
+        const healthUrl = `http://${MCP_HOST}:${server.port}/health`;
         
         return new Promise((resolve) => {
             const req = http.get(healthUrl, (res) => {
@@ -2,7 +2,7 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { writeJsonFile, ensureDir } from '../util/fsx';
-import { McpServerLauncher } from './launcher';
+import { McpServerLauncher, McpServerOptions, mcpEndpointUrl } from './launcher';
 import { Logger } from '../util/logger';
 import { ErrorHandler } from '../util/errorHandler';
 import { RetryHandler } from '../util/retryHandler';
@@ -11,7 +11,9 @@ const logger = new Logger('McpServerRegistration');
 
 export interface McpConfig {
     port: number;
-    // Add other MCP configuration properties as needed
+    // Streamable HTTP endpoint served by mcp-host
+    url?: string;
+    transport?: 'streamable-http';
 }
 
 export class McpServerRegistration {
@@ -43,7 +45,7 @@ export class McpServerRegistration {
         }
     }
 
-    public async registerServer(worktreePath: string): Promise<void> {
+    public async registerServer(worktreePath: string, options: McpServerOptions = {}): Promise<void> {
         // Input validation
         ErrorHandler.validateRequired(worktreePath, 'worktreePath', 'McpServerRegistration.registerServer');
         ErrorHandler.validatePath(worktreePath, 'directory', 'McpServerRegistration.registerServer');
@@ -73,10 +75,10 @@ export class McpServerRegistration {
 
             // Launch a new MCP server
             logger.info(`Launching new MCP server for ${worktreePath}`);
-            const port = await this.mcpServerLauncher.launchMcpServer(worktreePath);
+            const port = await this.mcpServerLauncher.launchMcpServer(worktreePath, options);
 
             // Write the configuration
-            const config: McpConfig = { port };
+            const config: McpConfig = { port, url: mcpEndpointUrl(port), transport: 'streamable-http' };
             await this.writeMcpConfig(worktreePath, config);
 
             // Verify the server is healthy after registration
@@ -0,0 +1,167 @@
+import { ResourceSample } from '../containers/stats';
+
+const GiB = 1024 ** 3;
+
+/**
+ * Host and container readings a scaling decision is based on.
+ */
+export interface ResourceSnapshot {
+    freeMemoryBytes: number;
+    // 1-minute load average; 0 where the platform does not report one
+    loadAverage: number;
+    cpuCount: number;
+    runningTracks: number;
+    // Tracks whose dependencies are met but that have not started
+    waitingTracks: number;
+    // Latest readings of the running tracks' containers
+    containerUsage: ResourceSample[];
+}
+
+export interface ConcurrencyOptions {
+    // Never more tracks than this at once
+    ceiling: number;
+    // Starting point, e.g. the analyzer's recommendation; defaults to the ceiling
+    initial?: number;
+    // Memory a track is assumed to need until its containers report more
+    memoryPerTrackBytes?: number;
+    // Free memory kept for VS Code and the rest of the host
+    memoryHeadroomBytes?: number;
+    // Load per CPU above which concurrency shrinks, and below which it may grow
+    highLoadPerCpu?: number;
+    lowLoadPerCpu?: number;
+    // After an OOM kill, concurrency does not grow again for this long
+    oomCooldownMs?: number;
+    now?: () => number;
+}
+
+export interface ScalingDecision {
+    previous: number;
+    limit: number;
+    reason: string;
+}
+
+/**
+ * Decides how many tracks may run at once, re-evaluated before scheduling.
+ * Grows by one at a time while there is spare memory and CPU, shrinks when
+ * either runs short, and halves when a container is OOM killed. Lowering the
+ * limit never stops running tracks; it only holds back new ones.
+ */
+export class AdaptiveConcurrency {
+    private current: number;
+    private holdUntil = 0;
+    // Why the limit last held, so a held limit is reported once per reason
+    private heldFor: string | undefined;
+    private readonly now: () => number;
+
+    constructor(
+        private readonly options: ConcurrencyOptions,
+        private readonly onDecision: (decision: ScalingDecision) => void = () => undefined
+    ) {
+        this.now = options.now ?? Date.now;
+        this.current = this.clamp(options.initial ?? options.ceiling);
+    }
+
+    public get limit(): number {
+        return this.current;
+    }
+
+    public get ceiling(): number {
+        return Math.max(1, withDefaults(this.options).ceiling);
+    }
+
+    /**
+     * Adjusts the limit to the current readings. Changes are reported to
+     * `onDecision`, as is an unchanged limit whenever it holds for another
+     * reason than before; either way the decision is returned.
+     */
+    public evaluate(snapshot: ResourceSnapshot): ScalingDecision {
+        const settings = withDefaults(this.options);
+        const previous = this.current;
+
+        // What the busiest running container uses is what the next track may need
+        const observed = Math.max(0, ...snapshot.containerUsage.map(sample => sample.memoryBytes ?? 0));
+        const perTrack = Math.max(settings.memoryPerTrackBytes, observed);
+        const spare = snapshot.freeMemoryBytes - settings.memoryHeadroomBytes;
+        const memoryCap = spare < 0
+            ? Math.max(1, snapshot.runningTracks - 1)
+            : snapshot.runningTracks + Math.floor(spare / perTrack);
+        const loadPerCpu = snapshot.cpuCount > 0 ? snapshot.loadAverage / snapshot.cpuCount : 0;
+
+        let target = previous;
+        let reason: string;
+        // The reason without its readings, which vary from one evaluation to the next
+        let cause: string;
+        if (memoryCap < previous) {
+            target = memoryCap;
+            reason = `${formatGiB(snapshot.freeMemoryBytes)} free leaves room for ${memoryCap} track(s) at ${formatGiB(perTrack)} each`;
+            cause = 'memory';
+        } else if (loadPerCpu > settings.highLoadPerCpu) {
+            target = previous - 1;
+            reason = `load ${loadPerCpu.toFixed(2)} per CPU is above ${settings.highLoadPerCpu}`;
+            cause = 'high load';
+        } else if (this.now() < this.holdUntil) {
+            reason = `holding after an OOM kill for ${Math.ceil((this.holdUntil - this.now()) / 1000)}s`;
+            cause = 'OOM cooldown';
+        } else if (loadPerCpu < settings.lowLoadPerCpu && memoryCap > previous && snapshot.runningTracks + snapshot.waitingTracks > previous) {
+            target = previous + 1;
+            reason = `load ${loadPerCpu.toFixed(2)} per CPU and ${formatGiB(snapshot.freeMemoryBytes)} free allow another track`;
+            cause = 'spare resources';
+        } else {
+            reason = 'resources steady';
+            cause = reason;
+        }
+
+        this.current = this.clamp(target);
+        if (this.current === previous && target !== previous) {
+            reason += target > previous ? `, but the ceiling is ${this.ceiling}` : ', but at least one track runs';
+            cause += ' at the bound';
+        }
+        if (this.current !== previous) {
+            this.heldFor = undefined;
+            return this.decide(previous, reason, true);
+        }
+        const reasonChanged = cause !== this.heldFor;
+        this.heldFor = cause;
+        return this.decide(previous, reason, reasonChanged);
+    }
+
+    /**
+     * Halves the limit after a container was killed for running out of
+     * memory and keeps it from growing for the cooldown.
+     */
+    public recordOomKill(source: string): ScalingDecision {
+        const settings = withDefaults(this.options);
+        const previous = this.current;
+        this.current = this.clamp(Math.floor(previous / 2));
+        this.holdUntil = this.now() + settings.oomCooldownMs;
+        this.heldFor = undefined;
+        return this.decide(previous, `${source} was OOM killed; holding for ${Math.round(settings.oomCooldownMs / 1000)}s`, true);
+    }
+
+    private decide(previous: number, reason: string, report: boolean): ScalingDecision {
+        const decision = { previous, limit: this.current, reason };
+        if (report) {
+            this.onDecision(decision);
+        }
+        return decision;
+    }
+
+    private clamp(limit: number): number {
+        return Math.min(this.ceiling, Math.max(1, limit));
+    }
+}
+
+function withDefaults(options: ConcurrencyOptions): Required<Omit<ConcurrencyOptions, 'initial' | 'now'>> {
+    return {
+        ceiling: options.ceiling,
+        memoryPerTrackBytes: options.memoryPerTrackBytes ?? 1.5 * GiB,
+        memoryHeadroomBytes: options.memoryHeadroomBytes ?? 1 * GiB,
+        highLoadPerCpu: options.highLoadPerCpu ?? 1.0,
+        lowLoadPerCpu: options.lowLoadPerCpu ?? 0.7,
+        oomCooldownMs: options.oomCooldownMs ?? 5 * 60 * 1000,
+    };
+}
+
+function formatGiB(bytes: number): string {
+    return `${(bytes / GiB).toFixed(1)} GiB`;
+}
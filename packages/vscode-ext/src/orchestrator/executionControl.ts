@@ -0,0 +1,197 @@
+import { SchedulerClock, systemClock } from './scheduler';
+
+/**
+ * The part of vscode.CancellationToken the executor relies on. VS Code's
+ * tokens satisfy it, so pausing and cancelling run and test without VS Code.
+ */
+export interface CancellationSignal {
+    readonly isCancellationRequested: boolean;
+    onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+/**
+ * A cancellation that can be triggered, like vscode.CancellationTokenSource.
+ */
+export class CancellationSource {
+    private cancelled = false;
+    private listeners = new Set<() => void>();
+
+    public readonly token: CancellationSignal = {
+        isCancellationRequested: false,
+        onCancellationRequested: listener => this.subscribe(listener),
+    };
+
+    public cancel(): void {
+        if (this.cancelled) {
+            return;
+        }
+        this.cancelled = true;
+        (this.token as { isCancellationRequested: boolean }).isCancellationRequested = true;
+        const listeners = Array.from(this.listeners);
+        this.listeners.clear();
+        listeners.forEach(listener => listener());
+    }
+
+    public dispose(): void {
+        this.listeners.clear();
+    }
+
+    private subscribe(listener: () => void): { dispose(): void } {
+        if (this.cancelled) {
+            // As with VS Code's tokens, late listeners still hear of it, asynchronously
+            let disposed = false;
+            Promise.resolve().then(() => disposed || listener());
+            return { dispose: () => disposed = true };
+        }
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    }
+}
+
+/**
+ * Pausing and cancellation of one work plan at a time. The plan's
+ * cancellation follows the caller's token, and every running track has its
+ * own that follows the plan's, so a single track can be cancelled on its own.
+ */
+export class ExecutionControl {
+    private plan: { source: CancellationSource; link?: { dispose(): void } } | undefined;
+    private tracks = new Map<string, { source: CancellationSource; link: { dispose(): void } }>();
+    // Set while paused; running tracks wait on it before their next step
+    private pauseGate: { promise: Promise<void>; resolve: () => void } | undefined;
+
+    constructor(private readonly clock: SchedulerClock = systemClock) {}
+
+    public get isRunning(): boolean {
+        return this.plan !== undefined;
+    }
+
+    public get isPaused(): boolean {
+        return this.pauseGate !== undefined;
+    }
+
+    /**
+     * Starts controlling a plan.
+     * @returns The token cancelled by cancelPlan or by `token`.
+     */
+    public begin(token?: CancellationSignal): CancellationSignal {
+        if (this.plan) {
+            throw new Error('A work plan is already being executed.');
+        }
+        const source = new CancellationSource();
+        const link = token?.onCancellationRequested(() => source.cancel());
+        if (token?.isCancellationRequested) {
+            source.cancel();
+        }
+        this.plan = { source, link };
+        return source.token;
+    }
+
+    /**
+     * Stops controlling the plan, releasing anything still paused.
+     */
+    public end(): void {
+        this.plan?.link?.dispose();
+        this.plan?.source.dispose();
+        this.plan = undefined;
+        this.resume();
+    }
+
+    /**
+     * @returns The token cancelled by cancelTrack or with the plan.
+     */
+    public beginTrack(trackId: string, planToken: CancellationSignal): CancellationSignal {
+        const source = new CancellationSource();
+        const link = planToken.onCancellationRequested(() => source.cancel());
+        if (planToken.isCancellationRequested) {
+            source.cancel();
+        }
+        this.tracks.set(trackId, { source, link });
+        return source.token;
+    }
+
+    public endTrack(trackId: string): void {
+        const track = this.tracks.get(trackId);
+        track?.link.dispose();
+        track?.source.dispose();
+        this.tracks.delete(trackId);
+    }
+
+    public isTrackRunning(trackId: string): boolean {
+        return this.tracks.has(trackId);
+    }
+
+    /**
+     * @returns False when no plan is being executed.
+     */
+    public cancelPlan(): boolean {
+        this.plan?.source.cancel();
+        return this.plan !== undefined;
+    }
+
+    /**
+     * @returns False when the track is not running.
+     */
+    public cancelTrack(trackId: string): boolean {
+        const track = this.tracks.get(trackId);
+        track?.source.cancel();
+        return track !== undefined;
+    }
+
+    /**
+     * @returns False when already paused.
+     */
+    public pause(): boolean {
+        if (this.pauseGate) {
+            return false;
+        }
+        let resolve!: () => void;
+        const promise = new Promise<void>(done => resolve = done);
+        this.pauseGate = { promise, resolve };
+        return true;
+    }
+
+    /**
+     * @returns False when not paused.
+     */
+    public resume(): boolean {
+        if (!this.pauseGate) {
+            return false;
+        }
+        this.pauseGate.resolve();
+        this.pauseGate = undefined;
+        return true;
+    }
+
+    /**
+     * Resolves once execution is not paused, or once `token` is cancelled.
+     */
+    public async waitWhilePaused(token: CancellationSignal): Promise<void> {
+        while (this.pauseGate && !token.isCancellationRequested) {
+            await this.untilCancelled(token, this.pauseGate.promise);
+        }
+    }
+
+    /**
+     * Waits `ms`, e.g. between retries, or less if `token` is cancelled first.
+     */
+    public async delay(ms: number, token: CancellationSignal): Promise<void> {
+        if (token.isCancellationRequested) {
+            return;
+        }
+        let timer: unknown;
+        try {
+            await this.untilCancelled(token, new Promise<void>(resolve => timer = this.clock.setTimeout(resolve, ms)));
+        } finally {
+            this.clock.clearTimeout(timer);
+        }
+    }
+
+    private async untilCancelled(token: CancellationSignal, promise: Promise<void>): Promise<void> {
+        let listener: { dispose(): void } | undefined;
+        try {
+            await Promise.race([promise, new Promise<void>(resolve => listener = token.onCancellationRequested(resolve))]);
+        } finally {
+            listener?.dispose();
+        }
+    }
+}
@@ -71,6 +71,7 @@ export class PromptAnalyzer {
                 tracks,
                 dependencyGraph,
                 parallelizableTracks,
+                recommendedConcurrency: systemResourceUsage.recommendedConcurrency,
             };
 
             logger.info(`Generated work plan with ${workPlan.tracks.length} tracks and ${parallelizableTracks.length} parallel groups.`);
@@ -0,0 +1,284 @@
+/**
+ * What the scheduler needs to know of a track.
+ */
+export interface SchedulableTrack {
+    id: string;
+    dependencies: string[];
+}
+
+/**
+ * Timers the scheduler uses, replaceable by a fake clock in tests.
+ */
+export interface SchedulerClock {
+    now(): number;
+    setTimeout(callback: () => void, ms: number): unknown;
+    clearTimeout(handle: unknown): void;
+}
+
+export type SchedulerEvent =
+    | { type: 'queued'; trackId: string; time: number }
+    | { type: 'started'; trackId: string; time: number; running: number; limit: number }
+    | { type: 'completed'; trackId: string; time: number }
+    | { type: 'failed'; trackId: string; time: number; error?: Error }
+    | { type: 'blocked'; trackId: string; time: number; reason: string }
+    // Ready to start but no slot is free
+    | { type: 'waiting'; trackIds: string[]; time: number; limit: number }
+    | { type: 'paused' | 'resumed' | 'stopped' | 'finished'; time: number };
+
+export interface SchedulerOptions<T extends SchedulableTrack> {
+    // How many tracks may run at once, asked whenever a slot may have freed
+    concurrency: (load: { running: number; waiting: number }) => number;
+    // Higher runs first; ties keep the order tracks were given in
+    priority?: (track: T) => number;
+    // Finished earlier; they count as met dependencies and do not run
+    completedTrackIds?: string[];
+    // Only these tracks run; defaults to every track not completed
+    trackIds?: string[];
+    // While tracks wait for a slot, the limit is asked again this often, as it may grow
+    recheckIntervalMs?: number;
+    clock?: SchedulerClock;
+}
+
+type TrackPhase = 'excluded' | 'pending' | 'running' | 'completed' | 'failed' | 'blocked';
+
+const DEFAULT_RECHECK_INTERVAL_MS = 5 * 1000;
+
+export const systemClock: SchedulerClock = {
+    now: () => Date.now(),
+    setTimeout: (callback, ms) => {
+        const timer = setTimeout(callback, ms);
+        timer.unref?.();
+        return timer;
+    },
+    clearTimeout: handle => clearTimeout(handle as NodeJS.Timeout),
+};
+
+/**
+ * Runs tracks as soon as their dependencies are completed and a slot is
+ * free, highest priority first. Nothing polls: every start, finish, pause
+ * and resume re-evaluates the queue, and a timer only runs while ready
+ * tracks wait for the concurrency limit to grow.
+ */
+export class TrackScheduler<T extends SchedulableTrack> {
+    private phases = new Map<string, TrackPhase>();
+    private order = new Map<string, number>();
+    private running = 0;
+    private paused = false;
+    private stopped = false;
+    private finished = false;
+    private recheckTimer: unknown;
+    private lastWaiting = '';
+    private resolveRun: (() => void) | undefined;
+    private listeners = new Set<(event: SchedulerEvent) => void>();
+    private readonly clock: SchedulerClock;
+
+    constructor(
+        private readonly tracks: T[],
+        private readonly runTrack: (track: T) => Promise<boolean>,
+        private readonly options: SchedulerOptions<T>
+    ) {
+        this.clock = options.clock ?? systemClock;
+        const completed = new Set(options.completedTrackIds ?? []);
+        const included = options.trackIds ? new Set(options.trackIds) : undefined;
+        tracks.forEach((track, index) => {
+            this.order.set(track.id, index);
+            this.phases.set(track.id, completed.has(track.id) ? 'completed' : !included || included.has(track.id) ? 'pending' : 'excluded');
+        });
+    }
+
+    public onEvent(listener: (event: SchedulerEvent) => void): { dispose(): void } {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    }
+
+    /**
+     * Starts scheduling.
+     * @returns Resolves once no track is left to run, or once stopped and
+     *   the running tracks have finished.
+     */
+    public run(): Promise<void> {
+        const done = new Promise<void>(resolve => this.resolveRun = resolve);
+        this.pump();
+        return done;
+    }
+
+    /**
+     * Keeps tracks from starting; running ones carry on.
+     */
+    public pause(): void {
+        if (!this.paused && !this.finished) {
+            this.paused = true;
+            this.emit({ type: 'paused', time: this.clock.now() });
+        }
+    }
+
+    public resume(): void {
+        if (this.paused) {
+            this.paused = false;
+            this.emit({ type: 'resumed', time: this.clock.now() });
+            this.pump();
+        }
+    }
+
+    /**
+     * Starts no further tracks and finishes once the running ones have.
+     */
+    public stop(): void {
+        if (!this.stopped && !this.finished) {
+            this.stopped = true;
+            this.emit({ type: 'stopped', time: this.clock.now() });
+            this.pump();
+        }
+    }
+
+    /**
+     * Queues a track that is not running to run (again).
+     * @returns False once scheduling has finished or when the track is running.
+     */
+    public retry(trackId: string): boolean {
+        const phase = this.phases.get(trackId);
+        if (this.finished || phase === undefined || phase === 'running') {
+            return false;
+        }
+        this.phases.set(trackId, 'pending');
+        this.emit({ type: 'queued', trackId, time: this.clock.now() });
+        this.pump();
+        return true;
+    }
+
+    /**
+     * Marks a track that is not running as completed without running it,
+     * releasing the tracks that depend on it.
+     * @returns False once scheduling has finished or when the track is running.
+     */
+    public complete(trackId: string): boolean {
+        const phase = this.phases.get(trackId);
+        if (this.finished || phase === undefined || phase === 'running') {
+            return false;
+        }
+        this.phases.set(trackId, 'completed');
+        this.emit({ type: 'completed', trackId, time: this.clock.now() });
+        this.pump();
+        return true;
+    }
+
+    public get isFinished(): boolean {
+        return this.finished;
+    }
+
+    private pump(): void {
+        if (this.finished) {
+            return;
+        }
+        let ready = this.readyTracks();
+        if (!this.paused && !this.stopped && ready.length > 0) {
+            const limit = Math.max(1, this.options.concurrency({ running: this.running, waiting: ready.length }));
+            while (ready.length > 0 && this.running < limit) {
+                this.start(ready.shift()!, limit);
+            }
+            this.reportWaiting(ready, limit);
+        } else {
+            this.reportWaiting([], 0);
+        }
+
+        if (this.running === 0) {
+            ready = this.readyTracks();
+            const pending = this.tracks.filter(track => this.phases.get(track.id) === 'pending');
+            if (this.stopped || pending.length === 0) {
+                this.finish();
+            } else if (ready.length === 0) {
+                // Nothing runs and nothing can start: the rest wait on tracks that will not complete
+                pending.forEach(track => this.block(track));
+                this.finish();
+            }
+        }
+    }
+
+    private readyTracks(): T[] {
+        const priority = this.options.priority ?? (() => 0);
+        return this.tracks
+            .filter(track => this.phases.get(track.id) === 'pending' &&
+                track.dependencies.every(dependency => this.phases.get(dependency) === 'completed'))
+            .sort((a, b) => priority(b) - priority(a) || this.order.get(a.id)! - this.order.get(b.id)!);
+    }
+
+    private start(track: T, limit: number): void {
+        this.phases.set(track.id, 'running');
+        this.running++;
+        this.emit({ type: 'started', trackId: track.id, time: this.clock.now(), running: this.running, limit });
+
+        let settled: Promise<boolean>;
+        try {
+            settled = this.runTrack(track);
+        } catch (error: any) {
+            settled = Promise.reject(error);
+        }
+        settled.then(
+            succeeded => this.settle(track, succeeded ? 'completed' : 'failed'),
+            error => this.settle(track, 'failed', error instanceof Error ? error : new Error(String(error)))
+        );
+    }
+
+    private settle(track: T, phase: 'completed' | 'failed', error?: Error): void {
+        this.running--;
+        this.phases.set(track.id, phase);
+        this.emit(phase === 'completed'
+            ? { type: 'completed', trackId: track.id, time: this.clock.now() }
+            : { type: 'failed', trackId: track.id, time: this.clock.now(), error });
+        this.pump();
+    }
+
+    private block(track: T): void {
+        const failed = track.dependencies.filter(dependency => {
+            const phase = this.phases.get(dependency);
+            return phase === 'failed' || phase === 'blocked';
+        });
+        const unmet = track.dependencies.filter(dependency => this.phases.get(dependency) !== 'completed');
+        const reason = failed.length > 0
+            ? `Blocked by failed dependencies: ${failed.join(', ')}`
+            : unmet.length > 0
+                ? `Blocked by dependencies that are not run: ${unmet.join(', ')}`
+                : 'Blocked by circular dependencies';
+        this.phases.set(track.id, 'blocked');
+        this.emit({ type: 'blocked', trackId: track.id, time: this.clock.now(), reason });
+    }
+
+    /**
+     * Reports tracks held back by the limit, once per change, and keeps a
+     * timer asking for the limit again while there are any.
+     */
+    private reportWaiting(waiting: T[], limit: number): void {
+        const key = waiting.map(track => track.id).join(',');
+        if (key !== this.lastWaiting && waiting.length > 0) {
+            this.emit({ type: 'waiting', trackIds: waiting.map(track => track.id), time: this.clock.now(), limit });
+        }
+        this.lastWaiting = key;
+
+        if (waiting.length > 0 && this.recheckTimer === undefined) {
+            this.recheckTimer = this.clock.setTimeout(() => {
+                this.recheckTimer = undefined;
+                this.pump();
+            }, this.options.recheckIntervalMs ?? DEFAULT_RECHECK_INTERVAL_MS);
+        } else if (waiting.length === 0) {
+            this.clearRecheck();
+        }
+    }
+
+    private clearRecheck(): void {
+        if (this.recheckTimer !== undefined) {
+            this.clock.clearTimeout(this.recheckTimer);
+            this.recheckTimer = undefined;
+        }
+    }
+
+    private finish(): void {
+        this.finished = true;
+        this.clearRecheck();
+        this.emit({ type: 'finished', time: this.clock.now() });
+        this.resolveRun?.();
+    }
+
+    private emit(event: SchedulerEvent): void {
+        this.listeners.forEach(listener => listener(event));
+    }
+}
@@ -0,0 +1,180 @@
+import { Graph, alg } from '@dagrejs/graphlib';
+import { Track, WorkPlan } from './workPlanParser';
+
+/**
+ * Where a track sits in the plan when every track could run at once. All
+ * times are in minutes, the unit of Track.estimatedDuration.
+ */
+export interface TrackTiming {
+    earliestStart: number;
+    // Longest chain of estimates from the track's start to the end of the plan
+    remaining: number;
+    // How long the track can be held back without delaying the plan
+    slack: number;
+}
+
+export interface CriticalPath {
+    // Tracks with no slack, in order; tracks already completed are left out
+    trackIds: string[];
+    minutes: number;
+    timings: Map<string, TrackTiming>;
+}
+
+export interface ScheduleForecast {
+    concurrency: number;
+    makespanMinutes: number;
+    criticalPath: CriticalPath;
+    // Predicted start of each track that is to run, in minutes
+    starts: Map<string, number>;
+}
+
+export interface ForecastOptions {
+    // Finished earlier; they take no time
+    completedTrackIds?: string[];
+    // Only these tracks run, as in ExecuteOptions
+    trackIds?: string[];
+    // User-set priority of a track, higher first; 0 when unset
+    userPriority?: (trackId: string) => number;
+}
+
+/**
+ * Finds the longest chain of estimated durations through the plan's
+ * dependencies: the edges of its dependency graph plus each track's own
+ * dependencies, which are what the executor waits on.
+ * @returns Undefined when the dependencies are circular.
+ */
+export function findCriticalPath(workPlan: WorkPlan, completedTrackIds: string[] = []): CriticalPath | undefined {
+    const graph = dependencyGraphOf(workPlan);
+    if (!alg.isAcyclic(graph)) {
+        return undefined;
+    }
+    const completed = new Set(completedTrackIds);
+    const durations = new Map(workPlan.tracks.map(track =>
+        [track.id, completed.has(track.id) ? 0 : Math.max(0, track.estimatedDuration || 0)]));
+    const order = alg.topsort(graph);
+
+    const earliestStart = new Map<string, number>();
+    for (const trackId of order) {
+        const predecessors = graph.predecessors(trackId) ?? [];
+        earliestStart.set(trackId, Math.max(0, ...predecessors.map(id => earliestStart.get(id)! + durations.get(id)!)));
+    }
+    const remaining = new Map<string, number>();
+    for (const trackId of [...order].reverse()) {
+        const successors = graph.successors(trackId) ?? [];
+        remaining.set(trackId, durations.get(trackId)! + Math.max(0, ...successors.map(id => remaining.get(id)!)));
+    }
+    const minutes = Math.max(0, ...remaining.values());
+
+    const timings = new Map<string, TrackTiming>(order.map(trackId => [trackId, {
+        earliestStart: earliestStart.get(trackId)!,
+        remaining: remaining.get(trackId)!,
+        slack: minutes - earliestStart.get(trackId)! - remaining.get(trackId)!,
+    }]));
+
+    // Walk from the longest start along the successor that keeps the length
+    const trackIds: string[] = [];
+    const planOrder = new Map(workPlan.tracks.map((track, index) => [track.id, index]));
+    const longest = (candidates: string[]) => candidates
+        .filter(id => timings.get(id)!.slack === 0)
+        .sort((a, b) => remaining.get(b)! - remaining.get(a)! || planOrder.get(a)! - planOrder.get(b)!)[0];
+    let current = longest(order.filter(id => (graph.predecessors(id) ?? []).length === 0));
+    while (current !== undefined) {
+        if (!completed.has(current)) {
+            trackIds.push(current);
+        }
+        current = longest(graph.successors(current) ?? []);
+    }
+
+    return { trackIds, minutes, timings };
+}
+
+/**
+ * Orders ready tracks for the scheduler: user-set priority first, then the
+ * longest remaining chain, so tracks on the critical path start before
+ * tracks with slack.
+ * @returns The scheduler's priority function, higher first.
+ */
+export function createTrackPriority(
+    criticalPath: CriticalPath | undefined,
+    userPriority: (trackId: string) => number = () => 0
+): (track: Pick<Track, 'id'>) => number {
+    // Any step of user priority outweighs the longest chain
+    const scale = (criticalPath?.minutes ?? 0) + 1;
+    return track => userPriority(track.id) * scale + (criticalPath?.timings.get(track.id)?.remaining ?? 0);
+}
+
+/**
+ * Predicts how long the plan takes at a fixed concurrency, by scheduling the
+ * estimates the way the executor schedules tracks.
+ * @returns Undefined when the dependencies are circular.
+ */
+export function forecastSchedule(workPlan: WorkPlan, concurrency: number, options: ForecastOptions = {}): ScheduleForecast | undefined {
+    const completed = new Set(options.completedTrackIds ?? []);
+    const criticalPath = findCriticalPath(workPlan, [...completed]);
+    if (!criticalPath) {
+        return undefined;
+    }
+    const priority = createTrackPriority(criticalPath, options.userPriority);
+    const slots = Math.max(1, concurrency);
+    const included = options.trackIds ? new Set(options.trackIds) : undefined;
+    const pending = workPlan.tracks.filter(track => !completed.has(track.id) && (!included || included.has(track.id)));
+    const finished = new Set(completed);
+    const running: { track: Track; end: number }[] = [];
+    const starts = new Map<string, number>();
+    let now = 0;
+
+    for (;;) {
+        const ready = pending
+            .filter(track => !starts.has(track.id) && track.dependencies.every(id => finished.has(id)))
+            .sort((a, b) => priority(b) - priority(a));
+        while (running.length < slots && ready.length > 0) {
+            const track = ready.shift()!;
+            starts.set(track.id, now);
+            running.push({ track, end: now + Math.max(0, track.estimatedDuration || 0) });
+        }
+        if (running.length === 0) {
+            // Tracks waiting on ones that do not run are left out
+            break;
+        }
+        running.sort((a, b) => a.end - b.end);
+        const next = running.shift()!;
+        now = next.end;
+        finished.add(next.track.id);
+    }
+
+    return { concurrency: slots, makespanMinutes: now, criticalPath, starts };
+}
+
+// The priorities offered when setting one by hand
+export const TRACK_PRIORITIES = [
+    { label: 'High', value: 1 },
+    { label: 'Normal', value: 0 },
+    { label: 'Low', value: -1 },
+];
+
+export function formatPriority(priority: number): string {
+    return TRACK_PRIORITIES.find(level => level.value === priority)?.label ?? String(priority);
+}
+
+/**
+ * Formats minutes as e.g. "2h 30m".
+ */
+export function formatMinutes(minutes: number): string {
+    const rounded = Math.round(minutes);
+    const hours = Math.floor(rounded / 60);
+    return hours > 0 ? `${hours}h ${rounded % 60}m` : `${rounded}m`;
+}
+
+function dependencyGraphOf(workPlan: WorkPlan): Graph {
+    const graph = new Graph();
+    workPlan.tracks.forEach(track => graph.setNode(track.id));
+    for (const edge of workPlan.dependencyGraph.edges()) {
+        if (graph.hasNode(edge.v) && graph.hasNode(edge.w)) {
+            graph.setEdge(edge.v, edge.w);
+        }
+    }
+    for (const track of workPlan.tracks) {
+        track.dependencies.filter(id => graph.hasNode(id)).forEach(id => graph.setEdge(id, track.id));
+    }
+    return graph;
+}
@@ -3,12 +3,32 @@ import * as os from 'os';
 import { Track, WorkPlan } from './workPlanParser';
 import { GitWorktree } from '../worktree/gitWorktree';
 import { McpServerLauncher } from '../mcp/launcher';
+import { ToolCallError, textContent } from '../mcp/client';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { McpServerRegistration } from '../mcp/registration';
 import { Logger } from '../util/logger';
 import { ErrorHandler, RecoveryAction, CircuitBreaker } from '../util/errorHandler';
-import { startToolContainer, stopToolContainer } from '../containers/docker';
+import {
+    DEFAULT_TMPFS_MOUNTS,
+    createWorktreeChecker,
+    WORK_MOUNT_TARGET,
+    getDockerClient,
+    listManagedContainers,
+    loadSecurityProfile,
+    removeManagedContainers,
+    resolveToolImage,
+    startToolContainer,
+    stopToolContainer,
+    watchOomKills,
+} from '../containers/docker';
+import { ContainerStatsMonitor, ResourcePeaks, ResourceSample, formatBytes } from '../containers/stats';
+import { RooContainer } from '../containers/lifecycle';
+import { AdaptiveConcurrency, ScalingDecision } from './concurrency';
+import { PersistedTrack, ReconciledTrack, TrackStateReconciliation, TrackStateStore, reconcileTrackState } from './trackState';
+import { SchedulerEvent, TrackScheduler } from './scheduler';
+import { CancellationSignal, ExecutionControl } from './executionControl';
+import { ScheduleForecast, createTrackPriority, findCriticalPath, forecastSchedule, formatMinutes } from './schedulingPolicy';
 
-const MAX_CONCURRENCY = Math.min(3, Math.floor(os.cpus().length / 2));
 const logger = new Logger('TrackExecutor');
 
 // Configuration for retry logic
@@ -20,18 +40,13 @@ const RETRY_CONFIG = {
 };
 
 // Configuration for container management
+// The image itself is the digest pinned in .roo/tool-image.json, see resolveToolImage()
 const CONTAINER_CONFIG = {
-    imageName: 'roo-master/tool-image:latest',
     containerNamePrefix: 'roo-track-',
-    securityFlags: [
-        '--read-only',
-        '--cap-drop=ALL',
-        '--security-opt=no-new-privileges',
-        '--pids-limit=512',
-        '--memory=4g',
-        '--cpus=2',
-        '--user 1000:1000',
-    ],
+    // The track worktree is bind-mounted here; mcp-host resolves all paths against it
+    workMountTarget: WORK_MOUNT_TARGET,
+    // Writable caches, HOME and node_modules on top of the read-only root filesystem
+    tmpfsMounts: DEFAULT_TMPFS_MOUNTS,
 };
 
 export interface TrackExecutionResult {
@@ -40,6 +55,8 @@ export interface TrackExecutionResult {
     message?: string;
     retryCount: number;
     executionTimeMs: number;
+    // Highest resource usage of the track's container, when it could be sampled
+    peakUsage?: ResourcePeaks;
 }
 
 export interface ProgressReport {
@@ -49,6 +66,21 @@ export interface ProgressReport {
     runningTracks: number;
     currentTrack?: string;
     currentProgress?: number;
+    // Latest reading of each running track's container, by track id
+    resourceUsage?: Record<string, ResourceSample>;
+    // Peak usage of each finished track, by track id
+    peakUsage?: Record<string, ResourcePeaks>;
+    // How many tracks may run at once right now
+    concurrencyLimit?: number;
+    paused?: boolean;
+}
+
+export type ExecutionState = 'idle' | 'running' | 'paused';
+
+export interface ExecuteOptions {
+    completedTrackIds?: string[];
+    trackIds?: string[];
+    token?: vscode.CancellationToken;
 }
 
 export class TrackExecutor {
@@ -61,16 +93,35 @@ export class TrackExecutor {
     }>();
     private trackQueue: Track[] = [];
     private runningTrackIds = new Set<string>();
+    // Set while a work plan executes; retries and settled tracks go through it
+    private scheduler: TrackScheduler<Track> | undefined;
+    private schedulingEmitter = new vscode.EventEmitter<SchedulerEvent>();
+    public onSchedulingEvent = this.schedulingEmitter.event;
+    // Pausing and cancellation of the executing plan and of its running tracks
+    private control = new ExecutionControl();
+    private stateEmitter = new vscode.EventEmitter<ExecutionState>();
+    public onExecutionStateChange = this.stateEmitter.event;
     private completedTrackIds = new Set<string>();
     private failedTrackIds = new Set<string>();
     private progressReport: ProgressReport;
     private progressEmitter = new vscode.EventEmitter<ProgressReport>();
     public onProgressUpdate = this.progressEmitter.event;
+    // Samples track containers while they run; keyed by track id so retries add to the same peaks
+    private statsMonitor = new ContainerStatsMonitor(getDockerClient, {
+        onSample: (trackId, sample) => {
+            this.progressReport.resourceUsage = { ...this.progressReport.resourceUsage, [trackId]: sample };
+            this.progressEmitter.fire(this.progressReport);
+        },
+        onError: (trackId, error) => logger.debug(`Could not sample container of track ${trackId}: ${error.message}`),
+    });
+    // Created per work plan; re-evaluated whenever the scheduler may start a track
+    private concurrency: AdaptiveConcurrency | undefined;
 
     constructor(
         private context: vscode.ExtensionContext,
         private mcpServerLauncher: McpServerLauncher,
-        private mcpServerRegistration: McpServerRegistration // This is for the main extension's MCP server
+        private mcpServerRegistration: McpServerRegistration, // This is for the main extension's MCP server
+        private trackState: TrackStateStore
     ) {
         this.progressReport = {
             totalTracks: 0,
@@ -80,18 +131,73 @@ export class TrackExecutor {
         };
     }
 
-    public async executeWorkPlan(workPlan: WorkPlan): Promise<void> {
-        this.resetState();
+    /**
+     * Executes the tracks of a work plan, persisting their state as they go.
+     * @param workPlan The work plan to execute.
+     * @param options.completedTrackIds Tracks finished in an earlier run, e.g.
+     *   before VS Code reloaded; they are not run again, count as met
+     *   dependencies, and the persisted state of the plan is kept.
+     * @param options.trackIds Only run these tracks, e.g. to re-run one.
+     * @param options.token Cancels the execution like cancelExecution does.
+     */
+    public async executeWorkPlan(workPlan: WorkPlan, options: ExecuteOptions = {}): Promise<void> {
+        const token = this.control.begin(options.token);
+        this.stateEmitter.fire('running');
+        try {
+            await this.runWorkPlan(workPlan, options, token);
+        } finally {
+            this.control.end();
+            this.stateEmitter.fire('idle');
+        }
+    }
+
+    private async runWorkPlan(workPlan: WorkPlan, options: ExecuteOptions, token: CancellationSignal): Promise<void> {
+        await this.resetState();
         this.trackQueue = [...workPlan.tracks]; // Initialize queue with all tracks
         this.progressReport.totalTracks = workPlan.tracks.length;
+        if (options.completedTrackIds) {
+            options.completedTrackIds.forEach(trackId => this.completedTrackIds.add(trackId));
+            this.updateProgressReport();
+            logger.info(`Resuming work plan ${workPlan.id}: ${this.completedTrackIds.size} of ${workPlan.tracks.length} tracks already completed`);
+        } else {
+            await this.trackState.startWorkPlan(workPlan);
+        }
+        // All tracks unless resuming or re-running single tracks
+        const trackIds = options.trackIds ?? workPlan.tracks.map(track => track.id);
 
-        vscode.window.showInformationMessage(`Starting Work Plan execution with max concurrency: ${MAX_CONCURRENCY}`);
-        logger.info(`Starting Work Plan execution with max concurrency: ${MAX_CONCURRENCY}`);
+        const ceiling = this.getConcurrencyCeiling();
+        this.concurrency = new AdaptiveConcurrency(
+            { ceiling, initial: workPlan.recommendedConcurrency },
+            decision => this.onScalingDecision(decision)
+        );
+        this.progressReport.concurrencyLimit = this.concurrency.limit;
+
+        const forecast = this.forecastWorkPlan(workPlan, { completedTrackIds: Array.from(this.completedTrackIds), trackIds });
+        const predicted = forecast ? `, predicted to take ${formatMinutes(forecast.makespanMinutes)}` : '';
+        vscode.window.showInformationMessage(`Starting Work Plan execution with concurrency ${this.concurrency.limit} (at most ${ceiling})${predicted}`);
+        logger.info(`Starting Work Plan execution with concurrency ${this.concurrency.limit} (at most ${ceiling}, recommended ${workPlan.recommendedConcurrency ?? 'n/a'})${predicted}`);
+        if (forecast) {
+            logger.info(`Critical path (${formatMinutes(forecast.criticalPath.minutes)}): ${forecast.criticalPath.trackIds.join(' -> ') || 'none'}`);
+        } else {
+            logger.warn('Dependencies are circular; tracks are scheduled without a critical path.');
+        }
+
+        // OOM kills are reported by the engine; watching is best effort
+        const oomWatch = new AbortController();
+        watchOomKills(container => {
+            const decision = this.concurrency?.recordOomKill(container.trackId ? `track ${container.trackId} (${container.name})` : container.name);
+            if (decision) {
+                vscode.window.showWarningMessage(`Container ${container.name} ran out of memory; running at most ${decision.limit} track(s) at once for now.`);
+            }
+        }, oomWatch.signal).catch(error => logger.warn(`Not watching for OOM kills: ${error.message}`));
 
         try {
-            await this.processTracks(workPlan);
+            await this.processTracks(workPlan, trackIds, token);
 
-            if (this.failedTrackIds.size > 0) {
+            if (token.isCancellationRequested) {
+                vscode.window.showInformationMessage('Work Plan execution cancelled.');
+                logger.info('Work Plan execution cancelled.');
+            } else if (this.failedTrackIds.size > 0) {
                 vscode.window.showWarningMessage(`Work Plan execution completed with ${this.failedTrackIds.size} failed tracks.`);
                 logger.warn(`Work Plan execution completed with ${this.failedTrackIds.size} failed tracks.`);
             } else {
@@ -106,76 +212,136 @@ export class TrackExecutor {
                 context: 'TrackExecutor.executeWorkPlan'
             });
             throw error;
+        } finally {
+            oomWatch.abort();
         }
     }
 
-    private async processTracks(workPlan: WorkPlan): Promise<void> {
-        while (this.completedTrackIds.size + this.failedTrackIds.size < workPlan.tracks.length) {
-            // Identify tracks that are ready to run
-            const readyTracks = workPlan.tracks.filter(track =>
-                !this.runningTrackIds.has(track.id) &&
-                !this.completedTrackIds.has(track.id) &&
-                !this.failedTrackIds.has(track.id) &&
-                track.dependencies.every(depId => this.completedTrackIds.has(depId))
-            );
+    /**
+     * The most tracks allowed at once: the roo-master.maxConcurrency setting,
+     * or half the CPU cores when it is 0.
+     */
+    private getConcurrencyCeiling(): number {
+        const configured = vscode.workspace.getConfiguration('roo-master').get<number>('maxConcurrency', 0);
+        return configured > 0 ? Math.floor(configured) : Math.max(1, Math.floor(os.cpus().length / 2));
+    }
 
-            // Filter for tracks that can run in parallel based on the work plan's parallelizable groups
-            const executableTracksInThisCycle: Track[] = [];
-            for (const parallelGroup of workPlan.parallelizableTracks) {
-                const potentialTracks = parallelGroup.map(id => workPlan.tracks.find(t => t.id === id)).filter((t): t is Track => !!t);
-                
-                // Check if any of these potential tracks are ready and not already running
-                const runnableInGroup = potentialTracks.filter(pt =>
-                    readyTracks.some(rt => rt.id === pt.id) &&
-                    !this.runningTrackIds.has(pt.id)
-                );
+    /**
+     * Re-evaluates the concurrency limit against free memory, load and the
+     * running containers' usage.
+     * @returns The number of tracks that may run at once.
+     */
+    private evaluateConcurrency(waitingTracks: number): number {
+        if (!this.concurrency) {
+            return 1;
+        }
+        this.concurrency.evaluate({
+            freeMemoryBytes: os.freemem(),
+            loadAverage: os.loadavg()[0],
+            cpuCount: os.cpus().length,
+            runningTracks: this.runningTrackIds.size,
+            waitingTracks,
+            containerUsage: Object.values(this.progressReport.resourceUsage ?? {}),
+        });
+        return this.concurrency.limit;
+    }
 
-                // Add to executable if we have capacity
-                for (const track of runnableInGroup) {
-                    if (this.runningTrackIds.size < MAX_CONCURRENCY) {
-                        executableTracksInThisCycle.push(track);
-                        this.runningTrackIds.add(track.id);
-                    } else {
-                        break; // Max concurrency reached
-                    }
-                }
-                if (this.runningTrackIds.size >= MAX_CONCURRENCY) {
-                    break; // Max concurrency reached across all groups
-                }
-            }
+    private onScalingDecision(decision: ScalingDecision): void {
+        if (decision.limit === decision.previous) {
+            logger.debug(`Concurrency held at ${decision.limit}: ${decision.reason}`);
+            return;
+        }
+        logger.info(`Concurrency ${decision.previous} -> ${decision.limit}: ${decision.reason}`);
+        this.progressReport.concurrencyLimit = decision.limit;
+        this.progressEmitter.fire(this.progressReport);
+    }
 
-            if (executableTracksInThisCycle.length === 0 && this.runningTrackIds.size === 0) {
-                // No tracks ready to run and nothing is currently running.
-                // This could indicate a deadlock (circular dependency) or all remaining tracks
-                // are blocked by failed dependencies.
-                const blockedTracks = workPlan.tracks.filter(track =>
-                    !this.completedTrackIds.has(track.id) &&
-                    !this.failedTrackIds.has(track.id) &&
-                    !this.runningTrackIds.has(track.id)
-                );
-                if (blockedTracks.length > 0) {
-                    logger.error('Work Plan execution stalled. Possible circular dependencies or unresolvable blocks.');
-                    vscode.window.showErrorMessage('Work Plan execution stalled. Check logs for details.');
-                    // Mark remaining as failed to unblock the loop
-                    blockedTracks.forEach(track => this.failedTrackIds.add(track.id));
-                }
-                break; // Exit loop if no progress can be made
+    /**
+     * Predicts how long a work plan takes at the concurrency it would start
+     * with, scheduling tracks by the same priorities as the execution.
+     * @returns Undefined when the dependencies are circular.
+     */
+    public forecastWorkPlan(workPlan: WorkPlan, options: Pick<ExecuteOptions, 'completedTrackIds' | 'trackIds'> = {}): ScheduleForecast | undefined {
+        const ceiling = this.getConcurrencyCeiling();
+        return forecastSchedule(workPlan, Math.min(workPlan.recommendedConcurrency ?? ceiling, ceiling), {
+            ...options,
+            userPriority: trackId => this.getTrackPriority(workPlan, trackId),
+        });
+    }
+
+    private getTrackPriority(workPlan: WorkPlan, trackId: string): number {
+        return this.trackState.getTrack(trackId)?.priority ?? workPlan.tracks.find(track => track.id === trackId)?.priority ?? 0;
+    }
+
+    /**
+     * Runs the scheduled tracks, each as soon as its dependencies are
+     * completed and a slot is free. When more tracks are ready than may run,
+     * user-set priority goes first, then the longest chain of estimated
+     * durations still ahead, which puts the critical path first.
+     */
+    private async processTracks(workPlan: WorkPlan, trackIds: string[], token: CancellationSignal): Promise<void> {
+        // Read on every scheduling decision, so priorities set while running apply to tracks not started
+        const priority = createTrackPriority(
+            findCriticalPath(workPlan, Array.from(this.completedTrackIds)),
+            trackId => this.getTrackPriority(workPlan, trackId)
+        );
+
+        const scheduler = new TrackScheduler(
+            workPlan.tracks,
+            async track => (await this.executeTrack(track, token)).success,
+            {
+                completedTrackIds: Array.from(this.completedTrackIds),
+                trackIds,
+                priority,
+                concurrency: ({ waiting }) => this.evaluateConcurrency(waiting),
+            }
+        );
+        const blocked: string[] = [];
+        const subscription = scheduler.onEvent(event => {
+            if (event.type === 'blocked') {
+                blocked.push(event.trackId);
+                this.failedTrackIds.add(event.trackId);
+                this.recordTrackState(event.trackId, { status: 'failed', statusMessage: event.reason });
+                logger.error(`Track ${event.trackId}: ${event.reason}`);
+                this.updateProgressReport();
+            } else {
+                logger.debug(`Scheduling: ${JSON.stringify(event)}`);
             }
+            this.schedulingEmitter.fire(event);
+        });
+        // Tracks not started stay pending and can be resumed
+        const stop = token.onCancellationRequested(() => scheduler.stop());
+        this.scheduler = scheduler;
+        if (this.control.isPaused) {
+            scheduler.pause();
+        }
+        if (token.isCancellationRequested) {
+            scheduler.stop();
+        }
 
-            // Start executing the identified tracks in parallel
-            const executionPromises = executableTracksInThisCycle.map(track => this.executeTrack(track));
-            await Promise.allSettled(executionPromises);
+        try {
+            await scheduler.run();
+        } finally {
+            stop.dispose();
+            subscription.dispose();
+            this.scheduler = undefined;
+        }
 
-            // Small delay to prevent busy-waiting and allow other VS Code operations
-            await new Promise(resolve => setTimeout(resolve, 1000));
+        if (blocked.length > 0) {
+            logger.error('Work Plan execution stalled. Possible circular dependencies or unresolvable blocks.');
+            vscode.window.showErrorMessage(`Work Plan execution stalled: ${blocked.length} track(s) blocked. Check logs for details.`);
         }
     }
 
-    private async executeTrack(track: Track): Promise<TrackExecutionResult> {
+    private async executeTrack(track: Track, planToken: CancellationSignal): Promise<TrackExecutionResult> {
         const startTime = Date.now();
         let retryCount = 0;
         let lastError: Error | null = null;
 
+        // Cancelled with the whole plan, or on its own by cancelTrack
+        const token = this.control.beginTrack(track.id, planToken);
+
+        this.runningTrackIds.add(track.id);
         logger.info(`Executing track: ${track.name} (${track.id})`);
         vscode.window.showInformationMessage(`Executing track: ${track.name}`);
 
@@ -194,7 +360,7 @@ export class TrackExecutor {
 
             // Execute track with circuit breaker protection
             const result = await circuitBreaker.execute(async () => {
-                return await this.executeTrackWithRetry(track, retryCount);
+                return await this.executeTrackWithRetry(track, retryCount, token);
             });
 
             // Update progress on success
@@ -203,22 +369,32 @@ export class TrackExecutor {
             
             return result;
         } catch (error: any) {
+            if (token.isCancellationRequested) {
+                return this.finishCancelledTrack(track, retryCount, startTime);
+            }
+
             const errorMessage = error instanceof Error ? error.message : String(error);
             logger.error(`Track ${track.id} failed: ${errorMessage}`);
             
             // Try to recover from the error
-            const recoveryResult = await this.attemptTrackRecovery(track, retryCount, error);
+            const recoveryResult = await this.attemptTrackRecovery(track, retryCount, error, token);
             
             if (recoveryResult.success && recoveryResult.result) {
                 return recoveryResult.result;
             }
+            if (token.isCancellationRequested) {
+                return this.finishCancelledTrack(track, retryCount, startTime);
+            }
 
             // Update progress on failure
             this.failedTrackIds.add(track.id);
+            this.recordTrackState(track.id, { status: 'failed', statusMessage: errorMessage });
+            const peakUsage = this.finishResourceMonitoring(track.id);
             this.progressEmitter.fire(this.progressReport);
             
-            // Show error to user with recovery actions
-            await ErrorHandler.handleError(error, {
+            // Show error to user with recovery actions; not awaited, so the
+            // track settles and frees its slot while the notification is open
+            void ErrorHandler.handleError(error, {
                 showUser: true,
                 logLevel: 'error',
                 context: `TrackExecutor:${track.id}`,
@@ -231,39 +407,81 @@ export class TrackExecutor {
                 message: errorMessage,
                 retryCount,
                 executionTimeMs: Date.now() - startTime,
+                peakUsage,
             };
+        } finally {
+            this.control.endTrack(track.id);
+            this.runningTrackIds.delete(track.id);
+            this.updateProgressReport();
         }
     }
 
-    private async executeTrackAttempt(track: Track, retryCount: number): Promise<TrackExecutionResult> {
+    /**
+     * Releases a cancelled track's resources and records it as failed, so it
+     * can be retried or resumed later.
+     */
+    private async finishCancelledTrack(track: Track, retryCount: number, startTime: number): Promise<TrackExecutionResult> {
+        logger.info(`Track ${track.id} cancelled`);
+        await this.cleanupTrackResources(track.id);
+        const peakUsage = this.finishResourceMonitoring(track.id);
+        this.failedTrackIds.add(track.id);
+        this.recordTrackState(track.id, { status: 'failed', statusMessage: 'Cancelled' });
+        this.progressEmitter.fire(this.progressReport);
+        return {
+            trackId: track.id,
+            success: false,
+            message: 'Cancelled',
+            retryCount,
+            executionTimeMs: Date.now() - startTime,
+            peakUsage,
+        };
+    }
+
+    private async executeTrackAttempt(track: Track, retryCount: number, token: CancellationSignal): Promise<TrackExecutionResult> {
         const startTime = Date.now();
         let worktree: GitWorktree | undefined;
         let serverRegistration: McpServerRegistration | undefined;
         let containerId: string | undefined;
 
         try {
+            this.throwIfCancelled(token);
             // 1. Create branch `puppet/<track-slug>` and sibling worktree `../<track-slug>`
             const branchName = `puppet/${track.id}`;
             const worktreePath = vscode.Uri.joinPath(this.context.globalStorageUri, 'worktrees', track.id);
+            this.recordTrackState(track.id, { status: 'in-progress', statusMessage: undefined, branchName, worktreePath: worktreePath.fsPath, retryCount });
             worktree = new GitWorktree(worktreePath.fsPath);
 
             // Ensure the base branch exists and is up-to-date before creating the worktree
             await worktree.createWorktree(branchName);
             logger.info(`Created worktree for track ${track.id} at ${worktreePath.fsPath}`);
+            this.throwIfCancelled(token);
 
             // 2. Start one tool container bound to that worktree
             const containerName = `${CONTAINER_CONFIG.containerNamePrefix}${track.id}`;
+            const projectRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
             containerId = await startToolContainer(
-                CONTAINER_CONFIG.imageName,
+                resolveToolImage(projectRoot),
                 containerName,
-                [] // No port bindings for security
+                [], // No port bindings for security
+                {
+                    worktreePath: worktreePath.fsPath,
+                    allowedWorktreeRoot: vscode.Uri.joinPath(this.context.globalStorageUri, 'worktrees').fsPath,
+                    tmpfsMounts: CONTAINER_CONFIG.tmpfsMounts,
+                    // Read from the main checkout; the worktree's copy is under the agent's control
+                    securityProfile: loadSecurityProfile(projectRoot),
+                    trackId: track.id,
+                }
             );
             logger.info(`Started container ${containerName} for track ${track.id}`);
+            this.statsMonitor.watch(track.id, containerId);
+            this.recordTrackState(track.id, { containerId, containerName });
+            this.throwIfCancelled(token);
 
             // 3. Register an MCP server for that worktree (stdio launcher)
             serverRegistration = new McpServerRegistration(this.mcpServerLauncher);
-            await serverRegistration.registerServer(worktreePath.fsPath);
+            await serverRegistration.registerServer(worktreePath.fsPath, { containerName, projectRoot });
             logger.info(`Registered MCP server for track ${track.id}`);
+            this.recordTrackState(track.id, { mcpPort: this.mcpServerLauncher.getActiveMcpServers().get(worktreePath.fsPath)?.port });
 
             // Store active track information
             this.activeTracks.set(track.id, { 
@@ -283,8 +501,10 @@ export class TrackExecutor {
             this.progressReport.currentProgress = Math.round((currentStep / totalSteps) * 100);
             this.progressEmitter.fire(this.progressReport);
             
+            await this.control.waitWhilePaused(token);
+            this.throwIfCancelled(token);
             vscode.window.showInformationMessage(`Track ${track.name}: Building project...`);
-            await this.mcpServerLauncher.useTool(worktreePath.fsPath, 'build.project', {});
+            await this.runTrackTool(track, worktreePath.fsPath, 'build.project', {}, token);
             logger.info(`Track ${track.id}: Project built.`);
 
             // Step 2: Run tests
@@ -292,8 +512,10 @@ export class TrackExecutor {
             this.progressReport.currentProgress = Math.round((currentStep / totalSteps) * 100);
             this.progressEmitter.fire(this.progressReport);
             
+            await this.control.waitWhilePaused(token);
+            this.throwIfCancelled(token);
             vscode.window.showInformationMessage(`Track ${track.name}: Running tests...`);
-            await this.mcpServerLauncher.useTool(worktreePath.fsPath, 'test.run', {});
+            await this.runTrackTool(track, worktreePath.fsPath, 'test.run', {}, token);
             logger.info(`Track ${track.id}: Tests run.`);
 
             // Step 3: Fix linting issues
@@ -301,8 +523,10 @@ export class TrackExecutor {
             this.progressReport.currentProgress = Math.round((currentStep / totalSteps) * 100);
             this.progressEmitter.fire(this.progressReport);
             
+            await this.control.waitWhilePaused(token);
+            this.throwIfCancelled(token);
             vscode.window.showInformationMessage(`Track ${track.name}: Fixing linting issues...`);
-            await this.mcpServerLauncher.useTool(worktreePath.fsPath, 'lint.fix', {});
+            await this.runTrackTool(track, worktreePath.fsPath, 'lint.fix', {}, token);
             logger.info(`Track ${track.id}: Linting fixed.`);
 
             // Commit changes made by the tools
@@ -310,6 +534,7 @@ export class TrackExecutor {
             logger.info(`Changes committed for track ${track.id}`);
 
             this.completedTrackIds.add(track.id);
+            this.recordTrackState(track.id, { status: 'completed', statusMessage: undefined });
             vscode.window.showInformationMessage(`Track ${track.name} completed successfully.`);
             logger.info(`Track ${track.id} completed successfully.`);
 
@@ -318,6 +543,7 @@ export class TrackExecutor {
                 success: true,
                 retryCount,
                 executionTimeMs: Date.now() - startTime,
+                peakUsage: this.finishResourceMonitoring(track.id),
             };
 
         } catch (error: any) {
@@ -326,6 +552,52 @@ export class TrackExecutor {
         }
     }
 
+    /**
+     * Runs one MCP tool step of a track. A result flagged with isError fails the step.
+     * Cancelling `token` aborts the call in flight; the server stops the tool's processes.
+     */
+    private async runTrackTool(
+        track: Track,
+        worktreePath: string,
+        toolName: string,
+        args: Record<string, unknown>,
+        token: CancellationSignal
+    ): Promise<CallToolResult> {
+        const abort = new AbortController();
+        const listener = token.onCancellationRequested(() => abort.abort());
+        if (token.isCancellationRequested) {
+            abort.abort();
+        }
+        let result: CallToolResult;
+        try {
+            result = await this.mcpServerLauncher.useTool(worktreePath, toolName, args, { signal: abort.signal });
+        } finally {
+            listener.dispose();
+        }
+        if (result.isError) {
+            logger.error(`Track ${track.id}: ${toolName} failed:\n${textContent(result)}`);
+            throw new ToolCallError(toolName, result);
+        }
+        return result;
+    }
+
+    /**
+     * Stops sampling a track's container and records its peak usage.
+     * @param trackId The ID of the finished track.
+     * @returns The peak usage, if the container could be sampled.
+     */
+    private finishResourceMonitoring(trackId: string): ResourcePeaks | undefined {
+        const peaks = this.statsMonitor.unwatch(trackId);
+        const { [trackId]: _latest, ...resourceUsage } = this.progressReport.resourceUsage ?? {};
+        this.progressReport.resourceUsage = resourceUsage;
+        if (peaks) {
+            this.progressReport.peakUsage = { ...this.progressReport.peakUsage, [trackId]: peaks };
+            logger.info(`Track ${trackId} peak usage: CPU ${Math.round(peaks.cpuPercent)}%, memory ${formatBytes(peaks.memoryBytes)}, ${peaks.pids} pids, ` +
+                `disk read ${formatBytes(peaks.blockReadBytes)}, written ${formatBytes(peaks.blockWriteBytes)}`);
+        }
+        return peaks;
+    }
+
     /**
      * Determines if an error is retryable.
      * @param error The error to evaluate.
@@ -407,7 +679,8 @@ export class TrackExecutor {
     private async attemptTrackRecovery(
         track: Track,
         retryCount: number,
-        error: any
+        error: any,
+        token: CancellationSignal
     ): Promise<{ success: boolean; result?: TrackExecutionResult }> {
         const errorMessage = error instanceof Error ? error.message : String(error);
         logger.info(`Attempting recovery for track ${track.id}: ${errorMessage}`);
@@ -431,14 +704,15 @@ export class TrackExecutor {
                 );
                 
                 logger.info(`Waiting ${delayMs}ms before retry...`);
-                await new Promise(resolve => setTimeout(resolve, delayMs));
+                await this.control.delay(delayMs, token);
+                this.throwIfCancelled(token);
 
                 // Get circuit breaker for this track and reset it
                 const circuitBreaker = ErrorHandler.getCircuitBreaker(`track-${track.id}`);
                 circuitBreaker.reset();
 
                 // Execute track with increased retry count
-                const result = await this.executeTrackWithRetry(track, retryCount + 1);
+                const result = await this.executeTrackWithRetry(track, retryCount + 1, token);
                 
                 return {
                     success: true,
@@ -469,19 +743,16 @@ export class TrackExecutor {
                 label: 'Retry Track',
                 callback: async () => {
                     try {
-                        // Reset circuit breaker
-                        const circuitBreaker = ErrorHandler.getCircuitBreaker(`track-${track.id}`);
-                        circuitBreaker.reset();
-                        
-                        // Re-execute the track
-                        const result = await this.executeTrackWithRetry(track, retryCount + 1);
-                        return result.success;
+                        // Scheduled like any retry, so its state is kept and its dependents run
+                        await this.retryTrack(track.id);
+                        // Pending when scheduled into the running execution, settled when it ran on its own
+                        return this.trackState.getTrack(track.id)?.status !== 'failed';
                     } catch (error: any) {
                         logger.error(`Failed to retry track ${track.id}: ${error.message}`);
                         return false;
                     }
                 },
-                description: `Retry the track execution (attempt ${retryCount + 1}/${RETRY_CONFIG.maxRetries})`
+                description: 'Run the track again, in the current execution if one is running'
             });
         }
 
@@ -528,7 +799,7 @@ export class TrackExecutor {
      * @param retryCount The current retry count
      * @returns Track execution result
      */
-    private async executeTrackWithRetry(track: Track, retryCount: number): Promise<TrackExecutionResult> {
+    private async executeTrackWithRetry(track: Track, retryCount: number, token: CancellationSignal): Promise<TrackExecutionResult> {
         while (retryCount <= RETRY_CONFIG.maxRetries) {
             try {
                 if (retryCount > 0) {
@@ -538,10 +809,11 @@ export class TrackExecutor {
                     );
                     
                     logger.info(`Retrying track ${track.id} (attempt ${retryCount}/${RETRY_CONFIG.maxRetries}) after ${delayMs}ms delay`);
-                    await new Promise(resolve => setTimeout(resolve, delayMs));
+                    await this.control.delay(delayMs, token);
+                    this.throwIfCancelled(token);
                 }
 
-                const result = await this.executeTrackAttempt(track, retryCount);
+                const result = await this.executeTrackAttempt(track, retryCount, token);
                 
                 // Update progress on success
                 this.progressReport.currentProgress = 100;
@@ -552,7 +824,7 @@ export class TrackExecutor {
                 logger.warn(`Track ${track.id} attempt ${retryCount + 1} failed: ${error.message}`);
                 
                 // Check if this is a retryable error
-                if (!this.isRetryableError(error) || retryCount >= RETRY_CONFIG.maxRetries) {
+                if (token.isCancellationRequested || !this.isRetryableError(error) || retryCount >= RETRY_CONFIG.maxRetries) {
                     throw error;
                 }
                 
@@ -566,40 +838,221 @@ export class TrackExecutor {
         throw new Error(`Track ${track.id} failed after ${RETRY_CONFIG.maxRetries} retries`);
     }
 
-    private scheduleNextTracks(): void {
-        // This method is called after a track finishes (success or failure)
-        // to check if new tracks can be started.
-        // The main processTracks loop handles the overall scheduling based on dependencies and concurrency.
-        // This is more of a trigger to re-evaluate.
-        logger.debug('Re-evaluating tracks for scheduling...');
-        this.updateProgressReport();
-        // The processTracks loop will pick this up on its next iteration.
-    }
-
-    private resetState(): void {
+    private async resetState(): Promise<void> {
         // Clean up all active tracks
         const cleanupPromises = Array.from(this.activeTracks.keys()).map(trackId => 
             this.cleanupTrackResources(trackId)
         );
         
-        Promise.allSettled(cleanupPromises).then(() => {
-            this.activeTracks.clear();
-            this.trackQueue = [];
-            this.runningTrackIds.clear();
-            this.completedTrackIds.clear();
-            this.failedTrackIds.clear();
-            
-            // Reset progress report
-            this.progressReport = {
-                totalTracks: 0,
-                completedTracks: 0,
-                failedTracks: 0,
-                runningTracks: 0,
-            };
-            this.progressEmitter.fire(this.progressReport);
-            
-            logger.info('TrackExecutor state reset.');
+        this.statsMonitor.dispose();
+
+        // Wait for the cleanup, so nothing it clears belongs to the next run
+        await Promise.allSettled(cleanupPromises);
+        this.activeTracks.clear();
+        this.trackQueue = [];
+        this.runningTrackIds.clear();
+        this.completedTrackIds.clear();
+        this.failedTrackIds.clear();
+        
+        // Reset progress report
+        this.progressReport = {
+            totalTracks: 0,
+            completedTracks: 0,
+            failedTracks: 0,
+            runningTracks: 0,
+        };
+        this.progressEmitter.fire(this.progressReport);
+        
+        logger.info('TrackExecutor state reset.');
+    }
+
+    /**
+     * Persists part of a track's state. Failing to persist does not fail the track.
+     */
+    private recordTrackState(trackId: string, update: Partial<Omit<PersistedTrack, 'updatedAt'>>): void {
+        this.trackState.updateTrack(trackId, update)
+            .then(undefined, error => logger.warn(`Could not persist state of track ${trackId}: ${error.message}`));
+    }
+
+    /**
+     * Checks the persisted work plan against the worktrees and containers
+     * that exist, e.g. after VS Code was restarted mid-run.
+     * @returns The reconciled tracks, or undefined when nothing was persisted.
+     */
+    public async reconcilePersistedState(): Promise<TrackStateReconciliation | undefined> {
+        if (!this.trackState.getWorkPlan()) {
+            return undefined;
+        }
+        let containers: RooContainer[] = [];
+        try {
+            containers = await listManagedContainers();
+        } catch (error: any) {
+            logger.warn(`Cannot list containers, reconciling worktrees only: ${error.message}`);
+        }
+        const workspace = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        return reconcileTrackState(this.trackState, {
+            workspace,
+            containers,
+            worktreeExists: await createWorktreeChecker(workspace),
+        });
+    }
+
+    /**
+     * Removes the containers and worktrees left behind by reconciled tracks.
+     * Branches are kept, so committed work stays reachable.
+     * @param tracks The tracks whose resources to remove.
+     * @returns Descriptions of what could not be removed.
+     */
+    public async discardTrackResources(tracks: ReconciledTrack[]): Promise<string[]> {
+        const failures: string[] = [];
+        const containers = tracks.flatMap(track => track.containers);
+        if (containers.length > 0) {
+            const result = await removeManagedContainers(containers);
+            failures.push(...result.failed.map(failure => `container ${failure.name}: ${failure.error}`));
+        }
+
+        const projectRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        for (const track of tracks) {
+            if (!track.worktreePath || !projectRoot) {
+                continue;
+            }
+            try {
+                const branchName = this.trackState.getTrack(track.id)?.branchName ?? `puppet/${track.id}`;
+                await new GitWorktree(projectRoot).removeWorktree(branchName, track.worktreePath);
+                logger.info(`Removed worktree of track ${track.id} at ${track.worktreePath}`);
+            } catch (error: any) {
+                failures.push(`worktree ${track.worktreePath}: ${error.message}`);
+            }
+        }
+        return failures;
+    }
+
+    /**
+     * Runs the persisted work plan's tracks that have not finished, or only
+     * `trackIds`. Tracks that are done, skipped or forced complete satisfy
+     * dependencies without running again; what unfinished tracks left behind
+     * is removed first, as they start over.
+     * @param token Cancels the execution like cancelExecution does.
+     * @returns False when there was nothing left to run.
+     */
+    public async resumeWorkPlan(trackIds?: string[], token?: vscode.CancellationToken): Promise<boolean> {
+        if (this.control.isRunning) {
+            throw new Error('A work plan is already being executed.');
+        }
+        const reconciliation = await this.reconcilePersistedState();
+        if (!reconciliation) {
+            throw new Error('There is no work plan to resume.');
+        }
+
+        const done = reconciliation.tracks.filter(track => track.done);
+        const toRun = reconciliation.tracks.filter(track => !track.done && (!trackIds || trackIds.includes(track.id)));
+        if (toRun.length === 0) {
+            logger.info(`Nothing to resume in work plan ${reconciliation.workPlan.id}`);
+            return false;
+        }
+        const failures = await this.discardTrackResources(toRun.filter(track => track.worktreePath || track.containers.length > 0));
+        failures.forEach(failure => logger.warn(`Could not clean up before resuming: ${failure}`));
+        toRun.forEach(track => {
+            ErrorHandler.getCircuitBreaker(`track-${track.id}`).reset();
+            this.recordTrackState(track.id, { status: 'pending', statusMessage: 'Waiting to run' });
+        });
+
+        await this.executeWorkPlan(reconciliation.workPlan, {
+            completedTrackIds: done.map(track => track.id),
+            trackIds: toRun.map(track => track.id),
+            token,
         });
+        return true;
+    }
+
+    /**
+     * Runs a failed or skipped track again. While the work plan executes the
+     * track is scheduled into the running execution; otherwise it runs on its own.
+     */
+    public async retryTrack(trackId: string, token?: vscode.CancellationToken): Promise<void> {
+        const persisted = this.requirePersistedTrack(trackId);
+        if (persisted.status !== 'failed' && persisted.status !== 'skipped') {
+            throw new Error(`Track ${trackId} is ${persisted.status}; only failed or skipped tracks can be retried.`);
+        }
+        ErrorHandler.getCircuitBreaker(`track-${trackId}`).reset();
+        if (!this.control.isRunning) {
+            await this.resumeWorkPlan([trackId], token);
+            return;
+        }
+        if (!this.scheduler?.retry(trackId)) {
+            throw new Error(`Track ${trackId} cannot be retried until the current execution has finished.`);
+        }
+        this.failedTrackIds.delete(trackId);
+        this.completedTrackIds.delete(trackId);
+        this.recordTrackState(trackId, { status: 'pending', statusMessage: 'Waiting to retry' });
+        this.updateProgressReport();
+        logger.info(`Track ${trackId} scheduled for retry`);
+    }
+
+    /**
+     * Leaves a track out without running it. Tracks depending on it are no
+     * longer held back by it; its branch is not merged.
+     */
+    public async skipTrack(trackId: string): Promise<void> {
+        await this.settleTrack(trackId, 'skipped', 'Skipped');
+    }
+
+    /**
+     * Marks a track completed as it stands, e.g. after finishing its work by
+     * hand in the worktree. It is merged like any completed track.
+     */
+    public async forceCompleteTrack(trackId: string): Promise<void> {
+        await this.settleTrack(trackId, 'completed', 'Marked completed by hand');
+    }
+
+    private async settleTrack(trackId: string, status: 'skipped' | 'completed', statusMessage: string): Promise<void> {
+        const persisted = this.requirePersistedTrack(trackId);
+        if (this.runningTrackIds.has(trackId) || persisted.status === 'in-progress' && this.control.isRunning) {
+            throw new Error(`Track ${trackId} is running; wait for it to finish or cancel it first.`);
+        }
+        if (persisted.status !== 'pending' && persisted.status !== 'failed') {
+            throw new Error(`Track ${trackId} is ${persisted.status}; only pending or failed tracks can be ${status === 'skipped' ? 'skipped' : 'marked completed'}.`);
+        }
+        await this.trackState.updateTrack(trackId, { status, statusMessage });
+        if (this.control.isRunning) {
+            this.failedTrackIds.delete(trackId);
+            this.completedTrackIds.add(trackId);
+            this.scheduler?.complete(trackId);
+            this.updateProgressReport();
+        }
+        logger.info(`Track ${trackId} ${status === 'skipped' ? 'skipped' : 'marked completed'}`);
+    }
+
+    /**
+     * Sets a track's scheduling priority, higher first. While the work plan
+     * executes, it applies the next time a slot frees up.
+     */
+    public async setTrackPriority(trackId: string, priority: number): Promise<void> {
+        this.requirePersistedTrack(trackId);
+        await this.trackState.updateTrack(trackId, { priority });
+        logger.info(`Track ${trackId} priority set to ${priority}`);
+    }
+
+    private requirePersistedTrack(trackId: string): PersistedTrack {
+        const persisted = this.trackState.getTrack(trackId);
+        if (!persisted) {
+            throw new Error(`Track ${trackId} is not part of the current work plan.`);
+        }
+        return persisted;
+    }
+
+    /**
+     * Whether a work plan is being executed right now.
+     */
+    public get isExecuting(): boolean {
+        return this.control.isRunning;
+    }
+
+    /**
+     * Forgets the persisted work plan.
+     */
+    public async clearPersistedState(): Promise<void> {
+        await this.trackState.clear();
     }
 
     /**
@@ -621,22 +1074,75 @@ export class TrackExecutor {
     }
 
     /**
-     * Cancels execution of all tracks and cleans up resources.
+     * Gets the tracks being executed, including those still setting up their container.
+     * @returns The IDs of the running tracks.
+     */
+    public getActiveTrackIds(): string[] {
+        return Array.from(new Set([...this.runningTrackIds, ...this.activeTracks.keys()]));
+    }
+
+    /**
+     * Cancels execution of all tracks. In-flight MCP tool calls are aborted
+     * and each running track releases its resources and is recorded as
+     * failed; tracks not yet started stay pending.
      */
     public async cancelExecution(): Promise<void> {
+        if (!this.control.isRunning) {
+            logger.info('No work plan is executing; nothing to cancel.');
+            return;
+        }
         logger.info('Cancelling track execution...');
-        
-        // Cancel all running tracks
-        const runningTrackIds = Array.from(this.runningTrackIds);
-        for (const trackId of runningTrackIds) {
-            await this.cleanupTrackResources(trackId);
-            this.failedTrackIds.add(trackId);
+        this.control.cancelPlan();
+    }
+
+    /**
+     * Cancels one running track, aborting its MCP tool call in flight. The
+     * rest of the work plan carries on.
+     */
+    public cancelTrack(trackId: string): void {
+        if (!this.control.isTrackRunning(trackId)) {
+            throw new Error(`Track ${trackId} is not running.`);
         }
-        
-        this.runningTrackIds.clear();
-        this.updateProgressReport();
-        
-        vscode.window.showInformationMessage('Track execution cancelled.');
-        logger.info('Track execution cancelled.');
+        logger.info(`Cancelling track ${trackId}...`);
+        this.control.cancelTrack(trackId);
+    }
+
+    /**
+     * Stops starting tracks; running tracks finish their current step and
+     * then wait until resumeExecution.
+     */
+    public pauseExecution(): void {
+        if (!this.control.isRunning) {
+            throw new Error('No work plan is executing.');
+        }
+        if (!this.control.pause()) {
+            return;
+        }
+        this.scheduler?.pause();
+        this.progressReport.paused = true;
+        this.progressEmitter.fire(this.progressReport);
+        this.stateEmitter.fire('paused');
+        logger.info('Work Plan execution paused.');
+    }
+
+    public resumeExecution(): void {
+        if (!this.control.resume()) {
+            return;
+        }
+        this.scheduler?.resume();
+        this.progressReport.paused = false;
+        this.progressEmitter.fire(this.progressReport);
+        this.stateEmitter.fire('running');
+        logger.info('Work Plan execution resumed.');
     }
-}
\ No newline at end of file
+
+    public get isPaused(): boolean {
+        return this.control.isPaused;
+    }
+
+    private throwIfCancelled(token: CancellationSignal): void {
+        if (token.isCancellationRequested) {
+            throw new vscode.CancellationError();
+        }
+    }
+}
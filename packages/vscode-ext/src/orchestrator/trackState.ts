@@ -0,0 +1,219 @@
+import * as path from 'path';
+import { json } from '@dagrejs/graphlib';
+import { Track, WorkPlan } from './workPlanParser';
+import { RooContainer } from '../containers/lifecycle';
+
+// Workspace storage key of the persisted work plan
+export const TRACK_STATE_KEY = 'roo-master.trackState';
+const STATE_VERSION = 1;
+
+export type TrackState = Track['status'];
+
+/**
+ * The part of vscode.Memento the store needs, so it can run without VS Code.
+ */
+export interface StateStorage {
+    get<T>(key: string): T | undefined;
+    update(key: string, value: unknown): PromiseLike<void>;
+}
+
+/**
+ * What is known about a track's execution, updated as it progresses.
+ */
+export interface PersistedTrack {
+    status: TrackState;
+    statusMessage?: string;
+    branchName?: string;
+    worktreePath?: string;
+    containerId?: string;
+    containerName?: string;
+    mcpPort?: number;
+    // User-set scheduling priority, see Track.priority
+    priority?: number;
+    retryCount: number;
+    // Milliseconds since the epoch
+    updatedAt: number;
+}
+
+interface PersistedState {
+    version: number;
+    workPlan: Omit<WorkPlan, 'dependencyGraph'> & { dependencyGraph: object };
+    tracks: Record<string, PersistedTrack>;
+    startedAt: number;
+}
+
+/**
+ * A persisted track checked against the worktrees and containers that exist.
+ */
+export interface ReconciledTrack {
+    id: string;
+    name: string;
+    status: TrackState;
+    // Needs no further run: completed, further along in the merge flow, or skipped
+    done: boolean;
+    // Was running when the window closed; its MCP server went with it
+    interrupted: boolean;
+    // The recorded worktree, when it still exists
+    worktreePath?: string;
+    // A worktree was recorded but is gone
+    worktreeMissing: boolean;
+    containers: RooContainer[];
+}
+
+export interface TrackStateReconciliation {
+    workPlan: WorkPlan;
+    startedAt: number;
+    tracks: ReconciledTrack[];
+}
+
+export interface ReconcileInput {
+    // Main checkout of this window; containers of other workspaces are left alone
+    workspace?: string;
+    containers: RooContainer[];
+    worktreeExists: (worktreePath: string) => boolean;
+}
+
+const DONE_STATES: TrackState[] = ['completed', 'merged', 'blocked', 'skipped'];
+
+/**
+ * Keeps the current work plan and the execution state of its tracks in
+ * workspace storage, so both survive a reload of VS Code. Writes are
+ * applied in order; listeners hear of every change right away.
+ */
+export class TrackStateStore {
+    private state: PersistedState | undefined;
+    private writes: Promise<void> = Promise.resolve();
+    private listeners = new Set<(trackId: string | undefined) => void>();
+
+    constructor(
+        private readonly storage: StateStorage,
+        private readonly now: () => number = Date.now
+    ) {
+        const stored = storage.get<PersistedState>(TRACK_STATE_KEY);
+        this.state = stored?.version === STATE_VERSION ? stored : undefined;
+    }
+
+    /**
+     * The persisted work plan, with each track's last known status.
+     */
+    public getWorkPlan(): WorkPlan | undefined {
+        if (!this.state) {
+            return undefined;
+        }
+        const { workPlan, tracks } = this.state;
+        return {
+            ...workPlan,
+            tracks: workPlan.tracks.map(track => ({
+                ...track,
+                status: tracks[track.id]?.status ?? track.status,
+                statusMessage: tracks[track.id]?.statusMessage ?? track.statusMessage,
+                branch: tracks[track.id]?.branchName ?? track.branch,
+                priority: tracks[track.id]?.priority ?? track.priority,
+            })),
+            dependencyGraph: json.read(workPlan.dependencyGraph),
+        };
+    }
+
+    public getTrack(trackId: string): PersistedTrack | undefined {
+        return this.state?.tracks[trackId];
+    }
+
+    public get startedAt(): number | undefined {
+        return this.state?.startedAt;
+    }
+
+    /**
+     * Replaces the persisted state with a new work plan, every track pending.
+     */
+    public startWorkPlan(workPlan: WorkPlan): Promise<void> {
+        const updatedAt = this.now();
+        const tracks: Record<string, PersistedTrack> = {};
+        for (const track of workPlan.tracks) {
+            tracks[track.id] = { status: 'pending', retryCount: 0, updatedAt };
+        }
+        return this.commit({
+            version: STATE_VERSION,
+            workPlan: {
+                id: workPlan.id,
+                prompt: workPlan.prompt,
+                tracks: workPlan.tracks.map(track => ({ ...track, status: 'pending', statusMessage: undefined })),
+                dependencyGraph: json.write(workPlan.dependencyGraph),
+                parallelizableTracks: workPlan.parallelizableTracks,
+                recommendedConcurrency: workPlan.recommendedConcurrency,
+            },
+            tracks,
+            startedAt: updatedAt,
+        }, undefined);
+    }
+
+    /**
+     * Merges `update` into a track's state. Tracks not in the persisted work
+     * plan are ignored.
+     */
+    public updateTrack(trackId: string, update: Partial<Omit<PersistedTrack, 'updatedAt'>>): Promise<void> {
+        const current = this.state?.tracks[trackId];
+        if (!this.state || !current) {
+            return this.writes;
+        }
+        return this.commit({
+            ...this.state,
+            tracks: { ...this.state.tracks, [trackId]: { ...current, ...update, updatedAt: this.now() } },
+        }, trackId);
+    }
+
+    public clear(): Promise<void> {
+        return this.commit(undefined, undefined);
+    }
+
+    /**
+     * Calls `listener` with the changed track's id, or undefined when the
+     * whole work plan changed.
+     */
+    public onDidChange(listener: (trackId: string | undefined) => void): { dispose(): void } {
+        this.listeners.add(listener);
+        return { dispose: () => this.listeners.delete(listener) };
+    }
+
+    private commit(state: PersistedState | undefined, trackId: string | undefined): Promise<void> {
+        this.state = state;
+        // A failed write must not hold back the ones after it
+        const write = this.writes.catch(() => undefined).then(() => this.storage.update(TRACK_STATE_KEY, state));
+        this.writes = write;
+        this.listeners.forEach(listener => listener(trackId));
+        return write;
+    }
+}
+
+/**
+ * Matches the persisted work plan against what is left on disk and in the
+ * container engine after a restart.
+ */
+export function reconcileTrackState(store: TrackStateStore, input: ReconcileInput): TrackStateReconciliation | undefined {
+    const workPlan = store.getWorkPlan();
+    if (!workPlan) {
+        return undefined;
+    }
+
+    const sameWorkspace = (container: RooContainer) =>
+        !container.workspace || !input.workspace || path.resolve(container.workspace) === path.resolve(input.workspace);
+
+    const tracks = workPlan.tracks.map(track => {
+        const persisted = store.getTrack(track.id);
+        const recordedWorktree = persisted?.worktreePath;
+        const worktreeExists = recordedWorktree !== undefined && input.worktreeExists(recordedWorktree);
+        return {
+            id: track.id,
+            name: track.name,
+            status: track.status,
+            done: DONE_STATES.includes(track.status),
+            interrupted: track.status === 'in-progress',
+            worktreePath: worktreeExists ? recordedWorktree : undefined,
+            worktreeMissing: recordedWorktree !== undefined && !worktreeExists,
+            containers: input.containers.filter(container =>
+                container.role === 'tool' && sameWorkspace(container) &&
+                (container.trackId === track.id || (persisted?.containerId !== undefined && container.id === persisted.containerId))),
+        };
+    });
+
+    return { workPlan, startedAt: store.startedAt ?? 0, tracks };
+}
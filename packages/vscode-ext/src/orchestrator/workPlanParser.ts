@@ -47,9 +47,10 @@ export interface Track {
     estimatedComplexity: number;
     estimatedDuration: number;
     tasks: string[]; // High-level tasks for the track
-    status: 'pending' | 'in-progress' | 'completed' | 'blocked' | 'merged' | 'failed';
+    status: 'pending' | 'in-progress' | 'completed' | 'blocked' | 'merged' | 'failed' | 'skipped';
     statusMessage?: string;
     branch?: string; // Git branch name for the track
+    priority?: number; // User-set scheduling priority, higher first; 0 when unset
 }
 
 export interface WorkPlan {
@@ -58,6 +59,7 @@ export interface WorkPlan {
     tracks: Track[];
     dependencyGraph: Graph;
     parallelizableTracks: string[][]; // Array of arrays, each inner array contains track IDs that can run in parallel
+    recommendedConcurrency?: number; // Starting concurrency suggested from the resources at analysis time
 }
 
 export interface ParseOptions {
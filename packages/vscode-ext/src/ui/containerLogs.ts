@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import { followContainerLogs } from '../containers/docker';
+import { RooContainer } from '../containers/lifecycle';
+import { Logger } from '../util/logger';
+
+const logger = new Logger('ContainerLogs');
+
+/**
+ * Tails container logs into one output channel per container. Showing the
+ * logs of a container again restarts its tail instead of adding a second one.
+ */
+export class ContainerLogViewer implements vscode.Disposable {
+    private channels = new Map<string, { channel: vscode.OutputChannel; abort: AbortController }>();
+
+    public show(container: RooContainer): void {
+        const existing = this.channels.get(container.name);
+        existing?.abort.abort();
+
+        const channel = existing?.channel ?? vscode.window.createOutputChannel(`Roo Container: ${container.name}`);
+        const abort = new AbortController();
+        this.channels.set(container.name, { channel, abort });
+
+        channel.clear();
+        channel.show(true);
+        followContainerLogs(container, text => channel.append(text), abort.signal)
+            .then(() => {
+                if (!abort.signal.aborted) {
+                    channel.appendLine(`--- ${container.name} stopped; logs no longer followed ---`);
+                }
+            })
+            .catch((error: Error) => {
+                logger.error(`Failed to follow logs of ${container.name}: ${error.message}`);
+                channel.appendLine(`--- Failed to follow logs: ${error.message} ---`);
+            });
+    }
+
+    public dispose(): void {
+        for (const { channel, abort } of this.channels.values()) {
+            abort.abort();
+            channel.dispose();
+        }
+        this.channels.clear();
+    }
+}
@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+import { listManagedContainers } from '../containers/docker';
+import { RooContainer } from '../containers/lifecycle';
+import { ErrorHandler } from '../util/errorHandler';
+
+export class ContainerItem extends vscode.TreeItem {
+    constructor(public readonly container: RooContainer) {
+        super(container.name, vscode.TreeItemCollapsibleState.None);
+        const running = container.state === 'running';
+        // Menus in package.json key off the state, e.g. a terminal needs a running container
+        this.contextValue = running ? 'rooContainer.running' : 'rooContainer.stopped';
+        this.description = `${container.trackId ? `track ${container.trackId}` : container.role} · ${container.status}`;
+        this.tooltip = [
+            `Image: ${container.image}`,
+            `Role: ${container.role}`,
+            container.trackId ? `Track: ${container.trackId}` : undefined,
+            container.worktreePath ? `Worktree: ${container.worktreePath}` : undefined,
+            `Status: ${container.status}`,
+        ].filter(line => line !== undefined).join('\n');
+        this.iconPath = new vscode.ThemeIcon(
+            running ? 'vm-running' : container.state === 'exited' || container.state === 'dead' ? 'vm-outline' : 'vm'
+        );
+    }
+}
+
+/**
+ * Lists the containers Roo Master created, found by their labels rather
+ * than their names, so containers of other tools never show up.
+ */
+export class ContainersTreeDataProvider implements vscode.TreeDataProvider<ContainerItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<ContainerItem | undefined | void> = new vscode.EventEmitter<ContainerItem | undefined | void>();
+    readonly onDidChangeTreeData: vscode.Event<ContainerItem | undefined | void> = this._onDidChangeTreeData.event;
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: ContainerItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: ContainerItem): Promise<ContainerItem[]> {
+        if (element) {
+            return [];
+        }
+        try {
+            const containers = await listManagedContainers();
+            return containers.map(container => new ContainerItem(container));
+        } catch (error: any) {
+            ErrorHandler.handleError(error, {
+                showUser: false,
+                logLevel: 'warn',
+                context: 'ContainersTreeDataProvider.getChildren'
+            });
+            return [];
+        }
+    }
+}
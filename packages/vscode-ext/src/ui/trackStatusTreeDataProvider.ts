@@ -1,8 +1,13 @@
 import * as vscode from 'vscode';
 import { Track } from '../orchestrator/workPlanParser';
 import { TrackStatus } from '../integration/trackStatus';
+import { ResourcePeaks, ResourceSample, formatBytes, formatResourceSample } from '../containers/stats';
+import { formatMinutes, formatPriority } from '../orchestrator/schedulingPolicy';
 
 export class TrackStatusTreeDataProvider implements vscode.TreeDataProvider<Track> {
+    private resourceUsage: Record<string, ResourceSample> = {};
+    private peakUsage: Record<string, ResourcePeaks> = {};
+
     constructor(private trackStatus: TrackStatus) {
         this.trackStatus.onDidChangeTreeData(track => this._onDidChangeTreeData.fire(track));
     }
@@ -10,10 +15,37 @@ export class TrackStatusTreeDataProvider implements vscode.TreeDataProvider<Trac
     private _onDidChangeTreeData: vscode.EventEmitter<Track | undefined | null | void> = new vscode.EventEmitter<Track | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<Track | undefined | null | void> = this._onDidChangeTreeData.event;
 
+    /**
+     * Shows live container usage of running tracks and peaks of finished ones.
+     */
+    public setResourceUsage(resourceUsage: Record<string, ResourceSample> = {}, peakUsage: Record<string, ResourcePeaks> = {}): void {
+        this.resourceUsage = resourceUsage;
+        this.peakUsage = peakUsage;
+        this._onDidChangeTreeData.fire();
+    }
+
     getTreeItem(track: Track): vscode.TreeItem {
         const treeItem = new vscode.TreeItem(track.id, vscode.TreeItemCollapsibleState.None);
-        treeItem.description = track.status;
-        treeItem.tooltip = track.statusMessage || `Status: ${track.status}`;
+        const tooltip = [track.statusMessage || `Status: ${track.status}`];
+
+        const sample = this.resourceUsage[track.id];
+        const peaks = this.peakUsage[track.id];
+        const usage = sample ? formatResourceSample(sample) : '';
+        treeItem.description = usage ? `${track.status} · ${usage}` : track.status;
+        if (sample) {
+            tooltip.push(`Disk I/O: ${formatBytes(sample.blockReadBytes)} read, ${formatBytes(sample.blockWriteBytes)} written`);
+        }
+        if (peaks) {
+            tooltip.push(`Peak: CPU ${Math.round(peaks.cpuPercent)}%, ${formatBytes(peaks.memoryBytes)}, ${peaks.pids} pids`);
+        }
+        tooltip.push(`Estimated: ${formatMinutes(track.estimatedDuration)}`);
+        if (track.priority) {
+            tooltip.push(`Priority: ${formatPriority(track.priority)}`);
+        }
+
+        treeItem.tooltip = tooltip.join('\n');
+        // Menus in package.json key off the status, e.g. only failed tracks can be retried
+        treeItem.contextValue = `rooTrack.${track.status}`;
         treeItem.iconPath = this.getIconPath(track.status);
         return treeItem;
     }
@@ -40,6 +72,8 @@ export class TrackStatusTreeDataProvider implements vscode.TreeDataProvider<Trac
                 return new vscode.ThemeIcon('merge');
             case 'failed':
                 return new vscode.ThemeIcon('error');
+            case 'skipped':
+                return new vscode.ThemeIcon('debug-step-over');
             default:
                 return new vscode.ThemeIcon('info');
         }
@@ -166,6 +166,25 @@ export class GitWorktree {
         });
     }
 
+    /**
+     * Gets the git directory of a worktree, which for a linked worktree lies
+     * under the main checkout's .git/worktrees.
+     * @returns The absolute path of the git directory.
+     */
+    public async getGitDir(worktreePath?: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const targetPath = worktreePath || this._repoPath;
+            const command = `git -C "${targetPath}" rev-parse --absolute-git-dir`;
+            exec(command, (error, stdout, stderr) => {
+                if (error) {
+                    logger.error(`Error resolving git directory: ${stderr}`);
+                    return reject(new Error(`Failed to resolve git directory: ${stderr}`));
+                }
+                resolve(stdout.trim());
+            });
+        });
+    }
+
     public async listWorktrees(): Promise<GitWorktreeInfo[]> {
         return new Promise((resolve, reject) => {
             const command = `git -C "${this._repoPath}" worktree list --porcelain`;
@@ -0,0 +1,145 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DockerEngineClient, DockerRequest, DockerResponse, DockerTransport } from '../../src/containers/engineApi';
+import {
+    CACHE_MANAGER_LABEL,
+    cacheMounts,
+    ensureCacheVolumes,
+    findCacheVolumes,
+    prepareVolume,
+    pruneCacheVolumes,
+} from '../../src/containers/cacheVolumes';
+import { respond } from './fakeEngine';
+
+// Volume endpoints of an engine, in memory; volumes in `inUse` cannot be removed
+class FakeVolumes implements DockerTransport {
+    public readonly description = 'fake';
+    public volumes = new Map<string, Record<string, string>>();
+    public inUse = new Set<string>();
+
+    public async request(request: DockerRequest): Promise<DockerResponse> {
+        const route = new URL(request.path, 'http://docker').pathname.replace(/^\/v[\d.]+/, '');
+        if (route === '/volumes/create') {
+            const { Name, Labels } = request.body as any;
+            this.volumes.set(Name, Labels);
+            return respond(201, { Name, Labels });
+        }
+        if (route === '/volumes' && request.method === 'GET') {
+            return respond(200, { Volumes: [...this.volumes].map(([Name, Labels]) => ({ Name, Labels })) });
+        }
+        if (route === '/system/df') {
+            return respond(200, { Volumes: [...this.volumes.keys()].map(Name => ({ Name, UsageData: { Size: 2048, RefCount: this.inUse.has(Name) ? 1 : 0 } })) });
+        }
+        const name = decodeURIComponent(route.slice('/volumes/'.length));
+        if (request.method === 'GET') {
+            return this.volumes.has(name) ? respond(200, { Name: name, Labels: this.volumes.get(name) }) : respond(404, { message: 'no such volume' });
+        }
+        if (request.method === 'DELETE') {
+            if (this.inUse.has(name)) {
+                return respond(409, { message: 'volume is in use' });
+            }
+            this.volumes.delete(name);
+            return respond(204);
+        }
+        return respond(500, { message: `unexpected ${request.method} ${route}` });
+    }
+}
+
+suite('Package cache volumes', () => {
+    let checkout: string;
+
+    setup(() => {
+        checkout = fs.mkdtempSync(path.join(os.tmpdir(), 'roo-cache-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(checkout, { recursive: true, force: true });
+    });
+
+    test('keys one volume per lockfile by its content', () => {
+        fs.writeFileSync(path.join(checkout, 'package-lock.json'), '{"lockfileVersion":3}');
+        fs.writeFileSync(path.join(checkout, 'yarn.lock'), '# yarn lockfile v1');
+
+        const volumes = findCacheVolumes(checkout);
+        assert.deepStrictEqual(volumes.map(volume => volume.cache.manager), ['npm', 'yarn']);
+        assert.match(volumes[0].volume, /^roo-cache-npm-[0-9a-f]{16}$/);
+        assert.deepStrictEqual(findCacheVolumes(checkout), volumes);
+
+        fs.writeFileSync(path.join(checkout, 'package-lock.json'), '{"lockfileVersion":3,"packages":{}}');
+        assert.notStrictEqual(findCacheVolumes(checkout)[0].volume, volumes[0].volume);
+
+        const { mounts, env } = cacheMounts(volumes);
+        assert.deepStrictEqual(mounts[1], { Type: 'volume', Source: volumes[1].volume, Target: '/cache/yarn' });
+        assert.deepStrictEqual(env, ['npm_config_cache=/cache/npm', 'YARN_CACHE_FOLDER=/cache/yarn', 'YARN_CONFIG=/cache/yarn/.yarnrc']);
+    });
+
+    test('creates missing volumes once and prepares only new ones', async () => {
+        fs.writeFileSync(path.join(checkout, 'pnpm-lock.yaml'), 'lockfileVersion: 9.0');
+        const engine = new FakeVolumes();
+        const client = new DockerEngineClient(engine);
+        const volumes = findCacheVolumes(checkout);
+        const prepared: string[] = [];
+
+        await ensureCacheVolumes(client, volumes, async volume => { prepared.push(volume.volume); });
+        await ensureCacheVolumes(client, volumes, async volume => { prepared.push(volume.volume); });
+
+        assert.deepStrictEqual(prepared, [volumes[0].volume]);
+        assert.strictEqual(engine.volumes.get(volumes[0].volume)![CACHE_MANAGER_LABEL], 'pnpm');
+    });
+
+    test('prepares new volumes in a short-lived container, locking yarn installs', async () => {
+        fs.writeFileSync(path.join(checkout, 'package-lock.json'), '{"lockfileVersion":3}');
+        fs.writeFileSync(path.join(checkout, 'yarn.lock'), '# yarn lockfile v1');
+        const [npm, yarn] = findCacheVolumes(checkout);
+        const created: any[] = [];
+        const engine: DockerTransport = {
+            description: 'fake',
+            request: async (request: DockerRequest) => {
+                const route = new URL(request.path, 'http://docker').pathname.replace(/^\/v[\d.]+/, '');
+                if (route === '/containers/create') {
+                    created.push(request.body);
+                    return respond(201, { Id: 'init' });
+                }
+                return route.endsWith('/wait') ? respond(200, { StatusCode: 0 }) : respond(204);
+            },
+        };
+        const client = new DockerEngineClient(engine);
+
+        // Nothing to do for root-owned npm volumes
+        await prepareVolume(client, 'tool', npm);
+        assert.strictEqual(created.length, 0);
+
+        await prepareVolume(client, 'tool', yarn, '1000:1000');
+        const [spec] = created;
+        assert.deepStrictEqual(spec.HostConfig.CapAdd, ['CHOWN']);
+        assert.deepStrictEqual(spec.Env, ['OWNER=1000:1000']);
+        assert.strictEqual(spec.WorkingDir, '/cache/yarn');
+        assert.match(spec.Cmd[2], /chown -R "\$OWNER" \.$/);
+
+        // Run what the container would, minus the chown, against a stand-in volume
+        await prepareVolume(client, 'tool', yarn);
+        const volume = path.join(checkout, 'volume');
+        fs.mkdirSync(volume);
+        execFileSync(created[1].Cmd[0], created[1].Cmd.slice(1), { cwd: volume });
+        assert.deepStrictEqual(created[1].HostConfig.CapAdd, []);
+        const yarnrc = fs.readFileSync(path.join(volume, '.yarnrc'), 'utf8');
+        assert.match(yarnrc, /^"--install\.mutex" "file:\/cache\/yarn\/\.yarn-mutex"$/m);
+        assert.doesNotMatch(yarnrc, /"--run\./);
+    });
+
+    test('prunes unused volumes, keeping requested and in-use ones', async () => {
+        const engine = new FakeVolumes();
+        for (const name of ['roo-cache-npm-a', 'roo-cache-npm-b', 'roo-cache-yarn-c']) {
+            engine.volumes.set(name, { [CACHE_MANAGER_LABEL]: 'npm' });
+        }
+        engine.inUse.add('roo-cache-yarn-c');
+
+        const result = await pruneCacheVolumes(new DockerEngineClient(engine), new Set(['roo-cache-npm-a']));
+
+        assert.deepStrictEqual(result, { removed: ['roo-cache-npm-b'], inUse: ['roo-cache-yarn-c'] });
+        assert.deepStrictEqual([...engine.volumes.keys()].sort(), ['roo-cache-npm-a', 'roo-cache-yarn-c']);
+    });
+});
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import { Readable } from 'stream';
+import { DockerEngineClient, DockerRequest, DockerResponse, DockerTransport } from '../../src/containers/engineApi';
+import { DEFAULT_REGISTRY_PROXY, EGRESS_NETWORK, ensureRegistryProxy, registryProxyEnv } from '../../src/containers/egress';
+import { respond } from './fakeEngine';
+
+/**
+ * Minimal engine keeping networks, images and one proxy container in memory.
+ */
+class FakeEngine implements DockerTransport {
+    public readonly description = 'fake';
+    public readonly requests: string[] = [];
+    public networks = new Map<string, { Internal: boolean }>();
+    public images = new Set<string>();
+    public proxy: { Id: string; Running: boolean; Networks: Record<string, unknown>; body?: any } | undefined;
+
+    public async request(request: DockerRequest): Promise<DockerResponse> {
+        const url = new URL(request.path, 'http://docker');
+        const route = url.pathname.replace(/^\/v[\d.]+/, '');
+        this.requests.push(`${request.method} ${route}`);
+
+        if (request.method === 'GET' && route.startsWith('/networks/')) {
+            const network = this.networks.get(decodeURIComponent(route.slice('/networks/'.length)));
+            return network ? respond(200, { Id: 'net', Name: EGRESS_NETWORK, Driver: 'bridge', ...network }) : respond(404, { message: 'network not found' });
+        }
+        if (route === '/networks/create') {
+            const spec = request.body as any;
+            this.networks.set(spec.Name, { Internal: spec.Internal });
+            return respond(201, { Id: 'net' });
+        }
+        if (route.startsWith('/images/') && route.endsWith('/json')) {
+            return this.images.has(decodeURIComponent(route.split('/')[2])) ? respond(200, { Id: 'img' }) : respond(404, { message: 'No such image' });
+        }
+        if (route === '/images/create') {
+            this.images.add(`${url.searchParams.get('fromImage')}:${url.searchParams.get('tag')}`);
+            return { statusCode: 200, headers: {}, body: Readable.from([Buffer.from('{"status":"Pulling"}\n{"status":"Done"}\n')]) };
+        }
+        if (route === '/containers/create') {
+            this.proxy = { Id: 'proxy', Running: false, Networks: { bridge: {} }, body: request.body };
+            return respond(201, { Id: 'proxy' });
+        }
+        if (route.endsWith('/json') && route.startsWith('/containers/')) {
+            if (!this.proxy) {
+                return respond(404, { message: 'No such container' });
+            }
+            return respond(200, {
+                Id: this.proxy.Id,
+                Name: '/roo-registry-proxy',
+                Config: { Image: DEFAULT_REGISTRY_PROXY.image, Labels: {} },
+                State: { Status: this.proxy.Running ? 'running' : 'created', Running: this.proxy.Running },
+                NetworkSettings: { Networks: this.proxy.Networks },
+            });
+        }
+        if (route.endsWith('/connect')) {
+            this.proxy!.Networks[EGRESS_NETWORK] = { Aliases: (request.body as any).EndpointConfig.Aliases };
+            return respond(200);
+        }
+        if (route.endsWith('/start')) {
+            this.proxy!.Running = true;
+            return respond(204);
+        }
+        return respond(500, { message: `unexpected ${request.method} ${route}` });
+    }
+}
+
+suite('Registry proxy egress', () => {
+    test('creates an internal network and a proxy reachable on it', async () => {
+        const engine = new FakeEngine();
+        const env = await ensureRegistryProxy(new DockerEngineClient(engine), DEFAULT_REGISTRY_PROXY);
+
+        assert.deepStrictEqual(engine.networks.get(EGRESS_NETWORK), { Internal: true });
+        assert.ok(engine.images.has('verdaccio/verdaccio:5'));
+        assert.strictEqual(engine.proxy!.body.HostConfig.NetworkMode, 'bridge');
+        assert.deepStrictEqual(engine.proxy!.body.HostConfig.Mounts, [{ Type: 'volume', Source: 'roo-registry-cache', Target: '/verdaccio/storage' }]);
+        assert.deepStrictEqual((engine.proxy!.Networks[EGRESS_NETWORK] as any).Aliases, ['registry-proxy']);
+        assert.ok(engine.proxy!.Running);
+        assert.ok(env.includes('npm_config_registry=http://registry-proxy:4873/'));
+    });
+
+    test('reuses a running proxy without touching it', async () => {
+        const engine = new FakeEngine();
+        const client = new DockerEngineClient(engine);
+        await ensureRegistryProxy(client, DEFAULT_REGISTRY_PROXY);
+        engine.requests.length = 0;
+
+        await ensureRegistryProxy(client, DEFAULT_REGISTRY_PROXY);
+
+        assert.deepStrictEqual(engine.requests, ['GET /networks/roo-egress', 'GET /containers/roo-registry-proxy/json']);
+    });
+
+    test('refuses a pre-existing network with an outbound route', async () => {
+        const engine = new FakeEngine();
+        engine.networks.set(EGRESS_NETWORK, { Internal: false });
+        await assert.rejects(ensureRegistryProxy(new DockerEngineClient(engine), DEFAULT_REGISTRY_PROXY), /not internal/);
+    });
+
+    test('substitutes the proxy URL into custom environment', () => {
+        const env = registryProxyEnv({ image: 'squid', port: 3128, env: { HTTP_PROXY: '{url}', PIP_INDEX_URL: '{url}simple/' } });
+        assert.deepStrictEqual(env, ['HTTP_PROXY=http://registry-proxy:3128/', 'PIP_INDEX_URL=http://registry-proxy:3128/simple/']);
+    });
+});
@@ -0,0 +1,181 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    ContainerStartError,
+    DockerApiError,
+    DockerEngineClient,
+    DockerUnavailableError,
+    SocketTransport,
+    defaultSocketPath,
+    demuxLogStream,
+} from '../../src/containers/engineApi';
+
+type Handler = (req: http.IncomingMessage, res: http.ServerResponse, body: string) => void;
+
+function frame(stream: 1 | 2, text: string): Buffer {
+    const payload = Buffer.from(text);
+    const header = Buffer.alloc(8);
+    header[0] = stream;
+    header.writeUInt32BE(payload.length, 4);
+    return Buffer.concat([header, payload]);
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+suite('Docker Engine API client', () => {
+    let socketDir: string;
+    let socketPath: string;
+    let server: http.Server;
+    let handler: Handler;
+    let requests: { method: string; url: string; body: string }[];
+    let client: DockerEngineClient;
+
+    setup(async () => {
+        socketDir = fs.mkdtempSync(path.join(os.tmpdir(), 'roo-docker-'));
+        socketPath = path.join(socketDir, 'docker.sock');
+        requests = [];
+        handler = (_req, res) => sendJson(res, 404, { message: 'not handled' });
+        server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => {
+                requests.push({ method: req.method!, url: req.url!, body });
+                handler(req, res, body);
+            });
+        });
+        await new Promise<void>(resolve => server.listen(socketPath, resolve));
+        client = new DockerEngineClient(new SocketTransport(socketPath));
+    });
+
+    teardown(async () => {
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+        fs.rmSync(socketDir, { recursive: true, force: true });
+    });
+
+    test('creates and starts a container with a versioned, encoded request', async () => {
+        handler = (req, res) => {
+            if (req.url!.includes('/containers/create')) {
+                sendJson(res, 201, { Id: 'abc123', Warnings: [] });
+            } else {
+                res.writeHead(204).end();
+            }
+        };
+
+        const id = await client.createContainer('roo-track-a', { Image: 'tool:latest', HostConfig: { ReadonlyRootfs: true } });
+        await client.startContainer(id);
+
+        assert.strictEqual(id, 'abc123');
+        assert.strictEqual(requests[0].method, 'POST');
+        assert.strictEqual(requests[0].url, '/v1.41/containers/create?name=roo-track-a');
+        assert.deepStrictEqual(JSON.parse(requests[0].body), { Image: 'tool:latest', HostConfig: { ReadonlyRootfs: true } });
+        assert.strictEqual(requests[1].url, '/v1.41/containers/abc123/start');
+    });
+
+    test('raises structured errors for engine error statuses', async () => {
+        handler = (_req, res) => sendJson(res, 409, { message: 'Conflict. The container name "/roo-track-a" is already in use' });
+
+        await assert.rejects(client.createContainer('roo-track-a', { Image: 'tool:latest' }), (error: unknown) => {
+            assert.ok(error instanceof DockerApiError);
+            assert.strictEqual(error.statusCode, 409);
+            assert.ok(error.conflict);
+            assert.match(error.engineMessage, /already in use/);
+            return true;
+        });
+    });
+
+    test('treats 304 from stop as success and 404 from inspect as absent', async () => {
+        handler = (req, res) => req.url!.endsWith('/stop')
+            ? res.writeHead(304).end()
+            : sendJson(res, 404, { message: 'No such container: missing' });
+
+        await client.stopContainer('stopped');
+        assert.strictEqual(await client.findContainer('missing'), undefined);
+        await assert.rejects(client.inspectContainer('missing'), (error: unknown) => error instanceof DockerApiError && error.notFound);
+    });
+
+    test('demultiplexes container logs', async () => {
+        handler = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/vnd.docker.multiplexed-stream' });
+            res.end(Buffer.concat([frame(1, 'building\n'), frame(2, 'warning\n'), frame(1, 'done\n')]));
+        };
+
+        const logs = await client.logs('abc123', { tail: 10 });
+
+        assert.deepStrictEqual(logs, { stdout: 'building\ndone\n', stderr: 'warning\n' });
+        assert.strictEqual(requests[0].url, '/v1.41/containers/abc123/logs?stdout=1&stderr=1&tail=10');
+        assert.deepStrictEqual(demuxLogStream(Buffer.from('tty output')), { stdout: 'tty output', stderr: '' });
+    });
+
+    test('follows logs with frames split across writes', async () => {
+        handler = (_req, res) => {
+            const stream = Buffer.concat([frame(1, 'installing\n'), frame(2, 'deprecated\n'), frame(1, 'added 12 packages\n')]);
+            res.writeHead(200, { 'Content-Type': 'application/vnd.docker.multiplexed-stream' });
+            res.write(stream.subarray(0, 5));
+            setTimeout(() => res.write(stream.subarray(5, 30)), 5);
+            setTimeout(() => res.end(stream.subarray(30)), 10);
+        };
+
+        const output: string[] = [];
+        await client.followLogs('abc123', { tail: 50 }, (stream, text) => output.push(`${stream}: ${text}`));
+
+        assert.deepStrictEqual(output, ['stdout: installing\n', 'stderr: deprecated\n', 'stdout: added 12 packages\n']);
+        assert.strictEqual(requests[0].url, '/v1.41/containers/abc123/logs?stdout=1&stderr=1&follow=1&tail=50');
+    });
+
+    test('streams events until aborted', async () => {
+        const controller = new AbortController();
+        handler = (_req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.write(JSON.stringify({ Type: 'container', Action: 'start', Actor: { ID: 'a', Attributes: {} } }) + '\n{"Type":"container",');
+            res.write('"Action":"die","Actor":{"ID":"a","Attributes":{"exitCode":"1"}}}\n');
+        };
+
+        const events: string[] = [];
+        await client.events({ filters: { type: ['container'] }, signal: controller.signal }, (event) => {
+            events.push(event.Action);
+            if (events.length === 2) {
+                controller.abort();
+            }
+        });
+
+        assert.deepStrictEqual(events, ['start', 'die']);
+        assert.strictEqual(requests[0].url, `/v1.41/events?filters=${encodeURIComponent('{"type":["container"]}')}`);
+    });
+
+    test('polls until the container is healthy and fails fast when it exits', async () => {
+        let polls = 0;
+        handler = (req, res) => {
+            polls++;
+            const health = polls < 3 ? 'starting' : 'healthy';
+            sendJson(res, 200, { Id: 'abc123', Name: '/roo-track-a', State: { Status: 'running', Running: true, Health: { Status: health, FailingStreak: 0 } } });
+        };
+        const inspect = await client.waitForReady('abc123', { intervalMs: 5 });
+        assert.strictEqual(inspect.State.Health?.Status, 'healthy');
+        assert.strictEqual(polls, 3);
+
+        handler = (_req, res) => sendJson(res, 200, { Id: 'abc123', Name: '/roo-track-a', State: { Status: 'exited', Running: false, ExitCode: 137, OOMKilled: true, Error: '' } });
+        await assert.rejects(client.waitForReady('abc123', { intervalMs: 5 }), (error: unknown) => {
+            assert.ok(error instanceof ContainerStartError);
+            assert.match(error.message, /memory limit/);
+            return true;
+        });
+    });
+
+    test('reports an unreachable engine', async () => {
+        const missing = new DockerEngineClient(new SocketTransport(path.join(socketDir, 'missing.sock')));
+        await assert.rejects(missing.ping(), (error: unknown) => error instanceof DockerUnavailableError);
+    });
+
+    test('resolves the socket from DOCKER_HOST', () => {
+        assert.strictEqual(defaultSocketPath({}, 'linux'), '/var/run/docker.sock');
+        assert.strictEqual(defaultSocketPath({ DOCKER_HOST: 'unix:///run/user/1000/podman/podman.sock' }, 'linux'), '/run/user/1000/podman/podman.sock');
+        assert.strictEqual(defaultSocketPath({}, 'win32'), '\\\\.\\pipe\\docker_engine');
+        assert.throws(() => defaultSocketPath({ DOCKER_HOST: 'tcp://10.0.0.1:2376' }, 'linux'), /Unsupported DOCKER_HOST/);
+    });
+});
@@ -0,0 +1,14 @@
+import { Readable } from 'stream';
+import { DockerResponse } from '../../src/containers/engineApi';
+import { RooContainer } from '../../src/containers/lifecycle';
+
+// An engine response with `body` as its JSON, for fake transports
+export function respond(statusCode: number, body?: unknown): DockerResponse {
+    const payload = body === undefined ? [] : [Buffer.from(JSON.stringify(body))];
+    return { statusCode, headers: {}, body: Readable.from(payload) };
+}
+
+// A running tool container, as listRooContainers reports it
+export function container(name: string, overrides: Partial<RooContainer> = {}): RooContainer {
+    return { id: name, name, image: 'tool', state: 'running', status: 'Up', role: 'tool', created: 0, ...overrides };
+}
@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import { DockerEngineClient, DockerRequest, DockerTransport } from '../../src/containers/engineApi';
+import { MANAGED_LABEL, ROLE_LABEL, TRACK_LABEL, WORKSPACE_LABEL } from '../../src/containers/labels';
+import {
+    OrphanCheck,
+    findOrphanedContainers,
+    listRooContainers,
+    removeContainers,
+    toolContainerLabels,
+} from '../../src/containers/lifecycle';
+import { container, respond } from './fakeEngine';
+
+suite('Container lifecycle', () => {
+    test('lists containers by the managed label', async () => {
+        let query: URLSearchParams | undefined;
+        const engine: DockerTransport = {
+            description: 'fake',
+            request: async (request: DockerRequest) => {
+                query = new URL(request.path, 'http://docker').searchParams;
+                return respond(200, [
+                    { Id: 'b1', Names: ['/roo-track-b'], Image: 'tool', State: 'exited', Status: 'Exited (0)', Created: 2, Ports: [], Labels: toolContainerLabels({ trackId: 'b', workspace: '/repo' }) },
+                    { Id: 'p1', Names: ['/roo-registry-proxy'], Image: 'verdaccio', State: 'running', Status: 'Up', Created: 1, Ports: [], Labels: { [MANAGED_LABEL]: 'true', [ROLE_LABEL]: 'registry-proxy' } },
+                ]);
+            },
+        };
+
+        const containers = await listRooContainers(new DockerEngineClient(engine));
+
+        assert.strictEqual(query!.get('all'), '1');
+        assert.deepStrictEqual(JSON.parse(query!.get('filters')!), { label: [MANAGED_LABEL] });
+        assert.deepStrictEqual(containers.map(c => [c.name, c.role, c.trackId, c.workspace]), [
+            ['roo-registry-proxy', 'registry-proxy', undefined, undefined],
+            ['roo-track-b', 'tool', 'b', '/repo'],
+        ]);
+    });
+
+    test('collects containers whose worktree or track is gone, never active or shared ones', () => {
+        const check: OrphanCheck = {
+            workspace: '/repo',
+            knownTrackIds: new Set(['a', 'b', 'c']),
+            activeTrackIds: new Set(['a']),
+            worktreeExists: worktreePath => worktreePath !== '/wt/removed',
+        };
+        const containers = [
+            container('active', { trackId: 'a', worktreePath: '/wt/removed', workspace: '/repo' }),
+            container('finished', { trackId: 'b', worktreePath: '/wt/b', workspace: '/repo', state: 'exited' }),
+            container('removed-worktree', { trackId: 'c', worktreePath: '/wt/removed', workspace: '/repo' }),
+            container('old-plan', { trackId: 'z', worktreePath: '/wt/z', workspace: '/repo' }),
+            container('other-window', { trackId: 'z', workspace: '/elsewhere' }),
+            container('manual'),
+            container('roo-registry-proxy', { role: 'registry-proxy', state: 'exited' }),
+            container('init-crashed', { role: 'volume-init', state: 'exited' }),
+            container('init-busy', { role: 'volume-init' }),
+        ];
+
+        const orphans = findOrphanedContainers(containers, check);
+
+        assert.deepStrictEqual(orphans.map(orphan => [orphan.container.name, orphan.reason]), [
+            ['removed-worktree', 'worktree /wt/removed no longer exists'],
+            ['old-plan', 'track z is not part of the current work plan'],
+            ['manual', 'not started for a track'],
+            ['init-crashed', 'left over from preparing a cache volume'],
+        ]);
+    });
+
+    test('removes containers, tolerating ones already gone', async () => {
+        const removed: string[] = [];
+        const engine: DockerTransport = {
+            description: 'fake',
+            request: async (request: DockerRequest) => {
+                const url = new URL(request.path, 'http://docker');
+                const id = url.pathname.split('/').pop()!;
+                assert.strictEqual(url.searchParams.get('force'), '1');
+                if (id === 'gone') {
+                    return respond(404, { message: 'No such container' });
+                }
+                if (id === 'stuck') {
+                    return respond(500, { message: 'device or resource busy' });
+                }
+                removed.push(id);
+                return respond(204);
+            },
+        };
+
+        const result = await removeContainers(new DockerEngineClient(engine), [container('a'), container('gone'), container('stuck')]);
+
+        assert.deepStrictEqual(removed, ['a']);
+        assert.deepStrictEqual(result.removed, ['a', 'gone']);
+        assert.deepStrictEqual(result.failed, [{ name: 'stuck', error: 'Docker remove container stuck failed (500): device or resource busy' }]);
+    });
+
+    test('labels tool containers with their track, worktree and workspace', () => {
+        assert.deepStrictEqual(toolContainerLabels({ trackId: 'a', worktreePath: '/wt/a', workspace: '/repo' }), {
+            [MANAGED_LABEL]: 'true',
+            [ROLE_LABEL]: 'tool',
+            [TRACK_LABEL]: 'a',
+            'roo-master.worktree': '/wt/a',
+            [WORKSPACE_LABEL]: '/repo',
+        });
+    });
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { DockerRequest, DockerResponse, DockerTransport } from '../../src/containers/engineApi';
+import { detectRuntime, runtimeCandidates, runtimeEnvironment, userMapping } from '../../src/containers/runtime';
+import { respond } from './fakeEngine';
+
+// Serves /version and /info for engines that exist; the rest are unreachable
+function fakeEngines(engines: Record<string, { podman?: boolean; rootless?: boolean }>) {
+    return (socketPath: string): DockerTransport => ({
+        description: socketPath,
+        async request(request: DockerRequest): Promise<DockerResponse> {
+            const engine = engines[socketPath];
+            if (!engine) {
+                throw new Error('connect ENOENT');
+            }
+            const body = request.path.endsWith('/version')
+                ? { Version: '5.0.0', ApiVersion: '1.41', Os: 'linux', Arch: 'amd64', Components: engine.podman ? [{ Name: 'Podman Engine', Version: '5.0.0' }] : [] }
+                : { Name: 'host', OperatingSystem: 'linux', SecurityOptions: engine.rootless ? ['name=seccomp,profile=default', 'name=rootless'] : [] };
+            return respond(200, body);
+        },
+    });
+}
+
+suite('Container runtime', () => {
+    const env = { XDG_RUNTIME_DIR: '/run/user/1000' };
+
+    test('probes explicit endpoints first and filters by preference', () => {
+        const all = runtimeCandidates('auto', { ...env, DOCKER_HOST: 'unix:///custom.sock' }, 'linux').map(c => c.socketPath);
+        assert.deepStrictEqual(all, [
+            '/custom.sock',
+            '/var/run/docker.sock',
+            '/run/user/1000/docker.sock',
+            '/run/user/1000/podman/podman.sock',
+            '/run/podman/podman.sock',
+        ]);
+        assert.ok(runtimeCandidates('podman', env, 'linux').every(c => c.kind === 'podman'));
+    });
+
+    test('identifies Podman behind a Docker-style socket and detects rootless mode', async () => {
+        const runtime = await detectRuntime('auto', {
+            env: { ...env, DOCKER_HOST: 'unix:///run/user/1000/podman/podman.sock' },
+            platform: 'linux',
+            createTransport: fakeEngines({ '/run/user/1000/podman/podman.sock': { podman: true, rootless: true } }),
+        });
+        assert.strictEqual(runtime.kind, 'podman');
+        assert.strictEqual(runtime.rootless, true);
+    });
+
+    test('skips engines of the wrong kind when one is forced', async () => {
+        const createTransport = fakeEngines({ '/var/run/docker.sock': {}, '/run/podman/podman.sock': { podman: true } });
+        const runtime = await detectRuntime('podman', { env, platform: 'linux', createTransport });
+        assert.strictEqual(runtime.endpoint, '/run/podman/podman.sock');
+
+        await assert.rejects(
+            detectRuntime('docker', { env, platform: 'linux', createTransport: fakeEngines({}) }),
+            /No Docker engine is reachable/
+        );
+    });
+
+    test('maps the container user so worktree files stay owned by the host user', () => {
+        const host = { uid: 1234, gid: 100 };
+        assert.deepStrictEqual(userMapping({ kind: 'docker', rootless: false }, host), { User: '1234:100' });
+        assert.deepStrictEqual(userMapping({ kind: 'podman', rootless: true }, host), { User: '1234:100', UsernsMode: 'keep-id' });
+        assert.deepStrictEqual(userMapping({ kind: 'docker', rootless: true }, host), { User: '0:0' });
+        assert.deepStrictEqual(userMapping({ kind: 'docker', rootless: false }, null), { User: '1000:1000' });
+    });
+
+    test('points the MCP host CLI at the detected engine', () => {
+        assert.deepStrictEqual(runtimeEnvironment({ kind: 'docker', endpoint: '/run/user/1000/docker.sock' }), {
+            ROO_CONTAINER_RUNTIME: 'docker',
+            DOCKER_HOST: 'unix:///run/user/1000/docker.sock',
+        });
+        assert.deepStrictEqual(runtimeEnvironment({ kind: 'podman', endpoint: '/run/podman/podman.sock' }), { ROO_CONTAINER_RUNTIME: 'podman' });
+    });
+});
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import {
+    BUILTIN_PROFILES,
+    SecurityProfileError,
+    parseContainersConfig,
+    resolveSecurityProfile,
+    toHostConfig,
+} from '../../src/containers/securityProfiles';
+
+suite('Container security profiles', () => {
+    test('strict applies the hardened defaults', () => {
+        const hostConfig = toHostConfig(resolveSecurityProfile('strict'));
+        assert.deepStrictEqual(hostConfig, {
+            ReadonlyRootfs: true,
+            CapDrop: ['ALL'],
+            CapAdd: undefined,
+            SecurityOpt: ['no-new-privileges'],
+            PidsLimit: 512,
+            Memory: 4 * 1024 ** 3,
+            NanoCpus: 2e9,
+            NetworkMode: 'none',
+        });
+
+        const registry = resolveSecurityProfile('build-with-registry');
+        assert.strictEqual(registry.network, 'registry-proxy');
+        assert.strictEqual(toHostConfig(registry).NetworkMode, 'roo-egress');
+    });
+
+    test('custom profiles extend strict or a named profile', () => {
+        const definitions = {
+            custom: { extends: 'build-with-registry', memory: '8g', capAdd: ['cap_chown'] },
+            small: { cpus: 0.5, pidsLimit: 128 },
+        };
+
+        const custom = resolveSecurityProfile('custom', definitions);
+        assert.strictEqual(custom.network, 'registry-proxy');
+        assert.strictEqual(custom.memory, '8g');
+        assert.deepStrictEqual(custom.capAdd, ['CHOWN']);
+        assert.strictEqual(custom.cpus, BUILTIN_PROFILES.strict.cpus);
+
+        const small = resolveSecurityProfile('small', definitions);
+        assert.strictEqual(small.network, 'none');
+        assert.strictEqual(toHostConfig(small).NanoCpus, 5e8);
+    });
+
+    test('rejects settings that would break out of the sandbox, listing every problem', () => {
+        const definitions = {
+            loose: { network: 'host', capAdd: ['SYS_ADMIN'], seccomp: 'unconfined', apparmor: 'unconfined', memory: '1m' },
+        };
+        assert.throws(() => resolveSecurityProfile('loose', definitions), (error: unknown) => {
+            assert.ok(error instanceof SecurityProfileError);
+            for (const field of ['network "host"', 'SYS_ADMIN', 'seccomp', 'apparmor', 'memory']) {
+                assert.ok(error.message.includes(field), `missing ${field} in: ${error.message}`);
+            }
+            return true;
+        });
+    });
+
+    test('reports unknown and cyclic profiles', () => {
+        assert.throws(() => resolveSecurityProfile('custom'), /'custom' is not defined/);
+        assert.throws(() => resolveSecurityProfile('a', { a: { extends: 'b' }, b: { extends: 'a' } }), /a -> b -> a/);
+    });
+
+    test('parses .roo/containers.json and inlines seccomp profiles', () => {
+        const config = parseContainersConfig(
+            JSON.stringify({ profile: 'ci', profiles: { ci: { seccomp: 'seccomp/build.json' } } }),
+            '/repo/.roo/containers.json'
+        );
+        assert.strictEqual(config.profile, 'ci');
+        assert.strictEqual(config.profiles!.ci.seccomp, '/repo/.roo/seccomp/build.json');
+
+        const profile = resolveSecurityProfile('ci', config.profiles);
+        const hostConfig = toHostConfig(profile, () => '{ "defaultAction": "SCMP_ACT_ERRNO" }');
+        assert.deepStrictEqual(hostConfig.SecurityOpt, ['no-new-privileges', 'seccomp={"defaultAction":"SCMP_ACT_ERRNO"}']);
+
+        assert.throws(() => parseContainersConfig('{"profiles": {"x": {"privileged": true}}}', 'containers.json'), /unknown settings: privileged/);
+    });
+});
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { ContainerStats, DockerEngineClient, DockerRequest, DockerResponse, DockerTransport } from '../../src/containers/engineApi';
+import { ContainerStatsMonitor, ResourceSample, formatResourceSample, toResourceSample } from '../../src/containers/stats';
+import { respond } from './fakeEngine';
+
+function stats(cpu: number, system: number, memory: number, pids: number): ContainerStats {
+    return {
+        read: new Date().toISOString(),
+        cpu_stats: { cpu_usage: { total_usage: cpu }, system_cpu_usage: system, online_cpus: 4 },
+        precpu_stats: { cpu_usage: { total_usage: 0 } },
+        memory_stats: { usage: memory, limit: 4 * 1024 ** 3, stats: { inactive_file: 1024 ** 2 } },
+        blkio_stats: { io_service_bytes_recursive: [{ op: 'read', value: 4096 }, { op: 'write', value: 8192 }, { op: 'Read', value: 4096 }] },
+        pids_stats: { current: pids },
+    };
+}
+
+// Serves a queue of stats readings per container; containers without one are gone
+class FakeStats implements DockerTransport {
+    public readonly description = 'fake';
+    public readings = new Map<string, ContainerStats[]>();
+
+    public async request(request: DockerRequest): Promise<DockerResponse> {
+        const url = new URL(request.path, 'http://docker');
+        assert.strictEqual(url.searchParams.get('stream'), '0');
+        const id = url.pathname.split('/')[3];
+        const next = this.readings.get(id)?.shift();
+        return next ? respond(200, next) : respond(404, { message: `No such container: ${id}` });
+    }
+}
+
+suite('Container resource stats', () => {
+    test('converts engine readings, taking CPU from the previous reading', () => {
+        const first = toResourceSample(stats(1e9, 100e9, 512 * 1024 ** 2, 10), undefined, 1);
+        assert.strictEqual(first.cpuPercent, undefined);
+        assert.strictEqual(first.memoryBytes, 511 * 1024 ** 2);
+        assert.strictEqual(first.blockReadBytes, 8192);
+        assert.strictEqual(first.blockWriteBytes, 8192);
+        assert.strictEqual(first.pids, 10);
+
+        const second = toResourceSample(stats(3e9, 104e9, 512 * 1024 ** 2, 12), stats(1e9, 100e9, 0, 0).cpu_stats, 2);
+        // 2e9 of 4e9 system time on 4 cpus: two cores busy
+        assert.strictEqual(second.cpuPercent, 200);
+        assert.strictEqual(formatResourceSample(second), 'CPU 200% · 511.0 MB / 4.0 GB · 12 pids');
+    });
+
+    test('samples watched containers and keeps their peaks', async () => {
+        const engine = new FakeStats();
+        engine.readings.set('c1', [stats(1e9, 100e9, 2 * 1024 ** 3, 40), stats(3e9, 104e9, 1024 ** 3, 20)]);
+        const samples: string[] = [];
+        const monitor = new ContainerStatsMonitor(async () => new DockerEngineClient(engine), {
+            intervalMs: 60 * 60 * 1000,
+            onSample: (key: string, sample: ResourceSample) => samples.push(`${key}:${sample.pids}`),
+        });
+
+        monitor.watch('track-a', 'c1');
+        await monitor.poll();
+        await monitor.poll();
+        // Container removed: no error, figures kept
+        await monitor.poll();
+
+        assert.deepStrictEqual(samples, ['track-a:40', 'track-a:20']);
+        assert.strictEqual(monitor.latest('track-a')!.cpuPercent, 200);
+        const peaks = monitor.unwatch('track-a')!;
+        assert.strictEqual(peaks.cpuPercent, 200);
+        assert.strictEqual(peaks.memoryBytes, 2 * 1024 ** 3 - 1024 ** 2);
+        assert.strictEqual(peaks.pids, 40);
+        assert.strictEqual(peaks.samples, 2);
+        assert.strictEqual(monitor.peaks('track-a'), undefined);
+        monitor.dispose();
+    });
+
+    test('continues the peaks of a key when its container is replaced', async () => {
+        const engine = new FakeStats();
+        engine.readings.set('first', [stats(1e9, 100e9, 3 * 1024 ** 3, 5)]);
+        engine.readings.set('retry', [stats(1e9, 100e9, 1024 ** 3, 50)]);
+        const monitor = new ContainerStatsMonitor(async () => new DockerEngineClient(engine), { intervalMs: 60 * 60 * 1000 });
+
+        monitor.watch('track-a', 'first');
+        await monitor.poll();
+        monitor.watch('track-a', 'retry');
+        await monitor.poll();
+
+        const peaks = monitor.unwatch('track-a')!;
+        assert.strictEqual(peaks.memoryBytes, 3 * 1024 ** 3 - 1024 ** 2);
+        assert.strictEqual(peaks.pids, 50);
+        monitor.dispose();
+    });
+});
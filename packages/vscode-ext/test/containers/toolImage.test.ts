@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { DockerEngineClient, DockerRequest, DockerResponse, DockerTransport } from '../../src/containers/engineApi';
+import {
+    TOOL_IMAGE_PIN_FILE,
+    ToolImageError,
+    buildToolImage,
+    createTarArchive,
+    detectToolchain,
+    isPinOutdated,
+    readToolImagePin,
+    renderDockerfile,
+    toolImageTag,
+} from '../../src/containers/toolImage';
+
+// Answers /build with the given stream of build messages and records the request
+class FakeBuilder implements DockerTransport {
+    public readonly description = 'fake';
+    public build: { query: URLSearchParams; body: Buffer; contentType?: string } | undefined;
+
+    constructor(private readonly messages: object[]) {}
+
+    public async request(request: DockerRequest): Promise<DockerResponse> {
+        const url = new URL(request.path, 'http://docker');
+        this.build = { query: url.searchParams, body: request.body as Buffer, contentType: request.contentType };
+        const stream = this.messages.map(message => JSON.stringify(message)).join('\r\n') + '\r\n';
+        return { statusCode: 200, headers: {}, body: Readable.from([Buffer.from(stream)]) };
+    }
+}
+
+suite('Tool image', () => {
+    let project: string;
+
+    setup(() => {
+        project = fs.mkdtempSync(path.join(os.tmpdir(), 'roo-image-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(project, { recursive: true, force: true });
+    });
+
+    test('detects the toolchain from .nvmrc, engines and packageManager', () => {
+        assert.deepStrictEqual(detectToolchain(project), {
+            nodeVersion: '22',
+            nodeVersionSource: 'default',
+            packageManager: 'npm',
+            packageManagerVersion: undefined,
+            packageManagerSource: 'default',
+        });
+
+        fs.writeFileSync(path.join(project, 'package.json'), JSON.stringify({ engines: { node: '>=18.17 <21' } }));
+        fs.writeFileSync(path.join(project, 'yarn.lock'), '');
+        let toolchain = detectToolchain(project);
+        assert.strictEqual(toolchain.nodeVersion, '18');
+        assert.strictEqual(toolchain.packageManager, 'yarn');
+        assert.strictEqual(toolchain.packageManagerSource, 'yarn.lock');
+
+        fs.writeFileSync(path.join(project, '.nvmrc'), 'lts/iron\n');
+        fs.writeFileSync(path.join(project, 'package.json'), JSON.stringify({ packageManager: 'pnpm@9.1.0+sha512.abc' }));
+        toolchain = detectToolchain(project);
+        assert.strictEqual(toolchain.nodeVersion, 'iron');
+        assert.strictEqual(toolchain.packageManager, 'pnpm');
+        assert.strictEqual(toolchain.packageManagerVersion, '9.1.0+sha512.abc');
+
+        fs.writeFileSync(path.join(project, '.nvmrc'), 'system\n');
+        assert.throws(() => detectToolchain(project), ToolImageError);
+    });
+
+    test('tags images by the content of the rendered Dockerfile', () => {
+        const npm = renderDockerfile({ nodeVersion: '20', nodeVersionSource: '.nvmrc', packageManager: 'npm', packageManagerSource: 'default' });
+        const pnpm = renderDockerfile({ nodeVersion: '20', nodeVersionSource: '.nvmrc', packageManager: 'pnpm', packageManagerVersion: '9.1.0', packageManagerSource: 'package.json packageManager' });
+
+        assert.match(npm, /^FROM node:20-slim$/m);
+        assert.doesNotMatch(npm, /corepack prepare/);
+        assert.match(pnpm, /corepack prepare pnpm@9\.1\.0 --activate/);
+        assert.match(toolImageTag(npm), /^roo-master\/tool-image:[0-9a-f]{16}$/);
+        assert.strictEqual(toolImageTag(npm), toolImageTag(npm));
+        assert.notStrictEqual(toolImageTag(npm), toolImageTag(pnpm));
+    });
+
+    test('packs the build context as a ustar archive', () => {
+        const archive = createTarArchive([{ name: 'Dockerfile', content: 'FROM scratch\n' }]);
+
+        assert.strictEqual(archive.length, 512 + 512 + 1024);
+        assert.strictEqual(archive.toString('utf8', 0, 10), 'Dockerfile');
+        assert.strictEqual(parseInt(archive.toString('ascii', 124, 135), 8), 13);
+        assert.strictEqual(archive.toString('ascii', 257, 262), 'ustar');
+        assert.strictEqual(archive.toString('utf8', 512, 525), 'FROM scratch\n');
+
+        const header = Buffer.from(archive.subarray(0, 512));
+        const recorded = parseInt(header.toString('ascii', 148, 154), 8);
+        header.fill(' ', 148, 156);
+        assert.strictEqual(recorded, header.reduce((sum, byte) => sum + byte, 0));
+    });
+
+    test('builds, then pins the image id in .roo/tool-image.json', async () => {
+        fs.writeFileSync(path.join(project, '.nvmrc'), 'v20.11.1\n');
+        const engine = new FakeBuilder([
+            { stream: 'Step 1/6 : FROM node:20.11.1-slim\n' },
+            { stream: ' ---> abc\nSuccessfully built abc\n' },
+            { aux: { ID: 'sha256:0123abcd' } },
+        ]);
+        const output: string[] = [];
+
+        const pin = await buildToolImage(new DockerEngineClient(engine), project, line => output.push(line));
+
+        assert.strictEqual(engine.build!.contentType, 'application/x-tar');
+        assert.strictEqual(engine.build!.query.get('t'), pin.image);
+        assert.strictEqual(engine.build!.query.get('pull'), '1');
+        assert.match(engine.build!.body.toString('utf8', 512), /^# Generated by Roo Master/);
+        assert.deepStrictEqual(output.slice(1), ['Step 1/6 : FROM node:20.11.1-slim', ' ---> abc', 'Successfully built abc']);
+
+        assert.strictEqual(pin.digest, 'sha256:0123abcd');
+        assert.strictEqual(pin.nodeVersion, '20.11.1');
+        assert.deepStrictEqual(readToolImagePin(project), pin);
+        assert.ok(fs.existsSync(path.join(project, TOOL_IMAGE_PIN_FILE)));
+        assert.strictEqual(isPinOutdated(project, pin), false);
+
+        fs.writeFileSync(path.join(project, '.nvmrc'), '22\n');
+        assert.strictEqual(isPinOutdated(project, pin), true);
+    });
+
+    test('raises build failures reported in the output stream', async () => {
+        const engine = new FakeBuilder([
+            { stream: 'Step 2/6 : RUN apt-get update\n' },
+            { error: 'The command returned a non-zero code: 100', errorDetail: { code: 100, message: 'The command returned a non-zero code: 100' } },
+        ]);
+
+        await assert.rejects(buildToolImage(new DockerEngineClient(engine), project), /build image roo-master\/tool-image:.*non-zero code: 100/);
+        assert.strictEqual(readToolImagePin(project), undefined);
+    });
+});
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { AdaptiveConcurrency, ResourceSnapshot, ScalingDecision } from '../../src/orchestrator/concurrency';
+
+const GiB = 1024 ** 3;
+
+function snapshot(overrides: Partial<ResourceSnapshot> = {}): ResourceSnapshot {
+    return {
+        freeMemoryBytes: 16 * GiB,
+        loadAverage: 1,
+        cpuCount: 8,
+        runningTracks: 2,
+        waitingTracks: 4,
+        containerUsage: [],
+        ...overrides,
+    };
+}
+
+suite('Adaptive concurrency', () => {
+    test('starts at the recommendation and grows one step at a time up to the ceiling', () => {
+        const decisions: ScalingDecision[] = [];
+        const concurrency = new AdaptiveConcurrency({ ceiling: 4, initial: 2 }, decision => decisions.push(decision));
+
+        assert.strictEqual(concurrency.limit, 2);
+        concurrency.evaluate(snapshot());
+        assert.strictEqual(concurrency.limit, 3);
+        concurrency.evaluate(snapshot({ runningTracks: 3 }));
+        concurrency.evaluate(snapshot({ runningTracks: 4 }));
+        assert.strictEqual(concurrency.limit, 4);
+        // Holding at the ceiling is reported as well
+        assert.deepStrictEqual(decisions.map(decision => decision.limit), [3, 4, 4]);
+
+        // Nothing waiting to start, so no reason to grow
+        const idle = new AdaptiveConcurrency({ ceiling: 4, initial: 2 });
+        assert.strictEqual(idle.evaluate(snapshot({ waitingTracks: 0 })).limit, 2);
+    });
+
+    test('shrinks to what free memory and observed container usage allow', () => {
+        const concurrency = new AdaptiveConcurrency({ ceiling: 6 });
+
+        // 1 GiB headroom leaves 6 GiB: two more tracks at the observed 3 GiB each
+        const decision = concurrency.evaluate(snapshot({
+            freeMemoryBytes: 7 * GiB,
+            containerUsage: [{ timestamp: 0, memoryBytes: 3 * GiB, blockReadBytes: 0, blockWriteBytes: 0, networkRxBytes: 0, networkTxBytes: 0 }],
+        }));
+        assert.strictEqual(decision.limit, 4);
+        assert.match(decision.reason, /room for 4 track\(s\) at 3\.0 GiB each/);
+
+        assert.strictEqual(concurrency.evaluate(snapshot({ freeMemoryBytes: 0.5 * GiB, runningTracks: 0 })).limit, 1);
+    });
+
+    test('backs off under load and holds after an OOM kill', () => {
+        let now = 0;
+        const concurrency = new AdaptiveConcurrency({ ceiling: 8, initial: 6, oomCooldownMs: 60_000, now: () => now });
+
+        assert.strictEqual(concurrency.evaluate(snapshot({ loadAverage: 12 })).limit, 5);
+
+        const oom = concurrency.recordOomKill('track a');
+        assert.deepStrictEqual([oom.previous, oom.limit], [5, 2]);
+        assert.match(concurrency.evaluate(snapshot()).reason, /holding after an OOM kill/);
+        assert.strictEqual(concurrency.limit, 2);
+
+        now = 60_000;
+        assert.strictEqual(concurrency.evaluate(snapshot()).limit, 3);
+    });
+
+    test('reports a held limit once for each reason it holds for', () => {
+        let now = 0;
+        const decisions: ScalingDecision[] = [];
+        const concurrency = new AdaptiveConcurrency({ ceiling: 4, initial: 2, oomCooldownMs: 60_000, now: () => now }, decision => decisions.push(decision));
+
+        concurrency.evaluate(snapshot({ waitingTracks: 0 }));
+        concurrency.evaluate(snapshot({ waitingTracks: 0, loadAverage: 2 }));
+        concurrency.recordOomKill('track a');
+        // The remaining cooldown changes between evaluations; the reason does not
+        concurrency.evaluate(snapshot());
+        now = 10_000;
+        concurrency.evaluate(snapshot());
+        now = 60_000;
+        concurrency.evaluate(snapshot({ runningTracks: 1, waitingTracks: 0 }));
+
+        assert.deepStrictEqual(decisions.map(decision => [decision.previous, decision.limit, decision.reason]), [
+            [2, 2, 'resources steady'],
+            [2, 1, 'track a was OOM killed; holding for 60s'],
+            [1, 1, 'holding after an OOM kill for 60s'],
+            [1, 1, 'resources steady'],
+        ]);
+    });
+});
@@ -0,0 +1,117 @@
+import * as assert from 'assert';
+import { CancellationSource, ExecutionControl } from '../../src/orchestrator/executionControl';
+import { FakeClock, settle } from './fakeClock';
+
+// Resolves to whether `promise` has settled by the time callbacks have run
+async function isSettled(promise: Promise<unknown>): Promise<boolean> {
+    let settled = false;
+    promise.then(() => settled = true, () => settled = true);
+    await settle();
+    return settled;
+}
+
+suite('Execution control', () => {
+    test('pausing holds running tracks until resumed', async () => {
+        const control = new ExecutionControl(new FakeClock());
+        const plan = control.begin();
+        const track = control.beginTrack('track-1', plan);
+
+        assert.strictEqual(control.pause(), true);
+        assert.strictEqual(control.pause(), false);
+        assert.strictEqual(control.isPaused, true);
+        const waiting = control.waitWhilePaused(track);
+        assert.strictEqual(await isSettled(waiting), false);
+
+        assert.strictEqual(control.resume(), true);
+        assert.strictEqual(await isSettled(waiting), true);
+        assert.strictEqual(control.resume(), false);
+        assert.strictEqual(await isSettled(control.waitWhilePaused(track)), true);
+    });
+
+    test('cancelling or ending the plan releases paused tracks', async () => {
+        const control = new ExecutionControl(new FakeClock());
+        const plan = control.begin();
+        const track = control.beginTrack('track-1', plan);
+        control.pause();
+
+        const waiting = control.waitWhilePaused(track);
+        assert.strictEqual(control.cancelPlan(), true);
+        assert.strictEqual(await isSettled(waiting), true);
+        assert.strictEqual(track.isCancellationRequested, true);
+
+        // Still paused for anything not cancelled, until the plan ends
+        const other = control.beginTrack('track-2', new CancellationSource().token);
+        const otherWaiting = control.waitWhilePaused(other);
+        assert.strictEqual(await isSettled(otherWaiting), false);
+        control.end();
+        assert.strictEqual(await isSettled(otherWaiting), true);
+        assert.strictEqual(control.isPaused, false);
+        assert.strictEqual(control.isRunning, false);
+        assert.strictEqual(control.cancelPlan(), false);
+    });
+
+    test('cancelling a track leaves the others running', () => {
+        const control = new ExecutionControl(new FakeClock());
+        const plan = control.begin();
+        const first = control.beginTrack('track-1', plan);
+        const second = control.beginTrack('track-2', plan);
+
+        assert.strictEqual(control.cancelTrack('track-1'), true);
+        assert.strictEqual(first.isCancellationRequested, true);
+        assert.strictEqual(second.isCancellationRequested, false);
+        assert.strictEqual(plan.isCancellationRequested, false);
+
+        control.endTrack('track-1');
+        assert.strictEqual(control.isTrackRunning('track-1'), false);
+        assert.strictEqual(control.cancelTrack('track-1'), false);
+        assert.strictEqual(control.cancelTrack('unknown'), false);
+    });
+
+    test('the plan follows the caller\'s token, and tracks follow the plan', () => {
+        const caller = new CancellationSource();
+        const control = new ExecutionControl(new FakeClock());
+        const plan = control.begin(caller.token);
+        const track = control.beginTrack('track-1', plan);
+        assert.throws(() => control.begin(), /already being executed/);
+
+        caller.cancel();
+        assert.strictEqual(plan.isCancellationRequested, true);
+        assert.strictEqual(track.isCancellationRequested, true);
+        // A track started after cancellation starts cancelled
+        assert.strictEqual(control.beginTrack('track-2', plan).isCancellationRequested, true);
+        control.end();
+
+        const cancelled = new CancellationSource();
+        cancelled.cancel();
+        assert.strictEqual(control.begin(cancelled.token).isCancellationRequested, true);
+    });
+
+    test('a retry backoff ends as soon as its track is cancelled', async () => {
+        const clock = new FakeClock();
+        const control = new ExecutionControl(clock);
+        const track = control.beginTrack('track-1', control.begin());
+
+        const backoff = control.delay(60_000, track);
+        assert.strictEqual(clock.pendingTimers, 1);
+        await clock.advance(1000);
+        assert.strictEqual(await isSettled(backoff), false);
+
+        control.cancelTrack('track-1');
+        assert.strictEqual(await isSettled(backoff), true);
+        assert.strictEqual(clock.pendingTimers, 0);
+        // Already cancelled, so nothing to wait for
+        control.delay(60_000, track);
+        assert.strictEqual(clock.pendingTimers, 0);
+    });
+
+    test('a retry backoff otherwise waits out its delay', async () => {
+        const clock = new FakeClock();
+        const control = new ExecutionControl(clock);
+        const backoff = control.delay(2000, control.begin());
+
+        await clock.advance(1999);
+        assert.strictEqual(await isSettled(backoff), false);
+        await clock.advance(1);
+        assert.strictEqual(await isSettled(backoff), true);
+    });
+});
@@ -0,0 +1,49 @@
+import { SchedulerClock } from '../../src/orchestrator/scheduler';
+
+// Timers only fire when the test advances time
+export class FakeClock implements SchedulerClock {
+    private time = 0;
+    private nextId = 0;
+    private timers = new Map<number, { at: number; callback: () => void }>();
+
+    public now(): number {
+        return this.time;
+    }
+
+    public setTimeout(callback: () => void, ms: number): unknown {
+        const id = this.nextId++;
+        this.timers.set(id, { at: this.time + ms, callback });
+        return id;
+    }
+
+    public clearTimeout(handle: unknown): void {
+        this.timers.delete(handle as number);
+    }
+
+    public get pendingTimers(): number {
+        return this.timers.size;
+    }
+
+    // Fires due timers in order, letting promise callbacks run after each
+    public async advance(ms: number): Promise<void> {
+        const until = this.time + ms;
+        await settle();
+        for (;;) {
+            const due = Array.from(this.timers.entries())
+                .filter(([, timer]) => timer.at <= until)
+                .sort(([, a], [, b]) => a.at - b.at)[0];
+            if (!due) {
+                break;
+            }
+            this.timers.delete(due[0]);
+            this.time = due[1].at;
+            due[1].callback();
+            await settle();
+        }
+        this.time = until;
+    }
+}
+
+export function settle(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
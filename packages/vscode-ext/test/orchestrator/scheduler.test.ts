@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import { SchedulableTrack, SchedulerEvent, TrackScheduler } from '../../src/orchestrator/scheduler';
+import { FakeClock } from './fakeClock';
+
+interface TestTrack extends SchedulableTrack {
+    durationMs: number;
+    fails?: boolean;
+    priority?: number;
+}
+
+function track(id: string, durationMs: number, dependencies: string[] = [], extra: Partial<TestTrack> = {}): TestTrack {
+    return { id, durationMs, dependencies, ...extra };
+}
+
+function schedule(tracks: TestTrack[], options: { limit?: () => number; completedTrackIds?: string[]; trackIds?: string[] } = {}) {
+    const clock = new FakeClock();
+    const events: SchedulerEvent[] = [];
+    const scheduler = new TrackScheduler(
+        tracks,
+        candidate => new Promise<boolean>(resolve => clock.setTimeout(() => resolve(!candidate.fails), candidate.durationMs)),
+        {
+            concurrency: options.limit ?? (() => 2),
+            priority: candidate => candidate.priority ?? 0,
+            completedTrackIds: options.completedTrackIds,
+            trackIds: options.trackIds,
+            recheckIntervalMs: 1000,
+            clock,
+        }
+    );
+    scheduler.onEvent(event => events.push(event));
+    const started = () => events.flatMap(event => event.type === 'started' ? [[event.trackId, event.time]] : []);
+    return { clock, events, scheduler, started };
+}
+
+suite('Track scheduler', () => {
+    test('starts a track the moment its dependencies complete, not when its siblings do', async () => {
+        const { clock, events, scheduler, started } = schedule([
+            track('fast', 10_000),
+            track('slow', 100_000),
+            track('next', 10_000, ['fast']),
+            track('last', 5_000, ['next', 'slow']),
+        ]);
+        let finished = false;
+        scheduler.run().then(() => finished = true);
+
+        await clock.advance(200_000);
+        assert.deepStrictEqual(started(), [['fast', 0], ['slow', 0], ['next', 10_000], ['last', 100_000]]);
+        assert.strictEqual(finished, true);
+        assert.deepStrictEqual(events[events.length - 1], { type: 'finished', time: 105_000 });
+        assert.strictEqual(clock.pendingTimers, 0);
+    });
+
+    test('fills free slots by priority and waits for the limit to grow', async () => {
+        let limit = 1;
+        const { clock, events, scheduler, started } = schedule([
+            track('low', 10_000, [], { priority: 1 }),
+            track('high', 10_000, [], { priority: 5 }),
+            track('mid', 10_000, [], { priority: 3 }),
+        ], { limit: () => limit });
+        const run = scheduler.run();
+
+        await clock.advance(0);
+        assert.deepStrictEqual(started(), [['high', 0]]);
+        assert.deepStrictEqual(events.filter(event => event.type === 'waiting'), [{ type: 'waiting', trackIds: ['mid', 'low'], time: 0, limit: 1 }]);
+
+        // The limit is asked again while tracks wait, without a track finishing
+        limit = 2;
+        await clock.advance(1000);
+        assert.deepStrictEqual(started(), [['high', 0], ['mid', 1000]]);
+
+        await clock.advance(9000);
+        assert.deepStrictEqual(started(), [['high', 0], ['mid', 1000], ['low', 10_000]]);
+        await clock.advance(20_000);
+        await run;
+    });
+
+    test('blocks the dependents of a failed track and skips completed ones', async () => {
+        const { clock, events, scheduler, started } = schedule([
+            track('done', 10_000),
+            track('broken', 10_000, ['done'], { fails: true }),
+            track('after', 10_000, ['broken']),
+            track('unrelated', 10_000, ['done']),
+        ], { completedTrackIds: ['done'] });
+        const run = scheduler.run();
+
+        await clock.advance(20_000);
+        await run;
+        assert.deepStrictEqual(started(), [['broken', 0], ['unrelated', 0]]);
+        assert.deepStrictEqual(events.filter(event => event.type === 'blocked'), [
+            { type: 'blocked', trackId: 'after', time: 10_000, reason: 'Blocked by failed dependencies: broken' },
+        ]);
+        assert.strictEqual(scheduler.retry('broken'), false);
+    });
+
+    test('holds new tracks while paused, stops after the running ones and takes retries', async () => {
+        const { clock, events, scheduler, started } = schedule([
+            track('a', 10_000, [], { fails: true }),
+            track('b', 10_000, ['a']),
+            track('c', 10_000),
+        ], { limit: () => 1 });
+        scheduler.pause();
+        const run = scheduler.run();
+
+        await clock.advance(5000);
+        assert.deepStrictEqual(started(), []);
+        scheduler.resume();
+        await clock.advance(10_000);
+        assert.deepStrictEqual(started(), [['a', 5000], ['c', 15_000]]);
+
+        // Retried while c runs, a is queued again and releases b once it completes
+        assert.strictEqual(scheduler.retry('a'), true);
+        assert.strictEqual(scheduler.complete('a'), true);
+        await clock.advance(10_000);
+        assert.deepStrictEqual(started(), [['a', 5000], ['c', 15_000], ['b', 25_000]]);
+
+        scheduler.stop();
+        assert.strictEqual(scheduler.isFinished, false);
+        await clock.advance(10_000);
+        await run;
+        assert.deepStrictEqual(events.map(event => event.type).slice(-3), ['stopped', 'completed', 'finished']);
+    });
+});
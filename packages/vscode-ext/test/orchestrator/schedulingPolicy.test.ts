@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { Graph } from '@dagrejs/graphlib';
+import { createTrackPriority, findCriticalPath, forecastSchedule, formatMinutes } from '../../src/orchestrator/schedulingPolicy';
+import { Track, WorkPlan } from '../../src/orchestrator/workPlanParser';
+
+function track(id: string, estimatedDuration: number, dependencies: string[] = [], priority?: number): Track {
+    return {
+        id,
+        name: `Track ${id}`,
+        description: '',
+        dependencies,
+        fileOverlaps: [],
+        estimatedComplexity: 5,
+        estimatedDuration,
+        tasks: [],
+        status: 'pending',
+        priority,
+    };
+}
+
+function workPlan(tracks: Track[], extraEdges: [string, string][] = []): WorkPlan {
+    const dependencyGraph = new Graph();
+    tracks.forEach(t => dependencyGraph.setNode(t.id));
+    tracks.forEach(t => t.dependencies.forEach(dependency => dependencyGraph.setEdge(dependency, t.id)));
+    extraEdges.forEach(([from, to]) => dependencyGraph.setEdge(from, to));
+    return { id: 'workplan-1', prompt: 'build it', tracks, dependencyGraph, parallelizableTracks: [tracks.map(t => t.id)] };
+}
+
+suite('Scheduling policy', () => {
+    test('finds the critical path and the slack of the tracks off it', () => {
+        const plan = workPlan([
+            track('a', 60),
+            track('b', 30),
+            track('c', 90, ['a']),
+            track('d', 10, ['b']),
+            track('e', 20, ['c', 'd']),
+        ]);
+
+        const criticalPath = findCriticalPath(plan)!;
+        assert.deepStrictEqual(criticalPath.trackIds, ['a', 'c', 'e']);
+        assert.strictEqual(criticalPath.minutes, 170);
+        assert.deepStrictEqual(criticalPath.timings.get('b'), { earliestStart: 0, remaining: 60, slack: 110 });
+        assert.deepStrictEqual(criticalPath.timings.get('e'), { earliestStart: 150, remaining: 20, slack: 0 });
+
+        // Completed tracks take no time, which moves the critical path
+        const resumed = findCriticalPath(plan, ['a', 'c'])!;
+        assert.deepStrictEqual(resumed.trackIds, ['b', 'd', 'e']);
+        assert.strictEqual(resumed.minutes, 60);
+
+        // Edges only the dependency graph knows of count too
+        assert.deepStrictEqual(findCriticalPath(workPlan([track('x', 10), track('y', 10)], [['x', 'y']]))!.trackIds, ['x', 'y']);
+        assert.strictEqual(findCriticalPath(workPlan([track('x', 10, ['y']), track('y', 10, ['x'])])), undefined);
+    });
+
+    test('starts critical tracks first, after tracks given a higher priority', () => {
+        const plan = workPlan([track('short', 10), track('other', 10), track('long', 100)]);
+        const criticalPath = findCriticalPath(plan);
+
+        const priority = createTrackPriority(criticalPath);
+        assert.ok(priority({ id: 'long' }) > priority({ id: 'short' }));
+        const userPriority = createTrackPriority(criticalPath, trackId => trackId === 'other' ? 1 : 0);
+        assert.ok(userPriority({ id: 'other' }) > userPriority({ id: 'long' }));
+
+        // In plan order the long track would start last and end at 110
+        const forecast = forecastSchedule(plan, 2)!;
+        assert.strictEqual(forecast.makespanMinutes, 100);
+        assert.deepStrictEqual(Array.from(forecast.starts), [['long', 0], ['short', 0], ['other', 10]]);
+
+        const prioritised = forecastSchedule(plan, 2, { userPriority: trackId => trackId === 'long' ? -1 : 0 })!;
+        assert.strictEqual(prioritised.makespanMinutes, 110);
+    });
+
+    test('forecasts only the tracks that are to run', () => {
+        const plan = workPlan([track('a', 60), track('b', 30, ['a']), track('c', 45), track('d', 15, ['c'])]);
+
+        assert.strictEqual(forecastSchedule(plan, 1)!.makespanMinutes, 150);
+        assert.strictEqual(forecastSchedule(plan, 4)!.makespanMinutes, 90);
+        const resumed = forecastSchedule(plan, 4, { completedTrackIds: ['a'], trackIds: ['b', 'd'] })!;
+        assert.deepStrictEqual(Array.from(resumed.starts.keys()), ['b']);
+        assert.strictEqual(resumed.makespanMinutes, 30);
+
+        assert.strictEqual(formatMinutes(150), '2h 30m');
+        assert.strictEqual(formatMinutes(45), '45m');
+    });
+});
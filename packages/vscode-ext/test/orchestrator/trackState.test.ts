@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import { Graph } from '@dagrejs/graphlib';
+import { StateStorage, TRACK_STATE_KEY, TrackStateStore, reconcileTrackState } from '../../src/orchestrator/trackState';
+import { Track, WorkPlan } from '../../src/orchestrator/workPlanParser';
+import { container } from '../containers/fakeEngine';
+
+// Round-trips values through JSON, as workspace storage does
+class MemoryStorage implements StateStorage {
+    public readonly values = new Map<string, string>();
+
+    public get<T>(key: string): T | undefined {
+        const value = this.values.get(key);
+        return value === undefined ? undefined : JSON.parse(value);
+    }
+
+    public async update(key: string, value: unknown): Promise<void> {
+        if (value === undefined) {
+            this.values.delete(key);
+        } else {
+            this.values.set(key, JSON.stringify(value));
+        }
+    }
+}
+
+function track(id: string, dependencies: string[] = []): Track {
+    return {
+        id,
+        name: `Track ${id}`,
+        description: '',
+        dependencies,
+        fileOverlaps: [],
+        estimatedComplexity: 5,
+        estimatedDuration: 60,
+        tasks: [],
+        status: 'pending',
+    };
+}
+
+function workPlan(): WorkPlan {
+    const dependencyGraph = new Graph();
+    ['a', 'b', 'c'].forEach(id => dependencyGraph.setNode(id));
+    dependencyGraph.setEdge('a', 'c');
+    return {
+        id: 'workplan-1',
+        prompt: 'build it',
+        tracks: [track('a'), track('b'), track('c', ['a'])],
+        dependencyGraph,
+        parallelizableTracks: [['a', 'b'], ['c']],
+        recommendedConcurrency: 2,
+    };
+}
+
+suite('Track state', () => {
+    test('persists the work plan and track progress across store instances', async () => {
+        const storage = new MemoryStorage();
+        const store = new TrackStateStore(storage, () => 1000);
+        const changes: (string | undefined)[] = [];
+        store.onDidChange(trackId => changes.push(trackId));
+
+        await store.startWorkPlan(workPlan());
+        await store.updateTrack('a', { status: 'in-progress', branchName: 'puppet/a', worktreePath: '/wt/a', containerId: 'c1', mcpPort: 4100 });
+        await store.updateTrack('unknown', { status: 'failed' });
+        assert.deepStrictEqual(changes, [undefined, 'a']);
+
+        const restored = new TrackStateStore(storage);
+        const plan = restored.getWorkPlan()!;
+        assert.strictEqual(plan.id, 'workplan-1');
+        assert.strictEqual(plan.recommendedConcurrency, 2);
+        assert.deepStrictEqual(plan.tracks.map(t => [t.id, t.status, t.branch]), [['a', 'in-progress', 'puppet/a'], ['b', 'pending', undefined], ['c', 'pending', undefined]]);
+        assert.deepStrictEqual(plan.dependencyGraph.successors('a'), ['c']);
+        assert.deepStrictEqual(restored.getTrack('a'), {
+            status: 'in-progress', branchName: 'puppet/a', worktreePath: '/wt/a', containerId: 'c1', mcpPort: 4100, retryCount: 0, updatedAt: 1000,
+        });
+
+        await restored.clear();
+        assert.strictEqual(storage.values.has(TRACK_STATE_KEY), false);
+        assert.strictEqual(new TrackStateStore(storage).getWorkPlan(), undefined);
+    });
+
+    test('reconciles tracks with the worktrees and containers left behind', async () => {
+        const store = new TrackStateStore(new MemoryStorage());
+        await store.startWorkPlan(workPlan());
+        await store.updateTrack('a', { status: 'completed', worktreePath: '/wt/a' });
+        await store.updateTrack('b', { status: 'in-progress', worktreePath: '/wt/b', containerId: 'old-b' });
+        await store.updateTrack('c', { status: 'failed', worktreePath: '/wt/c' });
+
+        const reconciliation = reconcileTrackState(store, {
+            workspace: '/repo',
+            containers: [
+                container('roo-track-b', { id: 'old-b' }),
+                container('roo-track-c', { trackId: 'c', workspace: '/repo' }),
+                container('roo-track-c-elsewhere', { trackId: 'c', workspace: '/other' }),
+                container('roo-registry-proxy', { role: 'registry-proxy' }),
+            ],
+            worktreeExists: worktreePath => worktreePath !== '/wt/a',
+        })!;
+
+        const [a, b, c] = reconciliation.tracks;
+        assert.deepStrictEqual([a.done, a.interrupted, a.worktreePath, a.worktreeMissing], [true, false, undefined, true]);
+        assert.deepStrictEqual([b.done, b.interrupted, b.worktreePath], [false, true, '/wt/b']);
+        assert.deepStrictEqual(b.containers.map(found => found.name), ['roo-track-b']);
+        assert.deepStrictEqual([c.done, c.interrupted, c.worktreePath], [false, false, '/wt/c']);
+        assert.deepStrictEqual(c.containers.map(found => found.name), ['roo-track-c']);
+
+        // Skipped tracks need no further run, like completed ones
+        await store.updateTrack('c', { status: 'skipped' });
+        assert.strictEqual(reconcileTrackState(store, { containers: [], worktreeExists: () => true })!.tracks[2].done, true);
+
+        await store.clear();
+        assert.strictEqual(reconcileTrackState(store, { containers: [], worktreeExists: () => true }), undefined);
+    });
+});